@@ -1,6 +1,16 @@
 import type { Address } from 'viem';
 import { createBaseAccountSDK } from '@base-org/account';
 import { BaseConnector } from '../../core/BaseConnector';
+import {
+	ChainNotConfiguredError,
+	NoAccountsError,
+	ProviderNotFoundError,
+	UnauthorizedError,
+	UnrecognizedChainError,
+	toConnectorError
+} from '../../core/errors.js';
+import { abortable, throwIfAborted } from '../../core/abort.js';
+import type { ConnectorOperationOptions } from '../../core/types/connector.js';
 import type { CoinbaseConnectorOptions } from './types.js';
 import { normalizeChainId } from '../../utils';
 
@@ -29,6 +39,7 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 
 	constructor(options: CoinbaseConnectorOptions) {
 		super(options);
+		this.logger = this.logger.child('Coinbase');
 		this.coinbaseOptions = options;
 	}
 
@@ -79,70 +90,81 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 			// 设置事件监听
 			this.setupEventListeners();
 		} catch (error) {
-			console.error('Failed to initialize Base Account SDK:', error);
-			throw new Error('Failed to initialize Coinbase Smart Wallet');
+			this.logger.error('Failed to initialize Base Account SDK:', error);
+			throw new ProviderNotFoundError('Failed to initialize Coinbase Smart Wallet', {
+				cause: error,
+				connectorId: this.id
+			});
 		}
 	}
 
 	/**
 	 * 连接钱包
 	 */
-	async connect(chainId: number): Promise<{
+	protected async doConnect(
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<{
 		address: Address;
 		addresses: Address[];
 		chainId: number;
 	}> {
-		try {
-			if (!this.getChain(chainId)) {
-				throw new Error(`Chain [${chainId}] is not supported by this dApp`);
-			}
+		const { signal } = options;
+		throwIfAborted(signal, this.id);
 
-			if (!this.supportsChain(chainId)) {
-				throw new Error(`Chain [${chainId}] is not supported by this connector [${this.name}]`);
-			}
+		if (!this.getChain(chainId)) {
+			throw new ChainNotConfiguredError(chainId, { connectorId: this.id });
+		}
 
-			this.initializeSDK();
+		if (!this.supportsChain(chainId)) {
+			throw new UnrecognizedChainError(
+				chainId,
+				`Chain [${chainId}] is not supported by this connector [${this.name}]`,
+				{ connectorId: this.id }
+			);
+		}
 
-			if (!this.provider) {
-				throw new Error('Failed to initialize provider');
-			}
-			// 请求账户访问权限
-			const accounts = (await this.provider.request({
-				method: 'eth_requestAccounts'
-			})) as Address[];
+		this.initializeSDK();
 
-			if (!accounts || accounts.length === 0) {
-				throw new Error('No accounts found');
-			}
+		if (!this.provider) {
+			throw new ProviderNotFoundError('Failed to initialize provider', { connectorId: this.id });
+		}
+		// 请求账户访问权限（SDK 弹窗无法关闭，取消时只放弃等待结果）
+		const accounts = (await abortable(
+			this.provider.request({ method: 'eth_requestAccounts' }),
+			signal,
+			{ connectorId: this.id }
+		)) as Address[];
 
-			// 获取当前链 ID
-			const currentChainId = await this.getChainId();
+		if (!accounts || accounts.length === 0) {
+			throw new NoAccountsError(undefined, { connectorId: this.id });
+		}
 
-			// 如果指定了链 ID 且与当前不同，尝试切换
-			if (chainId && chainId !== currentChainId) {
-				await this.switchChain(chainId);
-			}
+		// 获取当前链 ID
+		const currentChainId = await this.getChainId();
 
-			const address = accounts[0];
-			const connectedChainId = chainId || currentChainId;
+		// 如果指定了链 ID 且与当前不同，尝试切换
+		if (chainId && chainId !== currentChainId) {
+			await this.doSwitchChain(chainId, options);
+		}
 
-			// 触发连接事件（包含完整信息）
-			this.emit('connected', {
-				address,
-				addresses: accounts,
-				chainId: connectedChainId,
-				chains: [connectedChainId] // Coinbase Smart Wallet may support multi-chain
-			});
+		throwIfAborted(signal, this.id);
+		const address = accounts[0];
+		const connectedChainId = chainId || currentChainId;
 
-			return {
-				address,
-				addresses: accounts,
-				chainId: connectedChainId
-			};
-		} catch (error) {
-			this.emit('error', error as Error);
-			throw error;
-		}
+		// 触发连接事件（包含完整信息）
+		this.emit('connected', {
+			address,
+			addresses: accounts,
+			chainId: connectedChainId,
+			chains: [connectedChainId] // Coinbase Smart Wallet may support multi-chain
+		});
+
+		return {
+			address,
+			addresses: accounts,
+			chainId: connectedChainId
+		};
 	}
 
 	/**
@@ -171,7 +193,7 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 		})) as Address[];
 
 		if (!accounts || accounts.length === 0) {
-			throw new Error('No accounts found');
+			throw new NoAccountsError(undefined, { connectorId: this.id });
 		}
 
 		return accounts[0];
@@ -182,7 +204,7 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 	 */
 	async getAccounts(): Promise<Address[]> {
 		if (!this.provider) {
-			throw new Error('Provider not available');
+			throw new ProviderNotFoundError('Provider not available', { connectorId: this.id });
 		}
 
 		const accounts = (await this.provider.request({
@@ -215,7 +237,7 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 
 		// 检查地址是否在授权列表中
 		if (!accounts.includes(address)) {
-			throw new Error('Account not authorized');
+			throw new UnauthorizedError(undefined, { connectorId: this.id });
 		}
 
 		// 触发账户变更事件（使用 permissionChanged）
@@ -232,16 +254,24 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 	/**
 	 * 切换链
 	 */
-	async switchChain(chainId: number): Promise<void> {
+	protected async doSwitchChain(
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<void> {
+		const { signal } = options;
 		if (!this.getChain(chainId)) {
-			throw new Error(`Chain [${chainId}] is not supported by this dApp`);
+			throw new ChainNotConfiguredError(chainId, { connectorId: this.id });
 		}
 		if (!this.supportsChain(chainId)) {
-			throw new Error(`Chain [${chainId}] is not supported by this connector [${this.name}]`);
+			throw new UnrecognizedChainError(
+				chainId,
+				`Chain [${chainId}] is not supported by this connector [${this.name}]`,
+				{ connectorId: this.id }
+			);
 		}
 
 		if (!this.provider) {
-			throw new Error('Provider not initialized');
+			throw new ProviderNotFoundError('Provider not initialized', { connectorId: this.id });
 		}
 
 		const chain = this.getChain(chainId);
@@ -251,12 +281,17 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 		this.isSwitchingChain = true;
 
 		try {
-			console.log('[Coinbase] Attempting to switch to chain:', chainId);
+			throwIfAborted(signal, this.id);
+			this.logger.debug('Attempting to switch to chain:', chainId);
 			// 尝试切换到目标链
-			await this.provider.request({
-				method: 'wallet_switchEthereumChain',
-				params: [{ chainId: hexChainId }]
-			});
+			await abortable(
+				this.provider.request({
+					method: 'wallet_switchEthereumChain',
+					params: [{ chainId: hexChainId }]
+				}),
+				signal,
+				{ connectorId: this.id }
+			);
 
 			// Check if there are accounts on the new chain
 			const accounts = (await this.provider.request({
@@ -264,54 +299,54 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 			})) as Address[];
 
 			if (!accounts || accounts.length === 0) {
-				console.warn('[Coinbase] No accounts on chain', chainId);
-				throw new Error(`No wallet accounts available on this network`);
+				this.logger.warn('No accounts on chain', chainId);
+				throw new NoAccountsError('No wallet accounts available on this network', {
+					connectorId: this.id
+				});
 			}
 
-			console.log('[Coinbase] Chain switch successful');
+			this.logger.debug('Chain switch successful');
 			// Wallet will emit chainChanged event automatically
 		} catch (error) {
-			console.error('[Coinbase] Chain switch failed:', error);
+			this.logger.error('Chain switch failed:', error);
 
 			// Re-throw our custom error about no accounts
-			if (error instanceof Error && error.message.includes('No wallet accounts')) {
+			if (error instanceof NoAccountsError) {
 				throw error;
 			}
 
 			// 4902 表示链未添加到钱包
 			const err = error as { code?: number; message?: string };
 			if (err.code === 4902 && chain) {
-				console.log('[Coinbase] Chain not found, attempting to add...');
+				this.logger.debug('Chain not found, attempting to add...');
 				try {
 					// 尝试添加链
-					await this.provider.request({
-						method: 'wallet_addEthereumChain',
-						params: [
-							{
-								chainId: hexChainId,
-								chainName: chain.name,
-								nativeCurrency: chain.nativeCurrency,
-								rpcUrls: chain.rpcUrls?.default?.http || [],
-								blockExplorerUrls: chain.blockExplorers?.default?.url
-									? [chain.blockExplorers.default.url]
-									: []
-							}
-						]
-					});
-					console.log('[Coinbase] Chain added successfully');
+					await abortable(
+						this.provider.request({
+							method: 'wallet_addEthereumChain',
+							params: [
+								{
+									chainId: hexChainId,
+									chainName: chain.name,
+									nativeCurrency: chain.nativeCurrency,
+									rpcUrls: chain.rpcUrls?.default?.http || [],
+									blockExplorerUrls: chain.blockExplorers?.default?.url
+										? [chain.blockExplorers.default.url]
+										: []
+								}
+							]
+						}),
+						signal,
+						{ connectorId: this.id }
+					);
+					this.logger.debug('Chain added successfully');
 					// Wallet will emit chainChanged event automatically
 				} catch (addError) {
-					console.error('[Coinbase] Failed to add chain:', addError);
-					const err = new Error(
-						addError instanceof Error ? addError.message : 'Failed to add chain'
-					);
-					this.emit('error', err);
-					throw err;
+					this.logger.error('Failed to add chain:', addError);
+					throw toConnectorError(addError, this.id);
 				}
 			} else {
-				const err = new Error(error instanceof Error ? error.message : 'Failed to switch chain');
-				this.emit('error', err);
-				throw err;
+				throw toConnectorError(error, this.id);
 			}
 		} finally {
 			// Reset flag after operation
@@ -324,7 +359,7 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 	/**
 	 * 检查是否已授权
 	 */
-	async isAuthorized(): Promise<boolean> {
+	protected async doIsAuthorized(): Promise<boolean> {
 		try {
 			if (!this.provider) {
 				this.initializeSDK();
@@ -353,7 +388,7 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 
 		// 断开连接事件
 		this.provider.on('disconnect', (error: unknown) => {
-			console.log('Base Account disconnected:', error);
+			this.logger.debug('Base Account disconnected:', error);
 			this.emit('disconnected');
 		});
 
@@ -361,13 +396,13 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 		this.provider.on('accountsChanged', (accounts: string[]) => {
 			void (async () => {
 				const addresses = accounts as Address[];
-				console.log('[Coinbase] accountsChanged event:', addresses);
+				this.logger.debug('accountsChanged event:', addresses);
 				// Don't disconnect if switching chains
 				if (addresses.length === 0 && !this.isSwitchingChain) {
-					console.log('[Coinbase] No accounts and not switching - disconnecting');
+					this.logger.debug('No accounts and not switching - disconnecting');
 					this.emit('disconnected');
 				} else if (addresses.length === 0 && this.isSwitchingChain) {
-					console.log('[Coinbase] No accounts but switching - NOT disconnecting');
+					this.logger.debug('No accounts but switching - NOT disconnecting');
 				} else {
 					// 触发权限变更事件（包含完整连接信息）
 					const chainId = await this.getChainId();
@@ -385,7 +420,7 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 		this.provider.on('chainChanged', (chainId: string | number) => {
 			void (async () => {
 				const normalizedChainId = normalizeChainId(chainId);
-				console.log('[Coinbase] chainChanged event:', normalizedChainId);
+				this.logger.debug('chainChanged event:', normalizedChainId);
 				// 触发权限变更事件（包含完整连接信息）
 				const accounts = await this.getAccounts();
 				this.emit('permissionChanged', {
@@ -398,36 +433,15 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 		});
 	}
 
-	/**
-	 * 签名消息（示例方法）
-	 */
-	async signMessage(message: string, address?: Address): Promise<string> {
-		if (!this.provider) {
-			throw new Error('Provider not initialized');
-		}
-
-		const account = address || (await this.getAccount());
-		// Convert string to hex without Buffer (browser compatible)
-		const encoder = new TextEncoder();
-		const data = encoder.encode(message);
-		const hexMessage =
-			'0x' + Array.from(data, (byte) => byte.toString(16).padStart(2, '0')).join('');
-
-		const signature = await this.provider.request({
-			method: 'personal_sign',
-			params: [hexMessage, account]
-		});
-
-		return signature as string;
-	}
-
 	/**
 	 * 获取底层 EIP-1193 Provider 实例
 	 * 如果 provider 未初始化，会先初始化 SDK
 	 */
 	getProvider(): ReturnType<ReturnType<typeof createBaseAccountSDK>['getProvider']> {
 		if (!this.provider) {
-			throw new Error('Provider not initialized. Please call connect() first.');
+			throw new ProviderNotFoundError('Provider not initialized. Please call connect() first.', {
+				connectorId: this.id
+			});
 		}
 		return this.provider;
 	}
@@ -455,7 +469,7 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 			try {
 				currentChainId = await this.getChainId();
 			} catch (error) {
-				console.warn('[CoinbaseSmartWallet] Failed to get current chainId:', error);
+				this.logger.warn('Failed to get current chainId:', error);
 			}
 		}
 
@@ -464,24 +478,24 @@ export class CoinbaseSmartWalletConnector extends BaseConnector {
 
 		// 如果已连接，需要重新初始化
 		if (wasConnected && this.provider) {
-			console.log('[CoinbaseSmartWallet] Disconnecting to update chains...');
+			this.logger.debug('Disconnecting to update chains...');
 
 			// 重置 SDK 和 provider
 			this.sdk = null;
 			this.provider = null;
 
 			// 重新初始化
-			console.log('[CoinbaseSmartWallet] Reinitializing with new chains...');
+			this.logger.debug('Reinitializing with new chains...');
 			this.initializeSDK();
 
 			// 如果有保存的链 ID，尝试重新连接到该链
 			if (currentChainId && this.getChain(currentChainId)) {
 				try {
-					console.log('[CoinbaseSmartWallet] Reconnecting to chain:', currentChainId);
+					this.logger.debug('Reconnecting to chain:', currentChainId);
 					await this.connect(currentChainId);
 				} catch (error) {
-					console.warn('[CoinbaseSmartWallet] Failed to reconnect:', error);
-					this.emit('error', new Error('Failed to reconnect after updating chains'));
+					// connect 失败时已经触发 error 事件，这里只记录日志
+					this.logger.warn('Failed to reconnect after updating chains:', error);
 				}
 			}
 		} else {
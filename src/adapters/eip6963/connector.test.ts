@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mainnet, polygon } from 'viem/chains';
+import { EIP6963Connector } from './connector.js';
+import { ChainDisconnectedError, UserRejectedError } from '../../core/errors.js';
+import {
+	MOCK_ACCOUNTS,
+	MockProvider,
+	createMockProviderDetail,
+	createProviderError
+} from '../../testing/mock-provider.js';
+
+const chains = [mainnet, polygon];
+
+function setup(provider = new MockProvider({ chainId: 1 })) {
+	const connector = new EIP6963Connector({
+		chains,
+		shimDisconnect: true,
+		providerDetail: createMockProviderDetail(provider, { rdns: 'io.metamask', name: 'MetaMask' })
+	});
+	return { provider, connector };
+}
+
+describe('EIP6963Connector', () => {
+	it('takes its identity from the announced provider', () => {
+		const { connector } = setup();
+
+		expect(connector.id).toBe('eip6963:io.metamask');
+		expect(connector.name).toBe('MetaMask');
+		expect(connector.ready).toBe(true);
+		expect(connector.getMetadata()).toMatchObject({ rdns: 'io.metamask' });
+	});
+
+	it('connects on the requested chain', async () => {
+		const { provider, connector } = setup();
+
+		const result = await connector.connect(137);
+
+		expect(result).toEqual({ address: MOCK_ACCOUNTS[0], addresses: MOCK_ACCOUNTS, chainId: 137 });
+		expect(provider.getChainId()).toBe(137);
+	});
+
+	it('fails to connect when the wallet refuses to switch chain', async () => {
+		const { provider, connector } = setup();
+		provider.rejectNext('wallet_switchEthereumChain');
+		const onError = vi.fn();
+		connector.on('error', onError);
+
+		await expect(connector.connect(137)).rejects.toBeInstanceOf(UserRejectedError);
+		expect(onError).toHaveBeenCalledWith(expect.any(UserRejectedError));
+	});
+
+	it('maps wallet error codes to typed errors', async () => {
+		const { provider, connector } = setup();
+		await connector.connect(1);
+
+		provider.rejectNext(
+			'wallet_switchEthereumChain',
+			createProviderError(4901, 'Chain disconnected')
+		);
+
+		await expect(connector.switchChain(137)).rejects.toBeInstanceOf(ChainDisconnectedError);
+	});
+
+	it('reports account and chain changes as permissionChanged', async () => {
+		const { provider, connector } = setup();
+		await connector.connect(1);
+		const permissionChanged = vi.fn();
+		connector.on('permissionChanged', permissionChanged);
+
+		provider.setAccounts([MOCK_ACCOUNTS[1], MOCK_ACCOUNTS[0]]);
+		await vi.waitFor(() => expect(permissionChanged).toHaveBeenCalledTimes(1));
+		expect(permissionChanged).toHaveBeenLastCalledWith({
+			address: MOCK_ACCOUNTS[1],
+			addresses: [MOCK_ACCOUNTS[1], MOCK_ACCOUNTS[0]],
+			chainId: 1,
+			chains: [1]
+		});
+
+		provider.setChainId(137);
+		await vi.waitFor(() => expect(permissionChanged).toHaveBeenCalledTimes(2));
+		expect(permissionChanged).toHaveBeenLastCalledWith(
+			expect.objectContaining({ chainId: 137, chains: [137] })
+		);
+	});
+
+	it('emits disconnected when the wallet revokes access', async () => {
+		const { provider, connector } = setup();
+		await connector.connect(1);
+		const disconnected = vi.fn();
+		connector.on('disconnected', disconnected);
+
+		provider.revoke();
+
+		expect(disconnected).toHaveBeenCalledTimes(1);
+	});
+
+	it('restores authorization state from the wallet', async () => {
+		const { connector } = setup(new MockProvider({ chainId: 1, authorized: true }));
+
+		expect(await connector.isAuthorized()).toBe(true);
+		expect(await connector.getAccount()).toBe(MOCK_ACCOUNTS[0]);
+		expect(await connector.getChainId()).toBe(1);
+	});
+});
@@ -1,6 +1,14 @@
 import type { Address } from 'viem';
 import { BaseConnector } from '../../core/BaseConnector';
-import type { EIP1193Provider } from '../../core/types/connector.js';
+import {
+	ChainNotConfiguredError,
+	NoAccountsError,
+	ProviderNotFoundError,
+	UnauthorizedError,
+	toConnectorError
+} from '../../core/errors.js';
+import { abortable, throwIfAborted } from '../../core/abort.js';
+import type { ConnectorOperationOptions, EIP1193Provider } from '../../core/types/connector.js';
 import type { EIP6963ConnectorOptions, EIP6963ProviderDetail } from './types.js';
 import { normalizeChainId } from '../../utils/chains.js';
 
@@ -18,6 +26,7 @@ export class EIP6963Connector extends BaseConnector {
 
 	constructor(options: EIP6963ConnectorOptions) {
 		super(options);
+		this.logger = this.logger.child('EIP6963');
 		this.providerDetail = options.providerDetail;
 		this.provider = this.providerDetail.provider;
 
@@ -39,60 +48,64 @@ export class EIP6963Connector extends BaseConnector {
 	/**
 	 * 连接钱包
 	 */
-	async connect(chainId: number): Promise<{
+	protected async doConnect(
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<{
 		address: Address;
 		addresses: Address[];
 		chainId: number;
 	}> {
-		try {
-			if (!this.getChain(chainId)) {
-				throw new Error(`Chain [${chainId}] is not supported by this dApp`);
-			}
+		const { signal } = options;
+		throwIfAborted(signal, this.id);
 
-			if (!this.provider) {
-				throw new Error('Provider not found');
-			}
+		if (!this.getChain(chainId)) {
+			throw new ChainNotConfiguredError(chainId, { connectorId: this.id });
+		}
 
-			// 请求账户访问权限
-			const accounts = (await this.provider.request({
-				method: 'eth_requestAccounts'
-			})) as Address[];
+		if (!this.provider) {
+			throw new ProviderNotFoundError('Provider not found', { connectorId: this.id });
+		}
 
-			if (!accounts || accounts.length === 0) {
-				throw new Error('No accounts found');
-			}
+		// 请求账户访问权限（钱包弹窗无法关闭，取消时只放弃等待结果）
+		const accounts = (await abortable(
+			this.provider.request({ method: 'eth_requestAccounts' }),
+			signal,
+			{ connectorId: this.id }
+		)) as Address[];
 
-			// 获取当前链 ID
-			const currentChainId = await this.getChainId();
+		if (!accounts || accounts.length === 0) {
+			throw new NoAccountsError(undefined, { connectorId: this.id });
+		}
 
-			// 如果指定了链 ID 且与当前不同，尝试切换
-			if (chainId && chainId !== currentChainId) {
-				await this.switchChain(chainId);
-			}
+		// 获取当前链 ID
+		const currentChainId = await this.getChainId();
+
+		// 如果指定了链 ID 且与当前不同，尝试切换
+		if (chainId && chainId !== currentChainId) {
+			await this.doSwitchChain(chainId, options);
+		}
 
-			const address = accounts[0];
-			const connectedChainId = chainId || currentChainId;
+		throwIfAborted(signal, this.id);
+		const address = accounts[0];
+		const connectedChainId = chainId || currentChainId;
 
-			// 设置事件监听
-			this.setupEventListeners();
+		// 设置事件监听
+		this.setupEventListeners();
 
-			// 触发连接事件，包含完整信息
-			this.emit('connected', {
-				address,
-				addresses: accounts,
-				chainId: connectedChainId,
-				chains: [connectedChainId] // Traditional wallets are single-chain
-			});
+		// 触发连接事件，包含完整信息
+		this.emit('connected', {
+			address,
+			addresses: accounts,
+			chainId: connectedChainId,
+			chains: [connectedChainId] // Traditional wallets are single-chain
+		});
 
-			return {
-				address,
-				addresses: accounts,
-				chainId: connectedChainId
-			};
-		} catch (error) {
-			this.emit('error', error as Error);
-			throw error;
-		}
+		return {
+			address,
+			addresses: accounts,
+			chainId: connectedChainId
+		};
 	}
 
 	/**
@@ -100,17 +113,20 @@ export class EIP6963Connector extends BaseConnector {
 	 */
 	async disconnect(): Promise<void> {
 		if (this.options.shimDisconnect && this.provider) {
-			console.log('disconnect', 'disconnect' in this.provider);
+			this.logger.debug(
+				'Disconnecting, provider.disconnect available:',
+				!!this.provider.disconnect
+			);
 
 			// 尝试方法 1: provider.disconnect (TP/OKX 钱包)
 			if (this.provider.disconnect) {
 				try {
 					await this.provider.disconnect();
-					console.log('[Injected] Disconnected using provider.disconnect()');
+					this.logger.debug('Disconnected using provider.disconnect()');
 					this.emit('disconnected');
 					return;
 				} catch (error) {
-					console.debug('[Injected] provider.disconnect failed:', error);
+					this.logger.debug('provider.disconnect failed:', error);
 				}
 			}
 
@@ -120,15 +136,15 @@ export class EIP6963Connector extends BaseConnector {
 					method: 'wallet_revokePermissions',
 					params: [{ eth_accounts: {} }]
 				});
-				console.log('[Injected] Disconnected using wallet_revokePermissions');
+				this.logger.debug('Disconnected using wallet_revokePermissions');
 				this.emit('disconnected');
 				return;
 			} catch (error) {
-				console.debug('[Injected] wallet_revokePermissions failed:', error);
+				this.logger.debug('wallet_revokePermissions failed:', error);
 			}
 
 			// 两种方法都不可用或都失败
-			console.warn('[Injected] No disconnect method available or all methods failed');
+			this.logger.warn('No disconnect method available or all methods failed');
 		}
 
 		// 即使断开失败，也要发送断开事件
@@ -144,7 +160,7 @@ export class EIP6963Connector extends BaseConnector {
 		})) as Address[];
 
 		if (!accounts || accounts.length === 0) {
-			throw new Error('No accounts found');
+			throw new NoAccountsError(undefined, { connectorId: this.id });
 		}
 
 		return accounts[0];
@@ -169,7 +185,7 @@ export class EIP6963Connector extends BaseConnector {
 
 		// 检查地址是否在授权列表中
 		if (!accounts.includes(address)) {
-			throw new Error('Account not authorized');
+			throw new UnauthorizedError(undefined, { connectorId: this.id });
 		}
 
 		// 触发账户变更事件（使用 permissionChanged）
@@ -197,13 +213,17 @@ export class EIP6963Connector extends BaseConnector {
 	/**
 	 * 切换链
 	 */
-	async switchChain(chainId: number): Promise<void> {
-		console.log('[EIP6963] switchChain called with chainId:', chainId);
+	protected async doSwitchChain(
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<void> {
+		this.logger.debug('switchChain called with chainId:', chainId);
+		const { signal } = options;
 
 		const chain = this.getChain(chainId);
 
 		if (!this.getChain(chainId)) {
-			throw new Error(`Chain [${chainId}] is not supported by this dApp`);
+			throw new ChainNotConfiguredError(chainId, { connectorId: this.id });
 		}
 
 		const hexChainId = `0x${chainId.toString(16)}`;
@@ -212,21 +232,26 @@ export class EIP6963Connector extends BaseConnector {
 		this.isSwitchingChain = true;
 
 		try {
-			console.log('[EIP6963] Requesting wallet to switch to chain:', hexChainId);
+			throwIfAborted(signal, this.id);
+			this.logger.debug('Requesting wallet to switch to chain:', hexChainId);
 			// 尝试切换到目标链
-			await this.provider.request({
-				method: 'wallet_switchEthereumChain',
-				params: [{ chainId: hexChainId }]
-			});
-			console.log('[EIP6963] Wallet successfully switched to chain:', chainId);
+			await abortable(
+				this.provider.request({
+					method: 'wallet_switchEthereumChain',
+					params: [{ chainId: hexChainId }]
+				}),
+				signal,
+				{ connectorId: this.id }
+			);
+			this.logger.debug('Wallet successfully switched to chain:', chainId);
 			// The wallet itself will emit chainChanged event, we don't need to do it manually
 			// This prevents double events and ensures we only emit when actually changed
 		} catch (error) {
-			console.log('[EIP6963] Wallet switch failed:', error);
+			this.logger.debug('Wallet switch failed:', error);
 			// 4902 表示链未添加到钱包
 			const err = error as { code?: number; message?: string };
 			if (err.code === 4902 && chain) {
-				console.log('[EIP6963] Chain not found in wallet (error 4902), requesting to add chain...');
+				this.logger.debug('Chain not found in wallet (error 4902), requesting to add chain...');
 				try {
 					// 尝试添加链
 					const chainParams = {
@@ -238,26 +263,24 @@ export class EIP6963Connector extends BaseConnector {
 							? [chain.blockExplorers.default.url]
 							: []
 					};
-					console.log('[EIP6963] Adding chain with params:', chainParams);
-					await this.provider.request({
-						method: 'wallet_addEthereumChain',
-						params: [chainParams]
-					});
-					console.log('[EIP6963] Chain added successfully, wallet should have switched');
+					this.logger.debug('Adding chain with params:', chainParams);
+					await abortable(
+						this.provider.request({
+							method: 'wallet_addEthereumChain',
+							params: [chainParams]
+						}),
+						signal,
+						{ connectorId: this.id }
+					);
+					this.logger.debug('Chain added successfully, wallet should have switched');
 					// The wallet will emit chainChanged event automatically
 				} catch (addError) {
-					console.error('[EIP6963] Failed to add chain:', addError);
-					const err = new Error(
-						addError instanceof Error ? addError.message : 'Failed to add chain'
-					);
-					this.emit('error', err);
-					throw err;
+					this.logger.error('Failed to add chain:', addError);
+					throw toConnectorError(addError, this.id);
 				}
 			} else {
-				console.error('[EIP6963] Chain switch failed with non-4902 error:', error);
-				const err = new Error(error instanceof Error ? error.message : 'Failed to switch chain');
-				this.emit('error', err);
-				throw err;
+				this.logger.error('Chain switch failed with non-4902 error:', error);
+				throw toConnectorError(error, this.id);
 			}
 		} finally {
 			// Reset flag after operation completes
@@ -270,7 +293,7 @@ export class EIP6963Connector extends BaseConnector {
 	/**
 	 * 检查是否已授权
 	 */
-	async isAuthorized(): Promise<boolean> {
+	protected async doIsAuthorized(): Promise<boolean> {
 		try {
 			const accounts = (await this.provider.request({
 				method: 'eth_accounts'
@@ -297,13 +320,13 @@ export class EIP6963Connector extends BaseConnector {
 		// 账户变更
 		this.provider.on('accountsChanged', (...args: unknown[]) => {
 			const accounts = args[0] as Address[];
-			console.log('[EIP6963] accountsChanged event received:', accounts);
+			this.logger.debug('accountsChanged event received:', accounts);
 			// Don't disconnect if we're switching chains - the wallet is still connected
 			if (accounts.length === 0 && !this.isSwitchingChain) {
-				console.log('[EIP6963] No accounts and not switching chains - emitting disconnect');
+				this.logger.debug('No accounts and not switching chains - emitting disconnect');
 				this.emit('disconnected');
 			} else if (accounts.length === 0 && this.isSwitchingChain) {
-				console.log('[EIP6963] No accounts but switching chains - NOT disconnecting');
+				this.logger.debug('No accounts but switching chains - NOT disconnecting');
 			} else {
 				// 触发权限变更事件（包含完整连接信息）
 				this.getChainId()
@@ -324,9 +347,9 @@ export class EIP6963Connector extends BaseConnector {
 		// 链变更
 		this.provider.on('chainChanged', (...args: unknown[]) => {
 			const chainId = args[0] as string | number;
-			console.log('[EIP6963] Wallet emitted chainChanged event:', chainId);
+			this.logger.debug('Wallet emitted chainChanged event:', chainId);
 			const normalizedChainId = normalizeChainId(chainId);
-			console.log('[EIP6963] Normalized chainId:', normalizedChainId);
+			this.logger.debug('Normalized chainId:', normalizedChainId);
 			// 触发权限变更事件（包含完整连接信息）
 			this.getAccounts()
 				.then((accounts) => {
@@ -356,7 +379,7 @@ export class EIP6963Connector extends BaseConnector {
 			if (typeof provider.on === 'function') {
 				// MetaMask Permission API - wallet_permissionsChanged
 				provider.on('wallet_permissionsChanged', () => {
-					console.log('[EIP6963] wallet_permissionsChanged event received');
+					this.logger.debug('wallet_permissionsChanged event received');
 					// 重新获取完整连接信息
 					Promise.all([this.getAccounts(), this.getChainId()])
 						.then(([accounts, chainId]) => {
@@ -376,7 +399,7 @@ export class EIP6963Connector extends BaseConnector {
 
 				// 兼容旧的 permissions_changed 事件名
 				provider.on('permissions_changed', () => {
-					console.log('[EIP6963] permissions_changed event received');
+					this.logger.debug('permissions_changed event received');
 					Promise.all([this.getAccounts(), this.getChainId()])
 						.then(([accounts, chainId]) => {
 							if (accounts.length > 0) {
@@ -0,0 +1,180 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mainnet, polygon, sepolia } from 'viem/chains';
+import { InjectedConnector, createMetaMaskConnector } from './connector.js';
+import {
+	AbortedError,
+	ChainNotConfiguredError,
+	ProviderNotFoundError,
+	UnauthorizedError,
+	UserRejectedError
+} from '../../core/errors.js';
+import { MOCK_ACCOUNTS, MockProvider } from '../../testing/mock-provider.js';
+
+const chains = [mainnet, polygon, sepolia];
+
+function setup(provider = new MockProvider({ chainId: 1 })) {
+	vi.stubGlobal('window', { ethereum: provider });
+	const connector = new InjectedConnector({ chains, shimDisconnect: true });
+	return { provider, connector };
+}
+
+describe('InjectedConnector', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('is not ready without an injected provider', async () => {
+		vi.stubGlobal('window', {});
+		const connector = new InjectedConnector({ chains, shimDisconnect: true });
+
+		expect(connector.ready).toBe(false);
+		await expect(connector.connect(1)).rejects.toBeInstanceOf(ProviderNotFoundError);
+	});
+
+	it('uses the detector to check the injected wallet', () => {
+		vi.stubGlobal('window', { ethereum: new MockProvider() });
+		expect(createMetaMaskConnector({ chains, shimDisconnect: true }).ready).toBe(false);
+
+		vi.stubGlobal('window', { ethereum: new MockProvider({ flags: { isMetaMask: true } }) });
+		expect(createMetaMaskConnector({ chains, shimDisconnect: true }).ready).toBe(true);
+	});
+
+	it('connects and emits connected', async () => {
+		const { connector } = setup();
+		const connected = vi.fn();
+		connector.on('connected', connected);
+
+		const result = await connector.connect(1);
+
+		expect(result).toEqual({ address: MOCK_ACCOUNTS[0], addresses: MOCK_ACCOUNTS, chainId: 1 });
+		expect(connected).toHaveBeenCalledWith({
+			address: MOCK_ACCOUNTS[0],
+			addresses: MOCK_ACCOUNTS,
+			chainId: 1,
+			chains: [1]
+		});
+		expect(await connector.isAuthorized()).toBe(true);
+	});
+
+	it('switches to the requested chain while connecting', async () => {
+		const { provider, connector } = setup();
+
+		const result = await connector.connect(137);
+
+		expect(result.chainId).toBe(137);
+		expect(provider.getChainId()).toBe(137);
+		expect(provider.getRequests('wallet_switchEthereumChain')).toHaveLength(1);
+	});
+
+	it('adds the chain when the wallet does not know it', async () => {
+		const { provider, connector } = setup(new MockProvider({ chainId: 1, chains: [1] }));
+		await connector.connect(1);
+
+		await connector.switchChain(sepolia.id);
+
+		const [request] = provider.getRequests('wallet_addEthereumChain');
+		expect(request.params?.[0]).toMatchObject({
+			chainId: '0xaa36a7',
+			chainName: sepolia.name,
+			rpcUrls: sepolia.rpcUrls.default.http
+		});
+		expect(provider.getChainId()).toBe(sepolia.id);
+	});
+
+	it('rejects chains the dApp has not configured', async () => {
+		const { connector } = setup();
+
+		await expect(connector.connect(10)).rejects.toBeInstanceOf(ChainNotConfiguredError);
+		await expect(connector.switchChain(10)).rejects.toBeInstanceOf(ChainNotConfiguredError);
+	});
+
+	it('maps a rejected request to UserRejectedError and emits error', async () => {
+		const { provider, connector } = setup();
+		const onError = vi.fn();
+		connector.on('error', onError);
+
+		provider.rejectNext('eth_requestAccounts');
+
+		await expect(connector.connect(1)).rejects.toBeInstanceOf(UserRejectedError);
+		expect(onError).toHaveBeenCalledWith(expect.any(UserRejectedError));
+	});
+
+	it('rejects with AbortedError when the signal is aborted', async () => {
+		const { provider, connector } = setup(new MockProvider({ chainId: 1, latency: 50 }));
+		const controller = new AbortController();
+
+		const pending = connector.connect(1, { signal: controller.signal });
+		controller.abort();
+
+		await expect(pending).rejects.toBeInstanceOf(AbortedError);
+		expect(provider.getRequests('eth_requestAccounts')).toHaveLength(1);
+	});
+
+	it('forwards wallet events', async () => {
+		const { provider, connector } = setup();
+		await connector.connect(1);
+		const permissionChanged = vi.fn();
+		const disconnected = vi.fn();
+		connector.on('permissionChanged', permissionChanged);
+		connector.on('disconnected', disconnected);
+
+		provider.setAccounts([MOCK_ACCOUNTS[1]]);
+		await vi.waitFor(() => expect(permissionChanged).toHaveBeenCalledTimes(1));
+		expect(permissionChanged).toHaveBeenLastCalledWith(
+			expect.objectContaining({ address: MOCK_ACCOUNTS[1], chainId: 1 })
+		);
+
+		provider.setChainId(137);
+		await vi.waitFor(() => expect(permissionChanged).toHaveBeenCalledTimes(2));
+		expect(permissionChanged).toHaveBeenLastCalledWith(
+			expect.objectContaining({ address: MOCK_ACCOUNTS[1], chainId: 137 })
+		);
+
+		provider.revoke();
+		expect(disconnected).toHaveBeenCalledTimes(1);
+	});
+
+	it('only switches to authorized accounts', async () => {
+		const { connector } = setup();
+		await connector.connect(1);
+
+		await expect(
+			connector.switchAccount('0x0000000000000000000000000000000000000001')
+		).rejects.toBeInstanceOf(UnauthorizedError);
+	});
+
+	it('revokes permissions on disconnect', async () => {
+		const { provider, connector } = setup();
+		await connector.connect(1);
+		const disconnected = vi.fn();
+		connector.on('disconnected', disconnected);
+
+		await connector.disconnect();
+
+		expect(provider.getRequests('wallet_revokePermissions')).toHaveLength(1);
+		expect(provider.isAuthorized()).toBe(false);
+		expect(await connector.isAuthorized()).toBe(false);
+		expect(disconnected).toHaveBeenCalled();
+	});
+
+	it('signs messages and sends transactions through the provider', async () => {
+		const { provider, connector } = setup();
+		await connector.connect(1);
+
+		const signature = await connector.signMessage('hello');
+		const hash = await connector.sendTransaction({ to: MOCK_ACCOUNTS[1], value: 1n, chainId: 1 });
+
+		expect(signature).toMatch(/^0x[0-9a-f]{130}$/);
+		expect(hash).toMatch(/^0x[0-9a-f]{64}$/);
+		expect(provider.getRequests('personal_sign')[0].params).toEqual([
+			'0x68656c6c6f',
+			MOCK_ACCOUNTS[0]
+		]);
+		expect(provider.getRequests('eth_sendTransaction')[0].params?.[0]).toMatchObject({
+			from: MOCK_ACCOUNTS[0],
+			to: MOCK_ACCOUNTS[1],
+			value: '0x1',
+			chainId: '0x1'
+		});
+	});
+});
@@ -1,6 +1,14 @@
 import type { Address } from 'viem';
 import { BaseConnector } from '../../core/BaseConnector.js';
-import type { EIP1193Provider } from '../../core/types/connector.js';
+import {
+	ChainNotConfiguredError,
+	NoAccountsError,
+	ProviderNotFoundError,
+	UnauthorizedError,
+	toConnectorError
+} from '../../core/errors.js';
+import { abortable, throwIfAborted } from '../../core/abort.js';
+import type { ConnectorOperationOptions, EIP1193Provider } from '../../core/types/connector.js';
 import type { InjectedConnectorOptions, WalletDetector } from './types.js';
 import { normalizeChainId } from '../../utils/chains.js';
 
@@ -23,6 +31,7 @@ export class InjectedConnector extends BaseConnector {
 
 	constructor(options: InjectedConnectorOptions) {
 		super(options);
+		this.logger = this.logger.child('Injected');
 
 		this.id = options.id || 'injected';
 		this.name = options.name || 'Injected Wallet';
@@ -95,67 +104,72 @@ export class InjectedConnector extends BaseConnector {
 	/**
 	 * 连接钱包
 	 */
-	async connect(chainId: number): Promise<{
+	protected async doConnect(
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<{
 		address: Address;
 		addresses: Address[];
 		chainId: number;
 	}> {
-		console.log('connect = > this.chains', this.chains, chainId, this.name, this.provider);
-		try {
-			if (!this.getChain(chainId)) {
-				throw new Error(`Chain [${chainId}] is not supported by this dApp`);
-			}
+		this.logger.debug('Connecting to chain:', chainId);
+		const { signal } = options;
+		throwIfAborted(signal, this.id);
 
-			if (!this.provider) {
-				this.provider = this.getInjectedProvider();
-			}
+		if (!this.getChain(chainId)) {
+			throw new ChainNotConfiguredError(chainId, { connectorId: this.id });
+		}
 
-			if (!this.provider) {
-				throw new Error(`${this.name} is not installed`);
-			}
+		if (!this.provider) {
+			this.provider = this.getInjectedProvider();
+		}
 
-			// 请求账户访问
-			const accounts = (await this.provider.request({
-				method: 'eth_requestAccounts'
-			})) as Address[];
+		if (!this.provider) {
+			throw new ProviderNotFoundError(`${this.name} is not installed`, { connectorId: this.id });
+		}
 
-			if (!accounts || accounts.length === 0) {
-				throw new Error('No accounts found');
-			}
+		// 请求账户访问（钱包弹窗无法关闭，取消时只放弃等待结果）
+		const accounts = (await abortable(
+			this.provider.request({ method: 'eth_requestAccounts' }),
+			signal,
+			{ connectorId: this.id }
+		)) as Address[];
+
+		if (!accounts || accounts.length === 0) {
+			throw new NoAccountsError(undefined, { connectorId: this.id });
+		}
 
-			// 获取当前链 ID
-			let currentChainId = await this.getChainId();
+		// 获取当前链 ID
+		let currentChainId = await this.getChainId();
 
-			// 如果指定了链 ID 且与当前不同，尝试切换
-			if (chainId && chainId !== currentChainId) {
-				try {
-					await this.switchChain(chainId);
-					currentChainId = chainId;
-				} catch (error) {
-					console.warn('[Injected] Failed to switch to requested chain:', error);
-					// 继续使用当前链
-				}
+		// 如果指定了链 ID 且与当前不同，尝试切换
+		if (chainId && chainId !== currentChainId) {
+			try {
+				await this.doSwitchChain(chainId, options);
+				currentChainId = chainId;
+			} catch (error) {
+				throwIfAborted(signal, this.id);
+				this.logger.warn('Failed to switch to requested chain:', error);
+				// 继续使用当前链
 			}
-
-			const address = accounts[0];
-
-			// 触发连接事件
-			this.emit('connected', {
-				address,
-				addresses: accounts,
-				chainId: currentChainId,
-				chains: [currentChainId]
-			});
-
-			return {
-				address,
-				addresses: accounts,
-				chainId: currentChainId
-			};
-		} catch (error) {
-			this.emit('error', error as Error);
-			throw error;
 		}
+
+		throwIfAborted(signal, this.id);
+		const address = accounts[0];
+
+		// 触发连接事件
+		this.emit('connected', {
+			address,
+			addresses: accounts,
+			chainId: currentChainId,
+			chains: [currentChainId]
+		});
+
+		return {
+			address,
+			addresses: accounts,
+			chainId: currentChainId
+		};
 	}
 
 	/**
@@ -163,17 +177,20 @@ export class InjectedConnector extends BaseConnector {
 	 */
 	async disconnect(): Promise<void> {
 		if (this.options.shimDisconnect && this.provider) {
-			console.log('disconnect', 'disconnect' in this.provider);
+			this.logger.debug(
+				'Disconnecting, provider.disconnect available:',
+				!!this.provider.disconnect
+			);
 
 			// 尝试方法 1: provider.disconnect (TP/OKX 钱包)
 			if (this.provider.disconnect) {
 				try {
 					await this.provider.disconnect();
-					console.log('[Injected] Disconnected using provider.disconnect()');
+					this.logger.debug('Disconnected using provider.disconnect()');
 					this.emit('disconnected');
 					return;
 				} catch (error) {
-					console.debug('[Injected] provider.disconnect failed:', error);
+					this.logger.debug('provider.disconnect failed:', error);
 				}
 			}
 
@@ -183,15 +200,15 @@ export class InjectedConnector extends BaseConnector {
 					method: 'wallet_revokePermissions',
 					params: [{ eth_accounts: {} }]
 				});
-				console.log('[Injected] Disconnected using wallet_revokePermissions');
+				this.logger.debug('Disconnected using wallet_revokePermissions');
 				this.emit('disconnected');
 				return;
 			} catch (error) {
-				console.debug('[Injected] wallet_revokePermissions failed:', error);
+				this.logger.debug('wallet_revokePermissions failed:', error);
 			}
 
 			// 两种方法都不可用或都失败
-			console.warn('[Injected] No disconnect method available or all methods failed');
+			this.logger.warn('No disconnect method available or all methods failed');
 		}
 
 		// 即使断开失败，也要发送断开事件
@@ -203,7 +220,7 @@ export class InjectedConnector extends BaseConnector {
 	 */
 	async getAccount(): Promise<Address> {
 		if (!this.provider) {
-			throw new Error('Provider not available');
+			throw new ProviderNotFoundError('Provider not available', { connectorId: this.id });
 		}
 
 		const accounts = (await this.provider.request({
@@ -211,7 +228,7 @@ export class InjectedConnector extends BaseConnector {
 		})) as Address[];
 
 		if (!accounts || accounts.length === 0) {
-			throw new Error('No accounts found');
+			throw new NoAccountsError(undefined, { connectorId: this.id });
 		}
 
 		return accounts[0];
@@ -222,7 +239,7 @@ export class InjectedConnector extends BaseConnector {
 	 */
 	async getAccounts(): Promise<Address[]> {
 		if (!this.provider) {
-			throw new Error('Provider not available');
+			throw new ProviderNotFoundError('Provider not available', { connectorId: this.id });
 		}
 
 		const accounts = (await this.provider.request({
@@ -237,7 +254,7 @@ export class InjectedConnector extends BaseConnector {
 	 */
 	async getChainId(): Promise<number> {
 		if (!this.provider) {
-			throw new Error('Provider not available');
+			throw new ProviderNotFoundError('Provider not available', { connectorId: this.id });
 		}
 
 		const chainId = await this.provider.request({
@@ -255,7 +272,7 @@ export class InjectedConnector extends BaseConnector {
 
 		// 检查地址是否在授权列表中
 		if (!accounts.includes(address)) {
-			throw new Error('Account not authorized');
+			throw new UnauthorizedError(undefined, { connectorId: this.id });
 		}
 
 		// 触发账户变更事件（使用 permissionChanged）
@@ -272,49 +289,60 @@ export class InjectedConnector extends BaseConnector {
 	/**
 	 * 切换链
 	 */
-	async switchChain(chainId: number): Promise<void> {
+	protected async doSwitchChain(
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<void> {
+		const { signal } = options;
 		if (!this.getChain(chainId)) {
-			throw new Error(`Chain [${chainId}] is not supported by this dApp`);
+			throw new ChainNotConfiguredError(chainId, { connectorId: this.id });
 		}
 
 		if (!this.provider) {
-			throw new Error('Provider not available');
+			throw new ProviderNotFoundError('Provider not available', { connectorId: this.id });
 		}
 
 		const chain = this.getChain(chainId);
 		const hexChainId = `0x${chainId.toString(16)}`;
 
 		try {
-			await this.provider.request({
-				method: 'wallet_switchEthereumChain',
-				params: [{ chainId: hexChainId }]
-			});
+			throwIfAborted(signal, this.id);
+			await abortable(
+				this.provider.request({
+					method: 'wallet_switchEthereumChain',
+					params: [{ chainId: hexChainId }]
+				}),
+				signal,
+				{ connectorId: this.id }
+			);
 		} catch (error) {
 			// 4902 表示链未添加到钱包
 			const err = error as { code?: number };
 			if (err.code === 4902 && chain) {
 				try {
-					await this.provider.request({
-						method: 'wallet_addEthereumChain',
-						params: [
-							{
-								chainId: hexChainId,
-								chainName: chain.name,
-								nativeCurrency: chain.nativeCurrency,
-								rpcUrls: chain.rpcUrls?.default?.http || [],
-								blockExplorerUrls: chain.blockExplorers?.default?.url
-									? [chain.blockExplorers.default.url]
-									: []
-							}
-						]
-					});
+					await abortable(
+						this.provider.request({
+							method: 'wallet_addEthereumChain',
+							params: [
+								{
+									chainId: hexChainId,
+									chainName: chain.name,
+									nativeCurrency: chain.nativeCurrency,
+									rpcUrls: chain.rpcUrls?.default?.http || [],
+									blockExplorerUrls: chain.blockExplorers?.default?.url
+										? [chain.blockExplorers.default.url]
+										: []
+								}
+							]
+						}),
+						signal,
+						{ connectorId: this.id }
+					);
 				} catch (addError) {
-					this.emit('error', addError as Error);
-					throw addError;
+					throw toConnectorError(addError, this.id);
 				}
 			} else {
-				this.emit('error', error as Error);
-				throw error;
+				throw toConnectorError(error, this.id);
 			}
 		}
 	}
@@ -322,7 +350,7 @@ export class InjectedConnector extends BaseConnector {
 	/**
 	 * 检查是否已授权
 	 */
-	async isAuthorized(): Promise<boolean> {
+	protected async doIsAuthorized(): Promise<boolean> {
 		try {
 			if (!this.provider) {
 				this.provider = this.getInjectedProvider();
@@ -351,7 +379,7 @@ export class InjectedConnector extends BaseConnector {
 		}
 
 		if (!this.provider) {
-			throw new Error(`${this.name} is not installed`);
+			throw new ProviderNotFoundError(`${this.name} is not installed`, { connectorId: this.id });
 		}
 
 		return this.provider;
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { mainnet } from 'viem/chains';
+import { mnemonicToAccount } from 'viem/accounts';
+import { QRHardwareConnector } from './connector.js';
+import type { QRHardwareConnectorOptions } from './types.js';
+import { createMemoryStorageAdapter } from '../../core/storage-adapters.js';
+import { MOCK_ACCOUNTS } from '../../testing/mock-provider.js';
+
+const MNEMONIC = 'test test test test test test test test test test test junk';
+
+/**
+ * 硬件钱包同步时返回的 m/44'/60'/0' 扩展公钥
+ */
+function getExtendedPublicKey() {
+	const hdKey = mnemonicToAccount(MNEMONIC, { path: "m/44'/60'/0'" }).getHdKey();
+	return {
+		xpub: hdKey.publicExtendedKey,
+		chainCode: '',
+		publicKey: '',
+		basePath: "m/44'/60'/0'"
+	};
+}
+
+function createConnector(options: Partial<QRHardwareConnectorOptions> = {}) {
+	return new QRHardwareConnector({
+		id: 'keystone',
+		name: 'Keystone',
+		chains: [mainnet],
+		shimDisconnect: false,
+		storage: createMemoryStorageAdapter(),
+		...options
+	});
+}
+
+describe('QRHardwareConnector', () => {
+	it('derives BIP-44 accounts by default', () => {
+		const connector = createConnector({ pagination: { pageSize: 2 } });
+
+		const accounts = connector.importExtendedPublicKey(getExtendedPublicKey());
+
+		expect(accounts.map((account) => account.address)).toEqual(MOCK_ACCOUNTS);
+		expect(accounts.map((account) => account.derivationPath)).toEqual([
+			"m/44'/60'/0'/0/0",
+			"m/44'/60'/0'/0/1"
+		]);
+	});
+
+	it('derives accounts from the configured path template', () => {
+		const connector = createConnector({
+			derivationPaths: ["m/44'/60'/0'/x"],
+			pagination: { pageSize: 2 }
+		});
+
+		connector.importExtendedPublicKey(getExtendedPublicKey());
+		const page = connector.getAccountsPage(1);
+
+		expect(page.map((account) => account.derivationPath)).toEqual([
+			"m/44'/60'/0'/2",
+			"m/44'/60'/0'/3"
+		]);
+		expect(page.map((account) => account.address)).toEqual([
+			mnemonicToAccount(MNEMONIC, { path: "m/44'/60'/0'/2" }).address,
+			mnemonicToAccount(MNEMONIC, { path: "m/44'/60'/0'/3" }).address
+		]);
+	});
+
+	it('rejects paths whose account index cannot be derived from an xpub', () => {
+		expect(() => createConnector({ defaultDerivationPath: "m/44'/60'/x'/0/0" })).toThrow(
+			RangeError
+		);
+		expect(() => createConnector({ defaultDerivationPath: "m/44'/60'/0'/x/0'" })).toThrow(
+			RangeError
+		);
+		expect(() => createConnector({ defaultDerivationPath: "44'/60'/0'/0/0" })).toThrow(RangeError);
+	});
+
+	it('rejects negative pages', () => {
+		const connector = createConnector();
+		connector.importExtendedPublicKey(getExtendedPublicKey());
+
+		expect(() => connector.getAccountsPage(-1)).toThrow(RangeError);
+	});
+});
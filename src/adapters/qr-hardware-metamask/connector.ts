@@ -0,0 +1,940 @@
+import {
+	createPublicClient,
+	getAddress,
+	http,
+	isHex,
+	parseSignature,
+	serializeTransaction,
+	stringToHex,
+	toHex,
+	type Address,
+	type Hash,
+	type Hex,
+	type PublicClient,
+	type SignableMessage,
+	type TransactionSerializable,
+	type TypedDataDefinition
+} from 'viem';
+import { HDKey } from '@scure/bip32';
+import { BaseConnector } from '../../core/BaseConnector.js';
+import {
+	ChainDisconnectedError,
+	ChainNotConfiguredError,
+	NoAccountsError,
+	TimeoutError,
+	UnauthorizedError,
+	UserRejectedError
+} from '../../core/errors.js';
+import type {
+	ConnectorCapabilities,
+	ConnectorOperationOptions,
+	ConnectorTransactionRequest,
+	EIP1193Provider
+} from '../../core/types/connector.js';
+import { abortable, throwIfAborted } from '../../core/abort.js';
+import type { ConnectorEvents } from '../../core/types/events.js';
+import type { EventHandler } from '../../core/event-emitter.js';
+import { createStorage, type Storage } from '../../core/create-storage.js';
+import { isPromiseLike } from '../../core/storage-adapters.js';
+import { isRecord, type StorageSchema } from '../../core/migrations.js';
+import { toMessageHex, toTypedDataJson } from '../../utils/signing.js';
+import { fromHex, publicKeyToAddress } from './keys.js';
+import { getChildPath, parseDerivationPath, type DerivationPathTemplate } from './derivation.js';
+import { URQREncoder } from './encoder.js';
+import type {
+	ExtendedPublicKey,
+	HardwareAccount,
+	QRConnectorEvents,
+	QREncoder,
+	QRHardwareConnectorEvents,
+	QRHardwareConnectorOptions,
+	QRScanData,
+	QRSignDataType,
+	QRSignRequest
+} from './types.js';
+
+const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/0";
+const DEFAULT_PAGE_SIZE = 5;
+const DEFAULT_SCAN_TIMEOUT = 2 * 60 * 1000; // 2 minutes
+
+/**
+ * 持久化的配对信息
+ *
+ * 只包含公开信息（扩展公钥和派生出的地址），不包含任何私钥材料
+ */
+interface QRHardwarePairing {
+	extendedPublicKey?: ExtendedPublicKey;
+	accounts: HardwareAccount[];
+	selectedAddress?: Address;
+	chainId?: number;
+}
+
+/**
+ * 配对信息的数据结构定义
+ *
+ * - v1：加入版本号，结构与无版本号的旧数据相同
+ */
+const pairingSchema: StorageSchema<QRHardwarePairing> = {
+	version: 1,
+	validate: (data): data is QRHardwarePairing => isRecord(data) && Array.isArray(data.accounts)
+};
+
+/**
+ * 等待中的扫描
+ */
+interface PendingScan {
+	type: 'sync' | 'sign';
+	resolve: (data: QRScanData) => void;
+	reject: (error: Error) => void;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * QR 硬件钱包连接器
+ *
+ * 适用于 Keystone、AirGap Vault 等完全离线（air-gapped）的硬件钱包：
+ * - 连接时显示同步二维码，扫描硬件钱包返回的扩展公钥（xpub）
+ * - 在本地通过 xpub 分页派生账户，无需再次与硬件钱包交互
+ * - 签名时显示签名请求二维码，扫描硬件钱包返回的签名
+ *
+ * 连接器本身不负责摄像头和二维码渲染：
+ * - 监听 `displayQR` 事件渲染二维码
+ * - 扫描到硬件钱包的二维码后调用 `submitScan()` 回传数据
+ *
+ * @example
+ * ```typescript
+ * const connector = new QRHardwareConnector({
+ *   id: 'keystone',
+ *   name: 'Keystone',
+ *   chains: [mainnet],
+ *   shimDisconnect: false
+ * });
+ *
+ * connector.on('displayQR', (qrData, type) => showQRCode(qrData));
+ * scanner.onResult((data) => connector.submitScan({ type: 'sync', data }));
+ *
+ * await connector.connect(1);
+ * ```
+ */
+export class QRHardwareConnector extends BaseConnector {
+	readonly id: string;
+	readonly name: string;
+	readonly icon: string | undefined;
+	readonly needsReinitOnChainsChange = false;
+
+	private encoder: QREncoder;
+	private derivationPath: string;
+	private derivationTemplate: DerivationPathTemplate;
+	private pageSize: number;
+	private currentPage: number;
+	private scanTimeout: number;
+
+	private extendedPublicKey: ExtendedPublicKey | null = null;
+	private hdKey: HDKey | null = null;
+	private accounts: HardwareAccount[] = [];
+	private selectedAddress: Address | undefined;
+	private currentChainId: number | undefined;
+	private pendingScan: PendingScan | null = null;
+	private provider: EIP1193Provider;
+	private providerListeners = new Map<string, Set<(...args: unknown[]) => void>>();
+	private storage: Storage<QRHardwarePairing>;
+	private pairingRestored: Promise<void>;
+
+	constructor(options: QRHardwareConnectorOptions) {
+		super(options);
+		this.logger = this.logger.child('QRHardware');
+
+		this.id = options.id;
+		this.name = options.name;
+		this.icon = options.icon;
+		this.encoder = options.encoder || new URQREncoder();
+		this.derivationPath =
+			options.defaultDerivationPath || options.derivationPaths?.[0] || DEFAULT_DERIVATION_PATH;
+		this.derivationTemplate = parseDerivationPath(this.derivationPath);
+		this.pageSize = options.pagination?.pageSize || DEFAULT_PAGE_SIZE;
+		this.currentPage = options.pagination?.initialPage || 0;
+		this.scanTimeout = options.scanTimeout || DEFAULT_SCAN_TIMEOUT;
+		this.storage = createStorage<QRHardwarePairing>(`qr-hardware.${this.id}`, {
+			adapter: options.storage,
+			schema: pairingSchema,
+			logger: this.logger
+		});
+		this.provider = this.createProvider();
+
+		// 恢复之前的配对信息
+		const pairing = this.storage.load();
+		if (isPromiseLike(pairing)) {
+			this.pairingRestored = pairing.then((value) => {
+				if (value) this.restorePairing(value);
+			});
+		} else {
+			if (pairing) this.restorePairing(pairing);
+			this.pairingRestored = Promise.resolve();
+		}
+	}
+
+	/**
+	 * 连接器是否准备就绪
+	 *
+	 * QR 连接器不依赖任何注入对象，总是可用
+	 */
+	get ready(): boolean {
+		return true;
+	}
+
+	/**
+	 * 连接钱包
+	 *
+	 * 如果尚未配对，显示同步二维码并等待扫描硬件钱包返回的账户信息；
+	 * signal 取消时关闭二维码（cancelScan）
+	 */
+	protected async doConnect(
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<{
+		address: Address;
+		addresses: Address[];
+		chainId: number;
+	}> {
+		const { signal } = options;
+		throwIfAborted(signal, this.id);
+		if (!this.getChain(chainId)) {
+			throw new ChainNotConfiguredError(chainId, { connectorId: this.id });
+		}
+
+		await this.pairingRestored;
+		throwIfAborted(signal, this.id);
+		if (this.accounts.length === 0) {
+			const syncData = this.encoder.encodeSync(chainId, this.derivationTemplate.basePath);
+			const scan = await abortable(this.requestScan(syncData, 'sync'), signal, {
+				connectorId: this.id,
+				onAbort: () => this.cancelScan()
+			});
+			this.importPairing(scan.data);
+		}
+
+		if (this.accounts.length === 0) {
+			throw new NoAccountsError(undefined, { connectorId: this.id });
+		}
+
+		const addresses = this.getAddresses();
+		const address =
+			this.selectedAddress && addresses.includes(this.selectedAddress)
+				? this.selectedAddress
+				: addresses[0];
+
+		this.selectedAddress = address;
+		this.currentChainId = chainId;
+		this.persistPairing();
+
+		this.emit('connected', {
+			address,
+			addresses,
+			chainId,
+			chains: [chainId]
+		});
+
+		return {
+			address,
+			addresses,
+			chainId
+		};
+	}
+
+	/**
+	 * 断开连接
+	 *
+	 * 清除本地保存的扩展公钥和账户，下次连接需要重新扫码同步
+	 */
+	disconnect(): Promise<void> {
+		this.cancelScan();
+		this.extendedPublicKey = null;
+		this.hdKey = null;
+		this.accounts = [];
+		this.selectedAddress = undefined;
+		this.currentChainId = undefined;
+		this.currentPage = 0;
+		void this.storage.clear();
+
+		this.emit('disconnected');
+		return Promise.resolve();
+	}
+
+	/**
+	 * 获取当前账户
+	 */
+	getAccount(): Promise<Address> {
+		if (!this.selectedAddress) {
+			return Promise.reject(new NoAccountsError(undefined, { connectorId: this.id }));
+		}
+		return Promise.resolve(this.selectedAddress);
+	}
+
+	/**
+	 * 获取所有已派生的账户
+	 */
+	getAccounts(): Promise<Address[]> {
+		return Promise.resolve(this.getAddresses());
+	}
+
+	/**
+	 * 获取当前链 ID
+	 *
+	 * 离线钱包没有“当前网络”的概念，链 ID 由 dApp 在签名请求中指定
+	 */
+	getChainId(): Promise<number> {
+		return Promise.resolve(this.currentChainId ?? this.chains[0]?.id ?? 1);
+	}
+
+	/**
+	 * 切换账户
+	 *
+	 * 只能切换到已派生的账户，可以先通过 getAccountsPage() 派生更多账户
+	 */
+	async switchAccount(address: Address): Promise<void> {
+		const addresses = this.getAddresses();
+		const target = addresses.find((item) => item.toLowerCase() === address.toLowerCase());
+
+		if (!target) {
+			throw new UnauthorizedError(undefined, { connectorId: this.id });
+		}
+
+		this.selectedAddress = target;
+		this.persistPairing();
+
+		const chainId = await this.getChainId();
+		this.emit('permissionChanged', {
+			address: target,
+			addresses,
+			chainId,
+			chains: [chainId]
+		});
+		this.emitProviderEvent('accountsChanged', [target]);
+	}
+
+	/**
+	 * 切换链
+	 *
+	 * 只更新本地状态，后续签名请求会携带新的链 ID
+	 */
+	protected async doSwitchChain(
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<void> {
+		throwIfAborted(options.signal, this.id);
+		if (!this.getChain(chainId)) {
+			throw new ChainNotConfiguredError(chainId, { connectorId: this.id });
+		}
+
+		this.currentChainId = chainId;
+		this.persistPairing();
+
+		const address = await this.getAccount();
+		this.emit('permissionChanged', {
+			address,
+			addresses: this.getAddresses(),
+			chainId,
+			chains: [chainId]
+		});
+		this.emitProviderEvent('chainChanged', toHex(chainId));
+	}
+
+	/**
+	 * 检查是否已授权（是否已完成配对）
+	 */
+	protected async doIsAuthorized(): Promise<boolean> {
+		await this.pairingRestored;
+		return this.accounts.length > 0;
+	}
+
+	/**
+	 * 获取 EIP-1193 Provider
+	 *
+	 * 账户和签名相关的方法由连接器处理（签名会走 QR 流程），
+	 * 其余只读方法转发到当前链的 RPC
+	 */
+	getProvider(): EIP1193Provider {
+		return this.provider;
+	}
+
+	/**
+	 * 获取元数据
+	 */
+	getMetadata() {
+		return {
+			...super.getMetadata(),
+			derivationPath: this.derivationPath,
+			sourceFingerprint: this.extendedPublicKey?.sourceFingerprint
+		};
+	}
+
+	/**
+	 * 监听事件（包括 QR 扩展事件）
+	 */
+	on<K extends keyof QRHardwareConnectorEvents>(
+		event: K,
+		listener: EventHandler<QRHardwareConnectorEvents, K>
+	): () => void {
+		return super.on(
+			event as keyof ConnectorEvents,
+			listener as EventHandler<ConnectorEvents, keyof ConnectorEvents>
+		);
+	}
+
+	/**
+	 * 监听事件，只触发一次（包括 QR 扩展事件）
+	 */
+	once<K extends keyof QRHardwareConnectorEvents>(
+		event: K,
+		listener: EventHandler<QRHardwareConnectorEvents, K>
+	): () => void {
+		return super.once(
+			event as keyof ConnectorEvents,
+			listener as EventHandler<ConnectorEvents, keyof ConnectorEvents>
+		);
+	}
+
+	/**
+	 * 取消监听
+	 */
+	off<K extends keyof QRHardwareConnectorEvents>(
+		event: K,
+		listener: EventHandler<QRHardwareConnectorEvents, K>
+	): void {
+		super.off(
+			event as keyof ConnectorEvents,
+			listener as EventHandler<ConnectorEvents, keyof ConnectorEvents>
+		);
+	}
+
+	/**
+	 * 提交扫描结果
+	 *
+	 * 应用扫描到硬件钱包的二维码后调用此方法
+	 */
+	submitScan(scan: QRScanData): void {
+		this.emitQR('qrScanned', scan);
+
+		const pending = this.pendingScan;
+		if (!pending) {
+			this.logger.warn('Received scan but no scan is pending');
+			return;
+		}
+
+		const expected = pending.type === 'sync' ? ['sync', 'account'] : ['sign'];
+		if (!expected.includes(scan.type)) {
+			this.logger.warn(`Ignoring ${scan.type} scan while waiting for ${pending.type}`);
+			return;
+		}
+
+		// 动态二维码需要累积多帧后才能解码
+		let data = scan.data;
+		if (this.encoder.receivePart) {
+			try {
+				const result = this.encoder.receivePart(scan.data);
+				if (!result) {
+					return;
+				}
+				data = result;
+			} catch (error) {
+				clearTimeout(pending.timer);
+				this.pendingScan = null;
+				pending.reject(error instanceof Error ? error : new Error(String(error)));
+				return;
+			}
+		}
+
+		clearTimeout(pending.timer);
+		this.pendingScan = null;
+		pending.resolve({ ...scan, data });
+	}
+
+	/**
+	 * 取消正在等待的扫描
+	 */
+	cancelScan(): void {
+		const pending = this.pendingScan;
+		if (!pending) return;
+
+		clearTimeout(pending.timer);
+		this.pendingScan = null;
+		pending.reject(new UserRejectedError('QR scan cancelled', { connectorId: this.id }));
+	}
+
+	/**
+	 * 直接导入扩展公钥（不经过扫码流程）
+	 *
+	 * 用于应用自行完成同步、或从其他渠道获得 xpub 的场景
+	 */
+	importExtendedPublicKey(extendedPublicKey: ExtendedPublicKey): HardwareAccount[] {
+		this.setExtendedPublicKey(extendedPublicKey);
+		this.currentPage = 0;
+		this.accounts = this.deriveAccounts(0, this.pageSize);
+		this.selectedAddress = this.accounts[0]?.address as Address | undefined;
+		this.persistPairing();
+		return [...this.accounts];
+	}
+
+	/**
+	 * 获取指定页的账户
+	 *
+	 * 账户通过 xpub 在本地派生，派生出的账户会加入可用账户列表
+	 *
+	 * @param page 页码（从 0 开始）
+	 * @throws RangeError 页码不是非负整数时抛出
+	 */
+	getAccountsPage(page: number = this.currentPage): HardwareAccount[] {
+		if (!Number.isInteger(page) || page < 0) {
+			throw new RangeError(`Page must be a non-negative integer, got ${page}`);
+		}
+
+		// 没有 xpub（硬件钱包直接返回账户列表）时只能分页已有账户
+		if (!this.hdKey) {
+			const start = page * this.pageSize;
+			this.currentPage = page;
+			return this.accounts.slice(start, start + this.pageSize);
+		}
+
+		const pageAccounts = this.deriveAccounts(page * this.pageSize, this.pageSize);
+		pageAccounts.forEach((account) => {
+			if (!this.accounts.some((item) => item.index === account.index)) {
+				this.accounts.push(account);
+			}
+		});
+		this.accounts.sort((a, b) => a.index - b.index);
+		this.currentPage = page;
+		this.persistPairing();
+
+		return pageAccounts;
+	}
+
+	/**
+	 * 获取下一页账户
+	 */
+	getNextAccountsPage(): HardwareAccount[] {
+		return this.getAccountsPage(this.currentPage + 1);
+	}
+
+	/**
+	 * 获取上一页账户
+	 */
+	getPreviousAccountsPage(): HardwareAccount[] {
+		return this.getAccountsPage(Math.max(0, this.currentPage - 1));
+	}
+
+	/**
+	 * 获取当前页码
+	 */
+	getCurrentPage(): number {
+		return this.currentPage;
+	}
+
+	/**
+	 * 获取已派生的账户详情
+	 */
+	getHardwareAccounts(): HardwareAccount[] {
+		return [...this.accounts];
+	}
+
+	/**
+	 * 签名交易
+	 *
+	 * @param options 可以传入 signal 取消等待扫描
+	 * @returns 已签名的序列化交易，可直接通过 eth_sendRawTransaction 广播
+	 */
+	async signTransaction(
+		transaction: TransactionSerializable,
+		options: ConnectorOperationOptions = {}
+	): Promise<Hex> {
+		const chainId = transaction.chainId ?? (await this.getChainId());
+		const unsigned = { ...transaction, chainId } as TransactionSerializable;
+		const serialized = serializeTransaction(unsigned);
+		const dataType: QRSignDataType =
+			unsigned.type === undefined || unsigned.type === 'legacy'
+				? 'transaction'
+				: 'typedTransaction';
+
+		const signature = await this.requestSignature(
+			serialized,
+			dataType,
+			chainId,
+			undefined,
+			options
+		);
+		return serializeTransaction(unsigned, parseSignature(signature));
+	}
+
+	/**
+	 * 签名 EIP-712 类型化数据
+	 */
+	protected doSignTypedData(
+		typedData: TypedDataDefinition,
+		address: Address | undefined,
+		options: ConnectorOperationOptions
+	): Promise<Hex> {
+		return this.signTypedDataJson(toTypedDataJson(typedData), address, options);
+	}
+
+	/**
+	 * 签名消息（personal_sign）
+	 */
+	protected doSignMessage(
+		message: SignableMessage,
+		address: Address | undefined,
+		options: ConnectorOperationOptions
+	): Promise<Hex> {
+		return this.requestSignature(
+			toMessageHex(message),
+			'personalMessage',
+			undefined,
+			address,
+			options
+		);
+	}
+
+	/**
+	 * 发送交易
+	 *
+	 * 硬件钱包只负责签名：先通过当前链的 RPC 补全 nonce、gas 等字段，签名后再广播
+	 */
+	protected async doSendTransaction(
+		transaction: ConnectorTransactionRequest,
+		options: ConnectorOperationOptions
+	): Promise<Hash> {
+		const { chainId: targetChainId, ...request } = transaction;
+		const chainId = await this.getChainId();
+
+		if (targetChainId !== undefined && targetChainId !== chainId) {
+			throw new ChainDisconnectedError(
+				targetChainId,
+				`Chain mismatch: wallet is on chain [${chainId}], transaction targets chain [${targetChainId}]`,
+				{ connectorId: this.id }
+			);
+		}
+
+		const client = this.getPublicClient(chainId);
+		const account = request.from ?? (await this.getAccount());
+		const prepared = await client.prepareTransactionRequest({
+			...request,
+			account,
+			chain: client.chain
+		} as Parameters<PublicClient['prepareTransactionRequest']>[0]);
+
+		const serializedTransaction = await this.signTransaction(
+			{ ...prepared, chainId } as TransactionSerializable,
+			options
+		);
+		return client.sendRawTransaction({ serializedTransaction });
+	}
+
+	/**
+	 * 获取钱包能力
+	 *
+	 * QR 硬件钱包不支持 EIP-5792，始终返回空对象
+	 */
+	getCapabilities(): Promise<ConnectorCapabilities> {
+		return Promise.resolve({});
+	}
+
+	/**
+	 * 签名已序列化的 EIP-712 JSON
+	 */
+	private signTypedDataJson(
+		json: string,
+		address?: Address,
+		options: ConnectorOperationOptions = {}
+	): Promise<Hex> {
+		return this.requestSignature(stringToHex(json), 'typedData', undefined, address, options);
+	}
+
+	/**
+	 * 显示签名请求二维码并等待签名
+	 *
+	 * options.signal 取消（包括超时）时关闭二维码并放弃等待
+	 */
+	private async requestSignature(
+		signData: Hex,
+		dataType: QRSignDataType,
+		chainId?: number,
+		address?: Address,
+		options: ConnectorOperationOptions = {}
+	): Promise<Hex> {
+		throwIfAborted(options.signal, this.id);
+		const account = this.findAccount(address ?? (await this.getAccount()));
+		const request: QRSignRequest = {
+			requestId: createRequestId(),
+			signData,
+			dataType,
+			chainId: chainId ?? (await this.getChainId()),
+			address: account.address as Address,
+			derivationPath: account.derivationPath,
+			sourceFingerprint: this.extendedPublicKey?.sourceFingerprint
+		};
+
+		const qrData =
+			dataType === 'typedData'
+				? this.encoder.encodeSignTypedData(request)
+				: this.encoder.encodeSign(request);
+
+		const scan = await abortable(this.requestScan(qrData, 'sign'), options.signal, {
+			connectorId: this.id,
+			onAbort: () => this.cancelScan()
+		});
+		return this.encoder.decodeSignature(scan.data) as Hex;
+	}
+
+	/**
+	 * 显示二维码并等待扫描结果
+	 */
+	private requestScan(qrData: string, type: 'sync' | 'sign'): Promise<QRScanData> {
+		// 同一时间只允许一个扫描请求
+		this.cancelScan();
+
+		return new Promise<QRScanData>((resolve, reject) => {
+			const timer = setTimeout(() => {
+				if (this.pendingScan?.timer !== timer) return;
+				this.pendingScan = null;
+				this.emitQR('scanTimeout');
+				reject(new TimeoutError('scan', this.scanTimeout, { connectorId: this.id }));
+			}, this.scanTimeout);
+
+			this.pendingScan = { type, resolve, reject, timer };
+
+			this.emitQR('qrGenerated', qrData);
+			this.emitQR('displayQR', qrData, type);
+			this.emitQR('waitingForScan');
+		});
+	}
+
+	/**
+	 * 解析同步扫描结果
+	 *
+	 * 优先使用扩展公钥在本地派生账户，否则使用硬件钱包直接返回的账户列表
+	 */
+	private importPairing(qrData: string): void {
+		const extendedPublicKey = this.encoder.decodeExtendedPublicKey?.(qrData) ?? null;
+
+		if (extendedPublicKey) {
+			this.importExtendedPublicKey(extendedPublicKey);
+			return;
+		}
+
+		const accounts = this.encoder.decodeAccounts(qrData);
+		this.extendedPublicKey = null;
+		this.hdKey = null;
+		this.accounts = accounts.map((account) => ({
+			...account,
+			address: getAddress(account.address)
+		}));
+		this.currentPage = 0;
+		this.selectedAddress = this.accounts[0]?.address as Address | undefined;
+		this.persistPairing();
+	}
+
+	/**
+	 * 设置扩展公钥并创建 HDKey
+	 */
+	private setExtendedPublicKey(extendedPublicKey: ExtendedPublicKey): void {
+		this.hdKey = extendedPublicKey.xpub
+			? HDKey.fromExtendedKey(extendedPublicKey.xpub)
+			: new HDKey({
+					publicKey: fromHex(extendedPublicKey.publicKey),
+					chainCode: fromHex(extendedPublicKey.chainCode),
+					depth: extendedPublicKey.depth,
+					parentFingerprint: extendedPublicKey.parentFingerprint
+						? parseInt(extendedPublicKey.parentFingerprint, 16)
+						: undefined
+				});
+		this.extendedPublicKey = extendedPublicKey;
+	}
+
+	/**
+	 * 从 xpub 派生账户
+	 *
+	 * 按配置的派生路径模板派生，如 `m/44'/60'/0'/0/x` 派生 `${basePath}/0/${index}`
+	 */
+	private deriveAccounts(start: number, count: number): HardwareAccount[] {
+		if (!this.hdKey || !this.extendedPublicKey) {
+			return [];
+		}
+
+		const accounts: HardwareAccount[] = [];
+
+		for (let index = start; index < start + count; index++) {
+			const childPath = getChildPath(this.derivationTemplate, index);
+			const child = childPath.reduce((key, segment) => key.deriveChild(segment), this.hdKey);
+			if (!child.publicKey) continue;
+
+			accounts.push({
+				address: publicKeyToAddress(child.publicKey),
+				derivationPath: [this.extendedPublicKey.basePath, ...childPath].join('/'),
+				publicKey: toHex(child.publicKey),
+				index
+			});
+		}
+
+		return accounts;
+	}
+
+	/**
+	 * 恢复持久化的配对信息
+	 */
+	private restorePairing(pairing: QRHardwarePairing): void {
+		try {
+			if (pairing.extendedPublicKey) {
+				this.setExtendedPublicKey(pairing.extendedPublicKey);
+			}
+			this.accounts = pairing.accounts || [];
+			this.selectedAddress = pairing.selectedAddress;
+			this.currentChainId = pairing.chainId;
+		} catch (error) {
+			this.logger.warn('Failed to restore pairing, clearing:', error);
+			this.extendedPublicKey = null;
+			this.hdKey = null;
+			this.accounts = [];
+			void this.storage.clear();
+		}
+	}
+
+	/**
+	 * 持久化配对信息
+	 */
+	private persistPairing(): void {
+		if (this.accounts.length === 0) return;
+
+		void this.storage.save({
+			extendedPublicKey: this.extendedPublicKey ?? undefined,
+			accounts: this.accounts,
+			selectedAddress: this.selectedAddress,
+			chainId: this.currentChainId
+		});
+	}
+
+	/**
+	 * 获取所有已派生的地址
+	 */
+	private getAddresses(): Address[] {
+		return this.accounts.map((account) => account.address as Address);
+	}
+
+	/**
+	 * 查找账户
+	 */
+	private findAccount(address: Address): HardwareAccount {
+		const account = this.accounts.find(
+			(item) => item.address.toLowerCase() === address.toLowerCase()
+		);
+		if (!account) {
+			throw new UnauthorizedError(undefined, { connectorId: this.id });
+		}
+		return account;
+	}
+
+	/**
+	 * 触发 QR 扩展事件
+	 */
+	private emitQR<K extends keyof QRConnectorEvents>(
+		event: K,
+		...args: QRConnectorEvents[K] extends (...args: infer P) => void ? P : never
+	): void {
+		(this.emit as (event: string, ...args: unknown[]) => void)(event, ...args);
+	}
+
+	/**
+	 * 触发 Provider 事件
+	 */
+	private emitProviderEvent(event: string, ...args: unknown[]): void {
+		this.providerListeners.get(event)?.forEach((listener) => {
+			listener(...args);
+		});
+	}
+
+	/**
+	 * 创建 EIP-1193 Provider
+	 */
+	private createProvider(): EIP1193Provider {
+		const addListener = (event: string, listener: (...args: unknown[]) => void) => {
+			if (!this.providerListeners.has(event)) {
+				this.providerListeners.set(event, new Set());
+			}
+			this.providerListeners.get(event)!.add(listener);
+		};
+		const removeListener = (event: string, listener: (...args: unknown[]) => void) => {
+			this.providerListeners.get(event)?.delete(listener);
+		};
+
+		return {
+			request: async ({ method, params = [] }) => {
+				switch (method) {
+					case 'eth_accounts':
+						return this.selectedAddress ? [this.selectedAddress] : [];
+					case 'eth_requestAccounts': {
+						const result = await this.connect(await this.getChainId());
+						return [result.address];
+					}
+					case 'eth_chainId':
+						return toHex(await this.getChainId());
+					case 'wallet_switchEthereumChain': {
+						const [{ chainId }] = params as [{ chainId: string }];
+						await this.switchChain(parseInt(chainId, 16));
+						return null;
+					}
+					case 'personal_sign': {
+						const [message, address] = params as [string, Address];
+						return this.signMessage(isHex(message) ? { raw: message } : message, address);
+					}
+					case 'eth_signTypedData_v4': {
+						const [address, typedData] = params as [Address, unknown];
+						const json = typeof typedData === 'string' ? typedData : JSON.stringify(typedData);
+						return this.signTypedDataJson(json, address);
+					}
+					default:
+						return this.forwardRequest(method, params);
+				}
+			},
+			on: addListener,
+			off: removeListener,
+			removeListener
+		};
+	}
+
+	/**
+	 * 将只读请求转发到当前链的 RPC
+	 */
+	private async forwardRequest(method: string, params: unknown[]): Promise<unknown> {
+		const client = this.getPublicClient(await this.getChainId());
+		return client.request({ method, params } as Parameters<PublicClient['request']>[0]);
+	}
+
+	/**
+	 * 获取当前链的只读客户端
+	 */
+	private getPublicClient(chainId: number): PublicClient {
+		const chain = this.getChain(chainId);
+		const rpcUrl = chain?.rpcUrls.default.http[0];
+
+		if (!chain || !rpcUrl) {
+			throw new ChainNotConfiguredError(chainId, { connectorId: this.id });
+		}
+
+		return createPublicClient({ chain, transport: http(rpcUrl) });
+	}
+}
+
+/**
+ * 生成签名请求 ID（UUID v4）
+ */
+function createRequestId(): string {
+	if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+		return crypto.randomUUID();
+	}
+
+	const bytes = new Uint8Array(16);
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = Math.floor(Math.random() * 256);
+	}
+	bytes[6] = (bytes[6] & 0x0f) | 0x40;
+	bytes[8] = (bytes[8] & 0x3f) | 0x80;
+	const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+	return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
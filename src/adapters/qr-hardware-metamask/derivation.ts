@@ -0,0 +1,83 @@
+/**
+ * 派生路径模板
+ *
+ * 账户从硬件钱包返回的 xpub 在本地派生，因此账户序号只能出现在 xpub 之后的非硬化部分：
+ * - `m/44'/60'/0'/0/x`：BIP-44（MetaMask、Keystone 默认）
+ * - `m/44'/60'/0'/x`：Ledger 旧版（MEW / MyCrypto）
+ *
+ * `x` 表示账户序号；不含 `x` 的具体路径（如 `m/44'/60'/0'/0/0`）以最后一段作为账户序号。
+ * Ledger Live 风格的 `m/44'/60'/x'/0/0` 每个账户使用不同的硬化密钥，无法从一个 xpub 派生，不支持
+ */
+
+const INDEX_PLACEHOLDER = 'x';
+const HARDENED_OFFSET = 0x80000000;
+
+/**
+ * 解析后的派生路径模板
+ */
+export interface DerivationPathTemplate {
+	/** xpub 对应的路径（硬化部分），如 m/44'/60'/0' */
+	basePath: string;
+	/** xpub 之后的相对路径，null 为账户序号所在位置 */
+	children: (number | null)[];
+}
+
+/**
+ * 解析派生路径模板
+ *
+ * @throws RangeError 路径格式不正确，或账户序号无法从 xpub 派生时抛出
+ */
+export function parseDerivationPath(path: string): DerivationPathTemplate {
+	const [root, ...segments] = path.trim().split('/');
+	if (root !== 'm' || segments.length === 0) {
+		throw new RangeError(`Invalid derivation path: ${path}`);
+	}
+
+	const firstChild = segments.findIndex((segment) => !segment.endsWith("'"));
+	const hardened = firstChild === -1 ? segments : segments.slice(0, firstChild);
+	const relative = firstChild === -1 ? [] : segments.slice(firstChild);
+
+	if (hardened.some((segment) => segment.startsWith(INDEX_PLACEHOLDER))) {
+		throw new RangeError(
+			`Unsupported derivation path: ${path} (the account index must not be hardened, accounts are derived from a single xpub)`
+		);
+	}
+	if (relative.length === 0 || relative.some((segment) => segment.endsWith("'"))) {
+		throw new RangeError(
+			`Unsupported derivation path: ${path} (hardened segments must come before the account index)`
+		);
+	}
+	hardened.forEach((segment) => parseSegment(segment.slice(0, -1), path));
+
+	let children = relative.map((segment) =>
+		segment === INDEX_PLACEHOLDER ? null : parseSegment(segment, path)
+	);
+	const placeholders = children.filter((child) => child === null).length;
+	if (placeholders > 1) {
+		throw new RangeError(`Invalid derivation path: ${path} (more than one account index)`);
+	}
+	// 具体路径：最后一段为账户序号
+	if (placeholders === 0) {
+		children = [...children.slice(0, -1), null];
+	}
+
+	return { basePath: ['m', ...hardened].join('/'), children };
+}
+
+/**
+ * 生成指定账户序号的相对路径（xpub 之后的部分）
+ */
+export function getChildPath(template: DerivationPathTemplate, index: number): number[] {
+	return template.children.map((child) => child ?? index);
+}
+
+/**
+ * 解析路径中的一段序号
+ */
+function parseSegment(segment: string, path: string): number {
+	const value = Number(segment);
+	if (!/^\d+$/.test(segment) || value >= HARDENED_OFFSET) {
+		throw new RangeError(`Invalid derivation path: ${path}`);
+	}
+	return value;
+}
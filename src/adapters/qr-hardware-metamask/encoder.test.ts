@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToHex, hexToBytes } from 'viem';
+import { URQREncoder } from './encoder.js';
+import { encodeCbor, decodeCbor } from './ur/cbor.js';
+import { URTypes, decodeEthSignRequest, encodeEthSignature } from './ur/registry.js';
+import { UR } from './ur/ur.js';
+import { MOCK_ACCOUNTS } from '../../testing/mock-provider.js';
+import type { QRSignRequest } from './types.js';
+
+const SIGNATURE = `0x${'ab'.repeat(64)}1b` as const;
+
+const request: QRSignRequest = {
+	requestId: '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d',
+	signData: '0x68656c6c6f',
+	dataType: 'personalMessage',
+	chainId: 1,
+	address: MOCK_ACCOUNTS[0],
+	derivationPath: "m/44'/60'/0'/0/0",
+	sourceFingerprint: '12345678'
+};
+
+function signatureUR(requestId?: string): string {
+	const cbor = encodeCbor(
+		encodeEthSignature({
+			requestId: requestId ? hexToBytes(`0x${requestId.replace(/-/g, '')}`) : undefined,
+			signature: hexToBytes(SIGNATURE)
+		})
+	);
+	return new UR(URTypes.ethSignature, cbor).toString();
+}
+
+describe('URQREncoder', () => {
+	it('encodes sign requests as eth-sign-request', () => {
+		const encoder = new URQREncoder({ origin: 'dapp' });
+
+		const ur = UR.fromString(encoder.encodeSign(request));
+
+		expect(ur.type).toBe('eth-sign-request');
+		expect(decodeEthSignRequest(decodeCbor(ur.cbor))).toMatchObject({
+			dataType: 3,
+			chainId: 1,
+			derivationPath: { path: "m/44'/60'/0'/0/0", sourceFingerprint: 0x12345678 },
+			origin: 'dapp'
+		});
+		expect(bytesToHex(decodeEthSignRequest(decodeCbor(ur.cbor)).address!)).toBe(
+			MOCK_ACCOUNTS[0].toLowerCase()
+		);
+	});
+
+	it('accepts the signature for the pending request', () => {
+		const encoder = new URQREncoder();
+		encoder.encodeSign(request);
+
+		expect(encoder.decodeSignature(signatureUR(request.requestId))).toBe(SIGNATURE);
+	});
+
+	it('rejects a signature for a different request', () => {
+		const encoder = new URQREncoder();
+		encoder.encodeSign(request);
+
+		expect(() =>
+			encoder.decodeSignature(signatureUR('00000000-0000-4000-8000-000000000000'))
+		).toThrow('does not match the pending sign request');
+	});
+
+	it('rejects other UR types', () => {
+		const encoder = new URQREncoder();
+
+		expect(() => encoder.decodeSignature(encoder.encodeSign(request))).toThrow(
+			'Unsupported UR type'
+		);
+	});
+});
@@ -0,0 +1,297 @@
+import { bytesToHex, hexToBytes, type Address, type Hex } from 'viem';
+import { HDKey } from '@scure/bip32';
+import { decodeCbor, encodeCbor } from './ur/cbor.js';
+import {
+	EthDataType,
+	URTypes,
+	decodeAccount,
+	decodeEthSignature,
+	decodeHDKey,
+	encodeEthSignRequest,
+	encodeKeypath
+} from './ur/registry.js';
+import { UR, URDecoder, UREncoder } from './ur/ur.js';
+import { publicKeyToAddress } from './keys.js';
+import type {
+	ExtendedPublicKey,
+	HardwareAccount,
+	QREncoder,
+	QRSignDataType,
+	QRSignRequest
+} from './types.js';
+
+const HARDENED_OFFSET = 0x80000000;
+
+/**
+ * UR 编码器选项
+ */
+export interface URQREncoderOptions {
+	/**
+	 * 签名请求中的来源标识，会显示在硬件钱包上
+	 */
+	origin?: string;
+}
+
+/**
+ * 动态二维码选项
+ */
+export interface AnimatedQROptions {
+	/**
+	 * 每帧最大分片字节数
+	 * @default 200
+	 */
+	maxFragmentLength?: number;
+}
+
+/**
+ * 基于 BC-UR 的 QR 编码器
+ *
+ * 与 Keystone 等支持 UR 的设备互通：
+ * - 同步：解码 `ur:crypto-hdkey`（标准 BIP-44 xpub）和 `ur:crypto-account`（Ledger Live 多账户）
+ * - 签名：编码 `ur:eth-sign-request`，解码 `ur:eth-signature`
+ * - 多帧：通过 receivePart() 累积动态二维码的各帧
+ *
+ * @example
+ * ```typescript
+ * const connector = new QRHardwareConnector({
+ *   id: 'keystone',
+ *   name: 'Keystone',
+ *   chains: [mainnet],
+ *   shimDisconnect: false,
+ *   encoder: new URQREncoder({ origin: 'My DApp' })
+ * });
+ * ```
+ */
+export class URQREncoder implements QREncoder {
+	private origin?: string;
+	private decoder: URDecoder | null = null;
+	private decoderType: string | null = null;
+	private pendingRequestId: string | null = null;
+
+	constructor(options: URQREncoderOptions = {}) {
+		this.origin = options.origin;
+	}
+
+	/**
+	 * 编码同步请求
+	 *
+	 * Keystone 等设备由硬件钱包主动展示账户二维码，这里返回 `ur:crypto-keypath`
+	 * 用于提示期望同步的派生路径
+	 */
+	encodeSync(_chainId: number, derivationPath: string): string {
+		return new UR(
+			URTypes.cryptoKeypath,
+			encodeCbor(encodeKeypath({ path: derivationPath }))
+		).toString();
+	}
+
+	/**
+	 * 编码签名请求（交易、personal_sign 消息）
+	 */
+	encodeSign(request: QRSignRequest): string {
+		return this.encodeSignRequest(request);
+	}
+
+	/**
+	 * 编码 EIP-712 类型化数据签名请求
+	 */
+	encodeSignTypedData(request: QRSignRequest): string {
+		return this.encodeSignRequest({ ...request, dataType: 'typedData' });
+	}
+
+	/**
+	 * 解码账户列表（`ur:crypto-account`）
+	 *
+	 * 每个 hdkey 即为一个账户的公钥（如 Ledger Live 路径 m/44'/60'/x'/0/0）
+	 */
+	decodeAccounts(qrData: string): HardwareAccount[] {
+		const ur = this.parse(qrData);
+		if (ur.type !== URTypes.cryptoAccount) {
+			throw new Error(`Unsupported UR type for accounts: ${ur.type}`);
+		}
+
+		const account = decodeAccount(decodeCbor(ur.cbor));
+		return account.keys.map((key, index) => ({
+			address: publicKeyToAddress(key.keyData),
+			derivationPath: key.origin?.path ?? '',
+			publicKey: bytesToHex(key.keyData),
+			index
+		}));
+	}
+
+	/**
+	 * 解码扩展公钥（`ur:crypto-hdkey`）
+	 *
+	 * 不是 crypto-hdkey 或缺少 chain code（无法派生子账户）时返回 null
+	 */
+	decodeExtendedPublicKey(qrData: string): ExtendedPublicKey | null {
+		const ur = this.parse(qrData);
+		if (ur.type !== URTypes.cryptoHDKey) {
+			return null;
+		}
+
+		const key = decodeHDKey(decodeCbor(ur.cbor));
+		if (!key.chainCode) {
+			return null;
+		}
+
+		const basePath = key.origin?.path ?? 'm';
+		const segments = basePath.split('/').slice(1);
+		const last = segments[segments.length - 1];
+		const index = last ? parseInt(last, 10) + (last.endsWith("'") ? HARDENED_OFFSET : 0) : 0;
+		const depth = key.origin?.depth ?? segments.length;
+
+		const hdKey = new HDKey({
+			publicKey: key.keyData,
+			chainCode: key.chainCode,
+			depth,
+			index,
+			parentFingerprint: key.parentFingerprint ?? 0
+		});
+
+		return {
+			xpub: hdKey.publicExtendedKey,
+			chainCode: bytesToHex(key.chainCode),
+			publicKey: bytesToHex(key.keyData),
+			parentFingerprint:
+				key.parentFingerprint !== undefined ? toFingerprintHex(key.parentFingerprint) : undefined,
+			sourceFingerprint:
+				key.origin?.sourceFingerprint !== undefined
+					? toFingerprintHex(key.origin.sourceFingerprint)
+					: undefined,
+			basePath,
+			depth
+		};
+	}
+
+	/**
+	 * 解码签名结果（`ur:eth-signature`）
+	 *
+	 * 如果签名携带请求 ID，会校验是否与最近一次签名请求匹配
+	 */
+	decodeSignature(qrData: string): string {
+		const ur = this.parse(qrData);
+		if (ur.type !== URTypes.ethSignature) {
+			throw new Error(`Unsupported UR type for signature: ${ur.type}`);
+		}
+
+		const signature = decodeEthSignature(decodeCbor(ur.cbor));
+		if (signature.requestId && this.pendingRequestId) {
+			const requestId = bytesToUuid(signature.requestId);
+			if (requestId !== this.pendingRequestId) {
+				throw new Error('Signature does not match the pending sign request');
+			}
+		}
+
+		this.pendingRequestId = null;
+		return bytesToHex(signature.signature);
+	}
+
+	/**
+	 * 接收一帧扫描数据
+	 *
+	 * @returns 完整的单帧 UR 字符串；还需要更多帧时返回 null
+	 */
+	receivePart(part: string): string | null {
+		// 切换到另一种 UR（如上次扫描未完成）时重新开始累积
+		const type = part.trim().toLowerCase().split('/')[0];
+		if (!this.decoder || this.decoderType !== type) {
+			this.decoder = new URDecoder();
+			this.decoderType = type;
+		}
+
+		try {
+			this.decoder.receivePart(part);
+		} catch (error) {
+			this.decoder = null;
+			throw error;
+		}
+
+		const result = this.decoder.getResult();
+		if (!result) {
+			return null;
+		}
+
+		this.decoder = null;
+		return result.toString();
+	}
+
+	/**
+	 * 获取当前多帧扫描进度（0-1）
+	 */
+	getScanProgress(): number {
+		return this.decoder?.getProgress() ?? 0;
+	}
+
+	/**
+	 * 编码 eth-sign-request
+	 */
+	private encodeSignRequest(request: QRSignRequest): string {
+		this.pendingRequestId = request.requestId;
+
+		const cbor = encodeCbor(
+			encodeEthSignRequest({
+				requestId: uuidToBytes(request.requestId),
+				signData: hexToBytes(request.signData),
+				dataType: toEthDataType(request.dataType),
+				chainId: request.chainId,
+				derivationPath: {
+					path: request.derivationPath,
+					sourceFingerprint: request.sourceFingerprint
+						? parseInt(request.sourceFingerprint, 16)
+						: undefined
+				},
+				address: hexToBytes(request.address as Address),
+				origin: this.origin
+			})
+		);
+
+		return new UR(URTypes.ethSignRequest, cbor).toString();
+	}
+
+	/**
+	 * 解析单帧 UR
+	 */
+	private parse(qrData: string): UR {
+		return UR.fromString(qrData);
+	}
+}
+
+/**
+ * 创建动态二维码帧生成器
+ *
+ * 数据较大（如合约交互交易）时单个二维码难以扫描，
+ * 可以循环展示 nextPart() 生成的各帧
+ *
+ * @example
+ * ```typescript
+ * connector.on('displayQR', (qrData) => {
+ *   const animation = createAnimatedQR(qrData);
+ *   setInterval(() => renderQR(animation.nextPart().toUpperCase()), 200);
+ * });
+ * ```
+ */
+export function createAnimatedQR(qrData: string, options: AnimatedQROptions = {}): UREncoder {
+	return new UREncoder(UR.fromString(qrData), options.maxFragmentLength);
+}
+
+function toEthDataType(dataType: QRSignDataType): number {
+	return EthDataType[dataType];
+}
+
+function toFingerprintHex(fingerprint: number): string {
+	return fingerprint.toString(16).padStart(8, '0');
+}
+
+function uuidToBytes(uuid: string): Uint8Array {
+	const hex = uuid.replace(/-/g, '');
+	if (!/^[0-9a-fA-F]{32}$/.test(hex)) {
+		throw new Error(`Invalid request id: ${uuid}`);
+	}
+	return hexToBytes(`0x${hex}` as Hex);
+}
+
+function bytesToUuid(bytes: Uint8Array): string {
+	const hex = bytesToHex(bytes).slice(2);
+	return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
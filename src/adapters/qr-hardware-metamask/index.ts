@@ -0,0 +1,25 @@
+/**
+ * QR Hardware Wallet Connector Module
+ *
+ * Supports air-gapped hardware wallets (Keystone, AirGap Vault, ...) that communicate via QR codes
+ */
+
+export { QRHardwareConnector } from './connector.js';
+export {
+	URQREncoder,
+	createAnimatedQR,
+	type URQREncoderOptions,
+	type AnimatedQROptions
+} from './encoder.js';
+export { UR, UREncoder, URDecoder } from './ur/index.js';
+export type {
+	QRHardwareConnectorOptions,
+	QRHardwareConnectorEvents,
+	QRConnectorEvents,
+	QRScanData,
+	QRSignRequest,
+	QRSignDataType,
+	QREncoder,
+	HardwareAccount,
+	ExtendedPublicKey
+} from './types.js';
@@ -0,0 +1,18 @@
+import { getAddress, hexToBytes, keccak256, type Address, type Hex } from 'viem';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+
+/**
+ * 从压缩公钥计算以太坊地址
+ */
+export function publicKeyToAddress(publicKey: Uint8Array): Address {
+	const uncompressed = secp256k1.Point.fromBytes(publicKey).toBytes(false);
+	const hash = keccak256(uncompressed.slice(1));
+	return getAddress(`0x${hash.slice(-40)}`);
+}
+
+/**
+ * 十六进制字符串转字节数组（兼容不带 0x 前缀的格式）
+ */
+export function fromHex(hex: string): Uint8Array {
+	return hexToBytes((hex.startsWith('0x') ? hex : `0x${hex}`) as Hex);
+}
@@ -1,4 +1,7 @@
+import type { Address, Hex } from 'viem';
 import type { ConnectorOptions } from '../../core/types/options.js';
+import type { ConnectorEvents } from '../../core/types/events.js';
+import type { StorageAdapter } from '../../core/storage-adapters.js';
 
 /**
  * QR-based 硬件钱包连接器选项
@@ -35,12 +38,16 @@ export interface QRHardwareConnectorOptions extends ConnectorOptions {
 
 	/**
 	 * 支持的派生路径
+	 *
+	 * `x` 表示账户序号，如 `m/44'/60'/0'/0/x`（BIP-44）、`m/44'/60'/0'/x`（Ledger 旧版）；
+	 * 不含 `x` 时以最后一段作为账户序号。账户序号必须在硬化部分之后（从 xpub 派生），
+	 * 不支持 Ledger Live 风格的 `m/44'/60'/x'/0/0`
 	 * @default ["m/44'/60'/0'/0/0"]
 	 */
 	derivationPaths?: string[];
 
 	/**
-	 * 默认派生路径
+	 * 默认派生路径（格式同 derivationPaths），不设置时使用 derivationPaths 的第一个
 	 */
 	defaultDerivationPath?: string;
 
@@ -53,6 +60,27 @@ export interface QRHardwareConnectorOptions extends ConnectorOptions {
 		/** 初始页码 */
 		initialPage?: number;
 	};
+
+	/**
+	 * QR 数据编码器
+	 *
+	 * 负责把同步/签名请求编码为硬件钱包能识别的 QR 数据，
+	 * 以及解码硬件钱包返回的账户和签名
+	 * @default URQREncoder（BC-UR 格式）
+	 */
+	encoder?: QREncoder;
+
+	/**
+	 * 等待扫描的超时时间（毫秒）
+	 * @default 120000
+	 */
+	scanTimeout?: number;
+
+	/**
+	 * 配对信息的存储适配器
+	 * @default createLocalStorageAdapter()
+	 */
+	storage?: StorageAdapter;
 }
 
 /**
@@ -95,6 +123,8 @@ export interface ExtendedPublicKey {
 	publicKey: string;
 	/** 父指纹 (parent fingerprint) */
 	parentFingerprint?: string;
+	/** 主密钥指纹 (master fingerprint)，签名请求中用于让硬件钱包定位密钥 */
+	sourceFingerprint?: string;
 	/** 基础派生路径 (例如：m/44'/60'/0') */
 	basePath: string;
 	/** 深度 (depth in derivation path) */
@@ -117,20 +147,61 @@ export interface QRConnectorEvents {
 	scanTimeout: () => void;
 }
 
+/**
+ * QR 连接器完整事件定义
+ */
+export interface QRHardwareConnectorEvents extends ConnectorEvents, QRConnectorEvents {}
+
+/**
+ * 签名数据类型
+ *
+ * - `transaction`: RLP 编码的 legacy 交易
+ * - `typedTransaction`: EIP-2718 类型化交易（如 EIP-1559）
+ * - `typedData`: EIP-712 类型化数据（UTF-8 JSON）
+ * - `personalMessage`: personal_sign 消息
+ */
+export type QRSignDataType = 'transaction' | 'typedTransaction' | 'typedData' | 'personalMessage';
+
+/**
+ * 发送给硬件钱包的签名请求
+ */
+export interface QRSignRequest {
+	/** 请求 ID，用于匹配返回的签名 */
+	requestId: string;
+	/** 待签名数据 */
+	signData: Hex;
+	/** 数据类型 */
+	dataType: QRSignDataType;
+	/** 链 ID */
+	chainId: number;
+	/** 签名账户地址 */
+	address: Address;
+	/** 签名账户的派生路径 */
+	derivationPath: string;
+	/** 主密钥指纹（十六进制） */
+	sourceFingerprint?: string;
+}
+
 /**
  * QR 数据编码器
  */
 export interface QREncoder {
 	/** 编码同步请求 */
 	encodeSync(chainId: number, derivationPath: string): string;
-	/** 编码签名请求 */
-	encodeSign(transaction: unknown): string;
+	/** 编码签名请求（交易、personal_sign 消息） */
+	encodeSign(request: QRSignRequest): string;
 	/** 编码 EIP-712 类型化数据签名请求 */
-	encodeSignTypedData(typedData: unknown): string;
+	encodeSignTypedData(request: QRSignRequest): string;
 	/** 解码账户信息 */
 	decodeAccounts(qrData: string): HardwareAccount[];
 	/** 解码扩展公钥信息 */
 	decodeExtendedPublicKey?(qrData: string): ExtendedPublicKey | null;
 	/** 解码签名结果 */
 	decodeSignature(qrData: string): string;
+	/**
+	 * 接收动态二维码的一帧
+	 *
+	 * 返回完整数据，还需要更多帧时返回 null
+	 */
+	receivePart?(part: string): string | null;
 }
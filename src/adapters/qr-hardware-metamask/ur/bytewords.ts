@@ -0,0 +1,94 @@
+/**
+ * Bytewords 编码 (BCR-2020-012)
+ *
+ * UR 使用 minimal 格式：每个字节对应单词的首尾两个字母，末尾附加 CRC32 校验
+ * @see https://github.com/BlockchainCommons/Research/blob/master/papers/bcr-2020-012-bytewords.md
+ */
+
+const WORDS =
+	'ableacidalsoapexaquaarchatomauntawayaxisbackbaldbarnbeltbetabiasbluebodybragbrewbulbbuzzcalmcashcatschefcityclawcodecolacookcostcruxcurlcuspcyandarkdatadaysdelidicedietdoordowndrawdropdrumdulldutyeacheasyechoedgeepicevenexamexiteyesfactfairfernfigsfilmfishfizzflapflewfluxfoxyfreefrogfuelfundgalagamegeargemsgiftgirlglowgoodgraygrimgurugushgyrohalfhanghardhawkheathelphighhillholyhopehornhutsicedideaidleinchinkyintoirisironitemjadejazzjoinjoltjowljudojugsjumpjunkjurykeepkenokeptkeyskickkilnkingkitekiwiknoblamblavalazyleaflegsliarlimplionlistlogoloudloveluaulucklungmainmanymathmazememomenumeowmildmintmissmonknailnavyneednewsnextnoonnotenumbobeyoboeomitonyxopenovalowlspaidpartpeckplaypluspoempoolposepuffpumapurrquadquizraceramprealredorichroadrockroofrubyruinrunsrustsafesagascarsetssilkskewslotsoapsolosongstubsurfswantacotasktaxitenttiedtimetinytoiltombtoystriptunatwinuglyundouniturgeuservastveryvetovialvibeviewvisavoidvowswallwandwarmwaspwavewaxywebswhatwhenwhizwolfworkyankyawnyellyogayurtzapszerozestzinczonezoom';
+
+const MINIMAL_WORDS: string[] = [];
+const MINIMAL_INDEX = new Map<string, number>();
+
+for (let i = 0; i < 256; i++) {
+	const minimal = WORDS[i * 4] + WORDS[i * 4 + 3];
+	MINIMAL_WORDS.push(minimal);
+	MINIMAL_INDEX.set(minimal, i);
+}
+
+const CRC32_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let i = 0; i < 256; i++) {
+		let c = i;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[i] = c >>> 0;
+	}
+	return table;
+})();
+
+/**
+ * 计算 CRC32 (IEEE 802.3)
+ */
+export function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 32 位无符号整数转大端字节
+ */
+export function uint32ToBytes(value: number): Uint8Array {
+	const bytes = new Uint8Array(4);
+	new DataView(bytes.buffer).setUint32(0, value >>> 0);
+	return bytes;
+}
+
+/**
+ * 编码为 minimal bytewords（附加 CRC32 校验）
+ */
+export function encodeBytewords(data: Uint8Array): string {
+	const checksum = uint32ToBytes(crc32(data));
+	let result = '';
+	for (const byte of data) {
+		result += MINIMAL_WORDS[byte];
+	}
+	for (const byte of checksum) {
+		result += MINIMAL_WORDS[byte];
+	}
+	return result;
+}
+
+/**
+ * 解码 minimal bytewords 并校验 CRC32
+ *
+ * 大小写不敏感（QR 码字母数字模式下 UR 通常是大写的）
+ */
+export function decodeBytewords(text: string): Uint8Array {
+	const lower = text.toLowerCase();
+	if (lower.length % 2 !== 0 || lower.length < 8) {
+		throw new Error('Bytewords: invalid length');
+	}
+
+	const bytes = new Uint8Array(lower.length / 2);
+	for (let i = 0; i < bytes.length; i++) {
+		const index = MINIMAL_INDEX.get(lower.slice(i * 2, i * 2 + 2));
+		if (index === undefined) {
+			throw new Error('Bytewords: invalid word');
+		}
+		bytes[i] = index;
+	}
+
+	const body = bytes.slice(0, -4);
+	const checksum = new DataView(bytes.buffer, bytes.length - 4, 4).getUint32(0);
+	if (crc32(body) !== checksum) {
+		throw new Error('Bytewords: invalid checksum');
+	}
+
+	return body;
+}
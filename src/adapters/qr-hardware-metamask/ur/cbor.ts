@@ -0,0 +1,262 @@
+/**
+ * 精简的 CBOR 编解码器 (RFC 8949)
+ *
+ * 只实现 BC-UR 注册类型需要的子集：
+ * - 整数（含 bigint）、字节串、文本、数组、Map、标签、布尔、null/undefined
+ * - 只支持定长编码（UR 规范要求确定性编码，不使用不定长）
+ */
+
+/**
+ * CBOR 标签值
+ */
+export class CborTag {
+	readonly tag: number;
+	readonly value: CborValue;
+
+	constructor(tag: number, value: CborValue) {
+		this.tag = tag;
+		this.value = value;
+	}
+}
+
+/**
+ * CBOR 数据模型
+ */
+export type CborValue =
+	| number
+	| bigint
+	| string
+	| boolean
+	| null
+	| undefined
+	| Uint8Array
+	| CborValue[]
+	| Map<CborValue, CborValue>
+	| CborTag;
+
+const MAJOR_UNSIGNED = 0;
+const MAJOR_NEGATIVE = 1;
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_TAG = 6;
+const MAJOR_SIMPLE = 7;
+
+/**
+ * 编码 CBOR
+ */
+export function encodeCbor(value: CborValue): Uint8Array {
+	const chunks: Uint8Array[] = [];
+	writeValue(value, chunks);
+	return concatBytes(chunks);
+}
+
+/**
+ * 解码 CBOR
+ *
+ * @throws 数据不完整或包含尾部多余字节时抛出错误
+ */
+export function decodeCbor(data: Uint8Array): CborValue {
+	const reader = { data, offset: 0 };
+	const value = readValue(reader);
+	if (reader.offset !== data.length) {
+		throw new Error('CBOR: unexpected trailing bytes');
+	}
+	return value;
+}
+
+function writeHead(major: number, argument: number | bigint, chunks: Uint8Array[]): void {
+	const n = BigInt(argument);
+	if (n < 0n) {
+		throw new Error('CBOR: negative argument');
+	}
+
+	if (n < 24n) {
+		chunks.push(Uint8Array.of((major << 5) | Number(n)));
+	} else if (n < 0x100n) {
+		chunks.push(Uint8Array.of((major << 5) | 24, Number(n)));
+	} else if (n < 0x10000n) {
+		const bytes = new Uint8Array(3);
+		bytes[0] = (major << 5) | 25;
+		new DataView(bytes.buffer).setUint16(1, Number(n));
+		chunks.push(bytes);
+	} else if (n < 0x100000000n) {
+		const bytes = new Uint8Array(5);
+		bytes[0] = (major << 5) | 26;
+		new DataView(bytes.buffer).setUint32(1, Number(n));
+		chunks.push(bytes);
+	} else if (n < 0x10000000000000000n) {
+		const bytes = new Uint8Array(9);
+		bytes[0] = (major << 5) | 27;
+		new DataView(bytes.buffer).setBigUint64(1, n);
+		chunks.push(bytes);
+	} else {
+		throw new Error('CBOR: integer too large');
+	}
+}
+
+function writeValue(value: CborValue, chunks: Uint8Array[]): void {
+	if (typeof value === 'number' || typeof value === 'bigint') {
+		if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+			throw new Error(`CBOR: unsupported number ${value}`);
+		}
+		const n = BigInt(value);
+		if (n >= 0n) {
+			writeHead(MAJOR_UNSIGNED, n, chunks);
+		} else {
+			writeHead(MAJOR_NEGATIVE, -1n - n, chunks);
+		}
+	} else if (typeof value === 'string') {
+		const bytes = new TextEncoder().encode(value);
+		writeHead(MAJOR_TEXT, bytes.length, chunks);
+		chunks.push(bytes);
+	} else if (typeof value === 'boolean') {
+		chunks.push(Uint8Array.of((MAJOR_SIMPLE << 5) | (value ? 21 : 20)));
+	} else if (value === null) {
+		chunks.push(Uint8Array.of((MAJOR_SIMPLE << 5) | 22));
+	} else if (value === undefined) {
+		chunks.push(Uint8Array.of((MAJOR_SIMPLE << 5) | 23));
+	} else if (value instanceof Uint8Array) {
+		writeHead(MAJOR_BYTES, value.length, chunks);
+		chunks.push(value);
+	} else if (Array.isArray(value)) {
+		writeHead(MAJOR_ARRAY, value.length, chunks);
+		value.forEach((item) => writeValue(item, chunks));
+	} else if (value instanceof Map) {
+		writeHead(MAJOR_MAP, value.size, chunks);
+		value.forEach((item, key) => {
+			writeValue(key, chunks);
+			writeValue(item, chunks);
+		});
+	} else if (value instanceof CborTag) {
+		writeHead(MAJOR_TAG, value.tag, chunks);
+		writeValue(value.value, chunks);
+	} else {
+		throw new Error('CBOR: unsupported value');
+	}
+}
+
+interface Reader {
+	data: Uint8Array;
+	offset: number;
+}
+
+function readBytes(reader: Reader, length: number): Uint8Array {
+	if (reader.offset + length > reader.data.length) {
+		throw new Error('CBOR: unexpected end of data');
+	}
+	const bytes = reader.data.slice(reader.offset, reader.offset + length);
+	reader.offset += length;
+	return bytes;
+}
+
+function readArgument(reader: Reader, info: number): number | bigint {
+	if (info < 24) {
+		return info;
+	}
+
+	const view = (length: number) => {
+		const bytes = readBytes(reader, length);
+		return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	};
+
+	switch (info) {
+		case 24:
+			return view(1).getUint8(0);
+		case 25:
+			return view(2).getUint16(0);
+		case 26:
+			return view(4).getUint32(0);
+		case 27: {
+			const n = view(8).getBigUint64(0);
+			return n <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(n) : n;
+		}
+		default:
+			throw new Error(`CBOR: unsupported additional info ${info}`);
+	}
+}
+
+function readLength(reader: Reader, info: number): number {
+	const length = readArgument(reader, info);
+	if (typeof length === 'bigint') {
+		throw new Error('CBOR: length too large');
+	}
+	return length;
+}
+
+function readValue(reader: Reader): CborValue {
+	const [initial] = readBytes(reader, 1);
+	const major = initial >> 5;
+	const info = initial & 0x1f;
+
+	switch (major) {
+		case MAJOR_UNSIGNED:
+			return readArgument(reader, info);
+		case MAJOR_NEGATIVE: {
+			const n = readArgument(reader, info);
+			return typeof n === 'bigint' || n >= Number.MAX_SAFE_INTEGER ? -1n - BigInt(n) : -1 - n;
+		}
+		case MAJOR_BYTES:
+			return readBytes(reader, readLength(reader, info));
+		case MAJOR_TEXT:
+			return new TextDecoder().decode(readBytes(reader, readLength(reader, info)));
+		case MAJOR_ARRAY: {
+			const length = readLength(reader, info);
+			const items: CborValue[] = [];
+			for (let i = 0; i < length; i++) {
+				items.push(readValue(reader));
+			}
+			return items;
+		}
+		case MAJOR_MAP: {
+			const size = readLength(reader, info);
+			const map = new Map<CborValue, CborValue>();
+			for (let i = 0; i < size; i++) {
+				const key = readValue(reader);
+				map.set(key, readValue(reader));
+			}
+			return map;
+		}
+		case MAJOR_TAG:
+			return new CborTag(readLength(reader, info), readValue(reader));
+		default:
+			return readSimple(reader, info);
+	}
+}
+
+function readSimple(reader: Reader, info: number): CborValue {
+	switch (info) {
+		case 20:
+			return false;
+		case 21:
+			return true;
+		case 22:
+			return null;
+		case 23:
+			return undefined;
+		case 26: {
+			const bytes = readBytes(reader, 4);
+			return new DataView(bytes.buffer, bytes.byteOffset, 4).getFloat32(0);
+		}
+		case 27: {
+			const bytes = readBytes(reader, 8);
+			return new DataView(bytes.buffer, bytes.byteOffset, 8).getFloat64(0);
+		}
+		default:
+			throw new Error(`CBOR: unsupported simple value ${info}`);
+	}
+}
+
+/**
+ * 拼接字节数组
+ */
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+	const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+	let offset = 0;
+	chunks.forEach((chunk) => {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	});
+	return result;
+}
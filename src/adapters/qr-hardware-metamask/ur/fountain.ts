@@ -0,0 +1,404 @@
+import { sha256 } from 'viem';
+import { crc32, uint32ToBytes } from './bytewords.js';
+import { concatBytes } from './cbor.js';
+
+/**
+ * 喷泉码（Luby Transform）
+ *
+ * 用于把较大的 UR 拆分成多帧动态二维码：
+ * - 前 seqLen 帧是原始分片，之后的帧是若干分片的异或组合
+ * - 接收方可以从任意顺序、任意丢帧的序列中恢复原始数据
+ *
+ * 实现与 BlockchainCommons 参考实现逐位兼容（Xoshiro256** + Vose 别名采样）
+ * @see https://github.com/BlockchainCommons/Research/blob/master/papers/bcr-2020-005-ur.md
+ */
+
+const UINT64_MASK = (1n << 64n) - 1n;
+const TWO_POW_64 = 2 ** 64;
+
+function rotl(x: bigint, k: bigint): bigint {
+	return ((x << k) | (x >> (64n - k))) & UINT64_MASK;
+}
+
+/**
+ * Xoshiro256** 伪随机数生成器
+ *
+ * 种子经过 SHA-256 后作为 4 个大端 uint64 状态
+ */
+export class Xoshiro {
+	private s: bigint[] = [0n, 0n, 0n, 0n];
+
+	constructor(seed: Uint8Array) {
+		const digest = sha256(seed, 'bytes');
+		for (let i = 0; i < 4; i++) {
+			let v = 0n;
+			for (let n = 0; n < 8; n++) {
+				v = (v << 8n) | BigInt(digest[i * 8 + n]);
+			}
+			this.s[i] = v;
+		}
+	}
+
+	next(): bigint {
+		const [s0, s1, s2, s3] = this.s;
+		const result = (rotl((s1 * 5n) & UINT64_MASK, 7n) * 9n) & UINT64_MASK;
+		const t = (s1 << 17n) & UINT64_MASK;
+
+		let n2 = s2 ^ s0;
+		let n3 = s3 ^ s1;
+		const n1 = s1 ^ n2;
+		const n0 = s0 ^ n3;
+		n2 ^= t;
+		n3 = rotl(n3, 45n);
+
+		this.s = [n0, n1, n2, n3];
+		return result;
+	}
+
+	nextDouble(): number {
+		return Number(this.next()) / TWO_POW_64;
+	}
+
+	nextInt(low: number, high: number): number {
+		return Math.floor(this.nextDouble() * (high - low + 1)) + low;
+	}
+}
+
+/**
+ * 选择混合度（度数 d 的概率与 1/d 成正比）
+ */
+function chooseDegree(seqLen: number, rng: Xoshiro): number {
+	const probabilities = Array.from({ length: seqLen }, (_, i) => 1 / (i + 1));
+	const sum = probabilities.reduce((acc, p) => acc + p, 0);
+	const scaled = probabilities.map((p) => (p * seqLen) / sum);
+	const prob = new Array<number>(seqLen).fill(0);
+	const alias = new Array<number>(seqLen).fill(0);
+	const small: number[] = [];
+	const large: number[] = [];
+
+	for (let i = seqLen - 1; i >= 0; i--) {
+		if (scaled[i] < 1) {
+			small.push(i);
+		} else {
+			large.push(i);
+		}
+	}
+
+	while (small.length > 0 && large.length > 0) {
+		const less = small.pop()!;
+		const more = large.pop()!;
+		prob[less] = scaled[less];
+		alias[less] = more;
+		scaled[more] = scaled[more] + scaled[less] - 1;
+		if (scaled[more] < 1) {
+			small.push(more);
+		} else {
+			large.push(more);
+		}
+	}
+	while (large.length > 0) {
+		prob[large.pop()!] = 1;
+	}
+	while (small.length > 0) {
+		prob[small.pop()!] = 1;
+	}
+
+	const column = Math.floor(rng.nextDouble() * seqLen);
+	const index = rng.nextDouble() < prob[column] ? column : alias[column];
+	return index + 1;
+}
+
+/**
+ * 计算某一帧包含的分片索引
+ */
+export function chooseFragments(seqNum: number, seqLen: number, checksum: number): number[] {
+	if (seqNum <= seqLen) {
+		return [seqNum - 1];
+	}
+
+	const rng = new Xoshiro(concatBytes([uint32ToBytes(seqNum), uint32ToBytes(checksum)]));
+	const degree = chooseDegree(seqLen, rng);
+	const remaining = Array.from({ length: seqLen }, (_, i) => i);
+	const shuffled: number[] = [];
+
+	while (remaining.length > 0) {
+		const index = rng.nextInt(0, remaining.length - 1);
+		shuffled.push(remaining.splice(index, 1)[0]);
+	}
+
+	return shuffled.slice(0, degree);
+}
+
+/**
+ * 计算分片长度（在不超过最大长度的前提下尽量少分片）
+ */
+export function findFragmentLength(
+	messageLength: number,
+	minFragmentLength: number,
+	maxFragmentLength: number
+): number {
+	const maxFragmentCount = Math.max(1, Math.ceil(messageLength / minFragmentLength));
+	let fragmentLength = 0;
+
+	for (let count = 1; count <= maxFragmentCount; count++) {
+		fragmentLength = Math.ceil(messageLength / count);
+		if (fragmentLength <= maxFragmentLength) {
+			break;
+		}
+	}
+
+	return fragmentLength;
+}
+
+function xorInto(target: Uint8Array, source: Uint8Array): void {
+	for (let i = 0; i < target.length; i++) {
+		target[i] ^= source[i];
+	}
+}
+
+/**
+ * 喷泉码数据帧
+ */
+export interface FountainPart {
+	seqNum: number;
+	seqLen: number;
+	messageLength: number;
+	checksum: number;
+	data: Uint8Array;
+}
+
+/**
+ * 喷泉码编码器
+ */
+export class FountainEncoder {
+	readonly messageLength: number;
+	readonly checksum: number;
+	readonly fragmentLength: number;
+	private fragments: Uint8Array[];
+	private seqNum = 0;
+
+	constructor(message: Uint8Array, maxFragmentLength: number, minFragmentLength = 10) {
+		this.messageLength = message.length;
+		this.checksum = crc32(message);
+		this.fragmentLength = findFragmentLength(message.length, minFragmentLength, maxFragmentLength);
+
+		const count = Math.ceil(message.length / this.fragmentLength);
+		this.fragments = Array.from({ length: count }, (_, i) => {
+			const fragment = new Uint8Array(this.fragmentLength);
+			fragment.set(message.slice(i * this.fragmentLength, (i + 1) * this.fragmentLength));
+			return fragment;
+		});
+	}
+
+	/**
+	 * 原始分片数量
+	 */
+	get seqLen(): number {
+		return this.fragments.length;
+	}
+
+	/**
+	 * 是否只需要一帧
+	 */
+	get isSinglePart(): boolean {
+		return this.fragments.length === 1;
+	}
+
+	/**
+	 * 生成下一帧（可以无限生成）
+	 */
+	nextPart(): FountainPart {
+		this.seqNum = (this.seqNum + 1) >>> 0;
+		const indexes = chooseFragments(this.seqNum, this.seqLen, this.checksum);
+		const data = new Uint8Array(this.fragmentLength);
+		indexes.forEach((index) => xorInto(data, this.fragments[index]));
+
+		return {
+			seqNum: this.seqNum,
+			seqLen: this.seqLen,
+			messageLength: this.messageLength,
+			checksum: this.checksum,
+			data
+		};
+	}
+}
+
+/**
+ * 混合帧的唯一键（与分片顺序无关）
+ */
+function partKey(indexes: number[]): string {
+	return [...indexes].sort((a, b) => a - b).join(',');
+}
+
+interface MixedPart {
+	indexes: number[];
+	data: Uint8Array;
+}
+
+/**
+ * 喷泉码解码器
+ */
+export class FountainDecoder {
+	private expected: Omit<FountainPart, 'seqNum' | 'data'> | null = null;
+	private simpleParts = new Map<number, Uint8Array>();
+	private mixedParts = new Map<string, MixedPart>();
+	private receivedSeqNums = new Set<number>();
+	private result: Uint8Array | null = null;
+
+	/**
+	 * 接收一帧
+	 *
+	 * @returns 是否是有效的新帧
+	 */
+	receivePart(part: FountainPart): boolean {
+		if (this.result) {
+			return false;
+		}
+
+		if (!this.expected) {
+			this.expected = {
+				seqLen: part.seqLen,
+				messageLength: part.messageLength,
+				checksum: part.checksum
+			};
+		} else if (
+			part.seqLen !== this.expected.seqLen ||
+			part.messageLength !== this.expected.messageLength ||
+			part.checksum !== this.expected.checksum
+		) {
+			// 属于另一条消息的帧
+			return false;
+		}
+
+		if (this.receivedSeqNums.has(part.seqNum)) {
+			return false;
+		}
+		this.receivedSeqNums.add(part.seqNum);
+
+		const indexes = chooseFragments(part.seqNum, part.seqLen, part.checksum);
+		this.processPart({ indexes, data: new Uint8Array(part.data) });
+		return true;
+	}
+
+	/**
+	 * 是否已恢复完整数据
+	 */
+	isComplete(): boolean {
+		return this.result !== null;
+	}
+
+	/**
+	 * 恢复出的完整数据
+	 */
+	getResult(): Uint8Array | null {
+		return this.result;
+	}
+
+	/**
+	 * 估算的完成进度（0-1）
+	 */
+	getProgress(): number {
+		if (this.result) return 1;
+		if (!this.expected) return 0;
+		return Math.min(0.99, this.simpleParts.size / this.expected.seqLen);
+	}
+
+	private processPart(initial: MixedPart): void {
+		const queue: MixedPart[] = [initial];
+
+		while (queue.length > 0 && !this.result) {
+			const part = queue.shift()!;
+
+			if (part.indexes.length === 1) {
+				this.processSimplePart(part, queue);
+			} else {
+				this.processMixedPart(part, queue);
+			}
+		}
+	}
+
+	private processSimplePart(part: MixedPart, queue: MixedPart[]): void {
+		const index = part.indexes[0];
+		if (this.simpleParts.has(index)) return;
+
+		this.simpleParts.set(index, part.data);
+
+		if (this.simpleParts.size === this.expected!.seqLen) {
+			this.finish();
+			return;
+		}
+
+		// 用新得到的原始分片化简所有混合帧
+		for (const [key, mixed] of [...this.mixedParts]) {
+			if (!mixed.indexes.includes(index)) continue;
+
+			this.mixedParts.delete(key);
+			const data = new Uint8Array(mixed.data);
+			xorInto(data, part.data);
+			queue.push({ indexes: mixed.indexes.filter((item) => item !== index), data });
+		}
+	}
+
+	private processMixedPart(part: MixedPart, queue: MixedPart[]): void {
+		if (this.mixedParts.has(partKey(part.indexes))) return;
+
+		// 先用已知的原始分片化简
+		let indexes = part.indexes;
+		const data = new Uint8Array(part.data);
+		indexes.forEach((index) => {
+			const simple = this.simpleParts.get(index);
+			if (simple) {
+				xorInto(data, simple);
+			}
+		});
+		indexes = indexes.filter((index) => !this.simpleParts.has(index));
+
+		if (indexes.length === 0) return;
+		if (indexes.length === 1) {
+			queue.push({ indexes, data });
+			return;
+		}
+
+		// 再用已知的混合帧化简（子集关系）
+		for (const mixed of this.mixedParts.values()) {
+			if (mixed.indexes.every((index) => indexes.includes(index))) {
+				xorInto(data, mixed.data);
+				indexes = indexes.filter((index) => !mixed.indexes.includes(index));
+			}
+		}
+
+		if (indexes.length === 0) return;
+		if (indexes.length === 1) {
+			queue.push({ indexes, data });
+			return;
+		}
+
+		// 反过来化简包含当前帧的混合帧
+		for (const [key, mixed] of [...this.mixedParts]) {
+			if (!indexes.every((index) => mixed.indexes.includes(index))) continue;
+
+			this.mixedParts.delete(key);
+			const reduced = new Uint8Array(mixed.data);
+			xorInto(reduced, data);
+			queue.push({
+				indexes: mixed.indexes.filter((index) => !indexes.includes(index)),
+				data: reduced
+			});
+		}
+
+		this.mixedParts.set(partKey(indexes), { indexes, data });
+	}
+
+	private finish(): void {
+		const { seqLen, messageLength, checksum } = this.expected!;
+		const chunks = Array.from({ length: seqLen }, (_, i) => this.simpleParts.get(i)!);
+		const message = concatBytes(chunks).slice(0, messageLength);
+
+		if (crc32(message) !== checksum) {
+			throw new Error('Fountain: invalid checksum');
+		}
+
+		this.result = message;
+		this.mixedParts.clear();
+	}
+}
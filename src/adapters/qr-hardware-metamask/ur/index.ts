@@ -0,0 +1,20 @@
+export { UR, UREncoder, URDecoder } from './ur.js';
+export { CborTag, encodeCbor, decodeCbor, type CborValue } from './cbor.js';
+export {
+	URTags,
+	URTypes,
+	EthDataType,
+	encodeKeypath,
+	decodeKeypath,
+	decodeHDKey,
+	decodeAccount,
+	encodeEthSignRequest,
+	decodeEthSignRequest,
+	encodeEthSignature,
+	decodeEthSignature,
+	type CryptoKeypath,
+	type CryptoHDKey,
+	type CryptoAccount,
+	type EthSignRequest,
+	type EthSignature
+} from './registry.js';
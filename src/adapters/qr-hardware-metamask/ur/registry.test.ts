@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToHex, hexToBytes, type Hex } from 'viem';
+import { CborTag, decodeCbor, encodeCbor } from './cbor.js';
+import {
+	URTags,
+	decodeAccount,
+	decodeEthSignRequest,
+	decodeEthSignature,
+	decodeHDKey,
+	encodeEthSignRequest,
+	encodeEthSignature
+} from './registry.js';
+import { UR } from './ur.js';
+
+/**
+ * 测试向量来自 BCR-2020-007 (crypto-hdkey) 与 @keystonehq/bc-ur-registry-eth
+ */
+
+const REQUEST_ID = hexToBytes('0x9b1deb4d3b7d4bad9bdd2b0d7b3dcb6d');
+
+const KEY_DATA = '0x026fe2355745bb2db3630bbc80ef5d58951c963c841f54170ba6e5c12be7fc12a6';
+const CHAIN_CODE = '0xced155c72456255881793514edc5bd9447e7f74abb88c6d6b6480fd016ee8c85';
+
+describe('eth-sign-request', () => {
+	const request = {
+		requestId: REQUEST_ID,
+		signData: hexToBytes(
+			'0xf849808609184e72a00082271094000000000000000000000000000000000000000080a47f7465737432000000000000000000000000000000000000000000000000000000600057808080'
+		),
+		dataType: 1,
+		chainId: 1,
+		derivationPath: { path: "m/44'/1'/1'/0/1", sourceFingerprint: 0x12345678 },
+		origin: 'metamask'
+	};
+	const cbor =
+		'0xa601d825509b1deb4d3b7d4bad9bdd2b0d7b3dcb6d02584bf849808609184e72a00082271094000000000000000000000000000000000000000080a47f74657374320000000000000000000000000000000000000000000000000000006000578080800301040105d90130a2018a182cf501f501f500f401f4021a1234567807686d6574616d61736b';
+
+	it('encodes the reference CBOR', () => {
+		expect(bytesToHex(encodeCbor(encodeEthSignRequest(request)))).toBe(cbor);
+	});
+
+	it('decodes the reference CBOR', () => {
+		expect(decodeEthSignRequest(decodeCbor(hexToBytes(cbor)))).toEqual({
+			...request,
+			derivationPath: { ...request.derivationPath, depth: undefined },
+			address: undefined
+		});
+	});
+});
+
+describe('eth-signature', () => {
+	const signature = hexToBytes(
+		'0xd4f0a7bcd95bba1fbb1051885054730e3f47064288575aacc102fbbf6a9a14daa066991e360d3e3406c20c00a40973eff37c7d641e5b351ec4a99bfe86f335f71c'
+	);
+	const cbor: Hex = `0xa201d825509b1deb4d3b7d4bad9bdd2b0d7b3dcb6d025841${bytesToHex(signature).slice(2)}`;
+
+	it('encodes and decodes the reference CBOR', () => {
+		expect(bytesToHex(encodeCbor(encodeEthSignature({ requestId: REQUEST_ID, signature })))).toBe(
+			cbor
+		);
+		expect(decodeEthSignature(decodeCbor(hexToBytes(cbor)))).toEqual({
+			requestId: REQUEST_ID,
+			signature,
+			origin: undefined
+		});
+	});
+
+	it('rejects a payload without a signature', () => {
+		const payload = encodeCbor(new Map([[1, new CborTag(URTags.uuid, REQUEST_ID)]]));
+
+		expect(() => decodeEthSignature(decodeCbor(payload))).toThrow('invalid eth-signature');
+	});
+});
+
+describe('crypto-hdkey', () => {
+	it('decodes the BCR-2020-007 public key', () => {
+		const ur = UR.fromString(
+			'ur:crypto-hdkey/onaxhdclaojlvoechgferkdpqdiabdrflawshlhdmdcemtfnlrctghchbdolvwsednvdztbgolaahdcxtottgostdkhfdahdlykkecbbweskrymwflvdylgerkloswtbrpfdbsticmwylklpahtaadehoyaoadamtaaddyoyadlecsdwykadykadykaewkadwkaycywlcscewfihbdaehn'
+		);
+		const key = decodeHDKey(decodeCbor(ur.cbor));
+
+		expect(bytesToHex(key.keyData)).toBe(KEY_DATA);
+		expect(bytesToHex(key.chainCode!)).toBe(CHAIN_CODE);
+		expect(key.origin?.path).toBe("m/44'/1'/1'/0/1");
+		expect(key.parentFingerprint).toBe(0xe9181cf3);
+	});
+
+	it('rejects private keys', () => {
+		const payload = encodeCbor(
+			new Map<number, boolean | Uint8Array>([
+				[2, true],
+				[3, hexToBytes(KEY_DATA)]
+			])
+		);
+
+		expect(() => decodeHDKey(decodeCbor(payload))).toThrow('private keys are not supported');
+	});
+});
+
+describe('crypto-account', () => {
+	it('unwraps output descriptors down to the hdkey', () => {
+		const cbor = hexToBytes(
+			`0xa2011a37b5eed40281d90193d9012fa3035821${KEY_DATA.slice(2)}045820${CHAIN_CODE.slice(2)}06d90130a20186182cf5183cf500f5021a37b5eed4`
+		);
+		const account = decodeAccount(decodeCbor(cbor));
+
+		expect(account.masterFingerprint).toBe(0x37b5eed4);
+		expect(account.keys).toHaveLength(1);
+		expect(bytesToHex(account.keys[0].keyData)).toBe(KEY_DATA);
+		expect(account.keys[0].origin).toEqual({
+			path: "m/44'/60'/0'",
+			sourceFingerprint: 0x37b5eed4,
+			depth: undefined
+		});
+	});
+});
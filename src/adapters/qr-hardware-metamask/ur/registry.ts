@@ -0,0 +1,312 @@
+import { CborTag, type CborValue } from './cbor.js';
+
+/**
+ * BC-UR 注册类型
+ *
+ * @see https://github.com/BlockchainCommons/Research/blob/master/papers/bcr-2020-006-urtypes.md
+ * @see https://github.com/KeystoneHQ/keystone-sdk-base/tree/master/packages/ur-registry-eth
+ */
+
+/** CBOR 标签 */
+export const URTags = {
+	uuid: 37,
+	cryptoHDKey: 303,
+	cryptoKeypath: 304,
+	cryptoCoinInfo: 305,
+	cryptoAccount: 311,
+	ethSignRequest: 401,
+	ethSignature: 402
+} as const;
+
+/** UR 类型名 */
+export const URTypes = {
+	cryptoHDKey: 'crypto-hdkey',
+	cryptoKeypath: 'crypto-keypath',
+	cryptoAccount: 'crypto-account',
+	ethSignRequest: 'eth-sign-request',
+	ethSignature: 'eth-signature'
+} as const;
+
+/** eth-sign-request 的数据类型编号 */
+export const EthDataType = {
+	transaction: 1,
+	typedData: 2,
+	personalMessage: 3,
+	typedTransaction: 4
+} as const;
+
+/**
+ * 派生路径 (crypto-keypath)
+ */
+export interface CryptoKeypath {
+	/** 派生路径，如 m/44'/60'/0' */
+	path: string;
+	/** 主密钥指纹 */
+	sourceFingerprint?: number;
+	/** 深度 */
+	depth?: number;
+}
+
+/**
+ * 分层确定性公钥 (crypto-hdkey)
+ */
+export interface CryptoHDKey {
+	keyData: Uint8Array;
+	chainCode?: Uint8Array;
+	origin?: CryptoKeypath;
+	children?: CryptoKeypath;
+	parentFingerprint?: number;
+	name?: string;
+	/** Keystone 用于标记账户类型，如 'account.standard' / 'account.ledger_live' */
+	note?: string;
+}
+
+/**
+ * 多账户 (crypto-account)
+ */
+export interface CryptoAccount {
+	masterFingerprint: number;
+	keys: CryptoHDKey[];
+}
+
+/**
+ * 以太坊签名请求 (eth-sign-request)
+ */
+export interface EthSignRequest {
+	requestId: Uint8Array;
+	signData: Uint8Array;
+	dataType: number;
+	chainId?: number;
+	derivationPath: CryptoKeypath;
+	address?: Uint8Array;
+	origin?: string;
+}
+
+/**
+ * 以太坊签名结果 (eth-signature)
+ */
+export interface EthSignature {
+	requestId?: Uint8Array;
+	signature: Uint8Array;
+	origin?: string;
+}
+
+/**
+ * 派生路径 => keypath components
+ */
+function pathToComponents(path: string): CborValue[] {
+	const segments = path.replace(/^m\/?/, '').split('/').filter(Boolean);
+	return segments.flatMap((segment) => {
+		const hardened = segment.endsWith("'") || segment.endsWith('h');
+		const index = parseInt(hardened ? segment.slice(0, -1) : segment, 10);
+		if (!Number.isInteger(index) || index < 0) {
+			throw new Error(`UR: invalid derivation path "${path}"`);
+		}
+		return [index, hardened];
+	});
+}
+
+/**
+ * keypath components => 派生路径
+ */
+function componentsToPath(components: CborValue[]): string {
+	const segments: string[] = ['m'];
+	for (let i = 0; i < components.length; i += 2) {
+		const index = components[i];
+		const hardened = components[i + 1] === true;
+		segments.push(typeof index === 'number' ? `${index}` : '*');
+		if (hardened) segments[segments.length - 1] += "'";
+	}
+	return segments.join('/');
+}
+
+/**
+ * 去掉标签，可选校验标签值
+ */
+function untag(value: CborValue, tag?: number): CborValue {
+	if (value instanceof CborTag) {
+		if (tag !== undefined && value.tag !== tag) {
+			throw new Error(`UR: expected tag ${tag}, got ${value.tag}`);
+		}
+		return value.value;
+	}
+	return value;
+}
+
+function asMap(value: CborValue, name: string): Map<CborValue, CborValue> {
+	if (!(value instanceof Map)) {
+		throw new Error(`UR: invalid ${name}`);
+	}
+	return value;
+}
+
+function optionalNumber(value: CborValue): number | undefined {
+	return typeof value === 'number' ? value : undefined;
+}
+
+function optionalBytes(value: CborValue): Uint8Array | undefined {
+	return value instanceof Uint8Array ? value : undefined;
+}
+
+function optionalString(value: CborValue): string | undefined {
+	return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * 编码 crypto-keypath（不带标签）
+ */
+export function encodeKeypath(keypath: CryptoKeypath): CborValue {
+	const map = new Map<CborValue, CborValue>([[1, pathToComponents(keypath.path)]]);
+	if (keypath.sourceFingerprint !== undefined) {
+		map.set(2, keypath.sourceFingerprint);
+	}
+	if (keypath.depth !== undefined) {
+		map.set(3, keypath.depth);
+	}
+	return map;
+}
+
+/**
+ * 解码 crypto-keypath
+ */
+export function decodeKeypath(value: CborValue): CryptoKeypath {
+	const map = asMap(untag(value, URTags.cryptoKeypath), 'crypto-keypath');
+	const components = map.get(1);
+	return {
+		path: componentsToPath(Array.isArray(components) ? components : []),
+		sourceFingerprint: optionalNumber(map.get(2)),
+		depth: optionalNumber(map.get(3))
+	};
+}
+
+/**
+ * 解码 crypto-hdkey
+ */
+export function decodeHDKey(value: CborValue): CryptoHDKey {
+	const map = asMap(untag(value, URTags.cryptoHDKey), 'crypto-hdkey');
+	const keyData = optionalBytes(map.get(3));
+
+	if (map.get(2) === true) {
+		throw new Error('UR: private keys are not supported');
+	}
+	if (!keyData || keyData.length !== 33) {
+		throw new Error('UR: crypto-hdkey is missing key data');
+	}
+
+	return {
+		keyData,
+		chainCode: optionalBytes(map.get(4)),
+		origin: map.has(6) ? decodeKeypath(map.get(6)) : undefined,
+		children: map.has(7) ? decodeKeypath(map.get(7)) : undefined,
+		parentFingerprint: optionalNumber(map.get(8)),
+		name: optionalString(map.get(9)),
+		note: optionalString(map.get(10))
+	};
+}
+
+/**
+ * 解码 crypto-account
+ *
+ * 输出描述符可能被脚本表达式标签（如 pkh）包裹，这里逐层去掉直到 crypto-hdkey
+ */
+export function decodeAccount(value: CborValue): CryptoAccount {
+	const map = asMap(untag(value, URTags.cryptoAccount), 'crypto-account');
+	const outputs = map.get(2);
+	const keys: CryptoHDKey[] = [];
+
+	(Array.isArray(outputs) ? outputs : []).forEach((output) => {
+		let current = output;
+		while (current instanceof CborTag && current.tag !== URTags.cryptoHDKey) {
+			current = current.value;
+		}
+		if (current instanceof CborTag) {
+			keys.push(decodeHDKey(current));
+		}
+	});
+
+	return {
+		masterFingerprint: optionalNumber(map.get(1)) ?? 0,
+		keys
+	};
+}
+
+/**
+ * 编码 eth-sign-request
+ */
+export function encodeEthSignRequest(request: EthSignRequest): CborValue {
+	const map = new Map<CborValue, CborValue>([
+		[1, new CborTag(URTags.uuid, request.requestId)],
+		[2, request.signData],
+		[3, request.dataType]
+	]);
+
+	if (request.chainId !== undefined) {
+		map.set(4, request.chainId);
+	}
+	map.set(5, new CborTag(URTags.cryptoKeypath, encodeKeypath(request.derivationPath)));
+	if (request.address) {
+		map.set(6, request.address);
+	}
+	if (request.origin) {
+		map.set(7, request.origin);
+	}
+
+	return map;
+}
+
+/**
+ * 解码 eth-sign-request
+ */
+export function decodeEthSignRequest(value: CborValue): EthSignRequest {
+	const map = asMap(untag(value, URTags.ethSignRequest), 'eth-sign-request');
+	const requestId = optionalBytes(untag(map.get(1) ?? null, URTags.uuid));
+	const signData = optionalBytes(map.get(2));
+	const dataType = optionalNumber(map.get(3));
+
+	if (!requestId || !signData || dataType === undefined) {
+		throw new Error('UR: invalid eth-sign-request');
+	}
+
+	return {
+		requestId,
+		signData,
+		dataType,
+		chainId: optionalNumber(map.get(4)),
+		derivationPath: decodeKeypath(map.get(5)),
+		address: optionalBytes(map.get(6)),
+		origin: optionalString(map.get(7))
+	};
+}
+
+/**
+ * 编码 eth-signature
+ */
+export function encodeEthSignature(signature: EthSignature): CborValue {
+	const map = new Map<CborValue, CborValue>();
+	if (signature.requestId) {
+		map.set(1, new CborTag(URTags.uuid, signature.requestId));
+	}
+	map.set(2, signature.signature);
+	if (signature.origin) {
+		map.set(3, signature.origin);
+	}
+	return map;
+}
+
+/**
+ * 解码 eth-signature
+ */
+export function decodeEthSignature(value: CborValue): EthSignature {
+	const map = asMap(untag(value, URTags.ethSignature), 'eth-signature');
+	const signature = optionalBytes(map.get(2));
+
+	if (!signature) {
+		throw new Error('UR: invalid eth-signature');
+	}
+
+	return {
+		requestId: map.has(1) ? optionalBytes(untag(map.get(1), URTags.uuid)) : undefined,
+		signature,
+		origin: optionalString(map.get(3))
+	};
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { stringToBytes } from 'viem';
+import { crc32, decodeBytewords, encodeBytewords } from './bytewords.js';
+import { encodeCbor } from './cbor.js';
+import { FountainDecoder, FountainEncoder, Xoshiro, chooseFragments } from './fountain.js';
+import { UR, URDecoder, UREncoder } from './ur.js';
+
+/**
+ * 测试向量来自 BlockchainCommons 参考实现（bc-ur / @ngraveio/bc-ur）
+ * @see https://github.com/BlockchainCommons/bc-ur/blob/master/test/test.cpp
+ */
+
+/**
+ * 参考实现的 makeMessage：用 Xoshiro 生成确定的随机消息
+ */
+function makeMessage(length: number, seed = 'Wolf'): Uint8Array {
+	const rng = new Xoshiro(stringToBytes(seed));
+	return Uint8Array.from({ length }, () => rng.nextInt(0, 255));
+}
+
+describe('bytewords', () => {
+	it('computes CRC32', () => {
+		expect(crc32(stringToBytes('Hello, world!'))).toBe(0xebe6c6e6);
+		expect(crc32(stringToBytes('Wolf'))).toBe(0x598c84dc);
+	});
+
+	it('encodes and decodes minimal bytewords', () => {
+		const data = Uint8Array.of(0, 1, 2, 128, 255);
+
+		expect(encodeBytewords(data)).toBe('aeadaolazmjendeoti');
+		expect(decodeBytewords('AEADAOLAZMJENDEOTI')).toEqual(data);
+	});
+
+	it('rejects corrupted bytewords', () => {
+		expect(() => decodeBytewords('aeadaolazmjendeoto')).toThrow('invalid checksum');
+		expect(() => decodeBytewords('aeadaolazmjendeoxx')).toThrow('invalid word');
+		expect(() => decodeBytewords('aeadao')).toThrow('invalid length');
+	});
+});
+
+describe('Xoshiro', () => {
+	it('matches the reference output', () => {
+		const rng = new Xoshiro(stringToBytes('Wolf'));
+		const numbers = Array.from({ length: 100 }, () => Number(rng.next() % 100n));
+
+		expect(numbers).toEqual([
+			42, 81, 85, 8, 82, 84, 76, 73, 70, 88, 2, 74, 40, 48, 77, 54, 88, 7, 5, 88, 37, 25, 82, 13,
+			69, 59, 30, 39, 11, 82, 19, 99, 45, 87, 30, 15, 32, 22, 89, 44, 92, 77, 29, 78, 4, 92, 44, 68,
+			92, 69, 1, 42, 89, 50, 37, 84, 63, 34, 32, 3, 17, 62, 40, 98, 82, 89, 24, 43, 85, 39, 15, 3,
+			99, 29, 20, 42, 27, 10, 85, 66, 50, 35, 69, 70, 70, 74, 30, 13, 72, 54, 11, 5, 70, 55, 91, 52,
+			10, 43, 43, 52
+		]);
+	});
+});
+
+describe('fountain', () => {
+	it('chooses the reference fragments', () => {
+		const encoder = new FountainEncoder(makeMessage(1024), 100);
+		const fragments = Array.from({ length: 30 }, (_, i) =>
+			chooseFragments(i + 1, encoder.seqLen, encoder.checksum).sort((a, b) => a - b)
+		);
+
+		expect(encoder.seqLen).toBe(11);
+		expect(fragments).toEqual([
+			[0],
+			[1],
+			[2],
+			[3],
+			[4],
+			[5],
+			[6],
+			[7],
+			[8],
+			[9],
+			[10],
+			[9],
+			[2, 5, 6, 8, 9, 10],
+			[8],
+			[1, 5],
+			[1],
+			[0, 2, 4, 5, 8, 10],
+			[5],
+			[2],
+			[2],
+			[0, 1, 3, 4, 5, 7, 9, 10],
+			[0, 1, 2, 3, 5, 6, 8, 9, 10],
+			[0, 2, 4, 5, 7, 8, 9, 10],
+			[3, 5],
+			[4],
+			[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+			[0, 1, 3, 4, 5, 6, 7, 9, 10],
+			[6],
+			[5, 6],
+			[7]
+		]);
+	});
+
+	it('recovers the message from mixed parts only', () => {
+		const message = makeMessage(1024);
+		const encoder = new FountainEncoder(message, 100);
+		const decoder = new FountainDecoder();
+
+		for (let i = 0; i < encoder.seqLen; i++) {
+			encoder.nextPart();
+		}
+		while (!decoder.isComplete()) {
+			decoder.receivePart(encoder.nextPart());
+		}
+
+		expect(decoder.getResult()).toEqual(message);
+	});
+});
+
+describe('multi-part UR', () => {
+	const ur = new UR('bytes', encodeCbor(makeMessage(256)));
+
+	it('encodes the reference parts', () => {
+		const encoder = new UREncoder(ur, 30);
+		const parts = Array.from({ length: 20 }, () => encoder.nextPart());
+
+		expect(parts).toEqual([
+			'ur:bytes/1-9/lpadascfadaxcywenbpljkhdcahkadaemejtswhhylkepmykhhtsytsnoyoyaxaedsuttydmmhhpktpmsrjtdkgslpgh',
+			'ur:bytes/2-9/lpaoascfadaxcywenbpljkhdcagwdpfnsboxgwlbaawzuefywkdplrsrjynbvygabwjldapfcsgmghhkhstlrdcxaefz',
+			'ur:bytes/3-9/lpaxascfadaxcywenbpljkhdcahelbknlkuejnbadmssfhfrdpsbiegecpasvssovlgeykssjykklronvsjksopdzmol',
+			'ur:bytes/4-9/lpaaascfadaxcywenbpljkhdcasotkhemthydawydtaxneurlkosgwcekonertkbrlwmplssjtammdplolsbrdzcrtas',
+			'ur:bytes/5-9/lpahascfadaxcywenbpljkhdcatbbdfmssrkzmcwnezelennjpfzbgmuktrhtejscktelgfpdlrkfyfwdajldejokbwf',
+			'ur:bytes/6-9/lpamascfadaxcywenbpljkhdcackjlhkhybssklbwefectpfnbbectrljectpavyrolkzczcpkmwidmwoxkilghdsowp',
+			'ur:bytes/7-9/lpatascfadaxcywenbpljkhdcavszmwnjkwtclrtvaynhpahrtoxmwvwatmedibkaegdosftvandiodagdhthtrlnnhy',
+			'ur:bytes/8-9/lpayascfadaxcywenbpljkhdcadmsponkkbbhgsoltjntegepmttmoonftnbuoiyrehfrtsabzsttorodklubbuyaetk',
+			'ur:bytes/9-9/lpasascfadaxcywenbpljkhdcajskecpmdckihdyhphfotjojtfmlnwmadspaxrkytbztpbauotbgtgtaeaevtgavtny',
+			'ur:bytes/10-9/lpbkascfadaxcywenbpljkhdcahkadaemejtswhhylkepmykhhtsytsnoyoyaxaedsuttydmmhhpktpmsrjtwdkiplzs',
+			'ur:bytes/11-9/lpbdascfadaxcywenbpljkhdcahelbknlkuejnbadmssfhfrdpsbiegecpasvssovlgeykssjykklronvsjkvetiiapk',
+			'ur:bytes/12-9/lpbnascfadaxcywenbpljkhdcarllaluzmdmgstospeyiefmwejlwtpedamktksrvlcygmzemovovllarodtmtbnptrs',
+			'ur:bytes/13-9/lpbtascfadaxcywenbpljkhdcamtkgtpknghchchyketwsvwgwfdhpgmgtylctotzopdrpayoschcmhplffziachrfgd',
+			'ur:bytes/14-9/lpbaascfadaxcywenbpljkhdcapazewnvonnvdnsbyleynwtnsjkjndeoldydkbkdslgjkbbkortbelomueekgvstegt',
+			'ur:bytes/15-9/lpbsascfadaxcywenbpljkhdcaynmhpddpzmversbdqdfyrehnqzlugmjzmnmtwmrouohtstgsbsahpawkditkckynwt',
+			'ur:bytes/16-9/lpbeascfadaxcywenbpljkhdcawygekobamwtlihsnpalnsghenskkiynthdzotsimtojetprsttmukirlrsbtamjtpd',
+			'ur:bytes/17-9/lpbyascfadaxcywenbpljkhdcamklgftaxykpewyrtqzhydntpnytyisincxmhtbceaykolduortotiaiaiafhiaoyce',
+			'ur:bytes/18-9/lpbgascfadaxcywenbpljkhdcahkadaemejtswhhylkepmykhhtsytsnoyoyaxaedsuttydmmhhpktpmsrjtntwkbkwy',
+			'ur:bytes/19-9/lpbwascfadaxcywenbpljkhdcadekicpaajootjzpsdrbalpeywllbdsnbinaerkurspbncxgslgftvtsrjtksplcpeo',
+			'ur:bytes/20-9/lpbbascfadaxcywenbpljkhdcayapmrleeleaxpasfrtrdkncffwjyjzgyetdmlewtkpktgllepfrltataztksmhkbot'
+		]);
+	});
+
+	it('decodes parts received out of order with gaps', () => {
+		const encoder = new UREncoder(ur, 30);
+		const decoder = new URDecoder();
+
+		while (!decoder.isComplete()) {
+			encoder.nextPart();
+			decoder.receivePart(encoder.nextPart().toUpperCase());
+		}
+
+		expect(decoder.getResult()?.type).toBe('bytes');
+		expect(decoder.getResult()?.cbor).toEqual(ur.cbor);
+		expect(decoder.getProgress()).toBe(1);
+	});
+
+	it('ignores parts of a different UR type', () => {
+		const decoder = new URDecoder();
+		decoder.receivePart(new UREncoder(ur, 30).nextPart());
+
+		expect(decoder.receivePart(new UREncoder(new UR('other', ur.cbor), 30).nextPart())).toBe(false);
+	});
+
+	it('rejects a sequence component that does not match the payload', () => {
+		const part = new UREncoder(ur, 30).nextPart().replace('/1-9/', '/2-9/');
+
+		expect(() => new URDecoder().receivePart(part)).toThrow('does not match payload');
+	});
+});
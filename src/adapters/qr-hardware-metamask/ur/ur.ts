@@ -0,0 +1,203 @@
+import { decodeBytewords, encodeBytewords } from './bytewords.js';
+import { decodeCbor, encodeCbor } from './cbor.js';
+import { FountainDecoder, FountainEncoder, type FountainPart } from './fountain.js';
+
+/**
+ * Uniform Resource (BCR-2020-005)
+ *
+ * `ur:<type>/<bytewords>` 或多帧形式 `ur:<type>/<seqNum>-<seqLen>/<bytewords>`
+ */
+export class UR {
+	/** UR 类型，如 'crypto-hdkey', 'eth-sign-request' */
+	readonly type: string;
+	/** CBOR 编码的负载 */
+	readonly cbor: Uint8Array;
+
+	constructor(type: string, cbor: Uint8Array) {
+		if (!/^[a-z0-9-]+$/.test(type)) {
+			throw new Error(`UR: invalid type "${type}"`);
+		}
+		this.type = type;
+		this.cbor = cbor;
+	}
+
+	/**
+	 * 编码为单帧 UR 字符串
+	 */
+	toString(): string {
+		return `ur:${this.type}/${encodeBytewords(this.cbor)}`;
+	}
+
+	/**
+	 * 解析单帧 UR 字符串
+	 */
+	static fromString(text: string): UR {
+		const { type, components } = parseURString(text);
+		if (components.length !== 1) {
+			throw new Error('UR: expected a single-part UR');
+		}
+		return new UR(type, decodeBytewords(components[0]));
+	}
+}
+
+/**
+ * 解析 UR 字符串的公共部分
+ */
+function parseURString(text: string): { type: string; components: string[] } {
+	const lower = text.trim().toLowerCase();
+	if (!lower.startsWith('ur:')) {
+		throw new Error('UR: missing "ur:" scheme');
+	}
+
+	const [type, ...components] = lower.slice(3).split('/');
+	if (!type || components.length === 0 || components.length > 2) {
+		throw new Error('UR: invalid format');
+	}
+
+	return { type, components };
+}
+
+/**
+ * 多帧 UR 编码器
+ *
+ * 负载不超过 maxFragmentLength 时始终返回单帧 UR，
+ * 否则通过喷泉码生成可循环播放的无限帧序列
+ */
+export class UREncoder {
+	private ur: UR;
+	private fountain: FountainEncoder;
+
+	constructor(ur: UR, maxFragmentLength = 200, minFragmentLength = 10) {
+		this.ur = ur;
+		this.fountain = new FountainEncoder(ur.cbor, maxFragmentLength, minFragmentLength);
+	}
+
+	/**
+	 * 是否只有一帧
+	 */
+	get isSinglePart(): boolean {
+		return this.fountain.isSinglePart;
+	}
+
+	/**
+	 * 原始分片数量（至少需要扫描的帧数）
+	 */
+	get fragmentsCount(): number {
+		return this.fountain.seqLen;
+	}
+
+	/**
+	 * 生成下一帧 UR 字符串
+	 */
+	nextPart(): string {
+		if (this.isSinglePart) {
+			return this.ur.toString();
+		}
+
+		const part = this.fountain.nextPart();
+		const body = encodeCbor([
+			part.seqNum,
+			part.seqLen,
+			part.messageLength,
+			part.checksum,
+			part.data
+		]);
+		return `ur:${this.ur.type}/${part.seqNum}-${part.seqLen}/${encodeBytewords(body)}`;
+	}
+}
+
+/**
+ * 多帧 UR 解码器
+ *
+ * 按任意顺序接收扫描到的帧，直到恢复出完整的 UR
+ */
+export class URDecoder {
+	private type: string | null = null;
+	private fountain = new FountainDecoder();
+	private result: UR | null = null;
+
+	/**
+	 * 接收一帧
+	 *
+	 * @returns 是否被接受（类型不匹配、重复帧返回 false）
+	 */
+	receivePart(text: string): boolean {
+		if (this.result) {
+			return false;
+		}
+
+		const { type, components } = parseURString(text);
+		if (this.type && this.type !== type) {
+			return false;
+		}
+		this.type = type;
+
+		// 单帧 UR
+		if (components.length === 1) {
+			this.result = new UR(type, decodeBytewords(components[0]));
+			return true;
+		}
+
+		const [sequence, body] = components;
+		const match = /^(\d+)-(\d+)$/.exec(sequence);
+		if (!match) {
+			throw new Error('UR: invalid sequence component');
+		}
+
+		const part = decodeFountainPart(decodeBytewords(body));
+		if (part.seqNum !== Number(match[1]) || part.seqLen !== Number(match[2])) {
+			throw new Error('UR: sequence component does not match payload');
+		}
+
+		const accepted = this.fountain.receivePart(part);
+		const message = this.fountain.getResult();
+		if (message) {
+			this.result = new UR(type, message);
+		}
+		return accepted;
+	}
+
+	/**
+	 * 是否已完成
+	 */
+	isComplete(): boolean {
+		return this.result !== null;
+	}
+
+	/**
+	 * 完成进度（0-1）
+	 */
+	getProgress(): number {
+		return this.result ? 1 : this.fountain.getProgress();
+	}
+
+	/**
+	 * 解码结果
+	 */
+	getResult(): UR | null {
+		return this.result;
+	}
+}
+
+/**
+ * 解码多帧 UR 的 CBOR 帧结构
+ */
+function decodeFountainPart(bytes: Uint8Array): FountainPart {
+	const value = decodeCbor(bytes);
+	if (!Array.isArray(value) || value.length !== 5) {
+		throw new Error('UR: invalid multi-part payload');
+	}
+
+	const [seqNum, seqLen, messageLength, checksum, data] = value;
+	if (
+		typeof seqNum !== 'number' ||
+		typeof seqLen !== 'number' ||
+		typeof messageLength !== 'number' ||
+		typeof checksum !== 'number' ||
+		!(data instanceof Uint8Array)
+	) {
+		throw new Error('UR: invalid multi-part payload');
+	}
+
+	return { seqNum, seqLen, messageLength, checksum, data };
+}
@@ -1,6 +1,15 @@
 import type { Address } from 'viem';
 import { EthereumProvider } from '@walletconnect/ethereum-provider';
 import { BaseConnector } from '../../core/BaseConnector';
+import {
+	ChainNotConfiguredError,
+	NoAccountsError,
+	ProviderNotFoundError,
+	UnauthorizedError,
+	toConnectorError
+} from '../../core/errors.js';
+import { abortable, throwIfAborted } from '../../core/abort.js';
+import type { ConnectorOperationOptions } from '../../core/types/connector.js';
 import type { WalletConnectConnectorOptions } from './types.js';
 import { isMobile, openWalletDeepLink } from '../../utils/mobile.js';
 import { normalizeChainId } from '../../utils';
@@ -29,6 +38,7 @@ export class WalletConnectConnector extends BaseConnector {
 
 	constructor(options: WalletConnectConnectorOptions) {
 		super(options);
+		this.logger = this.logger.child('WalletConnect');
 		this.wcOptions = options;
 	}
 
@@ -58,7 +68,7 @@ export class WalletConnectConnector extends BaseConnector {
 		if (chainIds.length === 0) {
 			throw new Error('At least one chain is required for WalletConnect');
 		}
-		console.log({ chainIds });
+		this.logger.debug('Initializing provider with chains:', chainIds);
 
 		// 创建 EthereumProvider
 		// chains: 必需支持的链（所有启用的链）
@@ -85,46 +95,52 @@ export class WalletConnectConnector extends BaseConnector {
 	/**
 	 * 连接钱包
 	 */
-	async connect(chainId: number): Promise<{
+	protected async doConnect(
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<{
 		address: Address;
 		addresses: Address[];
 		chainId: number;
 	}> {
 		if (!this.getChain(chainId)) {
-			throw new Error(`Chain [${chainId}] is not supported by this dApp`);
+			throw new ChainNotConfiguredError(chainId, { connectorId: this.id });
 		}
+		const { signal } = options;
 		try {
-			await this.initializeProvider();
+			throwIfAborted(signal, this.id);
+			await abortable(this.initializeProvider(), signal, { connectorId: this.id });
 
 			if (!this.provider) {
-				throw new Error('Failed to initialize provider');
+				throw new ProviderNotFoundError('Failed to initialize provider', { connectorId: this.id });
 			}
+			const provider = this.provider;
 
-			// 监听 URI 更新
-			this.provider.on('display_uri', (uri: string) => {
-				console.log('WalletConnect URI:', uri);
-				this.uri = uri;
-
-				// 总是发送 display_uri 事件以保持兼容性
-				(this.emit as (event: string, ...args: string[]) => void)('display_uri', uri);
-
-				// 在移动端额外发送 mobile_wallet_selection 事件
-				if (isMobile()) {
-					(this.emit as (event: string, ...args: string[]) => void)('mobile_wallet_selection', uri);
-				}
-			});
+			// 监听 URI 更新（每次连接结束后移除，避免重复注册）
+			provider.on('display_uri', this.handleDisplayUri);
 
-			// 启用 provider（触发连接流程）
-			let accounts = (await this.provider.enable()) as Address[];
+			// 启用 provider（触发连接流程），取消时中止配对
+			let accounts: Address[];
+			try {
+				accounts = (await abortable(provider.enable(), signal, {
+					connectorId: this.id,
+					onAbort: () => {
+						this.logger.debug('Aborting WalletConnect pairing');
+						provider.signer.abortPairingAttempt();
+					}
+				})) as Address[];
+			} finally {
+				provider.removeListener('display_uri', this.handleDisplayUri);
+			}
 
 			// 获取当前链 ID
 			let currentChainId = await this.getChainId();
 
 			// 如果指定了链 ID 且与当前不同，尝试切换
 			if (chainId && chainId !== currentChainId) {
-				console.log('[WalletConnect] Switching to requested chain:', chainId);
+				this.logger.debug('Switching to requested chain:', chainId);
 				try {
-					await this.switchChain(chainId);
+					await this.doSwitchChain(chainId, options);
 					currentChainId = chainId;
 
 					// After switching chain, get accounts again as they might have changed
@@ -134,46 +150,48 @@ export class WalletConnectConnector extends BaseConnector {
 
 					// If still no accounts after switch, it means this network doesn't have accounts
 					if (!accounts || accounts.length === 0) {
-						console.warn(
-							'[WalletConnect] No accounts on chain',
-							chainId,
-							'- staying on original chain'
-						);
+						this.logger.warn('No accounts on chain', chainId, '- staying on original chain');
 						// Try to switch back to original chain
 						try {
-							await this.switchChain(currentChainId);
+							await this.doSwitchChain(currentChainId, options);
 							// Get accounts again on original chain
 							accounts = (await this.provider.request({
 								method: 'eth_accounts'
 							})) as unknown as Address[];
 						} catch (switchBackError) {
-							console.error('[WalletConnect] Failed to switch back:', switchBackError);
+							this.logger.error('Failed to switch back:', switchBackError);
 						}
 					}
 				} catch (switchError) {
-					console.warn('[WalletConnect] Failed to switch to requested chain:', switchError);
+					throwIfAborted(signal, this.id);
+					this.logger.warn('Failed to switch to requested chain:', switchError);
 					// Continue with current chain
 				}
 			}
 
 			// If still no accounts, try Ethereum mainnet as fallback
 			if (!accounts || accounts.length === 0) {
-				console.log('[WalletConnect] No accounts found, trying Ethereum mainnet as fallback');
+				this.logger.debug('No accounts found, trying Ethereum mainnet as fallback');
 				try {
-					await this.switchChain(1); // Ethereum mainnet
+					await this.doSwitchChain(1, options); // Ethereum mainnet
 					accounts = (await this.provider.request({
 						method: 'eth_accounts'
 					})) as unknown as Address[];
 					currentChainId = 1;
 				} catch (mainnetError) {
-					console.error('[WalletConnect] Failed to switch to mainnet:', mainnetError);
+					throwIfAborted(signal, this.id);
+					this.logger.error('Failed to switch to mainnet:', mainnetError);
 				}
 			}
 
 			if (!accounts || accounts.length === 0) {
-				throw new Error('No accounts found. Please ensure your wallet has at least one account.');
+				throw new NoAccountsError(
+					'No accounts found. Please ensure your wallet has at least one account.',
+					{ connectorId: this.id }
+				);
 			}
 
+			throwIfAborted(signal, this.id);
 			const address = accounts[0];
 			// Use the actual chain we ended up on (might be different from requested if no accounts)
 			const connectedChainId = await this.getChainId();
@@ -197,11 +215,26 @@ export class WalletConnectConnector extends BaseConnector {
 		} catch (error) {
 			// 清除 URI
 			this.uri = undefined;
-			this.emit('error', error as Error);
-			throw error;
+			throw toConnectorError(error, this.id);
 		}
 	}
 
+	/**
+	 * 处理 WalletConnect URI 更新
+	 */
+	private handleDisplayUri = (uri: string) => {
+		this.logger.debug('WalletConnect URI:', uri);
+		this.uri = uri;
+
+		// 总是发送 display_uri 事件以保持兼容性
+		(this.emit as (event: string, ...args: string[]) => void)('display_uri', uri);
+
+		// 在移动端额外发送 mobile_wallet_selection 事件
+		if (isMobile()) {
+			(this.emit as (event: string, ...args: string[]) => void)('mobile_wallet_selection', uri);
+		}
+	};
+
 	/**
 	 * 断开连接
 	 */
@@ -220,13 +253,13 @@ export class WalletConnectConnector extends BaseConnector {
 	 */
 	getAccount(): Promise<Address> {
 		if (!this.provider) {
-			throw new Error('Provider not initialized');
+			throw new ProviderNotFoundError('Provider not initialized', { connectorId: this.id });
 		}
 
 		const accounts = this.provider.accounts as Address[];
 
 		if (!accounts || accounts.length === 0) {
-			throw new Error('No accounts found');
+			throw new NoAccountsError(undefined, { connectorId: this.id });
 		}
 
 		return Promise.resolve(accounts[0]);
@@ -237,7 +270,7 @@ export class WalletConnectConnector extends BaseConnector {
 	 */
 	async getAccounts(): Promise<Address[]> {
 		if (!this.provider) {
-			throw new Error('Provider not available');
+			throw new ProviderNotFoundError('Provider not available', { connectorId: this.id });
 		}
 
 		const accounts = (await this.provider.request({
@@ -251,7 +284,7 @@ export class WalletConnectConnector extends BaseConnector {
 	 */
 	getChainId(): Promise<number> {
 		if (!this.provider) {
-			throw new Error('Provider not initialized');
+			throw new ProviderNotFoundError('Provider not initialized', { connectorId: this.id });
 		}
 
 		return Promise.resolve(this.provider.chainId);
@@ -265,7 +298,7 @@ export class WalletConnectConnector extends BaseConnector {
 
 		// 检查地址是否在授权列表中
 		if (!accounts.includes(address)) {
-			throw new Error('Account not authorized');
+			throw new UnauthorizedError(undefined, { connectorId: this.id });
 		}
 
 		// 触发账户变更事件（使用 permissionChanged）
@@ -282,13 +315,17 @@ export class WalletConnectConnector extends BaseConnector {
 	/**
 	 * 切换链
 	 */
-	async switchChain(chainId: number): Promise<void> {
+	protected async doSwitchChain(
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<void> {
+		const { signal } = options;
 		if (!this.getChain(chainId)) {
-			throw new Error(`Chain [${chainId}] is not supported by this dApp`);
+			throw new ChainNotConfiguredError(chainId, { connectorId: this.id });
 		}
 
 		if (!this.provider) {
-			throw new Error('Provider not initialized');
+			throw new ProviderNotFoundError('Provider not initialized', { connectorId: this.id });
 		}
 
 		const chain = this.getChain(chainId);
@@ -298,12 +335,17 @@ export class WalletConnectConnector extends BaseConnector {
 		this.isSwitchingChain = true;
 
 		try {
-			console.log('[WalletConnect] Switching to chain:', chainId);
+			throwIfAborted(signal, this.id);
+			this.logger.debug('Switching to chain:', chainId);
 			// 尝试切换到目标链
-			await this.provider.request({
-				method: 'wallet_switchEthereumChain',
-				params: [{ chainId: hexChainId }]
-			});
+			await abortable(
+				this.provider.request({
+					method: 'wallet_switchEthereumChain',
+					params: [{ chainId: hexChainId }]
+				}),
+				signal,
+				{ connectorId: this.id }
+			);
 
 			// Check if there are accounts on the new chain
 			const accounts = (await this.provider.request({
@@ -311,18 +353,19 @@ export class WalletConnectConnector extends BaseConnector {
 			})) as unknown as Address[];
 
 			if (!accounts || accounts.length === 0) {
-				console.warn('[WalletConnect] No accounts on chain', chainId);
+				this.logger.warn('No accounts on chain', chainId);
 				// Don't emit event since we didn't actually switch
-				throw new Error(
-					`No wallet accounts available on this network (chain ID: ${chainId}). Please ensure your wallet has an account on this network.`
+				throw new NoAccountsError(
+					`No wallet accounts available on this network (chain ID: ${chainId}). Please ensure your wallet has an account on this network.`,
+					{ connectorId: this.id }
 				);
 			}
 
 			// Provider will emit chainChanged event automatically, which our listener will convert to permissionChanged
-			console.log('[WalletConnect] Chain switch successful, provider will emit event');
+			this.logger.debug('Chain switch successful, provider will emit event');
 		} catch (error) {
 			// If it's our custom error about no accounts, re-throw it
-			if (error instanceof Error && error.message.includes('No wallet accounts')) {
+			if (error instanceof NoAccountsError) {
 				throw error;
 			}
 			// 4902 表示链未添加到钱包
@@ -330,34 +373,32 @@ export class WalletConnectConnector extends BaseConnector {
 			if (err.code === 4902 && chain) {
 				try {
 					// 尝试添加链
-					await this.provider.request({
-						method: 'wallet_addEthereumChain',
-						params: [
-							{
-								chainId: hexChainId,
-								chainName: chain.name,
-								nativeCurrency: chain.nativeCurrency,
-								rpcUrls: chain.rpcUrls?.default?.http || [],
-								blockExplorerUrls: chain.blockExplorers?.default?.url
-									? [chain.blockExplorers.default.url]
-									: []
-							}
-						]
-					});
+					await abortable(
+						this.provider.request({
+							method: 'wallet_addEthereumChain',
+							params: [
+								{
+									chainId: hexChainId,
+									chainName: chain.name,
+									nativeCurrency: chain.nativeCurrency,
+									rpcUrls: chain.rpcUrls?.default?.http || [],
+									blockExplorerUrls: chain.blockExplorers?.default?.url
+										? [chain.blockExplorers.default.url]
+										: []
+								}
+							]
+						}),
+						signal,
+						{ connectorId: this.id }
+					);
 
 					// Provider will emit chainChanged event automatically
-					console.log('[WalletConnect] Chain added successfully, provider will emit event');
+					this.logger.debug('Chain added successfully, provider will emit event');
 				} catch (addError) {
-					const err = new Error(
-						addError instanceof Error ? addError.message : 'Failed to add chain'
-					);
-					this.emit('error', err);
-					throw err;
+					throw toConnectorError(addError, this.id);
 				}
 			} else {
-				const err = new Error(error instanceof Error ? error.message : 'Failed to switch chain');
-				this.emit('error', err);
-				throw err;
+				throw toConnectorError(error, this.id);
 			}
 		} finally {
 			// Reset flag after operation
@@ -379,22 +420,22 @@ export class WalletConnectConnector extends BaseConnector {
 	 */
 	openMobileWallet(): void {
 		if (!this.uri) {
-			console.error('No WalletConnect URI available');
+			this.logger.error('No WalletConnect URI available');
 			return;
 		}
 
 		if (!isMobile()) {
-			console.warn('openMobileWallet should only be called on mobile devices');
+			this.logger.warn('openMobileWallet should only be called on mobile devices');
 			return;
 		}
 
-		openWalletDeepLink(this.uri, this.selectedWalletId);
+		openWalletDeepLink(this.uri, this.selectedWalletId, this.logger);
 	}
 
 	/**
 	 * 检查是否已授权
 	 */
-	async isAuthorized(): Promise<boolean> {
+	protected async doIsAuthorized(): Promise<boolean> {
 		try {
 			if (!this.provider) {
 				await this.initializeProvider();
@@ -423,13 +464,13 @@ export class WalletConnectConnector extends BaseConnector {
 		this.provider.on('accountsChanged', (accounts: string[]) => {
 			void (async () => {
 				const addresses = accounts as Address[];
-				console.log('[WalletConnect] accountsChanged event:', addresses);
+				this.logger.debug('accountsChanged event:', addresses);
 				// Don't disconnect if switching chains - wallet is still connected
 				if (addresses.length === 0 && !this.isSwitchingChain) {
-					console.log('[WalletConnect] No accounts and not switching - disconnecting');
+					this.logger.debug('No accounts and not switching - disconnecting');
 					this.emit('disconnected');
 				} else if (addresses.length === 0 && this.isSwitchingChain) {
-					console.log('[WalletConnect] No accounts but switching - NOT disconnecting');
+					this.logger.debug('No accounts but switching - NOT disconnecting');
 				} else {
 					// 触发权限变更事件（包含完整连接信息）
 					const chainId = await this.getChainId();
@@ -447,7 +488,7 @@ export class WalletConnectConnector extends BaseConnector {
 		this.provider.on('chainChanged', (chainId: string) => {
 			void (async () => {
 				const id = normalizeChainId(chainId);
-				console.log('[WalletConnect] chainChanged event:', id);
+				this.logger.debug('chainChanged event:', id);
 				// 触发权限变更事件（包含完整连接信息）
 				const accounts = (await this.provider?.request({
 					method: 'eth_accounts'
@@ -479,7 +520,9 @@ export class WalletConnectConnector extends BaseConnector {
 	 */
 	getProvider(): WalletConnectProvider {
 		if (!this.provider) {
-			throw new Error('Provider not initialized. Please call connect() first.');
+			throw new ProviderNotFoundError('Provider not initialized. Please call connect() first.', {
+				connectorId: this.id
+			});
 		}
 		return this.provider;
 	}
@@ -497,7 +540,7 @@ export class WalletConnectConnector extends BaseConnector {
 			try {
 				currentChainId = this.provider.chainId;
 			} catch (error) {
-				console.warn('[WalletConnect] Failed to get current state:', error);
+				this.logger.warn('Failed to get current state:', error);
 			}
 		}
 
@@ -506,22 +549,22 @@ export class WalletConnectConnector extends BaseConnector {
 
 		// 如果已连接，需要断开并重新连接
 		if (wasConnected && this.provider) {
-			console.log('[WalletConnect] Disconnecting to update chains...');
+			this.logger.debug('Disconnecting to update chains...');
 			await this.provider.disconnect();
 			this.provider = null;
 
 			// 重新初始化
-			console.log('[WalletConnect] Reinitializing with new chains...');
+			this.logger.debug('Reinitializing with new chains...');
 			await this.initializeProvider();
 
 			// 如果有保存的链 ID，尝试重新连接到该链
 			if (currentChainId && this.getChain(currentChainId)) {
 				try {
-					console.log('[WalletConnect] Reconnecting to chain:', currentChainId);
+					this.logger.debug('Reconnecting to chain:', currentChainId);
 					await this.connect(currentChainId);
 				} catch (error) {
-					console.warn('[WalletConnect] Failed to reconnect:', error);
-					this.emit('error', new Error('Failed to reconnect after updating chains'));
+					// connect 失败时已经触发 error 事件，这里只记录日志
+					this.logger.warn('Failed to reconnect after updating chains:', error);
 				}
 			}
 		} else {
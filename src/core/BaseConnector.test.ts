@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mainnet, polygon } from 'viem/chains';
+import type { Address, Hex, SignableMessage } from 'viem';
+import { TimeoutError, UserRejectedError } from './errors.js';
+import { createLogger, type LogSink } from './logger.js';
+import type { ConnectorOperationOptions } from './types/connector.js';
+import type { ConnectorTimeouts } from './types/options.js';
+import { MockProvider } from '../testing/mock-provider.js';
+import { MockConnector } from '../testing/mock-connector.js';
+
+/**
+ * 记录签名时收到的 signal
+ */
+class RecordingConnector extends MockConnector {
+	readonly signals: (AbortSignal | undefined)[] = [];
+
+	protected doSignMessage(
+		message: SignableMessage,
+		address: Address | undefined,
+		options: ConnectorOperationOptions
+	): Promise<Hex> {
+		this.signals.push(options.signal);
+		return super.doSignMessage(message, address, options);
+	}
+}
+
+function setup(timeouts: ConnectorTimeouts, latency = 0) {
+	const provider = new MockProvider({ chainId: 1, authorized: true, latency });
+	const connector = new RecordingConnector({ chains: [mainnet, polygon], provider, timeouts });
+	const onError = vi.fn();
+	connector.on('error', onError);
+	return { provider, connector, onError };
+}
+
+describe('BaseConnector', () => {
+	it('emits a single error when connecting times out', async () => {
+		const { connector, onError } = setup({ connect: 10 }, 50);
+
+		await expect(connector.connect(1)).rejects.toBeInstanceOf(TimeoutError);
+
+		expect(onError).toHaveBeenCalledTimes(1);
+		expect(onError).toHaveBeenCalledWith(expect.any(TimeoutError));
+	});
+
+	it('emits a single error when the wallet rejects the connection', async () => {
+		const { provider, connector, onError } = setup({});
+		provider.rejectNext('eth_requestAccounts');
+
+		await expect(connector.connect(1)).rejects.toBeInstanceOf(UserRejectedError);
+
+		expect(onError).toHaveBeenCalledTimes(1);
+		expect(onError).toHaveBeenCalledWith(expect.any(UserRejectedError));
+	});
+
+	it('emits a single error when switching chain times out', async () => {
+		const { connector, onError } = setup({ switchChain: 10 }, 50);
+
+		await expect(connector.switchChain(137)).rejects.toBeInstanceOf(TimeoutError);
+
+		expect(onError).toHaveBeenCalledTimes(1);
+	});
+
+	it('aborts the pending signature when signing times out', async () => {
+		const { connector, onError } = setup({ sign: 10 }, 50);
+
+		await expect(connector.signMessage('hello')).rejects.toBeInstanceOf(TimeoutError);
+
+		const [signal] = connector.signals;
+		expect(signal?.aborted).toBe(true);
+		expect(signal?.reason).toBeInstanceOf(TimeoutError);
+		expect(onError).toHaveBeenCalledTimes(1);
+	});
+
+	it('reports listener errors to the logger, or to the console without one', async () => {
+		const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const sink = vi.fn<LogSink>();
+		const error = new Error('listener failed');
+		const throwing = () => {
+			throw error;
+		};
+		const withLogger = new MockConnector({ chains: [mainnet], logger: createLogger({ sink }) });
+		const withoutLogger = new MockConnector({ chains: [mainnet] });
+		await withLogger.connect(1);
+		await withoutLogger.connect(1);
+		withLogger.on('disconnected', throwing);
+		withoutLogger.on('disconnected', throwing);
+
+		withLogger.provider.revoke();
+		withoutLogger.provider.revoke();
+
+		expect(sink).toHaveBeenCalledWith(
+			expect.objectContaining({ level: 'error', message: 'Listener for "disconnected" threw:' })
+		);
+		expect(consoleError).toHaveBeenCalledTimes(1);
+		expect(consoleError).toHaveBeenCalledWith('Listener for "disconnected" threw:', error);
+		consoleError.mockRestore();
+	});
+
+	it('does not emit error when signing is rejected', async () => {
+		const { provider, connector, onError } = setup({});
+		provider.rejectNext('personal_sign');
+
+		await expect(connector.signMessage('hello')).rejects.toBeInstanceOf(UserRejectedError);
+
+		expect(connector.signals[0]?.aborted).toBe(false);
+		expect(onError).not.toHaveBeenCalled();
+	});
+});
@@ -1,10 +1,54 @@
-import { type Address, type Chain } from 'viem';
+import {
+	formatTransactionRequest,
+	numberToHex,
+	type Address,
+	type Capabilities,
+	type Chain,
+	type Hash,
+	type Hex,
+	type SignableMessage,
+	type TypedData,
+	type TypedDataDefinition
+} from 'viem';
 import type {
 	Connector,
+	ConnectorCapabilities,
 	ConnectorEvents,
 	ConnectorMetadata,
-	ConnectorOptions
+	ConnectorOperation,
+	ConnectorOperationOptions,
+	ConnectorOptions,
+	ConnectorTimeouts,
+	ConnectorTransactionRequest
 } from './types/index.js';
+import {
+	ChainDisconnectedError,
+	ConnectorError,
+	TimeoutError,
+	UnsupportedMethodError,
+	toConnectorError
+} from './errors.js';
+import { abortable } from './abort.js';
+import { EventEmitter } from './event-emitter.js';
+import { silentLogger, type Logger } from './logger.js';
+import { normalizeChainId } from '../utils/chains.js';
+import { toMessageHex, toTypedDataJson } from '../utils/signing.js';
+
+/**
+ * JSON-RPC Method not found（部分钱包用它代替 EIP-1193 的 4200）
+ */
+const METHOD_NOT_FOUND_CODE = -32601;
+
+/**
+ * 默认超时时间（毫秒），需要用户操作的请求留足时间
+ */
+const DEFAULT_TIMEOUTS: Required<ConnectorTimeouts> = {
+	connect: 5 * 60 * 1000,
+	switchChain: 60 * 1000,
+	sign: 5 * 60 * 1000,
+	sendTransaction: 5 * 60 * 1000,
+	isAuthorized: 10 * 1000
+};
 
 /**
  * 连接器基类
@@ -12,6 +56,11 @@ import type {
  *
  * 所有自定义连接器都应该继承此类
  *
+ * connect、switchChain、签名、sendTransaction 和 isAuthorized 是模板方法：基类统一加上超时限制
+ * （options.timeouts）并触发 error 事件，再调用子类实现的 doConnect、doSwitchChain、doSignMessage 等。
+ * 子类在 options.signal 取消（包括超时）时清理进行中的请求，内部调用其他操作时直接调用 doXxx，
+ * 避免重复计时和重复触发 error 事件
+ *
  * @example
  * ```typescript
  * export class MyWalletConnector extends BaseConnector {
@@ -21,12 +70,12 @@ import type {
  *
  *   get ready() { return true; }
  *
- *   async connect() { ... }
+ *   protected async doConnect(chainId: number, options: ConnectorOperationOptions) { ... }
  *   // 实现其他必需方法
  * }
  * ```
  */
-export abstract class BaseConnector implements Connector {
+export abstract class BaseConnector extends EventEmitter<ConnectorEvents> implements Connector {
 	/**
 	 * 连接器唯一标识符
 	 * 子类必须定义
@@ -48,11 +97,75 @@ export abstract class BaseConnector implements Connector {
 	// chains 代表 dApp 支持的网络
 	protected chains: Chain[];
 	protected options: ConnectorOptions;
-	private listeners = new Map<keyof ConnectorEvents, Set<(...args: unknown[]) => void>>();
+	/** 日志，子类可以通过 this.logger.child() 设置自己的命名空间 */
+	protected logger: Logger;
 
 	constructor(options: ConnectorOptions) {
+		super();
 		this.options = options;
 		this.chains = options.chains;
+		this.logger = options.logger ?? silentLogger;
+	}
+
+	/**
+	 * 监听器抛出的错误写入 logger，没有传入 logger 时使用默认处理（输出到 console），避免错误被静默丢弃
+	 */
+	protected onListenerError(error: unknown, event: keyof ConnectorEvents): void {
+		if (this.options.logger) {
+			this.logger.error(`Listener for "${String(event)}" threw:`, error);
+		} else {
+			super.onListenerError(error, event);
+		}
+	}
+
+	/**
+	 * 在超时时间内执行操作
+	 *
+	 * 超时后中止传给操作的 signal（连接器借此清理进行中的请求）并以 TimeoutError 拒绝；
+	 * 外部 signal 取消时同样中止。
+	 * connect 和 switchChain 的失败（包括超时）触发一次 error 事件，其他操作只有超时时触发
+	 */
+	private async withTimeout<T>(
+		operation: ConnectorOperation,
+		signal: AbortSignal | undefined,
+		run: (signal?: AbortSignal) => Promise<T>
+	): Promise<T> {
+		const timeout = this.options.timeouts?.[operation] ?? DEFAULT_TIMEOUTS[operation];
+		const controller = new AbortController();
+		let timedOut = false;
+		const timer =
+			timeout > 0
+				? setTimeout(() => {
+						timedOut = true;
+						controller.abort(new TimeoutError(operation, timeout, { connectorId: this.id }));
+					}, timeout)
+				: undefined;
+		const onAbort = () => controller.abort(signal?.reason);
+		if (signal?.aborted) {
+			onAbort();
+		} else {
+			signal?.addEventListener('abort', onAbort, { once: true });
+		}
+
+		try {
+			return await abortable(run(controller.signal), controller.signal, { connectorId: this.id });
+		} catch (error) {
+			const reason: unknown = controller.signal.reason;
+			if (timedOut && reason instanceof TimeoutError) {
+				this.logger.warn(reason.message);
+				this.emit('error', reason);
+				throw reason;
+			}
+
+			const err = this.normalizeError(error);
+			if (operation === 'connect' || operation === 'switchChain') {
+				this.emit('error', err);
+			}
+			throw err;
+		} finally {
+			clearTimeout(timer);
+			signal?.removeEventListener('abort', onAbort);
+		}
 	}
 
 	/**
@@ -62,8 +175,31 @@ export abstract class BaseConnector implements Connector {
 
 	/**
 	 * 连接钱包
+	 *
+	 * 失败时触发 error 事件；超时或 options.signal 取消时以 TimeoutError / AbortedError 拒绝
 	 */
-	abstract connect(chainId: number): Promise<{
+	connect(
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<{
+		address: Address;
+		addresses: Address[];
+		chainId: number;
+	}> {
+		return this.withTimeout('connect', options.signal, (signal) =>
+			this.doConnect(chainId, { ...options, signal })
+		);
+	}
+
+	/**
+	 * 连接钱包的实现
+	 *
+	 * 子类应该在 options.signal 取消时清理进行中的请求并抛出 AbortedError（见 abortable）
+	 */
+	protected abstract doConnect(
+		chainId: number,
+		options: ConnectorOperationOptions
+	): Promise<{
 		address: Address;
 		addresses: Address[];
 		chainId: number;
@@ -129,10 +265,24 @@ export abstract class BaseConnector implements Connector {
 
 	/**
 	 * 切换链
-	 * 默认实现：抛出错误
-	 * 子类应该覆盖此方法以支持链切换
+	 *
+	 * 失败时触发 error 事件；超时或 options.signal 取消时以 TimeoutError / AbortedError 拒绝
 	 */
-	abstract switchChain(_chainId: number): Promise<void>;
+	switchChain(chainId: number, options: ConnectorOperationOptions = {}): Promise<void> {
+		return this.withTimeout('switchChain', options.signal, (signal) =>
+			this.doSwitchChain(chainId, { ...options, signal })
+		);
+	}
+
+	/**
+	 * 切换链的实现
+	 *
+	 * 子类应该在 options.signal 取消时清理进行中的请求并抛出 AbortedError
+	 */
+	protected abstract doSwitchChain(
+		chainId: number,
+		options: ConnectorOperationOptions
+	): Promise<void>;
 
 	/**
 	 * 切换账户
@@ -153,7 +303,14 @@ export abstract class BaseConnector implements Connector {
 	/**
 	 * 检查是否已授权连接
 	 */
-	abstract isAuthorized(): Promise<boolean>;
+	isAuthorized(): Promise<boolean> {
+		return this.withTimeout('isAuthorized', undefined, () => this.doIsAuthorized());
+	}
+
+	/**
+	 * 检查是否已授权连接的实现
+	 */
+	protected abstract doIsAuthorized(): Promise<boolean>;
 
 	/**
 	 * 检查是否支持指定的链
@@ -165,7 +322,6 @@ export abstract class BaseConnector implements Connector {
 	 * @returns 是否支持
 	 */
 	supportsChain(_chainId: number): boolean {
-		console.log(_chainId);
 		return true; // 默认支持所有链
 	}
 
@@ -182,37 +338,152 @@ export abstract class BaseConnector implements Connector {
 	}
 
 	/**
-	 * 监听事件
+	 * 签名消息（personal_sign）
 	 */
-	on<K extends keyof ConnectorEvents>(event: K, listener: ConnectorEvents[K]): void {
-		if (!this.listeners.has(event)) {
-			this.listeners.set(event, new Set());
-		}
-		this.listeners.get(event)!.add(listener as (...args: unknown[]) => void);
+	signMessage(message: SignableMessage, address?: Address): Promise<Hex> {
+		return this.withTimeout('sign', undefined, (signal) =>
+			this.doSignMessage(message, address, { signal })
+		);
+	}
+
+	/**
+	 * 签名 EIP-712 类型化数据（eth_signTypedData_v4）
+	 */
+	signTypedData<
+		const typedData extends TypedData | Record<string, unknown>,
+		primaryType extends keyof typedData | 'EIP712Domain'
+	>(typedData: TypedDataDefinition<typedData, primaryType>, address?: Address): Promise<Hex> {
+		return this.withTimeout('sign', undefined, (signal) =>
+			this.doSignTypedData(typedData as TypedDataDefinition, address, { signal })
+		);
+	}
+
+	/**
+	 * 发送交易（eth_sendTransaction）
+	 */
+	sendTransaction(transaction: ConnectorTransactionRequest): Promise<Hash> {
+		return this.withTimeout('sendTransaction', undefined, (signal) =>
+			this.doSendTransaction(transaction, { signal })
+		);
+	}
+
+	/**
+	 * 签名消息的实现
+	 *
+	 * 默认实现：通过 Provider 请求签名，超时后放弃等待
+	 */
+	protected async doSignMessage(
+		message: SignableMessage,
+		address: Address | undefined,
+		options: ConnectorOperationOptions
+	): Promise<Hex> {
+		const account = address ?? (await this.getAccount());
+		return this.request<Hex>('personal_sign', [toMessageHex(message), account], options);
+	}
+
+	/**
+	 * 签名 EIP-712 类型化数据的实现
+	 *
+	 * 默认实现：补全 EIP712Domain 类型并校验后，通过 Provider 请求签名
+	 */
+	protected async doSignTypedData(
+		typedData: TypedDataDefinition,
+		address: Address | undefined,
+		options: ConnectorOperationOptions
+	): Promise<Hex> {
+		const account = address ?? (await this.getAccount());
+		return this.request<Hex>(
+			'eth_signTypedData_v4',
+			[account, toTypedDataJson(typedData)],
+			options
+		);
 	}
 
 	/**
-	 * 取消监听
+	 * 发送交易的实现
+	 *
+	 * 默认实现：指定 chainId 时先校验钱包当前所在的链，再通过 Provider 发送
 	 */
-	off<K extends keyof ConnectorEvents>(event: K, listener: ConnectorEvents[K]): void {
-		const listeners = this.listeners.get(event);
-		if (listeners) {
-			listeners.delete(listener as (...args: unknown[]) => void);
+	protected async doSendTransaction(
+		transaction: ConnectorTransactionRequest,
+		options: ConnectorOperationOptions
+	): Promise<Hash> {
+		const { chainId, ...request } = transaction;
+		const from = request.from ?? (await this.getAccount());
+
+		if (chainId !== undefined) {
+			const currentChainId = await this.getChainId();
+			if (currentChainId !== chainId) {
+				throw new ChainDisconnectedError(
+					chainId,
+					`Chain mismatch: wallet is on chain [${currentChainId}], transaction targets chain [${chainId}]`,
+					{ connectorId: this.id }
+				);
+			}
 		}
+
+		const rpcRequest = formatTransactionRequest({ ...request, from });
+		return this.request<Hash>(
+			'eth_sendTransaction',
+			[chainId !== undefined ? { ...rpcRequest, chainId: numberToHex(chainId) } : rpcRequest],
+			options
+		);
 	}
 
 	/**
-	 * 触发事件
+	 * 获取钱包能力（EIP-5792 wallet_getCapabilities）
+	 *
+	 * 默认实现：通过 Provider 查询，钱包不支持该方法时返回空对象
 	 */
-	protected emit<K extends keyof ConnectorEvents>(
-		event: K,
-		...args: ConnectorEvents[K] extends (...args: infer P) => void ? P : never
-	): void {
-		const listeners = this.listeners.get(event);
-		if (listeners) {
-			listeners.forEach((listener) => {
-				(listener as (...args: unknown[]) => void)(...args);
+	async getCapabilities(address?: Address): Promise<ConnectorCapabilities> {
+		const account = address ?? (await this.getAccount());
+
+		try {
+			const capabilities = await this.request<Record<string, Capabilities> | null>(
+				'wallet_getCapabilities',
+				[account]
+			);
+			const result: ConnectorCapabilities = {};
+			Object.entries(capabilities ?? {}).forEach(([chainId, value]) => {
+				result[normalizeChainId(chainId)] = value;
 			});
+			return result;
+		} catch (error) {
+			if (
+				error instanceof UnsupportedMethodError ||
+				(error instanceof ConnectorError && error.code === METHOD_NOT_FOUND_CODE)
+			) {
+				return {};
+			}
+			throw error;
 		}
 	}
+
+	/**
+	 * 通过 Provider 发送请求，错误统一转换为 ConnectorError
+	 *
+	 * options.signal 取消时放弃等待钱包响应并抛出 AbortedError
+	 */
+	protected async request<T>(
+		method: string,
+		params?: unknown[],
+		options: ConnectorOperationOptions = {}
+	): Promise<T> {
+		try {
+			return (await abortable(this.getProvider().request({ method, params }), options.signal, {
+				connectorId: this.id
+			})) as T;
+		} catch (error) {
+			throw this.normalizeError(error);
+		}
+	}
+
+	/**
+	 * 统一错误格式
+	 *
+	 * 部分钱包抛出的是普通对象 `{ code, message }`，这里按错误码转换为对应的 ConnectorError
+	 */
+	protected normalizeError(error: unknown): ConnectorError {
+		return toConnectorError(error, this.id);
+	}
 }
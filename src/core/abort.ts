@@ -0,0 +1,77 @@
+import { AbortedError } from './errors.js';
+
+/**
+ * AbortSignal 辅助函数
+ *
+ * 供连接器实现 doConnect / doSwitchChain 等操作的取消（包括超时）：钱包中的请求本身无法撤回，
+ * 取消时立即以 AbortedError 拒绝，并通过 onAbort 清理配对、监听器等资源
+ *
+ * @example
+ * ```typescript
+ * protected async doConnect(chainId: number, options: ConnectorOperationOptions = {}) {
+ *   throwIfAborted(options.signal, this.id);
+ *   const accounts = await abortable(this.request('eth_requestAccounts'), options.signal, {
+ *     connectorId: this.id
+ *   });
+ * }
+ * ```
+ */
+
+/**
+ * abortable 选项
+ */
+export interface AbortableOptions {
+	/** 产生错误的连接器 ID */
+	connectorId?: string;
+	/** 取消时调用，用于清理进行中的请求 */
+	onAbort?: () => void;
+}
+
+/**
+ * 创建取消错误，cause 为 signal.reason
+ */
+export function createAbortedError(signal: AbortSignal, connectorId?: string): AbortedError {
+	return new AbortedError(undefined, { cause: signal.reason, connectorId });
+}
+
+/**
+ * signal 已取消时抛出 AbortedError
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, connectorId?: string): void {
+	if (signal?.aborted) {
+		throw createAbortedError(signal, connectorId);
+	}
+}
+
+/**
+ * 等待 promise，signal 取消时立即以 AbortedError 拒绝
+ *
+ * promise 完成后移除 abort 监听；取消后 promise 的结果被忽略
+ */
+export function abortable<T>(
+	promise: Promise<T>,
+	signal: AbortSignal | undefined,
+	options: AbortableOptions = {}
+): Promise<T> {
+	if (!signal) return promise;
+
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => {
+			// 避免取消后原请求失败产生未处理的 rejection
+			promise.catch(() => {});
+			try {
+				options.onAbort?.();
+			} finally {
+				reject(createAbortedError(signal, options.connectorId));
+			}
+		};
+
+		if (signal.aborted) {
+			onAbort();
+			return;
+		}
+
+		signal.addEventListener('abort', onAbort, { once: true });
+		void promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+	});
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+	CONNECTION_TRANSITIONS,
+	ConnectionStateMachine,
+	canTransition,
+	type ConnectionStatus
+} from './connection-state-machine.js';
+import { InvalidStateTransitionError } from './errors.js';
+
+const STATUSES = Object.keys(CONNECTION_TRANSITIONS) as ConnectionStatus[];
+
+describe('ConnectionStateMachine', () => {
+	it('starts disconnected and idle', () => {
+		const machine = new ConnectionStateMachine();
+
+		expect(machine.status).toBe('disconnected');
+		expect(machine.isBusy).toBe(false);
+	});
+
+	it('always allows staying in the same status', () => {
+		STATUSES.forEach((status) => expect(canTransition(status, status)).toBe(true));
+	});
+
+	it.each<[ConnectionStatus, ConnectionStatus]>([
+		['disconnected', 'switchingChain'],
+		['disconnected', 'disconnecting'],
+		['switchingChain', 'connecting'],
+		['disconnecting', 'connecting'],
+		['disconnecting', 'switchingChain'],
+		['reconnecting', 'switchingChain'],
+		['error', 'switchingChain']
+	])('rejects %s -> %s', (from, to) => {
+		const machine = new ConnectionStateMachine();
+		const path: Record<ConnectionStatus, ConnectionStatus[]> = {
+			disconnected: [],
+			connecting: ['connecting'],
+			reconnecting: ['reconnecting'],
+			connected: ['connected'],
+			switchingChain: ['connected', 'switchingChain'],
+			disconnecting: ['connected', 'disconnecting'],
+			error: ['connecting', 'error']
+		};
+		path[from].forEach((status) => machine.transition(status));
+
+		expect(canTransition(from, to)).toBe(false);
+		expect(() => machine.transition(to)).toThrow(InvalidStateTransitionError);
+		expect(machine.status).toBe(from);
+	});
+
+	it('reports the statuses of the rejected transition', () => {
+		const machine = new ConnectionStateMachine();
+
+		try {
+			machine.begin('switchingChain');
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toMatchObject({ from: 'disconnected', to: 'switchingChain' });
+		}
+	});
+
+	it('marks operations in progress as busy', () => {
+		const machine = new ConnectionStateMachine();
+
+		machine.begin('connecting');
+		expect(machine.isBusy).toBe(true);
+		machine.transition('connected');
+		expect(machine.isBusy).toBe(false);
+		machine.begin('switchingChain');
+		expect(machine.isBusy).toBe(true);
+	});
+
+	it('invalidates an operation when a newer one begins', () => {
+		const machine = new ConnectionStateMachine();
+
+		const first = machine.begin('connecting');
+		const second = machine.begin('connecting');
+
+		expect(machine.isCurrent(first)).toBe(false);
+		expect(machine.isCurrent(second)).toBe(true);
+		expect(machine.currentOperation).toBe(second);
+	});
+
+	it('drops a result that resolves after the operation was cancelled', async () => {
+		const machine = new ConnectionStateMachine();
+		let resolve: (address: string) => void = () => {};
+		const pending = new Promise<string>((r) => (resolve = r));
+
+		const operation = machine.begin('connecting');
+		const connect = pending.then((address) => {
+			if (!machine.isCurrent(operation)) return undefined;
+			machine.transition('connected');
+			return address;
+		});
+
+		// 取消：操作失效并回到 disconnected，之后连接器才返回结果
+		machine.invalidate();
+		machine.transition('disconnected');
+		resolve('0x1');
+
+		expect(await connect).toBeUndefined();
+		expect(machine.status).toBe('disconnected');
+	});
+});
@@ -0,0 +1,137 @@
+import { InvalidStateTransitionError } from './errors.js';
+
+/**
+ * 连接状态
+ *
+ * - disconnected：没有连接
+ * - connecting：正在连接（connect）
+ * - reconnecting：正在从存储恢复连接（autoConnect）
+ * - connected：已连接
+ * - switchingChain：正在切换网络
+ * - disconnecting：正在断开当前激活的连接
+ * - error：连接失败，且没有其他连接
+ */
+export type ConnectionStatus =
+	| 'disconnected'
+	| 'connecting'
+	| 'reconnecting'
+	| 'connected'
+	| 'switchingChain'
+	| 'disconnecting'
+	| 'error';
+
+/**
+ * 允许的状态转换（保持当前状态总是允许的）
+ */
+export const CONNECTION_TRANSITIONS: Readonly<
+	Record<ConnectionStatus, readonly ConnectionStatus[]>
+> = {
+	disconnected: ['connecting', 'reconnecting', 'connected'],
+	// 新的 connect 会取代正在进行的连接
+	connecting: ['connecting', 'connected', 'disconnected', 'error'],
+	reconnecting: ['connecting', 'connected', 'disconnected', 'error'],
+	// 多连接模式下，已连接时仍然可以连接其他钱包或恢复连接
+	connected: ['connecting', 'reconnecting', 'switchingChain', 'disconnecting', 'disconnected'],
+	switchingChain: ['connected', 'disconnected', 'error'],
+	// 多连接模式下，断开激活连接后可能还有其他连接
+	disconnecting: ['disconnected', 'connected'],
+	error: ['connecting', 'reconnecting', 'connected', 'disconnected']
+};
+
+/**
+ * 进行中的状态，由发起操作的方法负责结束
+ */
+const BUSY_STATUSES: readonly ConnectionStatus[] = [
+	'connecting',
+	'reconnecting',
+	'switchingChain',
+	'disconnecting'
+];
+
+/**
+ * 检查状态转换是否合法
+ */
+export function canTransition(from: ConnectionStatus, to: ConnectionStatus): boolean {
+	return from === to || CONNECTION_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * 连接状态机
+ *
+ * 除了校验状态转换，还为每个异步操作分配一个编号：
+ * 操作完成时如果编号已经不是最新的（被取消或被新的操作取代），结果应该被丢弃
+ *
+ * @example
+ * ```typescript
+ * const operation = machine.begin('connecting');
+ * const result = await connector.connect(chainId);
+ * if (!machine.isCurrent(operation)) return; // 已取消，丢弃结果
+ * machine.transition('connected');
+ * ```
+ */
+export class ConnectionStateMachine {
+	private current: ConnectionStatus = 'disconnected';
+	private operation = 0;
+
+	/**
+	 * 当前状态
+	 */
+	get status(): ConnectionStatus {
+		return this.current;
+	}
+
+	/**
+	 * 是否有进行中的操作（connecting、reconnecting、switchingChain、disconnecting）
+	 */
+	get isBusy(): boolean {
+		return BUSY_STATUSES.includes(this.current);
+	}
+
+	/**
+	 * 最新的操作编号
+	 *
+	 * 不开始新操作，用于异步处理（如跨标签页同步）结束后用 isCurrent 检查期间是否有新的操作开始
+	 */
+	get currentOperation(): number {
+		return this.operation;
+	}
+
+	/**
+	 * 转换到新状态
+	 *
+	 * @throws InvalidStateTransitionError 不允许从当前状态转换时抛出
+	 */
+	transition(to: ConnectionStatus): void {
+		if (!canTransition(this.current, to)) {
+			throw new InvalidStateTransitionError(this.current, to);
+		}
+		this.current = to;
+	}
+
+	/**
+	 * 开始一个异步操作
+	 *
+	 * 转换到新状态，之前进行中的操作随之失效
+	 *
+	 * @returns 操作编号，用于 isCurrent 判断结果是否过期
+	 * @throws InvalidStateTransitionError 不允许从当前状态转换时抛出
+	 */
+	begin(to: ConnectionStatus): number {
+		this.transition(to);
+		return ++this.operation;
+	}
+
+	/**
+	 * 检查操作是否仍然有效（没有被取消或取代）
+	 */
+	isCurrent(operation: number): boolean {
+		return operation === this.operation;
+	}
+
+	/**
+	 * 使进行中的操作失效（取消）
+	 */
+	invalidate(): void {
+		this.operation++;
+	}
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createStorage } from './create-storage.js';
+import { createMemoryStorageAdapter } from './storage-adapters.js';
+import type { StorageSchema } from './migrations.js';
+
+interface Settings {
+	theme: string;
+}
+
+const schema: StorageSchema<Settings> = {
+	version: 2,
+	migrations: {
+		2: (data) => ({ theme: 'light', ...(data as object) })
+	},
+	validate: (data): data is Settings =>
+		typeof data === 'object' && data !== null && typeof (data as Settings).theme === 'string'
+};
+
+function setup(stored: unknown) {
+	const adapter = createMemoryStorageAdapter();
+	void adapter.setItem('settings', typeof stored === 'string' ? stored : JSON.stringify(stored));
+	const storage = createStorage<Settings>('settings', { adapter, schema });
+	return { adapter, storage };
+}
+
+describe('createStorage', () => {
+	it('migrates older payloads and writes them back', async () => {
+		const { adapter, storage } = setup({ version: 1, data: {} });
+
+		expect(await storage.load()).toEqual({ theme: 'light' });
+		expect(JSON.parse((await adapter.getItem('settings'))!)).toEqual({
+			version: 2,
+			data: { theme: 'light' }
+		});
+	});
+
+	it('leaves payloads from a newer version in place', async () => {
+		const stored = { version: 3, data: { theme: 'dark', layout: 'grid' } };
+		const { adapter, storage } = setup(stored);
+
+		expect(await storage.load()).toBeNull();
+		expect(JSON.parse((await adapter.getItem('settings'))!)).toEqual(stored);
+	});
+
+	it('clears payloads that cannot be read', async () => {
+		const { adapter, storage } = setup('{not json');
+
+		expect(await storage.load()).toBeNull();
+		expect(await adapter.getItem('settings')).toBeNull();
+	});
+
+	it('clears payloads that fail validation', async () => {
+		const { adapter, storage } = setup({ version: 2, data: { theme: 1 } });
+
+		expect(await storage.load()).toBeNull();
+		expect(await adapter.getItem('settings')).toBeNull();
+	});
+});
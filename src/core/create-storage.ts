@@ -1,97 +1,256 @@
+import { silentLogger, type Logger } from './logger.js';
+import {
+	UnsupportedSchemaVersionError,
+	migratePayload,
+	toVersionedPayload,
+	type StorageSchema
+} from './migrations.js';
+import type { SyncTransport } from './cross-tab-sync.js';
+import {
+	createLocalStorageAdapter,
+	isPromiseLike,
+	type MaybePromise,
+	type StorageAdapter
+} from './storage-adapters.js';
+
 /**
  * 通用存储接口
  */
 export interface Storage<T> {
-	/** 保存数据 */
-	save(data: T): void;
-	/** 加载数据 */
-	load(): T | null;
-	/** 清除数据 */
-	clear(): void;
+	/** 保存数据，写入失败只记录日志，不会抛出错误 */
+	save(data: T): Promise<void>;
+	/**
+	 * 加载数据
+	 *
+	 * 同步适配器（如 localStorage）直接返回结果，异步适配器（如 IndexedDB）返回 Promise
+	 */
+	load(): MaybePromise<T | null>;
+	/** 清除数据，失败只记录日志，不会抛出错误 */
+	clear(): Promise<void>;
+	/**
+	 * 监听其他标签页对同一数据的修改
+	 *
+	 * 只有配置了 sync 时才会收到通知，数据被清除时回调参数为 null
+	 * @returns 取消监听函数
+	 */
+	watch(listener: (data: T | null) => void): () => void;
+}
+
+/**
+ * createStorage 选项
+ */
+export interface CreateStorageOptions<T = unknown> {
+	/**
+	 * 存储适配器
+	 * @default createLocalStorageAdapter()
+	 */
+	adapter?: StorageAdapter;
+
+	/**
+	 * 键名前缀，用于隔离同一域名下的多个应用
+	 * @default ''
+	 */
+	keyPrefix?: string;
+
+	/**
+	 * 数据结构版本与迁移
+	 *
+	 * 加载时把旧版本数据升级到当前版本，无法解析或校验不通过的数据会被清除；
+	 * 版本高于当前版本的数据会被忽略（返回 null），但不会被清除
+	 * @default { version: 1 }
+	 */
+	schema?: StorageSchema<T>;
+
+	/**
+	 * 跨标签页同步通道（可选）
+	 *
+	 * 设置后写入和清除数据时会通知其他标签页，并可以通过 watch() 监听其他标签页的修改
+	 */
+	sync?: SyncTransport;
+
+	/**
+	 * 日志命名空间
+	 * @default 'Storage'
+	 */
+	logName?: string;
+
+	/**
+	 * 日志（默认静默）
+	 */
+	logger?: Logger;
 }
 
 /**
- * 创建 localStorage 存储实例
+ * 创建持久化存储实例
  *
- * 这是一个通用的存储工厂函数，可以为任何类型创建持久化存储
+ * 这是一个通用的存储工厂函数，可以为任何类型创建持久化存储，
+ * 数据以带版本号的 JSON 字符串（`{ version, data }`）写入存储适配器
  *
- * @param storageKey localStorage 的键名
- * @param logName 日志中显示的名称
+ * @param storageKey 存储键名（会加上 keyPrefix）
+ * @param options 存储选项
  * @returns Storage 实例
  *
  * @example
  * ```typescript
  * // 创建连接存储
- * const connectionStorage = createStorage<PersistedConnection>(
- *   'connectkit.connection',
- *   'ConnectionStorage'
- * );
+ * const connectionStorage = createStorage<PersistedConnection>('connection', {
+ *   logName: 'ConnectionStorage'
+ * });
  *
- * // 创建网络配置存储
- * const networkStorage = createStorage<StoredNetworkConfig>(
- *   'connectkit-network-config',
- *   'NetworkStorage'
- * );
+ * // 创建网络配置存储（IndexedDB，带前缀）
+ * const networkStorage = createStorage<StoredNetworkConfig>('network-config', {
+ *   adapter: createIndexedDBStorageAdapter(),
+ *   keyPrefix: 'my-app:',
+ *   logName: 'NetworkStorage'
+ * });
  * ```
  */
-export function createStorage<T>(storageKey: string, logName = 'Storage'): Storage<T> {
-	return {
-		/**
-		 * 保存数据到 localStorage
-		 */
-		save(data: T): void {
-			// 检查浏览器环境
-			if (typeof localStorage === 'undefined') {
-				return;
-			}
+export function createStorage<T>(
+	storageKey: string,
+	options: CreateStorageOptions<T> = {}
+): Storage<T> {
+	const {
+		adapter = createLocalStorageAdapter(),
+		keyPrefix = '',
+		schema = { version: 1 },
+		sync,
+		logName = 'Storage',
+		logger = silentLogger
+	} = options;
+	const key = `${keyPrefix}${storageKey}`;
+	const log = logger.child(logName);
 
-			try {
-				localStorage.setItem(storageKey, JSON.stringify(data));
-				console.log(`[${logName}] Data persisted`);
-			} catch (error) {
-				console.warn(`[${logName}] Failed to persist data:`, error);
+	/**
+	 * 执行写操作，同步和异步适配器的错误统一记录日志
+	 *
+	 * 写入成功后通知其他标签页
+	 */
+	const write = async (
+		value: string | null,
+		successMessage: string,
+		failureMessage: string
+	): Promise<void> => {
+		try {
+			await (value === null ? adapter.removeItem(key) : adapter.setItem(key, value));
+			log.debug(successMessage);
+			sync?.publish(key, value);
+		} catch (error) {
+			log.warn(failureMessage, error);
+		}
+	};
+
+	/**
+	 * 解析存储的字符串并升级到当前版本
+	 *
+	 * @returns 数据，以及是否经过了版本迁移
+	 * @throws 无法解析或校验不通过时抛出错误
+	 */
+	const decode = (stored: string): { data: T; migrated: boolean } => {
+		const payload = JSON.parse(stored) as unknown;
+		const data = migratePayload(payload, schema);
+		return { data, migrated: (payload as { version?: unknown }).version !== schema.version };
+	};
+
+	/**
+	 * 解析加载的数据
+	 *
+	 * 无法解析的数据直接清除，避免每次加载都失败；
+	 * 更新版本写入的数据保留在存储中，只是当前版本不读取
+	 */
+	const parse = (stored: string | null): T | null => {
+		if (!stored) {
+			return null;
+		}
+
+		try {
+			const { data, migrated } = decode(stored);
+			log.debug('Data loaded');
+
+			// 旧版本数据升级后立即写回
+			if (migrated) {
+				log.info(`Migrated data to schema version ${schema.version}`);
+				void storage.save(data);
 			}
-		},
+			return data;
+		} catch (error) {
+			if (error instanceof UnsupportedSchemaVersionError) {
+				log.warn('Ignoring data written by a newer version:', error.message);
+				return null;
+			}
+			log.warn('Discarding unreadable data:', error);
+			void storage.clear();
+			return null;
+		}
+	};
 
+	const storage: Storage<T> = {
 		/**
-		 * 从 localStorage 加载数据
+		 * 保存数据
 		 */
-		load(): T | null {
-			// 检查浏览器环境
-			if (typeof localStorage === 'undefined') {
-				return null;
-			}
+		save(data: T): Promise<void> {
+			return write(
+				JSON.stringify(toVersionedPayload(data, schema)),
+				'Data persisted',
+				'Failed to persist data:'
+			);
+		},
 
+		/**
+		 * 加载数据
+		 */
+		load(): MaybePromise<T | null> {
 			try {
-				const stored = localStorage.getItem(storageKey);
-				if (!stored) {
-					return null;
+				const stored = adapter.getItem(key);
+				if (!isPromiseLike(stored)) {
+					return parse(stored);
 				}
 
-				const data = JSON.parse(stored) as T;
-				console.log(`[${logName}] Data loaded`);
-				return data;
+				return stored.then(parse, (error: unknown) => {
+					log.warn('Failed to load data:', error);
+					return null;
+				});
 			} catch (error) {
-				console.warn(`[${logName}] Failed to load data:`, error);
+				log.warn('Failed to load data:', error);
 				return null;
 			}
 		},
 
 		/**
-		 * 清除 localStorage 中的数据
+		 * 清除数据
 		 */
-		clear(): void {
-			// 检查浏览器环境
-			if (typeof localStorage === 'undefined') {
-				return;
-			}
+		clear(): Promise<void> {
+			return write(null, 'Data cleared', 'Failed to clear data:');
+		},
 
-			try {
-				localStorage.removeItem(storageKey);
-				console.log(`[${logName}] Data cleared`);
-			} catch (error) {
-				console.warn(`[${logName}] Failed to clear data:`, error);
+		/**
+		 * 监听其他标签页的修改
+		 *
+		 * 其他标签页写入的数据同样经过版本迁移，无法解析时忽略（不会清除，由写入方负责）
+		 */
+		watch(listener: (data: T | null) => void): () => void {
+			if (!sync) {
+				return () => {};
 			}
+
+			return sync.subscribe((changedKey, value) => {
+				if (changedKey !== key) return;
+
+				if (value === null) {
+					log.debug('Data cleared in another tab');
+					listener(null);
+					return;
+				}
+
+				try {
+					const { data } = decode(value);
+					log.debug('Data changed in another tab');
+					listener(data);
+				} catch (error) {
+					log.warn('Ignoring unreadable data from another tab:', error);
+				}
+			});
 		}
 	};
+
+	return storage;
 }
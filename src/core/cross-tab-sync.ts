@@ -0,0 +1,134 @@
+/**
+ * 跨标签页同步
+ *
+ * createStorage 写入数据后通过同步通道通知同一域名下的其他标签页，
+ * 其他标签页的管理器收到通知后更新自己的状态：
+ * - BroadcastChannel：适用于任何存储适配器（推荐）
+ * - storage 事件：只适用于 localStorage，兼容不支持 BroadcastChannel 的旧浏览器
+ *
+ * @example
+ * ```typescript
+ * // 自动选择（优先 BroadcastChannel）
+ * const manager = new WalletConnectionManager(connectors, chains, { crossTabSync: true });
+ *
+ * // 指定同步通道
+ * const manager = new WalletConnectionManager(connectors, chains, {
+ *   crossTabSync: createBroadcastChannelTransport('my-app')
+ * });
+ * ```
+ */
+
+/**
+ * 同步监听函数
+ *
+ * @param key 完整的存储键名（包含前缀）
+ * @param value 新写入的字符串，数据被清除时为 null
+ */
+export type SyncListener = (key: string, value: string | null) => void;
+
+/**
+ * 同步通道接口
+ */
+export interface SyncTransport {
+	/** 通知其他标签页数据已变化 */
+	publish(key: string, value: string | null): void;
+	/** 监听其他标签页的数据变化，返回取消监听函数 */
+	subscribe(listener: SyncListener): () => void;
+}
+
+/**
+ * 同步消息
+ */
+interface SyncMessage {
+	key: string;
+	value: string | null;
+}
+
+const DEFAULT_CHANNEL_NAME = 'ethereum-connectors';
+
+/**
+ * BroadcastChannel 同步通道
+ *
+ * 通道在第一次使用时打开，最后一个监听取消后关闭；
+ * 不支持 BroadcastChannel 的环境中静默忽略
+ *
+ * @param name 通道名称
+ */
+export function createBroadcastChannelTransport(name = DEFAULT_CHANNEL_NAME): SyncTransport {
+	const listeners = new Set<SyncListener>();
+	let channel: BroadcastChannel | undefined;
+
+	const getChannel = (): BroadcastChannel | undefined => {
+		if (typeof BroadcastChannel === 'undefined') return undefined;
+
+		if (!channel) {
+			channel = new BroadcastChannel(name);
+			channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+				const { key, value } = event.data ?? {};
+				if (typeof key !== 'string') return;
+				listeners.forEach((listener) => listener(key, value ?? null));
+			};
+		}
+		return channel;
+	};
+
+	return {
+		publish(key, value) {
+			getChannel()?.postMessage({ key, value } satisfies SyncMessage);
+		},
+		subscribe(listener) {
+			listeners.add(listener);
+			getChannel();
+
+			return () => {
+				listeners.delete(listener);
+				if (listeners.size === 0 && channel) {
+					channel.close();
+					channel = undefined;
+				}
+			};
+		}
+	};
+}
+
+/**
+ * storage 事件同步通道
+ *
+ * 浏览器会在 localStorage 变化时自动通知其他标签页，因此 publish 不需要做任何事。
+ * 只有使用 localStorage 适配器时才会收到通知
+ */
+export function createStorageEventTransport(): SyncTransport {
+	return {
+		publish() {
+			// localStorage 写入会自动触发其他标签页的 storage 事件
+		},
+		subscribe(listener) {
+			if (typeof window === 'undefined') return () => {};
+
+			const handler = (event: StorageEvent) => {
+				if (event.key === null || event.storageArea !== window.localStorage) return;
+				listener(event.key, event.newValue);
+			};
+			window.addEventListener('storage', handler);
+			return () => window.removeEventListener('storage', handler);
+		}
+	};
+}
+
+/**
+ * 解析 crossTabSync 选项
+ *
+ * - true：优先使用 BroadcastChannel，不支持时退回 storage 事件
+ * - false / undefined：不同步
+ * - SyncTransport：使用指定的同步通道
+ */
+export function resolveSyncTransport(
+	option: boolean | SyncTransport | undefined
+): SyncTransport | undefined {
+	if (!option) return undefined;
+	if (option !== true) return option;
+
+	return typeof BroadcastChannel !== 'undefined'
+		? createBroadcastChannelTransport()
+		: createStorageEventTransport();
+}
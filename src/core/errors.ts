@@ -0,0 +1,292 @@
+/**
+ * 连接器错误
+ *
+ * 统一的错误类型，UI 可以通过 instanceof 或 code 判断错误类型并自行本地化提示文案：
+ * - EIP-1193 标准错误使用规范中的数字错误码（4001、4100、4200、4900、4901、4902）
+ * - 非标准错误使用字符串错误码
+ *
+ * @see https://eips.ethereum.org/EIPS/eip-1193#provider-errors
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await manager.switchChain(137);
+ * } catch (error) {
+ *   if (error instanceof UserRejectedError) return;
+ *   if (error instanceof UnrecognizedChainError) showToast(t('chainNotInWallet'));
+ * }
+ * ```
+ */
+
+/**
+ * 错误码
+ */
+export const ConnectorErrorCode = {
+	UserRejected: 4001,
+	Unauthorized: 4100,
+	UnsupportedMethod: 4200,
+	Disconnected: 4900,
+	ChainDisconnected: 4901,
+	UnrecognizedChain: 4902,
+	ChainNotConfigured: 'CHAIN_NOT_CONFIGURED',
+	ProviderNotFound: 'PROVIDER_NOT_FOUND',
+	NoAccounts: 'NO_ACCOUNTS',
+	InvalidStateTransition: 'INVALID_STATE_TRANSITION',
+	Aborted: 'ABORTED',
+	Timeout: 'TIMEOUT',
+	Unknown: 'UNKNOWN'
+} as const;
+
+/**
+ * 错误码类型
+ *
+ * 除预定义错误码外，也会保留钱包返回的其他 JSON-RPC 错误码（如 -32603）
+ */
+export type ConnectorErrorCodeValue =
+	| Extract<(typeof ConnectorErrorCode)[keyof typeof ConnectorErrorCode], string>
+	| number;
+
+/**
+ * 错误选项
+ */
+export interface ConnectorErrorOptions {
+	/** 原始错误 */
+	cause?: unknown;
+	/** 产生错误的连接器 ID */
+	connectorId?: string;
+}
+
+/**
+ * 连接器错误基类
+ */
+export class ConnectorError extends Error {
+	readonly code: ConnectorErrorCodeValue;
+	connectorId: string | undefined;
+
+	constructor(message: string, code: ConnectorErrorCodeValue, options: ConnectorErrorOptions = {}) {
+		super(message, { cause: options.cause });
+		this.name = 'ConnectorError';
+		this.code = code;
+		this.connectorId = options.connectorId;
+	}
+}
+
+/**
+ * 用户拒绝了请求 (4001)
+ */
+export class UserRejectedError extends ConnectorError {
+	constructor(message = 'User rejected the request', options: ConnectorErrorOptions = {}) {
+		super(message, ConnectorErrorCode.UserRejected, options);
+		this.name = 'UserRejectedError';
+	}
+}
+
+/**
+ * 账户或方法未授权 (4100)
+ */
+export class UnauthorizedError extends ConnectorError {
+	constructor(message = 'Account not authorized', options: ConnectorErrorOptions = {}) {
+		super(message, ConnectorErrorCode.Unauthorized, options);
+		this.name = 'UnauthorizedError';
+	}
+}
+
+/**
+ * 钱包不支持该方法 (4200)
+ */
+export class UnsupportedMethodError extends ConnectorError {
+	constructor(message = 'Method not supported', options: ConnectorErrorOptions = {}) {
+		super(message, ConnectorErrorCode.UnsupportedMethod, options);
+		this.name = 'UnsupportedMethodError';
+	}
+}
+
+/**
+ * 钱包未连接 (4900)
+ */
+export class DisconnectedError extends ConnectorError {
+	constructor(message = 'Wallet is disconnected', options: ConnectorErrorOptions = {}) {
+		super(message, ConnectorErrorCode.Disconnected, options);
+		this.name = 'DisconnectedError';
+	}
+}
+
+/**
+ * 钱包未连接到请求的链 (4901)
+ */
+export class ChainDisconnectedError extends ConnectorError {
+	readonly chainId: number | undefined;
+
+	constructor(
+		chainId?: number,
+		message = 'Wallet is not connected to the requested chain',
+		options: ConnectorErrorOptions = {}
+	) {
+		super(message, ConnectorErrorCode.ChainDisconnected, options);
+		this.name = 'ChainDisconnectedError';
+		this.chainId = chainId;
+	}
+}
+
+/**
+ * 钱包或连接器不识别该链 (4902)
+ */
+export class UnrecognizedChainError extends ConnectorError {
+	readonly chainId: number | undefined;
+
+	constructor(chainId?: number, message?: string, options: ConnectorErrorOptions = {}) {
+		super(
+			message ?? `Chain [${chainId ?? 'unknown'}] is not recognized by the wallet`,
+			ConnectorErrorCode.UnrecognizedChain,
+			options
+		);
+		this.name = 'UnrecognizedChainError';
+		this.chainId = chainId;
+	}
+}
+
+/**
+ * dApp 没有配置该链
+ */
+export class ChainNotConfiguredError extends ConnectorError {
+	readonly chainId: number;
+
+	constructor(chainId: number, options: ConnectorErrorOptions = {}) {
+		super(
+			`Chain [${chainId}] is not supported by this dApp`,
+			ConnectorErrorCode.ChainNotConfigured,
+			options
+		);
+		this.name = 'ChainNotConfiguredError';
+		this.chainId = chainId;
+	}
+}
+
+/**
+ * 找不到钱包 Provider（未安装或未初始化）
+ */
+export class ProviderNotFoundError extends ConnectorError {
+	constructor(message = 'Provider not found', options: ConnectorErrorOptions = {}) {
+		super(message, ConnectorErrorCode.ProviderNotFound, options);
+		this.name = 'ProviderNotFoundError';
+	}
+}
+
+/**
+ * 钱包没有可用账户
+ */
+export class NoAccountsError extends ConnectorError {
+	constructor(message = 'No accounts found', options: ConnectorErrorOptions = {}) {
+		super(message, ConnectorErrorCode.NoAccounts, options);
+		this.name = 'NoAccountsError';
+	}
+}
+
+/**
+ * 当前连接状态下不允许该操作（如正在切换网络时连接另一个钱包）
+ */
+export class InvalidStateTransitionError extends ConnectorError {
+	readonly from: string;
+	readonly to: string;
+
+	constructor(from: string, to: string, options: ConnectorErrorOptions = {}) {
+		super(
+			`Cannot change connection status from [${from}] to [${to}]`,
+			ConnectorErrorCode.InvalidStateTransition,
+			options
+		);
+		this.name = 'InvalidStateTransitionError';
+		this.from = from;
+		this.to = to;
+	}
+}
+
+/**
+ * 操作被 AbortSignal 取消
+ *
+ * cause 为 signal.reason
+ */
+export class AbortedError extends ConnectorError {
+	constructor(message = 'Operation was aborted', options: ConnectorErrorOptions = {}) {
+		super(message, ConnectorErrorCode.Aborted, options);
+		this.name = 'AbortedError';
+	}
+}
+
+/**
+ * 钱包在超时时间内没有响应
+ */
+export class TimeoutError extends ConnectorError {
+	/** 超时的操作，如 'connect'、'switchChain' */
+	readonly operation: string;
+	/** 超时时间（毫秒） */
+	readonly timeout: number;
+
+	constructor(operation: string, timeout: number, options: ConnectorErrorOptions = {}) {
+		super(
+			`Operation [${operation}] timed out after ${timeout}ms`,
+			ConnectorErrorCode.Timeout,
+			options
+		);
+		this.name = 'TimeoutError';
+		this.operation = operation;
+		this.timeout = timeout;
+	}
+}
+
+/**
+ * 将钱包返回的任意错误转换为 ConnectorError
+ *
+ * - 已经是 ConnectorError 时原样返回（补充缺失的 connectorId）
+ * - AbortError（AbortSignal 取消）映射为 AbortedError
+ * - 按 EIP-1193 错误码映射到对应的子类
+ * - 其他错误保留原始错误码（没有则为 UNKNOWN），原始错误作为 cause
+ */
+export function toConnectorError(error: unknown, connectorId?: string): ConnectorError {
+	if (error instanceof ConnectorError) {
+		error.connectorId ??= connectorId;
+		return error;
+	}
+
+	const { code, message, name } = (error ?? {}) as {
+		code?: unknown;
+		message?: unknown;
+		name?: unknown;
+	};
+	const text = typeof message === 'string' && message ? message : undefined;
+	const options: ConnectorErrorOptions = { cause: error, connectorId };
+
+	// AbortSignal 的默认 reason（DOMException）
+	if (name === 'AbortError') {
+		return new AbortedError(text, options);
+	}
+
+	switch (code) {
+		case ConnectorErrorCode.UserRejected:
+			return new UserRejectedError(text, options);
+		case ConnectorErrorCode.Unauthorized:
+			return new UnauthorizedError(text, options);
+		case ConnectorErrorCode.UnsupportedMethod:
+			return new UnsupportedMethodError(text, options);
+		case ConnectorErrorCode.Disconnected:
+			return new DisconnectedError(text, options);
+		case ConnectorErrorCode.ChainDisconnected:
+			return new ChainDisconnectedError(undefined, text, options);
+		case ConnectorErrorCode.UnrecognizedChain:
+			return new UnrecognizedChainError(undefined, text, options);
+	}
+
+	// 部分钱包不返回错误码，只能根据错误信息判断
+	if (text && /user (rejected|denied|cancel)/i.test(text)) {
+		return new UserRejectedError(text, options);
+	}
+	if (text && /unrecognized chain/i.test(text)) {
+		return new UnrecognizedChainError(undefined, text, options);
+	}
+
+	return new ConnectorError(
+		text ?? (typeof error === 'string' ? error : 'Unknown connector error'),
+		typeof code === 'number' ? code : ConnectorErrorCode.Unknown,
+		options
+	);
+}
@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EventEmitter, type EventArgs } from './event-emitter.js';
+import { AbortedError, TimeoutError } from './errors.js';
+
+interface TestEvents {
+	value: (value: number, previous: number) => void;
+	done: () => void;
+}
+
+class TestEmitter extends EventEmitter<TestEvents> {
+	readonly listenerErrors: unknown[] = [];
+
+	trigger<K extends keyof TestEvents>(event: K, ...args: EventArgs<TestEvents, K>): void {
+		this.emit(event, ...args);
+	}
+
+	protected onListenerError(error: unknown): void {
+		this.listenerErrors.push(error);
+	}
+}
+
+describe('EventEmitter', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('calls once listeners a single time, even when emitting from the listener', () => {
+		const emitter = new TestEmitter();
+		const listener = vi.fn(() => emitter.trigger('value', 2, 1));
+		emitter.once('value', listener);
+
+		emitter.trigger('value', 1, 0);
+		emitter.trigger('value', 3, 2);
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(listener).toHaveBeenCalledWith(1, 0);
+		expect(emitter.listenerCount('value')).toBe(0);
+	});
+
+	it('keeps the current emit unaffected by listeners added or removed during it', () => {
+		const emitter = new TestEmitter();
+		const second = vi.fn();
+		const added = vi.fn();
+		emitter.on('value', () => {
+			emitter.off('value', second);
+			emitter.on('value', added);
+		});
+		emitter.on('value', second);
+
+		emitter.trigger('value', 1, 0);
+		expect(second).toHaveBeenCalledTimes(1);
+		expect(added).not.toHaveBeenCalled();
+
+		emitter.trigger('value', 2, 1);
+		expect(second).toHaveBeenCalledTimes(1);
+		expect(added).toHaveBeenCalledWith(2, 1);
+	});
+
+	it('reports a throwing listener without skipping the others', () => {
+		const emitter = new TestEmitter();
+		const error = new Error('listener failed');
+		const next = vi.fn();
+		emitter.on('done', () => {
+			throw error;
+		});
+		emitter.on('done', next);
+
+		emitter.trigger('done');
+
+		expect(next).toHaveBeenCalledTimes(1);
+		expect(emitter.listenerErrors).toEqual([error]);
+	});
+
+	it('logs listener errors to the console by default instead of throwing', () => {
+		const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const emitter = new (class extends EventEmitter<TestEvents> {
+			trigger() {
+				this.emit('done');
+			}
+		})();
+		const error = new Error('listener failed');
+		emitter.on('done', () => {
+			throw error;
+		});
+
+		expect(() => emitter.trigger()).not.toThrow();
+		expect(consoleError).toHaveBeenCalledWith('Listener for "done" threw:', error);
+	});
+
+	describe('waitFor', () => {
+		it('resolves with the first event that passes the filter', async () => {
+			const emitter = new TestEmitter();
+			const pending = emitter.waitFor('value', { filter: (value) => value > 1 });
+
+			emitter.trigger('value', 1, 0);
+			emitter.trigger('value', 2, 1);
+
+			await expect(pending).resolves.toEqual([2, 1]);
+			expect(emitter.listenerCount('value')).toBe(0);
+		});
+
+		it('rejects with TimeoutError after the timeout', async () => {
+			const emitter = new TestEmitter();
+
+			await expect(emitter.waitFor('done', { timeout: 10 })).rejects.toBeInstanceOf(TimeoutError);
+			expect(emitter.listenerCount('done')).toBe(0);
+		});
+
+		it('rejects with AbortedError when the signal is aborted', async () => {
+			const emitter = new TestEmitter();
+			const controller = new AbortController();
+
+			const pending = emitter.waitFor('done', { signal: controller.signal });
+			controller.abort();
+
+			await expect(pending).rejects.toBeInstanceOf(AbortedError);
+			await expect(emitter.waitFor('done', { signal: controller.signal })).rejects.toBeInstanceOf(
+				AbortedError
+			);
+			expect(emitter.listenerCount('done')).toBe(0);
+		});
+	});
+
+	describe('events', () => {
+		it('queues events until they are consumed', async () => {
+			const emitter = new TestEmitter();
+			const iterator = emitter.events('value');
+
+			emitter.trigger('value', 1, 0);
+			emitter.trigger('value', 2, 1);
+
+			await expect(iterator.next()).resolves.toEqual({ value: [1, 0], done: false });
+			await expect(iterator.next()).resolves.toEqual({ value: [2, 1], done: false });
+			await iterator.return?.();
+		});
+
+		it('stops listening when the loop exits', async () => {
+			const emitter = new TestEmitter();
+			const received: number[] = [];
+
+			const loop = (async () => {
+				for await (const [value] of emitter.events('value')) {
+					received.push(value);
+					if (value === 2) break;
+				}
+			})();
+			emitter.trigger('value', 1, 0);
+			emitter.trigger('value', 2, 1);
+			await loop;
+
+			expect(received).toEqual([1, 2]);
+			expect(emitter.listenerCount('value')).toBe(0);
+		});
+
+		it('ends pending iterations when the signal is aborted', async () => {
+			const emitter = new TestEmitter();
+			const controller = new AbortController();
+			const iterator = emitter.events('done', { signal: controller.signal });
+
+			const next = iterator.next();
+			controller.abort();
+
+			await expect(next).resolves.toEqual({ value: undefined, done: true });
+			expect(emitter.listenerCount('done')).toBe(0);
+		});
+	});
+});
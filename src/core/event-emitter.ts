@@ -0,0 +1,269 @@
+import { AbortedError, TimeoutError } from './errors.js';
+import { createAbortedError } from './abort.js';
+
+/**
+ * 类型化事件发射器
+ *
+ * 连接器（BaseConnector）和管理器（NetworkManager、WalletConnectionManager）的事件基类。
+ * 事件定义为 `{ 事件名: 监听函数 }` 的接口，如 ConnectorEvents、NetworkManagerEvents
+ *
+ * - 一个监听器抛出错误不影响其他监听器（见 onListenerError）
+ * - once 只触发一次，waitFor 以 Promise 等待下一次事件
+ * - events 以异步迭代的方式消费事件
+ *
+ * @example
+ * ```typescript
+ * const [address] = await manager.waitFor('accountChanged', { timeout: 30_000 });
+ *
+ * for await (const [chainId] of manager.events('chainChanged', { signal })) {
+ *   console.log('Chain:', chainId);
+ * }
+ * ```
+ */
+
+/**
+ * 事件的监听函数类型（可选事件去掉 undefined）
+ */
+export type EventHandler<Events, K extends keyof Events> = Exclude<Events[K], undefined>;
+
+/**
+ * 事件的参数类型
+ */
+export type EventArgs<Events, K extends keyof Events> =
+	EventHandler<Events, K> extends (...args: infer P) => void ? P : never;
+
+/**
+ * waitFor 选项
+ */
+export interface WaitForOptions<Args extends unknown[]> {
+	/** 超时时间（毫秒），超时后以 TimeoutError 拒绝 */
+	timeout?: number;
+	/** 取消等待，取消后以 AbortedError 拒绝 */
+	signal?: AbortSignal;
+	/** 只等待满足条件的事件 */
+	filter?: (...args: Args) => boolean;
+}
+
+/**
+ * events 选项
+ */
+export interface EventIteratorOptions {
+	/** 取消后迭代结束（不抛出错误） */
+	signal?: AbortSignal;
+}
+
+type AnyListener = (...args: unknown[]) => void;
+
+export class EventEmitter<Events extends object> {
+	// 监听器 -> 是否只触发一次，Map 保持注册顺序
+	private eventListeners = new Map<keyof Events, Map<AnyListener, boolean>>();
+
+	/**
+	 * 监听事件
+	 *
+	 * @returns 取消监听函数
+	 */
+	on<K extends keyof Events>(event: K, listener: EventHandler<Events, K>): () => void {
+		return this.addListener(event, listener as AnyListener, false);
+	}
+
+	/**
+	 * 监听事件，只触发一次
+	 *
+	 * @returns 取消监听函数
+	 */
+	once<K extends keyof Events>(event: K, listener: EventHandler<Events, K>): () => void {
+		return this.addListener(event, listener as AnyListener, true);
+	}
+
+	/**
+	 * 取消监听
+	 */
+	off<K extends keyof Events>(event: K, listener: EventHandler<Events, K>): void {
+		const listeners = this.eventListeners.get(event);
+		if (listeners) {
+			listeners.delete(listener as AnyListener);
+			if (listeners.size === 0) {
+				this.eventListeners.delete(event);
+			}
+		}
+	}
+
+	/**
+	 * 移除指定事件的所有监听器，不传事件时移除全部
+	 */
+	removeAllListeners(event?: keyof Events): void {
+		if (event === undefined) {
+			this.eventListeners.clear();
+		} else {
+			this.eventListeners.delete(event);
+		}
+	}
+
+	/**
+	 * 获取指定事件的监听器数量
+	 */
+	listenerCount(event: keyof Events): number {
+		return this.eventListeners.get(event)?.size ?? 0;
+	}
+
+	/**
+	 * 等待下一次事件
+	 *
+	 * @returns 事件参数
+	 * @throws TimeoutError 超时时抛出
+	 * @throws AbortedError signal 被取消时抛出
+	 */
+	waitFor<K extends keyof Events>(
+		event: K,
+		options: WaitForOptions<EventArgs<Events, K>> = {}
+	): Promise<EventArgs<Events, K>> {
+		const { timeout, signal, filter } = options;
+		if (signal?.aborted) {
+			return Promise.reject(createAbortedError(signal));
+		}
+
+		return new Promise((resolve, reject) => {
+			let timer: ReturnType<typeof setTimeout> | undefined;
+
+			const cleanup = () => {
+				clearTimeout(timer);
+				signal?.removeEventListener('abort', onAbort);
+				this.off(event, listener as EventHandler<Events, K>);
+			};
+			const listener = (...args: unknown[]) => {
+				const eventArgs = args as EventArgs<Events, K>;
+				if (filter && !filter(...eventArgs)) return;
+				cleanup();
+				resolve(eventArgs);
+			};
+			const onAbort = () => {
+				cleanup();
+				reject(signal ? createAbortedError(signal) : new AbortedError());
+			};
+
+			this.on(event, listener as EventHandler<Events, K>);
+			signal?.addEventListener('abort', onAbort, { once: true });
+			if (timeout !== undefined && timeout > 0) {
+				timer = setTimeout(() => {
+					cleanup();
+					reject(new TimeoutError(`waitFor(${String(event)})`, timeout));
+				}, timeout);
+			}
+		});
+	}
+
+	/**
+	 * 以异步迭代的方式消费事件
+	 *
+	 * 开始迭代前就开始监听，迭代慢于事件时事件会排队；
+	 * 跳出循环（break、return）或 signal 被取消时停止监听
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const [address, previous] of manager.events('accountChanged')) {
+	 *   if (!address) break;
+	 * }
+	 * ```
+	 */
+	events<K extends keyof Events>(
+		event: K,
+		options: EventIteratorOptions = {}
+	): AsyncIterableIterator<EventArgs<Events, K>> {
+		const { signal } = options;
+		const queue: EventArgs<Events, K>[] = [];
+		const waiting: ((result: IteratorResult<EventArgs<Events, K>>) => void)[] = [];
+		let done = false;
+
+		const finish = () => {
+			if (done) return;
+			done = true;
+			unsubscribe();
+			signal?.removeEventListener('abort', finish);
+			waiting.splice(0).forEach((resolve) => resolve({ value: undefined, done: true }));
+		};
+		const unsubscribe = this.on(event, ((...args: unknown[]) => {
+			const eventArgs = args as EventArgs<Events, K>;
+			const resolve = waiting.shift();
+			if (resolve) {
+				resolve({ value: eventArgs, done: false });
+			} else {
+				queue.push(eventArgs);
+			}
+		}) as EventHandler<Events, K>);
+
+		if (signal?.aborted) {
+			finish();
+		} else {
+			signal?.addEventListener('abort', finish, { once: true });
+		}
+
+		return {
+			next: () => {
+				if (queue.length > 0) {
+					return Promise.resolve({ value: queue.shift()!, done: false });
+				}
+				if (done) {
+					return Promise.resolve({ value: undefined, done: true });
+				}
+				return new Promise((resolve) => waiting.push(resolve));
+			},
+			return: () => {
+				finish();
+				queue.length = 0;
+				return Promise.resolve({ value: undefined, done: true });
+			},
+			[Symbol.asyncIterator]() {
+				return this;
+			}
+		};
+	}
+
+	/**
+	 * 触发事件
+	 *
+	 * 每个监听器的错误单独处理，不影响其他监听器
+	 */
+	protected emit<K extends keyof Events>(event: K, ...args: EventArgs<Events, K>): void {
+		const listeners = this.eventListeners.get(event);
+		if (!listeners) return;
+
+		// 复制一份，监听器中增删监听器不影响本次触发
+		Array.from(listeners).forEach(([listener, once]) => {
+			if (once) {
+				listeners.delete(listener);
+			}
+			try {
+				listener(...args);
+			} catch (error) {
+				this.onListenerError(error, event);
+			}
+		});
+		if (listeners.size === 0 && this.eventListeners.get(event) === listeners) {
+			this.eventListeners.delete(event);
+		}
+	}
+
+	/**
+	 * 监听器抛出错误时调用
+	 *
+	 * 默认输出到 console，不再抛出（异步抛出会让 Node / React Native 进程退出）；
+	 * 连接器和管理器覆盖此方法写入自己的 logger
+	 */
+	protected onListenerError(error: unknown, event: keyof Events): void {
+		console.error(`Listener for "${String(event)}" threw:`, error);
+	}
+
+	/**
+	 * 添加监听器
+	 */
+	private addListener(event: keyof Events, listener: AnyListener, once: boolean): () => void {
+		let listeners = this.eventListeners.get(event);
+		if (!listeners) {
+			listeners = new Map();
+			this.eventListeners.set(event, listeners);
+		}
+		listeners.set(listener, once);
+		return () => this.off(event, listener as EventHandler<Events, typeof event>);
+	}
+}
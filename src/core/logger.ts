@@ -0,0 +1,159 @@
+/**
+ * 日志
+ *
+ * 连接器和管理器不直接写 console，而是通过注入的 Logger 输出诊断信息：
+ * - 默认使用 silentLogger，生产环境不会有任何输出
+ * - 通过 createLogger() 按级别、命名空间过滤后输出到控制台或自定义 sink（如埋点上报）
+ * - 也可以传入任何实现了 Logger 接口的对象
+ *
+ * @example
+ * ```typescript
+ * // 开发环境输出到控制台
+ * const logger = createLogger({ level: 'debug' });
+ *
+ * // 只关心 WalletConnect 和管理器的警告，并上报到监控
+ * const logger = createLogger({
+ *   level: 'warn',
+ *   namespaces: ['WalletConnect', 'Manager*'],
+ *   sink: (entry) => telemetry.track('connector_log', entry)
+ * });
+ *
+ * const manager = new WalletConnectionManager(connectors, chains, { logger });
+ * ```
+ */
+
+/**
+ * 日志级别
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * 日志记录
+ */
+export interface LogEntry {
+	level: Exclude<LogLevel, 'silent'>;
+	/** 命名空间，如 'Manager'、'WalletConnect'、'Manager:Storage' */
+	namespace: string;
+	message: string;
+	args: unknown[];
+	timestamp: number;
+}
+
+/**
+ * 日志输出目标
+ */
+export type LogSink = (entry: LogEntry) => void;
+
+/**
+ * Logger 接口
+ */
+export interface Logger {
+	debug(message: string, ...args: unknown[]): void;
+	info(message: string, ...args: unknown[]): void;
+	warn(message: string, ...args: unknown[]): void;
+	error(message: string, ...args: unknown[]): void;
+	/**
+	 * 创建子命名空间的 Logger
+	 *
+	 * 子命名空间会拼接在父命名空间之后，如 'Manager' => 'Manager:Storage'
+	 */
+	child(namespace: string): Logger;
+}
+
+/**
+ * createLogger 选项
+ */
+export interface LoggerOptions {
+	/**
+	 * 最低输出级别
+	 * @default 'info'
+	 */
+	level?: LogLevel;
+
+	/**
+	 * 根命名空间
+	 */
+	namespace?: string;
+
+	/**
+	 * 只输出匹配的命名空间，支持末尾通配符（如 'Manager*'）
+	 *
+	 * 不设置时输出所有命名空间
+	 */
+	namespaces?: string[];
+
+	/**
+	 * 输出目标
+	 * @default 输出到 console
+	 */
+	sink?: LogSink;
+}
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+	debug: 0,
+	info: 1,
+	warn: 2,
+	error: 3,
+	silent: 4
+};
+
+/**
+ * 默认输出目标：console，消息前加上 `[namespace]` 前缀
+ */
+export const consoleSink: LogSink = ({ level, namespace, message, args }) => {
+	const text = namespace ? `[${namespace}] ${message}` : message;
+	console[level](text, ...args);
+};
+
+/**
+ * 检查命名空间是否匹配过滤规则
+ */
+function matchNamespace(namespace: string, patterns: string[]): boolean {
+	return patterns.some((pattern) =>
+		pattern.endsWith('*') ? namespace.startsWith(pattern.slice(0, -1)) : namespace === pattern
+	);
+}
+
+/**
+ * 创建 Logger
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+	const { level = 'info', namespace = '', namespaces, sink = consoleSink } = options;
+	const minPriority = LEVEL_PRIORITY[level];
+	const enabled = !namespaces || matchNamespace(namespace, namespaces);
+
+	const log =
+		(entryLevel: LogEntry['level']) =>
+		(message: string, ...args: unknown[]): void => {
+			if (!enabled || LEVEL_PRIORITY[entryLevel] < minPriority) return;
+
+			try {
+				sink({ level: entryLevel, namespace, message, args, timestamp: Date.now() });
+			} catch {
+				// 日志输出失败不能影响业务逻辑
+			}
+		};
+
+	return {
+		debug: log('debug'),
+		info: log('info'),
+		warn: log('warn'),
+		error: log('error'),
+		child: (child) =>
+			createLogger({
+				...options,
+				namespace: namespace ? `${namespace}:${child}` : child
+			})
+	};
+}
+
+/**
+ * 静默 Logger（默认）
+ */
+export const silentLogger: Logger = {
+	debug: () => {},
+	info: () => {},
+	warn: () => {},
+	error: () => {},
+	child: () => silentLogger
+};
@@ -1,8 +1,11 @@
 import type { NetworkConfig } from '../types/network.js';
 import type { Connector } from '../types/connector.js';
+import type { IntegratedManagerOptions } from '../types/manager.js';
+import { silentLogger, type Logger } from '../logger.js';
 import { NetworkManager } from './network-manager.js';
 import { WalletConnectionManager } from './wallet-connection-manager.js';
-import type { Chain } from 'viem';
+import type { Chain, PublicClient } from 'viem';
+import { networkConfigToChain } from '../../utils/chains.js';
 
 /**
  * 集成管理器
@@ -16,28 +19,38 @@ export class IntegratedManager {
 	private networkManager: NetworkManager;
 	private walletManager: WalletConnectionManager;
 	private namespace: string;
+	private logger: Logger;
 
-	constructor(connectors: Connector[], builtInNetworks: NetworkConfig[], namespace = 'default') {
+	/**
+	 * 配置加载完成
+	 *
+	 * 使用异步存储时，应该先 await manager.ready 再调用 autoConnect
+	 */
+	readonly ready: Promise<void>;
+
+	constructor(
+		connectors: Connector[],
+		builtInNetworks: NetworkConfig[],
+		namespace = 'default',
+		options: IntegratedManagerOptions = {}
+	) {
 		this.namespace = namespace;
+		this.logger = (options.logger ?? silentLogger).child('IntegratedManager');
 
 		// 创建网络管理器
-		this.networkManager = new NetworkManager(builtInNetworks);
+		this.networkManager = new NetworkManager(builtInNetworks, options);
 
 		// 初始化命名空间
-		const enabledNetworks = this.networkManager.getEnabledNetworks(namespace);
-		if (enabledNetworks.length === 0) {
-			// 如果命名空间不存在，使用所有内置网络
-			this.networkManager.initializeNamespace(
-				namespace,
-				builtInNetworks.map((n) => n.chainId)
-			);
-		}
+		this.ensureNamespace(builtInNetworks);
 
 		// 将 NetworkConfig 转换为 viem Chain
 		const chains = this.networkConfigsToChains(this.networkManager.getEnabledNetworks(namespace));
 
-		// 创建钱包管理器
-		this.walletManager = new WalletConnectionManager(connectors, chains);
+		// 创建钱包管理器（连接按命名空间持久化，不同命名空间的管理器互不覆盖）
+		this.walletManager = new WalletConnectionManager(connectors, chains, {
+			...options,
+			namespace
+		});
 
 		// 确保所有连接器的 chains 与当前启用的网络同步
 		// 这很重要：传入的 connectors 可能使用了不同的 chains 列表
@@ -46,6 +59,40 @@ export class IntegratedManager {
 		// 设置事件监听
 		this.setupNetworkManagerListeners();
 		this.setupWalletManagerListeners();
+
+		// 异步存储加载完成、其他标签页修改配置或导入配置后，重新初始化命名空间并同步连接器的链列表
+		const handleConfigReplaced = () => {
+			this.logger.debug('Network config replaced from storage');
+			this.ensureNamespace(builtInNetworks);
+			this.updateWalletManagerChains();
+		};
+		this.networkManager.on('configLoaded', handleConfigReplaced);
+		this.networkManager.on('configSynced', handleConfigReplaced);
+		this.networkManager.on('configImported', handleConfigReplaced);
+
+		// 当前命名空间被删除或重命名后，使用内置网络重新创建
+		this.networkManager.on('namespaceDeleted', (namespace) => {
+			if (namespace === this.namespace) handleConfigReplaced();
+		});
+		this.networkManager.on('namespaceRenamed', (from) => {
+			if (from === this.namespace) handleConfigReplaced();
+		});
+		this.ready = this.networkManager.ready;
+	}
+
+	/**
+	 * 初始化命名空间
+	 *
+	 * 如果命名空间不存在，使用所有内置网络
+	 */
+	private ensureNamespace(builtInNetworks: NetworkConfig[]): void {
+		const enabledNetworks = this.networkManager.getEnabledNetworks(this.namespace);
+		if (enabledNetworks.length === 0) {
+			this.networkManager.initializeNamespace(
+				this.namespace,
+				builtInNetworks.map((n) => n.chainId)
+			);
+		}
 	}
 
 	/**
@@ -54,7 +101,7 @@ export class IntegratedManager {
 	private setupNetworkManagerListeners(): void {
 		// 网络被添加（不自动启用，需要用户手动启用）
 		this.networkManager.on('networkAdded', (network) => {
-			console.log('[IntegratedManager] Network added:', network.name);
+			this.logger.debug('Network added:', network.name);
 			// 只是添加到可用网络池，不自动启用
 			// 用户需要手动启用后才会同步到 WalletConnectionManager
 		});
@@ -62,31 +109,28 @@ export class IntegratedManager {
 		// 网络被删除（注意：只能删除自定义网络）
 		// NetworkManager 已经处理了从命名空间中移除和切换当前网络的逻辑
 		this.networkManager.on('networkRemoved', (chainId) => {
-			console.log('[IntegratedManager] Network removed:', chainId);
+			this.logger.debug('Network removed:', chainId);
 
 			const state = this.walletManager.getState();
 
 			// 如果删除的是当前连接的网络
 			if (state.isConnected && state.chainId === chainId) {
-				console.warn('[IntegratedManager] Current connected network was removed');
+				this.logger.warn('Current connected network was removed');
 
 				// NetworkManager 已经更新了 currentChainId，获取新的当前网络
 				const newCurrentChainId = this.networkManager.getCurrentChainId(this.namespace);
 
 				if (newCurrentChainId) {
 					// 切换到 NetworkManager 选择的新网络
-					console.log(
-						'[IntegratedManager] Switching wallet to new current network:',
-						newCurrentChainId
-					);
+					this.logger.debug('Switching wallet to new current network:', newCurrentChainId);
 					void this.walletManager.switchChain(newCurrentChainId).catch((error) => {
-						console.error('[IntegratedManager] Failed to switch after network removal:', error);
+						this.logger.error('Failed to switch after network removal:', error);
 						// 如果切换失败，断开连接
 						void this.walletManager.disconnect();
 					});
 				} else {
 					// 没有可用网络，断开连接
-					console.warn('[IntegratedManager] No enabled networks left, disconnecting...');
+					this.logger.warn('No enabled networks left, disconnecting...');
 					void this.walletManager.disconnect();
 				}
 			}
@@ -97,11 +141,11 @@ export class IntegratedManager {
 
 		// 网络被更新（RPC 变化、区块浏览器变化等）
 		this.networkManager.on('networkUpdated', (network) => {
-			console.log('[IntegratedManager] Network updated:', network.name);
+			this.logger.debug('Network updated:', network.name);
 
 			// 只有启用的网络才需要同步到 WalletManager
 			if (!this.networkManager.isNetworkEnabled(this.namespace, network.chainId)) {
-				console.log('[IntegratedManager] Updated network is not enabled, skipping sync');
+				this.logger.debug('Updated network is not enabled, skipping sync');
 				return;
 			}
 
@@ -112,7 +156,7 @@ export class IntegratedManager {
 
 			// 如果更新的是当前连接的网络，打印提示
 			if (state.isConnected && state.chainId === network.chainId) {
-				console.log('[IntegratedManager] Current connected network RPC was updated');
+				this.logger.debug('Current connected network RPC was updated');
 				// 注意：某些钱包可能需要重新连接才能使用新的 RPC
 				// 但大多数钱包会自动使用更新后的配置
 			}
@@ -122,18 +166,18 @@ export class IntegratedManager {
 		this.networkManager.on('networkToggled', (namespace, chainId, enabled) => {
 			if (namespace !== this.namespace) return;
 
-			console.log('[IntegratedManager] Network toggled:', chainId, enabled);
+			this.logger.debug('Network toggled:', chainId, enabled);
 
 			const state = this.walletManager.getState();
 
 			// 如果禁用的是当前网络
 			if (!enabled && state.isConnected && state.chainId === chainId) {
-				console.warn('[IntegratedManager] Current network was disabled, switching...');
+				this.logger.warn('Current network was disabled, switching...');
 
 				const enabledNetworks = this.networkManager.getEnabledNetworks(this.namespace);
 				if (enabledNetworks.length > 0) {
 					void this.walletManager.switchChain(enabledNetworks[0].chainId).catch((error) => {
-						console.error('[IntegratedManager] Failed to switch after network disabled:', error);
+						this.logger.error('Failed to switch after network disabled:', error);
 						void this.walletManager.disconnect();
 					});
 				} else {
@@ -145,19 +189,49 @@ export class IntegratedManager {
 			this.updateWalletManagerChains();
 		});
 
+		// 启用网络的顺序变化
+		this.networkManager.on('networksReordered', (namespace) => {
+			if (namespace !== this.namespace) return;
+			this.updateWalletManagerChains();
+		});
+
+		// 命名空间被重置：钱包所在的网络可能不再启用
+		this.networkManager.on('namespaceReset', (namespace, config) => {
+			if (namespace !== this.namespace) return;
+
+			const state = this.walletManager.getState();
+			if (
+				state.isConnected &&
+				state.chainId !== undefined &&
+				!config.enabledChainIds.includes(state.chainId)
+			) {
+				if (config.currentChainId !== undefined) {
+					this.logger.debug('Namespace reset, switching wallet to:', config.currentChainId);
+					void this.walletManager.switchChain(config.currentChainId).catch((error) => {
+						this.logger.error('Failed to switch after namespace reset:', error);
+						void this.walletManager.disconnect();
+					});
+				} else {
+					void this.walletManager.disconnect();
+				}
+			}
+
+			this.updateWalletManagerChains();
+		});
+
 		// 当前网络切换
 		this.networkManager.on('currentNetworkChanged', (namespace, chainId) => {
 			if (namespace !== this.namespace) return;
 
-			console.log('[IntegratedManager] Current network changed in NetworkManager:', chainId);
+			this.logger.debug('Current network changed in NetworkManager:', chainId);
 
 			const state = this.walletManager.getState();
 
 			// 如果已连接且当前网络不同，切换钱包网络
 			if (state.isConnected && state.chainId !== chainId) {
-				console.log('[IntegratedManager] Switching wallet to match NetworkManager...');
+				this.logger.debug('Switching wallet to match NetworkManager...');
 				void this.walletManager.switchChain(chainId).catch((error) => {
-					console.error('[IntegratedManager] Failed to switch wallet network:', error);
+					this.logger.error('Failed to switch wallet network:', error);
 				});
 			}
 		});
@@ -178,7 +252,7 @@ export class IntegratedManager {
 				currentConnectorId &&
 				currentConnectorId !== this.previousConnectorId
 			) {
-				console.log('[IntegratedManager] Connector switched to:', state.connector?.name);
+				this.logger.debug('Connector switched to:', state.connector?.name);
 				this.previousConnectorId = currentConnectorId;
 				// 注意：不在这里调用 updateChains()，因为所有连接器的内部 chains
 				// 已经在 updateWalletManagerChains() 中更新过了
@@ -190,17 +264,14 @@ export class IntegratedManager {
 
 				// 如果钱包网络与 NetworkManager 不同步，更新 NetworkManager
 				if (currentNetworkId !== state.chainId) {
-					console.log(
-						'[IntegratedManager] Wallet network changed, syncing to NetworkManager:',
-						state.chainId
-					);
+					this.logger.debug('Wallet network changed, syncing to NetworkManager:', state.chainId);
 
 					// 检查这个网络是否在启用列表中
 					if (this.networkManager.isNetworkEnabled(this.namespace, state.chainId)) {
 						this.networkManager.setCurrentNetwork(this.namespace, state.chainId);
 					} else {
 						// 如果网络未启用，自动启用它
-						console.log('[IntegratedManager] Auto-enabling network:', state.chainId);
+						this.logger.debug('Auto-enabling network:', state.chainId);
 						this.networkManager.toggleNetwork(this.namespace, state.chainId, true);
 						this.networkManager.setCurrentNetwork(this.namespace, state.chainId);
 					}
@@ -219,7 +290,7 @@ export class IntegratedManager {
 	 *
 	 * 策略：
 	 * 1. 更新所有连接器的内部 chains 属性（通过直接赋值）
-	 * 2. 只对当前已连接的连接器调用 updateChains()（触发重新初始化）
+	 * 2. 只对已连接的连接器调用 updateChains()（触发重新初始化）
 	 *
 	 * 这样可以确保：
 	 * - 未连接的连接器在下次连接时使用最新的链列表
@@ -228,18 +299,14 @@ export class IntegratedManager {
 	 */
 	private updateWalletManagerChains(): void {
 		const enabledNetworks = this.networkManager.getEnabledNetworks(this.namespace);
-		console.log(
-			'[IntegratedManager] Enabled networks updated:',
+		this.logger.debug(
+			'Enabled networks updated:',
 			enabledNetworks.map((n) => `${n.name}(${n.chainId})`).join(', ')
 		);
 
 		// 转换为 viem Chain 格式
 		const chains = this.networkConfigsToChains(enabledNetworks);
 
-		// 获取当前连接的连接器
-		const state = this.walletManager.getState();
-		const currentConnector = state.connector;
-
 		// 更新所有连接器的内部 chains（使用 BaseConnector 的 updateSupportedChains 方法）
 		this.walletManager.getConnectors().forEach((connector) => {
 			// 所有连接器都继承自 BaseConnector，都有 updateSupportedChains 方法
@@ -249,55 +316,52 @@ export class IntegratedManager {
 			) {
 				// eslint-disable-next-line @typescript-eslint/no-unsafe-call
 				connector.updateSupportedChains(chains);
-				console.log(`[IntegratedManager] Updated internal chains for: ${connector.name}`);
+				this.logger.debug(`Updated internal chains for: ${connector.name}`);
 			}
 		});
 
-		// 只对当前已连接的连接器调用 updateChains()（触发重新初始化）
-		if (currentConnector && typeof currentConnector.updateChains === 'function') {
-			console.log(
-				`[IntegratedManager] Calling updateChains() for active connector: ${currentConnector.name}`
-			);
-			void currentConnector.updateChains(chains).catch((error) => {
-				console.error(
-					`[IntegratedManager] Failed to updateChains for ${currentConnector.name}:`,
-					error
-				);
+		// 只对已连接的连接器调用 updateChains()（触发重新初始化）
+		this.walletManager.getSessions().forEach(({ connector }) => {
+			if (typeof connector.updateChains !== 'function') return;
+
+			this.logger.debug(`Calling updateChains() for connected connector: ${connector.name}`);
+			void connector.updateChains(chains).catch((error) => {
+				this.logger.error(`Failed to updateChains for ${connector.name}:`, error);
 			});
-		}
+		});
 	}
 
 	/**
 	 * 将 NetworkConfig 转换为 viem Chain
 	 */
 	private networkConfigsToChains(networks: NetworkConfig[]): Chain[] {
-		return networks.map((network) => ({
-			id: network.chainId,
-			name: network.name,
-			nativeCurrency: {
-				name: network.symbol,
-				symbol: network.symbol,
-				decimals: 18
-			},
-			rpcUrls: {
-				default: {
-					http: network.rpcEndpoints
-						.filter((rpc) => rpc.isPrimary || rpc.isAvailable !== false)
-						.map((rpc) => rpc.url)
-				},
-				public: {
-					http: network.rpcEndpoints.map((rpc) => rpc.url)
-				}
-			},
-			blockExplorers: network.blockExplorer
-				? {
-						default: {
-							name: 'Explorer',
-							url: network.blockExplorer
-						}
-					}
-				: undefined
-		}));
+		return networks.map(networkConfigToChain);
+	}
+
+	/**
+	 * 获取网络的 viem PublicClient
+	 *
+	 * 使用所有 RPC 端点构建 fallback Transport，主端点失败时自动切换
+	 *
+	 * @param chainId 链 ID，默认为当前网络
+	 * @throws 没有当前网络或网络没有 RPC 端点时抛出错误
+	 */
+	getPublicClient(chainId?: number): PublicClient {
+		const targetChainId = chainId ?? this.networkManager.getCurrentChainId(this.namespace);
+		if (targetChainId === undefined) {
+			throw new Error('No current network');
+		}
+		return this.networkManager.getPublicClient(targetChainId);
+	}
+
+	/**
+	 * 销毁管理器
+	 *
+	 * 停止跨标签页同步并移除所有事件监听，不会断开钱包连接
+	 */
+	destroy(): void {
+		this.networkManager.destroy();
+		this.walletManager.destroy();
 	}
 
 	/**
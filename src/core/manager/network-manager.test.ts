@@ -0,0 +1,505 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NetworkManager } from './network-manager.js';
+import { createMemoryStorageAdapter } from '../storage-adapters.js';
+import { NetworkValidationError } from '../network-validation.js';
+import { NETWORK_CONFIG_EXPORT_FORMAT } from '../network-config-transfer.js';
+import { UnsupportedSchemaVersionError } from '../migrations.js';
+import { networkConfigSchema } from '../schemas.js';
+import type { NetworkConfig } from '../types/network.js';
+import { createMockRpcFetch } from '../../testing/mock-rpc.js';
+
+const mainnet: NetworkConfig = {
+	chainId: 1,
+	name: 'Ethereum',
+	symbol: 'ETH',
+	rpcEndpoints: [{ url: 'https://rpc-a.test', isPrimary: true }],
+	isCustom: false,
+	isBuiltIn: true
+};
+
+const polygon: NetworkConfig = {
+	chainId: 137,
+	name: 'Polygon',
+	symbol: 'POL',
+	rpcEndpoints: [{ url: 'https://polygon.test', isPrimary: true }],
+	isCustom: false,
+	isBuiltIn: true
+};
+
+function createManager(storage = createMemoryStorageAdapter()) {
+	return new NetworkManager([mainnet, polygon], { storage });
+}
+
+describe('NetworkManager', () => {
+	it('starts with the built-in networks', () => {
+		const manager = createManager();
+
+		expect(manager.getAllNetworks().map((network) => network.chainId)).toEqual([1, 137]);
+	});
+
+	it('manages networks per namespace', () => {
+		const manager = createManager();
+		const toggled = vi.fn();
+		manager.on('networkToggled', toggled);
+
+		manager.initializeNamespace('app', [1]);
+		expect(manager.getCurrentChainId('app')).toBe(1);
+
+		manager.toggleNetwork('app', 137, true);
+		manager.setCurrentNetwork('app', 137);
+		expect(manager.getCurrentNetwork('app')?.chainId).toBe(137);
+		expect(toggled).toHaveBeenCalledWith('app', 137, true);
+
+		// 不能禁用最后一个网络
+		manager.toggleNetwork('app', 1, false);
+		expect(manager.toggleNetwork('app', 137, false)).toBe(false);
+		expect(manager.getEnabledNetworks('app').map((network) => network.chainId)).toEqual([137]);
+	});
+
+	it('validates custom networks before saving them', () => {
+		const manager = createManager();
+
+		expect(() =>
+			manager.addOrUpdateCustomNetwork({ ...polygon, chainId: 10, rpcEndpoints: [] })
+		).toThrow(NetworkValidationError);
+		expect(manager.getNetwork(10)).toBeUndefined();
+
+		manager.addOrUpdateCustomNetwork({
+			...polygon,
+			chainId: 10,
+			name: 'Optimism',
+			rpcEndpoints: [{ url: 'https://optimism.test', isPrimary: true }]
+		});
+		expect(manager.getNetwork(10)).toMatchObject({ isCustom: true, name: 'Optimism' });
+	});
+
+	it('persists custom networks and namespaces', () => {
+		const storage = createMemoryStorageAdapter();
+		const manager = createManager(storage);
+		manager.addOrUpdateCustomNetwork({
+			...polygon,
+			chainId: 10,
+			name: 'Optimism',
+			rpcEndpoints: [{ url: 'https://optimism.test', isPrimary: true }]
+		});
+		manager.initializeNamespace('app', [10, 1]);
+
+		const reloaded = createManager(storage);
+
+		expect(reloaded.getNetwork(10)?.name).toBe('Optimism');
+		expect(reloaded.getNamespace('app')).toEqual({ enabledChainIds: [10, 1], currentChainId: 10 });
+	});
+
+	it('only removes custom networks that are disabled everywhere', () => {
+		const manager = createManager();
+		manager.addOrUpdateCustomNetwork({
+			...polygon,
+			chainId: 10,
+			name: 'Optimism',
+			rpcEndpoints: [{ url: 'https://optimism.test', isPrimary: true }]
+		});
+		manager.initializeNamespace('app', [1, 10]);
+
+		expect(() => manager.removeCustomNetwork(1)).toThrow('Cannot remove built-in network');
+		expect(() => manager.removeCustomNetwork(10)).toThrow(/still|disabled/);
+
+		manager.toggleNetwork('app', 10, false);
+		manager.removeCustomNetwork(10);
+		expect(manager.getNetwork(10)).toBeUndefined();
+	});
+
+	it('rejects custom networks whose RPC belongs to another chain', async () => {
+		const manager = createManager();
+		const fetch = createMockRpcFetch({
+			'https://optimism.test': { chainId: 10 },
+			'https://fake.test': { chainId: 1 }
+		});
+		const optimism = {
+			...polygon,
+			chainId: 10,
+			name: 'Optimism',
+			rpcEndpoints: [{ url: 'https://optimism.test', isPrimary: true }]
+		};
+
+		await expect(
+			manager.addOrUpdateCustomNetworkVerified(
+				{ ...optimism, rpcEndpoints: [{ url: 'https://fake.test', isPrimary: true }] },
+				{ verifyRpc: { fetch } }
+			)
+		).rejects.toBeInstanceOf(NetworkValidationError);
+		expect(manager.getNetwork(10)).toBeUndefined();
+
+		const result = await manager.addOrUpdateCustomNetworkVerified(optimism, {
+			verifyRpc: { fetch }
+		});
+		expect(result.valid).toBe(true);
+		expect(manager.getNetwork(10)?.name).toBe('Optimism');
+	});
+
+	describe('namespaces', () => {
+		it('creates, clones, renames, resets and deletes namespaces', () => {
+			const manager = createManager();
+			const events: unknown[][] = [];
+			manager.on('namespaceCreated', (...args) =>
+				events.push(['created', ...structuredClone(args)])
+			);
+			manager.on('namespaceRenamed', (...args) => events.push(['renamed', ...args]));
+			manager.on('namespaceReset', (...args) => events.push(['reset', ...structuredClone(args)]));
+			manager.on('namespaceDeleted', (...args) => events.push(['deleted', ...args]));
+
+			expect(manager.createNamespace('swap', [137, 1, 999])).toEqual({
+				enabledChainIds: [137, 1],
+				currentChainId: 137
+			});
+			manager.setCurrentNetwork('swap', 1);
+			expect(manager.cloneNamespace('swap', 'staging')).toEqual({
+				enabledChainIds: [137, 1],
+				currentChainId: 1
+			});
+			manager.renameNamespace('staging', 'preview');
+			expect(manager.resetNamespace('preview')).toEqual({
+				enabledChainIds: [1, 137],
+				currentChainId: 1
+			});
+			manager.deleteNamespace('preview');
+
+			expect(manager.getNamespaces()).toEqual(['swap']);
+			expect(events).toEqual([
+				['created', 'swap', { enabledChainIds: [137, 1], currentChainId: 137 }],
+				['created', 'staging', { enabledChainIds: [137, 1], currentChainId: 1 }],
+				['renamed', 'staging', 'preview'],
+				['reset', 'preview', { enabledChainIds: [1, 137], currentChainId: 1 }],
+				['deleted', 'preview']
+			]);
+		});
+
+		it('refuses name collisions, empty names and unknown namespaces', () => {
+			const manager = createManager();
+			manager.createNamespace('swap');
+			manager.createNamespace('bridge');
+			const renamed = vi.fn();
+			manager.on('namespaceRenamed', renamed);
+
+			expect(() => manager.createNamespace('swap')).toThrow('Namespace already exists: swap');
+			expect(() => manager.cloneNamespace('swap', 'bridge')).toThrow(
+				'Namespace already exists: bridge'
+			);
+			expect(() => manager.renameNamespace('swap', 'bridge')).toThrow(
+				'Namespace already exists: bridge'
+			);
+			expect(() => manager.createNamespace(' ')).toThrow(
+				'Namespace name must be a non-empty string'
+			);
+			expect(() => manager.cloneNamespace('missing', 'copy')).toThrow(
+				'Namespace not found: missing'
+			);
+			expect(() => manager.renameNamespace('missing', 'copy')).toThrow(
+				'Namespace not found: missing'
+			);
+			expect(() => manager.resetNamespace('missing')).toThrow('Namespace not found: missing');
+			expect(() => manager.deleteNamespace('missing')).toThrow('Namespace not found: missing');
+
+			manager.renameNamespace('swap', 'swap');
+			expect(renamed).not.toHaveBeenCalled();
+			expect(manager.getNamespaces()).toEqual(['swap', 'bridge']);
+		});
+
+		it('reorders and moves enabled networks', () => {
+			const manager = createManager();
+			manager.addOrUpdateCustomNetwork({
+				...polygon,
+				chainId: 10,
+				name: 'Optimism',
+				rpcEndpoints: [{ url: 'https://optimism.test', isPrimary: true }]
+			});
+			manager.createNamespace('app', [1, 137, 10]);
+			const reordered = vi.fn();
+			manager.on('networksReordered', reordered);
+
+			manager.reorderNetworks('app', [10, 1, 137]);
+			manager.moveNetwork('app', 137, 0);
+			manager.moveNetwork('app', 137, 99);
+
+			expect(reordered.mock.calls).toEqual([
+				['app', [10, 1, 137]],
+				['app', [137, 10, 1]],
+				['app', [10, 1, 137]]
+			]);
+			expect(manager.getEnabledNetworks('app').map((network) => network.chainId)).toEqual([
+				10, 1, 137
+			]);
+		});
+
+		it('refuses orders that add, drop or repeat networks', () => {
+			const manager = createManager();
+			manager.createNamespace('app', [1, 137]);
+			const message = 'Network order must contain exactly the enabled networks of namespace app';
+
+			expect(() => manager.reorderNetworks('app', [1])).toThrow(message);
+			expect(() => manager.reorderNetworks('app', [1, 1])).toThrow(message);
+			expect(() => manager.reorderNetworks('app', [1, 10])).toThrow(message);
+			expect(() => manager.reorderNetworks('missing', [1])).toThrow('Namespace not found: missing');
+			expect(() => manager.moveNetwork('app', 10, 0)).toThrow(
+				'Network 10 is not enabled in namespace app'
+			);
+			expect(manager.getNamespace('app')?.enabledChainIds).toEqual([1, 137]);
+		});
+	});
+
+	describe('config import and export', () => {
+		const optimism = {
+			...polygon,
+			chainId: 10,
+			name: 'Optimism',
+			rpcEndpoints: [{ url: 'https://optimism.test', isPrimary: true }]
+		};
+		const localRpc = [{ url: 'https://rpc-local.test', isPrimary: true }];
+
+		/**
+		 * 导出方：自定义网络 Optimism，命名空间 app 启用 [10, 1]
+		 */
+		function createSource() {
+			const manager = createManager();
+			manager.addOrUpdateCustomNetwork(optimism);
+			manager.initializeNamespace('app', [10, 1]);
+			return manager;
+		}
+
+		/**
+		 * 导入方：修改过 mainnet 的 RPC，命名空间 app 只启用 [1]
+		 */
+		function createTarget(storage = createMemoryStorageAdapter()) {
+			const manager = createManager(storage);
+			manager.updateNetworkRpc(1, localRpc);
+			manager.initializeNamespace('app', [1]);
+			return manager;
+		}
+
+		it('exports the selected namespaces and their networks', () => {
+			const source = createSource();
+			source.initializeNamespace('other', [137]);
+
+			const exported = source.exportConfig({ namespaces: ['app'] });
+
+			expect(exported).toMatchObject({
+				format: NETWORK_CONFIG_EXPORT_FORMAT,
+				version: networkConfigSchema.version
+			});
+			expect(Object.keys(exported.data.namespaces)).toEqual(['app']);
+			expect(Object.keys(exported.data.networks)).toEqual(['1', '10']);
+			expect(Object.keys(source.exportConfig({ includeBuiltIn: false }).data.networks)).toEqual([
+				'10'
+			]);
+		});
+
+		it('keeps local networks on conflict with merge-prefer-local', () => {
+			const target = createTarget();
+
+			const result = target.importConfig(JSON.stringify(createSource().exportConfig()));
+
+			expect(result).toMatchObject({ added: [10], updated: [], removed: [], rejected: [] });
+			expect(result.conflicts).toContainEqual({
+				type: 'network',
+				chainId: 1,
+				fields: ['rpcEndpoints'],
+				resolution: 'kept-local'
+			});
+			expect(target.getNetwork(1)?.rpcEndpoints).toEqual(localRpc);
+			expect(target.getNetwork(10)).toMatchObject({ name: 'Optimism', isCustom: true });
+			expect(target.getNamespace('app')).toEqual({ enabledChainIds: [1, 10], currentChainId: 1 });
+		});
+
+		it('uses incoming networks on conflict with merge-prefer-incoming', () => {
+			const target = createTarget();
+
+			const result = target.importConfig(createSource().exportConfig(), {
+				strategy: 'merge-prefer-incoming'
+			});
+
+			expect(result).toMatchObject({ added: [10], updated: [1], namespaces: ['app'] });
+			expect(result.conflicts).toEqual([
+				{ type: 'network', chainId: 1, fields: ['rpcEndpoints'], resolution: 'used-incoming' },
+				{
+					type: 'namespace',
+					namespace: 'app',
+					fields: ['enabledChainIds', 'currentChainId'],
+					resolution: 'merged'
+				}
+			]);
+			expect(target.getNetwork(1)?.rpcEndpoints).toEqual(mainnet.rpcEndpoints);
+			expect(target.getNetwork(1)?.isBuiltIn).toBe(true);
+			expect(target.getNamespace('app')).toEqual({ enabledChainIds: [10, 1], currentChainId: 10 });
+		});
+
+		it('replaces custom networks but keeps built-in ones', () => {
+			const storage = createMemoryStorageAdapter();
+			const target = createTarget(storage);
+			target.addOrUpdateCustomNetwork({
+				...optimism,
+				chainId: 8453,
+				name: 'Base',
+				rpcEndpoints: [{ url: 'https://base.test', isPrimary: true }]
+			});
+			target.initializeNamespace('other', [137]);
+
+			const result = target.importConfig(createSource().exportConfig({ includeBuiltIn: false }), {
+				strategy: 'replace'
+			});
+
+			expect(result).toMatchObject({ added: [10], updated: [], removed: [8453] });
+			expect(target.getAllNetworks().map((network) => network.chainId)).toEqual([1, 10, 137]);
+			expect(target.getNetwork(1)?.rpcEndpoints).toEqual(localRpc);
+			expect(target.getNamespaces()).toEqual(['app']);
+			expect(target.getNamespace('app')).toEqual({ enabledChainIds: [10, 1], currentChainId: 10 });
+
+			const reloaded = createManager(storage);
+			expect(reloaded.getAllNetworks().map((network) => network.chainId)).toEqual([1, 10, 137]);
+		});
+
+		it('replaces only the selected namespaces', () => {
+			const target = createTarget();
+			target.initializeNamespace('other', [137]);
+
+			const result = target.importConfig(createSource().exportConfig(), {
+				strategy: 'replace',
+				namespaces: ['app']
+			});
+
+			expect(result).toMatchObject({ added: [10], updated: [1], removed: [], namespaces: ['app'] });
+			expect(result.conflicts).toContainEqual(
+				expect.objectContaining({
+					type: 'namespace',
+					namespace: 'app',
+					resolution: 'used-incoming'
+				})
+			);
+			expect(target.getNamespace('app')).toEqual({ enabledChainIds: [10, 1], currentChainId: 10 });
+			expect(target.getNamespace('other')).toEqual({ enabledChainIds: [137], currentChainId: 137 });
+		});
+
+		it('rejects invalid networks and leaves them out of the namespaces', () => {
+			const target = createManager();
+			const exported = createSource().exportConfig();
+			exported.data.networks[10].rpcEndpoints = [];
+
+			const result = target.importConfig(exported);
+
+			expect(result.added).toEqual([]);
+			expect(result.rejected).toEqual([
+				{ chainId: 10, issues: [expect.objectContaining({ code: 'no_rpc', severity: 'error' })] }
+			]);
+			expect(target.getNetwork(10)).toBeUndefined();
+			expect(target.getNamespace('app')).toEqual({ enabledChainIds: [1], currentChainId: 1 });
+		});
+
+		it('refuses files that are not exports or come from a newer version', () => {
+			const target = createManager();
+			const exported = createSource().exportConfig();
+
+			expect(() => target.importConfig('{"networks":{}}')).toThrow(
+				'Unrecognized network config export'
+			);
+			expect(() => target.importConfig({ ...exported, version: 99 })).toThrow(
+				UnsupportedSchemaVersionError
+			);
+			expect(target.getNetwork(10)).toBeUndefined();
+		});
+	});
+
+	describe('RPC health checks', () => {
+		const fetch = createMockRpcFetch({
+			'https://rpc-a.test': { chainId: 1, latency: 20 },
+			'https://rpc-b.test': { chainId: 5 },
+			'https://polygon.test': { chainId: 137 }
+		});
+
+		function createHealthManager() {
+			return new NetworkManager(
+				[
+					{
+						...mainnet,
+						rpcEndpoints: [
+							{ url: 'https://rpc-a.test', isPrimary: true },
+							{ url: 'https://rpc-b.test', isPrimary: false }
+						]
+					},
+					polygon
+				],
+				{ storage: createMemoryStorageAdapter() }
+			);
+		}
+
+		afterEach(() => {
+			vi.unstubAllGlobals();
+		});
+
+		it('records the results and emits rpcHealthChanged', async () => {
+			vi.stubGlobal('fetch', fetch);
+			const manager = createHealthManager();
+			const rpcHealthChanged = vi.fn();
+			manager.on('rpcHealthChanged', rpcHealthChanged);
+
+			const results = await manager.checkRpcHealth(1);
+
+			expect(results.map((result) => result.isAvailable)).toEqual([true, false]);
+			expect(rpcHealthChanged).toHaveBeenCalledTimes(1);
+			expect(rpcHealthChanged).toHaveBeenCalledWith(1, [
+				expect.objectContaining({
+					url: 'https://rpc-a.test',
+					isAvailable: true,
+					latency: expect.any(Number) as number,
+					lastChecked: expect.any(Date) as Date
+				}),
+				expect.objectContaining({
+					url: 'https://rpc-b.test',
+					isAvailable: false,
+					latency: undefined
+				})
+			]);
+			expect(manager.getNetwork(1)?.rpcEndpoints[0].latency).toBeGreaterThanOrEqual(15);
+		});
+
+		it('checks every network periodically until stopped', async () => {
+			const manager = createHealthManager();
+			const rpcHealthChanged = vi.fn();
+			manager.on('rpcHealthChanged', rpcHealthChanged);
+
+			manager.startHealthChecks({ interval: 10, fetch });
+
+			await vi.waitFor(() => expect(rpcHealthChanged.mock.calls.length).toBeGreaterThanOrEqual(4));
+			expect(rpcHealthChanged).toHaveBeenCalledWith(137, [
+				expect.objectContaining({ url: 'https://polygon.test', isAvailable: true })
+			]);
+
+			manager.destroy();
+			const calls = rpcHealthChanged.mock.calls.length;
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			expect(rpcHealthChanged).toHaveBeenCalledTimes(calls);
+		});
+
+		it('keeps a single loop when restarted during a check', async () => {
+			let release = () => {};
+			const gate = new Promise<void>((resolve) => (release = resolve));
+			let chainIdCalls = 0;
+			// 前两次检查等待 gate，之后的检查不再返回，便于统计调度了几轮
+			const gatedFetch: typeof globalThis.fetch = async (input, init) => {
+				const { method } = JSON.parse(init?.body as string) as { method: string };
+				if (method === 'eth_chainId' && ++chainIdCalls > 2) {
+					return new Promise<Response>(() => {});
+				}
+				await gate;
+				return fetch(input, init);
+			};
+			const manager = new NetworkManager([polygon], { storage: createMemoryStorageAdapter() });
+
+			manager.startHealthChecks({ interval: 10, fetch: gatedFetch });
+			manager.startHealthChecks({ interval: 10, fetch: gatedFetch });
+			expect(chainIdCalls).toBe(2);
+			release();
+			await new Promise((resolve) => setTimeout(resolve, 50));
+
+			expect(chainIdCalls).toBe(3);
+			manager.destroy();
+		});
+	});
+});
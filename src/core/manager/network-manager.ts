@@ -1,28 +1,141 @@
+import {
+	createPublicClient,
+	type FallbackTransport,
+	type HttpTransport,
+	type PublicClient
+} from 'viem';
 import type {
+	NamespaceConfig,
 	NetworkConfig,
 	NetworkManagerEvents,
 	RpcEndpoint,
 	StoredNetworkConfig
 } from '../types/network.js';
-import { createStorage } from '../create-storage.js';
+import type { NetworkManagerOptions } from '../types/manager.js';
+import { createStorage, type Storage } from '../create-storage.js';
+import { isPromiseLike } from '../storage-adapters.js';
+import { networkConfigSchema } from '../schemas.js';
+import { resolveSyncTransport } from '../cross-tab-sync.js';
+import { silentLogger, type Logger } from '../logger.js';
+import { EventEmitter } from '../event-emitter.js';
+import {
+	checkRpcEndpoint,
+	DEFAULT_HEALTH_CHECK_INTERVAL,
+	type RpcHealthCheckOptions,
+	type RpcHealthResult
+} from '../rpc-health.js';
+import { createNetworkTransport, type NetworkTransportOptions } from '../network-transport.js';
+import { networkConfigToChain } from '../../utils/chains.js';
+import {
+	assertValidNetwork,
+	validateNetwork,
+	validateNetworkConfig,
+	type NetworkValidationOptions,
+	type NetworkValidationResult
+} from '../network-validation.js';
+import {
+	createConfigExport,
+	mergeNetworkConfig,
+	parseConfigExport,
+	type ConfigImportResult,
+	type ExportConfigOptions,
+	type ImportConfigOptions,
+	type NetworkConfigExport
+} from '../network-config-transfer.js';
 
 /**
  * 网络管理器（框架无关）
  *
  * 负责管理网络配置、命名空间、持久化等功能
  */
-export class NetworkManager {
+export class NetworkManager extends EventEmitter<NetworkManagerEvents> {
 	private config: StoredNetworkConfig = {
 		networks: {},
 		namespaces: {}
 	};
 
-	private storage = createStorage<StoredNetworkConfig>('network-config', 'NetworkStorage');
-	private listeners = new Map<keyof NetworkManagerEvents, Set<(...args: unknown[]) => void>>();
+	private storage: Storage<StoredNetworkConfig>;
+	private loaded = false; // 存储中的配置是否已加载
+	private unwatchStorage: () => void;
+	private logger: Logger;
+	private hasLogger: boolean; // 是否传入了 logger，决定监听器错误的输出位置
+	private healthCheckOptions: RpcHealthCheckOptions = {};
+	private healthCheckTimer: ReturnType<typeof setTimeout> | null = null;
+	// 每次 start / stop 递增，旧一轮检查完成后据此判断是否继续
+	private healthCheckGeneration = 0;
+	private publicClients = new Map<number, PublicClient>(); // 按 chainId 缓存的默认 PublicClient
+
+	/**
+	 * 配置加载完成
+	 *
+	 * 同步存储（默认的 localStorage）在构造函数中已经加载完成；
+	 * 使用异步存储（如 IndexedDB）时，加载完成前只有内置网络，
+	 * 应该先 await manager.ready 再读取或修改配置
+	 */
+	readonly ready: Promise<void>;
+
+	constructor(builtInNetworks: NetworkConfig[] = [], options: NetworkManagerOptions = {}) {
+		super();
+		this.logger = (options.logger ?? silentLogger).child('NetworkManager');
+		this.hasLogger = !!options.logger;
+		this.storage = createStorage<StoredNetworkConfig>('network-config', {
+			adapter: options.storage,
+			keyPrefix: options.storageKeyPrefix,
+			schema: networkConfigSchema,
+			sync: resolveSyncTransport(options.crossTabSync),
+			logName: 'NetworkStorage',
+			logger: this.logger
+		});
+
+		// 跨标签页同步：直接使用其他标签页保存的配置（不再写回存储）
+		this.unwatchStorage = this.storage.watch((config) => {
+			if (!config) return;
+			this.config = config;
+			this.publicClients.clear();
+			this.emit('configSynced', this.config);
+		});
 
-	constructor(builtInNetworks: NetworkConfig[] = []) {
 		// 加载配置
 		const stored = this.storage.load();
+		if (isPromiseLike(stored)) {
+			// 加载完成前先使用内置网络（不写入存储，避免覆盖已保存的配置）
+			builtInNetworks.forEach((network) => {
+				this.config.networks[network.chainId] = { ...network };
+			});
+			this.ready = stored.then((config) => {
+				this.config = { networks: {}, namespaces: {} };
+				this.loaded = true;
+				this.publicClients.clear();
+				this.restore(config, builtInNetworks);
+				this.emit('configLoaded', this.config);
+			});
+		} else {
+			this.loaded = true;
+			this.restore(stored, builtInNetworks);
+			this.ready = Promise.resolve();
+		}
+
+		if (options.healthCheck) {
+			const healthCheckOptions = options.healthCheck === true ? {} : options.healthCheck;
+			void this.ready.then(() => this.startHealthChecks(healthCheckOptions));
+		}
+	}
+
+	/**
+	 * 监听器抛出的错误写入 logger，没有传入 logger 时使用默认处理（输出到 console），避免错误被静默丢弃
+	 */
+	protected onListenerError(error: unknown, event: keyof NetworkManagerEvents): void {
+		if (this.hasLogger) {
+			this.logger.error(`Listener for "${String(event)}" threw:`, error);
+		} else {
+			super.onListenerError(error, event);
+		}
+	}
+
+	/**
+	 * 从存储恢复配置
+	 */
+	private restore(stored: StoredNetworkConfig | null, builtInNetworks: NetworkConfig[]): void {
 		if (stored) {
 			this.config = stored;
 			// 合并内置网络
@@ -60,9 +173,23 @@ export class NetworkManager {
 			}
 			// 如果已存在且是用户自定义的网络，保留用户的网络，不覆盖
 			else if (existing.isCustom) {
-				console.log(
-					`[NetworkManager] Skipping built-in network ${network.name} (chainId: ${network.chainId}) - user has custom network`
+				this.logger.debug(
+					`Skipping built-in network ${network.name} (chainId: ${network.chainId}) - user has custom network`
+				);
+			}
+			// 已保存的内置网络：补全新版本内置网络新增的字段，保留用户修改过的字段（如 RPC）
+			else {
+				const missingKeys = (Object.keys(network) as (keyof NetworkConfig)[]).filter(
+					(key) => existing[key] === undefined && network[key] !== undefined
 				);
+				if (missingKeys.length > 0) {
+					this.config.networks[network.chainId] = { ...network, ...existing };
+					this.logger.debug(
+						`Upgraded built-in network ${network.name} with new fields:`,
+						missingKeys
+					);
+					hasChanges = true;
+				}
 			}
 		});
 
@@ -73,9 +200,28 @@ export class NetworkManager {
 
 	/**
 	 * 保存配置
+	 *
+	 * 加载完成前不写入存储，避免内置网络覆盖已保存的配置
 	 */
 	private save(): void {
-		this.storage.save(this.config);
+		if (!this.loaded) return;
+		void this.storage.save(this.toStoredConfig());
+	}
+
+	/**
+	 * 去掉 RPC 健康检查结果后的配置
+	 *
+	 * 健康状态只在运行时有效，不写入存储
+	 */
+	private toStoredConfig(): StoredNetworkConfig {
+		const networks: Record<number, NetworkConfig> = {};
+		Object.values(this.config.networks).forEach((network) => {
+			networks[network.chainId] = {
+				...network,
+				rpcEndpoints: network.rpcEndpoints.map(({ url, isPrimary }) => ({ url, isPrimary }))
+			};
+		});
+		return { networks, namespaces: this.config.namespaces };
 	}
 
 	/**
@@ -100,10 +246,27 @@ export class NetworkManager {
 		return enabledIds.map((id) => this.config.networks[id]).filter(Boolean);
 	}
 
+	/**
+	 * 校验网络配置
+	 *
+	 * 返回所有问题而不是抛出错误，适合在表单中逐项提示；
+	 * 开启 verifyRpc 时会请求每个 RPC 的 eth_chainId，拒绝属于其他链的 RPC
+	 */
+	validateNetwork(
+		network: Omit<NetworkConfig, 'isCustom' | 'isBuiltIn'>,
+		options?: NetworkValidationOptions
+	): Promise<NetworkValidationResult> {
+		return validateNetwork(network, options);
+	}
+
 	/**
 	 * 添加或更新自定义网络
+	 *
+	 * @throws NetworkValidationError 网络配置不合法时抛出（不会保存）
 	 */
 	addOrUpdateCustomNetwork(network: Omit<NetworkConfig, 'isCustom' | 'isBuiltIn'>): void {
+		assertValidNetwork(validateNetworkConfig(network), network.chainId);
+
 		const existing = this.config.networks[network.chainId];
 		const isNew = !existing;
 
@@ -114,6 +277,7 @@ export class NetworkManager {
 			createdAt: existing?.createdAt || new Date().toISOString(),
 			updatedAt: new Date().toISOString()
 		};
+		this.publicClients.delete(network.chainId);
 
 		this.save();
 
@@ -124,21 +288,59 @@ export class NetworkManager {
 		}
 	}
 
+	/**
+	 * 校验后添加或更新自定义网络（包括 RPC 链 ID 校验）
+	 *
+	 * 默认请求每个 RPC 的 eth_chainId，确认它们属于声明的链
+	 *
+	 * @returns 校验结果（包括 warning，如暂时无法访问的 RPC）
+	 * @throws NetworkValidationError 网络配置不合法或 RPC 属于其他链时抛出（不会保存）
+	 */
+	async addOrUpdateCustomNetworkVerified(
+		network: Omit<NetworkConfig, 'isCustom' | 'isBuiltIn'>,
+		options: NetworkValidationOptions = { verifyRpc: true }
+	): Promise<NetworkValidationResult> {
+		const result = await validateNetwork(network, options);
+		assertValidNetwork(result.issues, network.chainId);
+
+		this.addOrUpdateCustomNetwork(network);
+		return result;
+	}
+
 	/**
 	 * 更新网络的 RPC 配置
+	 *
+	 * @throws NetworkValidationError RPC 配置不合法时抛出（不会保存）
 	 */
 	updateNetworkRpc(chainId: number, rpcEndpoints: RpcEndpoint[], blockExplorer?: string): void {
 		const network = this.config.networks[chainId];
 		if (!network) {
-			console.warn('[NetworkManager] Network not found:', chainId);
+			this.logger.warn('Network not found:', chainId);
 			return;
 		}
 
+		assertValidNetwork(
+			validateNetworkConfig({
+				...network,
+				rpcEndpoints,
+				blockExplorer: blockExplorer ?? network.blockExplorer
+			}),
+			chainId
+		);
+
 		network.rpcEndpoints = rpcEndpoints;
 		if (blockExplorer !== undefined) {
 			network.blockExplorer = blockExplorer;
+			// 同步更新 blockExplorers 中的默认浏览器，避免两者不一致
+			if (network.blockExplorers) {
+				network.blockExplorers = {
+					...network.blockExplorers,
+					default: { ...network.blockExplorers.default, url: blockExplorer }
+				};
+			}
 		}
 		network.updatedAt = new Date().toISOString();
+		this.publicClients.delete(chainId);
 
 		this.save();
 		this.emit('networkUpdated', network);
@@ -152,7 +354,7 @@ export class NetworkManager {
 	removeCustomNetwork(chainId: number): void {
 		const network = this.config.networks[chainId];
 		if (!network?.isCustom) {
-			console.warn('[NetworkManager] Cannot remove built-in network');
+			this.logger.warn('Cannot remove built-in network');
 			throw new Error('Cannot remove built-in network');
 		}
 
@@ -163,8 +365,8 @@ export class NetworkManager {
 
 		if (enabledInNamespaces.length > 0) {
 			const namespaceList = enabledInNamespaces.join(', ');
-			console.warn(
-				`[NetworkManager] Cannot remove network ${chainId}: still enabled in namespaces: ${namespaceList}`
+			this.logger.warn(
+				`Cannot remove network ${chainId}: still enabled in namespaces: ${namespaceList}`
 			);
 			throw new Error(
 				`Network must be disabled in all namespaces before deletion. Currently enabled in: ${namespaceList}`
@@ -173,6 +375,7 @@ export class NetworkManager {
 
 		// 删除网络
 		delete this.config.networks[chainId];
+		this.publicClients.delete(chainId);
 		this.save();
 		this.emit('networkRemoved', chainId);
 	}
@@ -181,7 +384,8 @@ export class NetworkManager {
 	 * 启用/禁用网络（命名空间级别）
 	 */
 	toggleNetwork(namespace: string, chainId: number, enabled: boolean): boolean {
-		if (!this.config.namespaces[namespace]) {
+		const created = !this.config.namespaces[namespace];
+		if (created) {
 			this.config.namespaces[namespace] = {
 				enabledChainIds: [],
 				currentChainId: undefined
@@ -201,7 +405,7 @@ export class NetworkManager {
 		} else if (!enabled && idx > -1) {
 			// 防止禁用最后一个网络
 			if (ns.enabledChainIds.length === 1) {
-				console.warn('[NetworkManager] Cannot disable the last enabled network');
+				this.logger.warn('Cannot disable the last enabled network');
 				return false;
 			}
 
@@ -215,6 +419,9 @@ export class NetworkManager {
 		}
 
 		this.save();
+		if (created) {
+			this.emit('namespaceCreated', namespace, ns);
+		}
 		this.emit('networkToggled', namespace, chainId, enabled);
 		return true;
 	}
@@ -230,7 +437,8 @@ export class NetworkManager {
 	 * 设置当前网络
 	 */
 	setCurrentNetwork(namespace: string, chainId: number): void {
-		if (!this.config.namespaces[namespace]) {
+		const created = !this.config.namespaces[namespace];
+		if (created) {
 			this.config.namespaces[namespace] = {
 				enabledChainIds: [],
 				currentChainId: chainId
@@ -240,12 +448,15 @@ export class NetworkManager {
 			if (this.config.namespaces[namespace].enabledChainIds.includes(chainId)) {
 				this.config.namespaces[namespace].currentChainId = chainId;
 			} else {
-				console.warn(`[NetworkManager] Cannot set current network to disabled network: ${chainId}`);
+				this.logger.warn(`Cannot set current network to disabled network: ${chainId}`);
 				return;
 			}
 		}
 
 		this.save();
+		if (created) {
+			this.emit('namespaceCreated', namespace, this.config.namespaces[namespace]);
+		}
 		this.emit('currentNetworkChanged', namespace, chainId);
 	}
 
@@ -272,57 +483,401 @@ export class NetworkManager {
 	 */
 	initializeNamespace(namespace: string, defaultChainIds?: number[]): void {
 		if (!this.config.namespaces[namespace]) {
-			// 如果没有提供默认列表，使用所有已有网络
-			const enabledIds =
-				defaultChainIds || Object.keys(this.config.networks).map((id) => parseInt(id));
-
-			this.config.namespaces[namespace] = {
-				enabledChainIds: enabledIds.filter((id) => this.config.networks[id]),
-				currentChainId: enabledIds[0]
-			};
+			this.config.namespaces[namespace] = this.createNamespaceConfig(defaultChainIds);
 			this.save();
+			this.emit('namespaceCreated', namespace, this.config.namespaces[namespace]);
 		}
 	}
 
 	/**
-	 * 获取完整配置
+	 * 获取所有命名空间名称
 	 */
-	getConfig(): StoredNetworkConfig {
-		return this.config;
+	getNamespaces(): string[] {
+		return Object.keys(this.config.namespaces);
+	}
+
+	/**
+	 * 检查命名空间是否存在
+	 */
+	hasNamespace(namespace: string): boolean {
+		return !!this.config.namespaces[namespace];
 	}
 
 	/**
-	 * 监听事件
+	 * 获取命名空间配置（副本，修改不会影响管理器）
 	 */
-	on<K extends keyof NetworkManagerEvents>(event: K, listener: NetworkManagerEvents[K]): void {
-		if (!this.listeners.has(event)) {
-			this.listeners.set(event, new Set());
+	getNamespace(namespace: string): NamespaceConfig | undefined {
+		const ns = this.config.namespaces[namespace];
+		return ns ? { ...ns, enabledChainIds: [...ns.enabledChainIds] } : undefined;
+	}
+
+	/**
+	 * 创建命名空间
+	 *
+	 * 与 initializeNamespace 不同，命名空间已存在时抛出错误
+	 *
+	 * @param defaultChainIds 启用的网络（按顺序），默认启用所有已有网络，第一个作为当前网络
+	 * @throws 名称为空或命名空间已存在时抛出错误
+	 */
+	createNamespace(namespace: string, defaultChainIds?: number[]): NamespaceConfig {
+		this.assertNamespaceName(namespace);
+		if (this.config.namespaces[namespace]) {
+			this.logger.warn(`Namespace already exists: ${namespace}`);
+			throw new Error(`Namespace already exists: ${namespace}`);
 		}
-		this.listeners.get(event)!.add(listener as (...args: unknown[]) => void);
+
+		this.config.namespaces[namespace] = this.createNamespaceConfig(defaultChainIds);
+		this.save();
+		this.emit('namespaceCreated', namespace, this.config.namespaces[namespace]);
+		return this.getNamespace(namespace)!;
 	}
 
 	/**
-	 * 取消监听
+	 * 复制命名空间（启用的网络、顺序和当前网络）
+	 *
+	 * @throws 源命名空间不存在或目标命名空间已存在时抛出错误
 	 */
-	off<K extends keyof NetworkManagerEvents>(event: K, listener: NetworkManagerEvents[K]): void {
-		const listeners = this.listeners.get(event);
-		if (listeners) {
-			listeners.delete(listener as (...args: unknown[]) => void);
+	cloneNamespace(source: string, target: string): NamespaceConfig {
+		const ns = this.requireNamespace(source);
+		this.assertNamespaceName(target);
+		if (this.config.namespaces[target]) {
+			this.logger.warn(`Namespace already exists: ${target}`);
+			throw new Error(`Namespace already exists: ${target}`);
 		}
+
+		this.config.namespaces[target] = {
+			enabledChainIds: [...ns.enabledChainIds],
+			currentChainId: ns.currentChainId
+		};
+		this.save();
+		this.emit('namespaceCreated', target, this.config.namespaces[target]);
+		return this.getNamespace(target)!;
 	}
 
 	/**
-	 * 触发事件
+	 * 重命名命名空间
+	 *
+	 * @throws 命名空间不存在或新名称已被使用时抛出错误
 	 */
-	private emit<K extends keyof NetworkManagerEvents>(
-		event: K,
-		...args: NetworkManagerEvents[K] extends (...args: infer P) => void ? P : never
-	): void {
-		const listeners = this.listeners.get(event);
-		if (listeners) {
-			listeners.forEach((listener) => {
-				(listener as (...args: unknown[]) => void)(...args);
-			});
+	renameNamespace(from: string, to: string): void {
+		const ns = this.requireNamespace(from);
+		this.assertNamespaceName(to);
+		if (from === to) return;
+		if (this.config.namespaces[to]) {
+			this.logger.warn(`Namespace already exists: ${to}`);
+			throw new Error(`Namespace already exists: ${to}`);
+		}
+
+		this.config.namespaces[to] = ns;
+		delete this.config.namespaces[from];
+		this.save();
+		this.emit('namespaceRenamed', from, to);
+	}
+
+	/**
+	 * 重置命名空间，恢复为默认启用的网络
+	 *
+	 * @param defaultChainIds 启用的网络（按顺序），默认启用所有已有网络，第一个作为当前网络
+	 * @throws 命名空间不存在时抛出错误
+	 */
+	resetNamespace(namespace: string, defaultChainIds?: number[]): NamespaceConfig {
+		this.requireNamespace(namespace);
+
+		this.config.namespaces[namespace] = this.createNamespaceConfig(defaultChainIds);
+		this.save();
+		this.emit('namespaceReset', namespace, this.config.namespaces[namespace]);
+		return this.getNamespace(namespace)!;
+	}
+
+	/**
+	 * 删除命名空间
+	 *
+	 * 只删除命名空间的配置，网络本身不受影响
+	 *
+	 * @throws 命名空间不存在时抛出错误
+	 */
+	deleteNamespace(namespace: string): void {
+		this.requireNamespace(namespace);
+
+		delete this.config.namespaces[namespace];
+		this.save();
+		this.emit('namespaceDeleted', namespace);
+	}
+
+	/**
+	 * 调整启用网络的顺序（如网络切换器中的拖拽排序）
+	 *
+	 * @param chainIds 新的顺序，必须与当前启用的网络完全一致（只能调整顺序，不能增删）
+	 * @throws 命名空间不存在或 chainIds 与启用的网络不一致时抛出错误
+	 */
+	reorderNetworks(namespace: string, chainIds: number[]): void {
+		const ns = this.requireNamespace(namespace);
+
+		const enabled = new Set(ns.enabledChainIds);
+		if (
+			chainIds.length !== ns.enabledChainIds.length ||
+			new Set(chainIds).size !== chainIds.length ||
+			chainIds.some((chainId) => !enabled.has(chainId))
+		) {
+			this.logger.warn(`Invalid network order for namespace ${namespace}:`, chainIds);
+			throw new Error(
+				`Network order must contain exactly the enabled networks of namespace ${namespace}`
+			);
+		}
+
+		ns.enabledChainIds = [...chainIds];
+		this.save();
+		this.emit('networksReordered', namespace, [...ns.enabledChainIds]);
+	}
+
+	/**
+	 * 把启用的网络移动到指定位置
+	 *
+	 * @param index 目标位置，超出范围时移动到开头或末尾
+	 * @throws 命名空间不存在或网络未启用时抛出错误
+	 */
+	moveNetwork(namespace: string, chainId: number, index: number): void {
+		const ns = this.requireNamespace(namespace);
+		const from = ns.enabledChainIds.indexOf(chainId);
+		if (from === -1) {
+			throw new Error(`Network ${chainId} is not enabled in namespace ${namespace}`);
+		}
+
+		const chainIds = ns.enabledChainIds.filter((id) => id !== chainId);
+		const to = Math.min(Math.max(index, 0), chainIds.length);
+		chainIds.splice(to, 0, chainId);
+		this.reorderNetworks(namespace, chainIds);
+	}
+
+	/**
+	 * 根据默认网络列表创建命名空间配置（忽略不存在的网络）
+	 */
+	private createNamespaceConfig(defaultChainIds?: number[]): NamespaceConfig {
+		// 如果没有提供默认列表，使用所有已有网络
+		const enabledIds =
+			defaultChainIds || Object.keys(this.config.networks).map((id) => parseInt(id));
+
+		const enabledChainIds = enabledIds.filter((id) => this.config.networks[id]);
+		return { enabledChainIds, currentChainId: enabledChainIds[0] };
+	}
+
+	/**
+	 * 获取命名空间，不存在时抛出错误
+	 */
+	private requireNamespace(namespace: string): NamespaceConfig {
+		const ns = this.config.namespaces[namespace];
+		if (!ns) {
+			this.logger.warn(`Namespace not found: ${namespace}`);
+			throw new Error(`Namespace not found: ${namespace}`);
+		}
+		return ns;
+	}
+
+	/**
+	 * 检查命名空间名称
+	 */
+	private assertNamespaceName(namespace: string): void {
+		if (typeof namespace !== 'string' || !namespace.trim()) {
+			throw new Error('Namespace name must be a non-empty string');
+		}
+	}
+
+	/**
+	 * 检查 RPC 端点健康状态
+	 *
+	 * 并发请求每个端点的 eth_chainId 和 eth_blockNumber，把结果写入端点的
+	 * isAvailable、latency、lastChecked，并为每个网络触发 rpcHealthChanged 事件
+	 *
+	 * @param chainId 只检查指定网络，不传时检查所有网络
+	 * @returns 所有端点的检查结果
+	 */
+	async checkRpcHealth(chainId?: number): Promise<RpcHealthResult[]> {
+		const networks =
+			chainId !== undefined
+				? [this.config.networks[chainId]].filter(Boolean)
+				: Object.values(this.config.networks);
+
+		const results = await Promise.all(
+			networks.map(async (network) => {
+				const networkResults = await Promise.all(
+					network.rpcEndpoints.map((endpoint) =>
+						checkRpcEndpoint(endpoint.url, network.chainId, this.healthCheckOptions)
+					)
+				);
+				this.applyRpcHealth(network.chainId, networkResults);
+				return networkResults;
+			})
+		);
+
+		return results.flat();
+	}
+
+	/**
+	 * 开始定时检查 RPC 端点
+	 *
+	 * 立即检查一次，之后每隔 interval 检查一次（上一轮完成后才开始计时，不会重叠）。
+	 * 重复调用会使用新的选项重新开始
+	 */
+	startHealthChecks(options: RpcHealthCheckOptions = {}): void {
+		this.stopHealthChecks();
+		this.healthCheckOptions = options;
+		const generation = this.healthCheckGeneration;
+
+		const interval = options.interval ?? DEFAULT_HEALTH_CHECK_INTERVAL;
+		const run = async () => {
+			await this.checkRpcHealth();
+			if (generation === this.healthCheckGeneration) {
+				this.healthCheckTimer = setTimeout(() => void run(), interval);
+			}
+		};
+		void run();
+	}
+
+	/**
+	 * 停止定时检查 RPC 端点
+	 */
+	stopHealthChecks(): void {
+		this.healthCheckGeneration++;
+		if (this.healthCheckTimer) {
+			clearTimeout(this.healthCheckTimer);
+			this.healthCheckTimer = null;
+		}
+	}
+
+	/**
+	 * 创建网络的 viem Transport
+	 *
+	 * 使用网络配置的所有 RPC 端点构建 fallback Transport，按健康检查结果排序
+	 * （可用且延迟低的优先），当前端点失败时自动切换到下一个
+	 *
+	 * @throws 网络不存在或没有 RPC 端点时抛出错误
+	 */
+	createNetworkTransport(
+		chainId: number,
+		options?: NetworkTransportOptions
+	): FallbackTransport<HttpTransport[]> {
+		const network = this.config.networks[chainId];
+		if (!network) {
+			throw new Error(`Network not found: ${chainId}`);
+		}
+		return createNetworkTransport(network, options);
+	}
+
+	/**
+	 * 获取网络的 viem PublicClient
+	 *
+	 * 不传 options 时返回缓存的实例，RPC 配置或健康状态变化后会重新创建
+	 *
+	 * @throws 网络不存在或没有 RPC 端点时抛出错误
+	 *
+	 * @example
+	 * ```typescript
+	 * const client = networkManager.getPublicClient(1);
+	 * const blockNumber = await client.getBlockNumber();
+	 * ```
+	 */
+	getPublicClient(chainId: number, options?: NetworkTransportOptions): PublicClient {
+		const cached = options ? undefined : this.publicClients.get(chainId);
+		if (cached) return cached;
+
+		const transport = this.createNetworkTransport(chainId, options);
+		const client = createPublicClient({
+			chain: networkConfigToChain(this.config.networks[chainId]),
+			transport
+		}) as PublicClient;
+
+		if (!options) {
+			this.publicClients.set(chainId, client);
+		}
+		return client;
+	}
+
+	/**
+	 * 把检查结果写入网络的 RPC 端点
+	 *
+	 * 检查期间网络可能已被删除或修改了 RPC，只更新仍然存在的端点
+	 */
+	private applyRpcHealth(chainId: number, results: RpcHealthResult[]): void {
+		const network = this.config.networks[chainId];
+		if (!network) return;
+
+		let changed = false;
+		network.rpcEndpoints = network.rpcEndpoints.map((endpoint) => {
+			const result = results.find((item) => item.url === endpoint.url);
+			if (!result) return endpoint;
+
+			changed = true;
+			if (!result.isAvailable) {
+				this.logger.debug(`RPC unavailable for chain ${chainId}: ${endpoint.url}`, result.error);
+			}
+			return {
+				...endpoint,
+				isAvailable: result.isAvailable,
+				latency: result.latency,
+				lastChecked: result.lastChecked
+			};
+		});
+
+		if (changed) {
+			// 端点排序可能变化，下次获取 PublicClient 时重新创建
+			this.publicClients.delete(chainId);
+			this.emit('rpcHealthChanged', chainId, network.rpcEndpoints);
 		}
 	}
+
+	/**
+	 * 销毁管理器
+	 *
+	 * 停止 RPC 健康检查、跨标签页同步并移除所有事件监听
+	 */
+	destroy(): void {
+		this.stopHealthChecks();
+		this.publicClients.clear();
+		this.unwatchStorage();
+		this.removeAllListeners();
+	}
+
+	/**
+	 * 导出网络配置
+	 *
+	 * 导出数据带有格式标识和 schema 版本号，不包含 RPC 健康状态，可以直接 JSON.stringify 保存或分享
+	 */
+	exportConfig(options?: ExportConfigOptions): NetworkConfigExport {
+		return createConfigExport(this.toStoredConfig(), options);
+	}
+
+	/**
+	 * 导入网络配置
+	 *
+	 * 校验不通过的网络不会导入，在结果的 rejected 中列出；
+	 * 本地和导入的配置不同时按合并策略处理，并在结果的 conflicts 中列出。
+	 * 使用异步存储时应先 await manager.ready
+	 *
+	 * @param input exportConfig() 的结果或它的 JSON 字符串
+	 * @throws 不是导出数据、版本过新或数据损坏时抛出错误（本地配置不变）
+	 */
+	importConfig(
+		input: NetworkConfigExport | string,
+		options?: ImportConfigOptions
+	): ConfigImportResult {
+		const incoming = parseConfigExport(input);
+		const { config, result } = mergeNetworkConfig(this.config, incoming, options);
+
+		this.config = config;
+		this.publicClients.clear();
+		this.save();
+
+		this.logger.info(
+			`Imported network config: ${result.added.length} added, ${result.updated.length} updated, ${result.rejected.length} rejected, ${result.conflicts.length} conflicts`
+		);
+		this.emit('configImported', this.config, result);
+		return result;
+	}
+
+	/**
+	 * 获取完整配置
+	 */
+	getConfig(): StoredNetworkConfig {
+		return this.config;
+	}
 }
@@ -0,0 +1,536 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mainnet, polygon } from 'viem/chains';
+import { WalletConnectionManager } from './wallet-connection-manager.js';
+import { createMemoryStorageAdapter } from '../storage-adapters.js';
+import type { StorageAdapter } from '../storage-adapters.js';
+import type { WalletConnectionManagerOptions } from '../types/manager.js';
+import type { SyncListener } from '../cross-tab-sync.js';
+import { AbortedError, DisconnectedError, UserRejectedError } from '../errors.js';
+import { createLogger, type LogSink } from '../logger.js';
+import {
+	MOCK_ACCOUNTS,
+	MockProvider,
+	createMockProviderDetail
+} from '../../testing/mock-provider.js';
+import { MockConnector } from '../../testing/mock-connector.js';
+import { EIP6963Connector } from '../../adapters/eip6963/connector.js';
+
+const chains = [mainnet, polygon];
+
+function createConnector(id = 'mock', provider = new MockProvider({ chainId: 1 })) {
+	return new MockConnector({ id, chains, provider });
+}
+
+function createManager(connectors: MockConnector[], options: WalletConnectionManagerOptions = {}) {
+	return new WalletConnectionManager(connectors, chains, {
+		storage: createMemoryStorageAdapter(),
+		...options
+	});
+}
+
+describe('WalletConnectionManager', () => {
+	it('connects and exposes the session in state', async () => {
+		const connector = createConnector();
+		const manager = createManager([connector]);
+
+		await manager.connect(connector, 137);
+
+		expect(manager.getState()).toMatchObject({
+			status: 'connected',
+			isConnected: true,
+			address: MOCK_ACCOUNTS[0],
+			chainId: 137,
+			connector
+		});
+		expect(manager.getSessions()).toHaveLength(1);
+	});
+
+	it('passes through the connection statuses', async () => {
+		const connector = createConnector('mock', new MockProvider({ chainId: 1, latency: 5 }));
+		const manager = createManager([connector]);
+		const statuses: string[] = [];
+		manager.watch(
+			(state) => state.status,
+			(status) => statuses.push(status)
+		);
+
+		await manager.connect(connector, 1);
+		await manager.switchChain(137);
+		await manager.disconnect();
+
+		expect(statuses).toEqual([
+			'connecting',
+			'connected',
+			'switchingChain',
+			'connected',
+			'disconnecting',
+			'disconnected'
+		]);
+	});
+
+	it('keeps the error when the user rejects the connection', async () => {
+		const connector = createConnector();
+		const manager = createManager([connector]);
+		connector.provider.rejectNext('eth_requestAccounts');
+
+		await expect(manager.connect(connector, 1)).rejects.toBeInstanceOf(UserRejectedError);
+
+		expect(manager.getState()).toMatchObject({ status: 'error', isConnected: false });
+		expect(manager.getState().error).toBeInstanceOf(UserRejectedError);
+	});
+
+	it('keeps the connection when switching chain fails', async () => {
+		const connector = createConnector();
+		const manager = createManager([connector]);
+		await manager.connect(connector, 1);
+		connector.provider.rejectNext('wallet_switchEthereumChain');
+
+		await expect(manager.switchChain(137)).rejects.toBeInstanceOf(UserRejectedError);
+
+		expect(manager.getState()).toMatchObject({ status: 'connected', chainId: 1 });
+	});
+
+	it('follows account and chain changes in the wallet', async () => {
+		const connector = createConnector();
+		const manager = createManager([connector]);
+		await manager.connect(connector, 1);
+
+		connector.provider.setAccounts([MOCK_ACCOUNTS[1]]);
+		await vi.waitFor(() => expect(manager.getState().address).toBe(MOCK_ACCOUNTS[1]));
+
+		connector.provider.setChainId(137);
+		await vi.waitFor(() => expect(manager.getState().chainId).toBe(137));
+
+		connector.provider.revoke();
+		expect(manager.getState()).toMatchObject({ status: 'disconnected', isConnected: false });
+	});
+
+	it('cancels a pending connection', async () => {
+		const connector = createConnector('mock', new MockProvider({ chainId: 1, latency: 20 }));
+		const manager = createManager([connector]);
+
+		const pending = manager.connect(connector, 1);
+		manager.cancelConnect();
+
+		await expect(pending).rejects.toBeInstanceOf(AbortedError);
+		expect(manager.getState()).toMatchObject({ status: 'disconnected', error: undefined });
+	});
+
+	it('replaces the previous connection in single-session mode', async () => {
+		const first = createConnector('first');
+		const second = createConnector('second');
+		const manager = createManager([first, second]);
+
+		await manager.connect(first, 1);
+		await manager.connect(second, 1);
+
+		expect(manager.getSessions().map((session) => session.connector.id)).toEqual(['second']);
+		expect(first.provider.isAuthorized()).toBe(false);
+	});
+
+	it('keeps several connections in multi-session mode', async () => {
+		const first = createConnector('first');
+		const second = createConnector('second', new MockProvider({ chainId: 137 }));
+		const manager = createManager([first, second], { multiSession: true });
+
+		await manager.connect(first, 1);
+		await manager.connect(second, 137);
+		expect(manager.getState()).toMatchObject({ connector: second, chainId: 137 });
+
+		manager.setActiveSession('first');
+		expect(manager.getState()).toMatchObject({ connector: first, chainId: 1 });
+
+		await manager.disconnect();
+		expect(manager.getState()).toMatchObject({ connector: second, isConnected: true });
+		expect(() => manager.setActiveSession('first')).toThrow(DisconnectedError);
+	});
+
+	it('emits connect and disconnect per session and activeSessionChanged on moves', async () => {
+		const first = createConnector('first');
+		const second = createConnector('second');
+		const manager = createManager([first, second], { multiSession: true });
+		const events: string[] = [];
+		manager.on('connect', (session) => events.push(`connect:${session.connector.id}`));
+		manager.on('disconnect', (session) => events.push(`disconnect:${session.connector.id}`));
+		manager.on('activeSessionChanged', (session, previous) =>
+			events.push(`active:${previous?.connector.id}->${session?.connector.id}`)
+		);
+
+		await manager.connect(first, 1);
+		await manager.connect(second, 1);
+		manager.setActiveSession('first');
+		await manager.disconnectSession('second');
+		await manager.disconnect();
+
+		expect(events).toEqual([
+			'connect:first',
+			'active:undefined->first',
+			'connect:second',
+			'active:first->second',
+			'active:second->first',
+			'disconnect:second',
+			'disconnect:first',
+			'active:first->undefined'
+		]);
+	});
+
+	it('keeps notifying when a state listener throws', async () => {
+		const connector = createConnector();
+		const sink = vi.fn<LogSink>();
+		const manager = createManager([connector], { logger: createLogger({ sink }) });
+		const error = new Error('listener failed');
+		const subscribed = vi.fn();
+		const onConnect = vi.fn();
+		manager.subscribe((state) => {
+			if (state.isConnected) throw error;
+		});
+		manager.watch(
+			(state) => {
+				if (state.isConnected) throw error;
+				return state.address;
+			},
+			() => {}
+		);
+		manager.subscribe(subscribed);
+		manager.on('connect', onConnect);
+
+		await manager.connect(connector, 1);
+
+		expect(subscribed).toHaveBeenLastCalledWith(expect.objectContaining({ isConnected: true }));
+		expect(onConnect).toHaveBeenCalledTimes(1);
+		expect(sink).toHaveBeenCalledWith(
+			expect.objectContaining({ level: 'error', message: 'State listener threw:', args: [error] })
+		);
+	});
+
+	it('reports listener errors to the console without a logger', async () => {
+		const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const connector = createConnector();
+		const manager = createManager([connector]);
+		const error = new Error('listener failed');
+		manager.on('connect', () => {
+			throw error;
+		});
+
+		await manager.connect(connector, 1);
+
+		expect(consoleError).toHaveBeenCalledWith('Listener for "connect" threw:', error);
+		consoleError.mockRestore();
+	});
+
+	it('switches chain on a connected wallet while another wallet is connecting', async () => {
+		const first = createConnector('first');
+		const second = createConnector('second', new MockProvider({ chainId: 1, latency: 30 }));
+		const manager = createManager([first, second], { multiSession: true });
+		await manager.connect(first, 1);
+
+		const connecting = manager.connect(second, 1);
+		expect(manager.getState().status).toBe('connecting');
+		await manager.switchChain(137);
+
+		expect(manager.getState()).toMatchObject({
+			status: 'connecting',
+			connector: first,
+			chainId: 137
+		});
+		await connecting;
+		expect(manager.getState()).toMatchObject({ status: 'connected', connector: second });
+		expect(manager.getSessions().map((session) => [session.connector.id, session.chainId])).toEqual(
+			[
+				['first', 137],
+				['second', 1]
+			]
+		);
+	});
+
+	it('restores the persisted connection', async () => {
+		const storage = createMemoryStorageAdapter();
+		const provider = new MockProvider({ chainId: 1 });
+		const connector = createConnector('mock', provider);
+		const manager = createManager([connector], { storage });
+		await manager.connect(connector, 137);
+		manager.destroy();
+
+		const restored = createManager([createConnector('mock', provider)], { storage });
+		const result = await restored.autoConnect();
+
+		expect(result.restored).toBe(true);
+		expect(restored.getState()).toMatchObject({
+			status: 'connected',
+			address: MOCK_ACCOUNTS[0],
+			chainId: 137
+		});
+	});
+
+	it('drops the persisted connection when the wallet is no longer authorized', async () => {
+		const storage: StorageAdapter = createMemoryStorageAdapter();
+		const connector = createConnector();
+		const manager = createManager([connector], { storage });
+		await manager.connect(connector, 1);
+		manager.destroy();
+
+		const restored = createManager([createConnector('mock', new MockProvider())], { storage });
+		const result = await restored.autoConnect();
+
+		expect(result).toMatchObject({ restored: false, reason: 'not_authorized' });
+		expect(restored.getState().status).toBe('disconnected');
+		expect(await storage.getItem('connection')).toBeNull();
+	});
+
+	it('ignores a change from another tab when a local connection starts meanwhile', async () => {
+		let notify: SyncListener = () => {};
+		const crossTabSync = {
+			publish: () => {},
+			subscribe: (listener: SyncListener) => {
+				notify = listener;
+				return () => {};
+			}
+		};
+		const first = createConnector(
+			'first',
+			new MockProvider({ chainId: 1, authorized: true, latency: 20 })
+		);
+		const second = createConnector('second');
+		const manager = createManager([first, second], { crossTabSync });
+		const now = Date.now();
+
+		notify(
+			'connection',
+			JSON.stringify({
+				version: 3,
+				data: {
+					activeConnectorId: 'first',
+					sessions: [
+						{
+							connectorId: 'first',
+							address: MOCK_ACCOUNTS[0],
+							chainId: 1,
+							timestamp: now,
+							connectedAt: now
+						}
+					]
+				}
+			})
+		);
+		await manager.connect(second, 1);
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		expect(manager.getSessions().map((session) => session.connector.id)).toEqual(['second']);
+		expect(manager.getState().connector).toBe(second);
+	});
+
+	describe('session expiry and restore failures', () => {
+		const HOUR = 60 * 60 * 1000;
+		const start = new Date('2026-01-01T00:00:00Z').getTime();
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		/**
+		 * 在 start 时连接并保存，返回存储和钱包
+		 */
+		async function persistSession(options: WalletConnectionManagerOptions = {}) {
+			vi.useFakeTimers({ toFake: ['Date'] });
+			vi.setSystemTime(start);
+			const storage = createMemoryStorageAdapter();
+			const provider = new MockProvider({ chainId: 1 });
+			const connector = createConnector('mock', provider);
+			const manager = createManager([connector], { storage, ...options });
+			await manager.connect(connector, 1);
+			return { storage, provider, manager };
+		}
+
+		function restoreAt(
+			time: number,
+			{ storage, provider }: { storage: StorageAdapter; provider: MockProvider },
+			options: WalletConnectionManagerOptions = {}
+		) {
+			vi.setSystemTime(time);
+			return createManager([createConnector('mock', provider)], { storage, ...options });
+		}
+
+		it('expires a fixed session from when it was connected, despite activity', async () => {
+			const sessionExpiry = { type: 'fixed', maxAge: HOUR } as const;
+			const persisted = await persistSession({ sessionExpiry });
+			vi.setSystemTime(start + 50 * 60 * 1000);
+			persisted.manager.refreshSession();
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			persisted.manager.destroy();
+
+			const restored = restoreAt(start + 70 * 60 * 1000, persisted, { sessionExpiry });
+			const result = await restored.autoConnect();
+
+			expect(result).toMatchObject({
+				restored: false,
+				reason: 'expired',
+				failures: [{ connectorId: 'mock', reason: 'expired' }]
+			});
+			expect(await persisted.storage.getItem('connection')).toBeNull();
+		});
+
+		it('extends a sliding session on activity', async () => {
+			const sessionExpiry = { type: 'sliding', maxAge: HOUR } as const;
+			const persisted = await persistSession({ sessionExpiry });
+			vi.setSystemTime(start + 50 * 60 * 1000);
+			persisted.manager.refreshSession();
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			persisted.manager.destroy();
+
+			const restored = restoreAt(start + 70 * 60 * 1000, persisted, { sessionExpiry });
+
+			expect(await restored.autoConnect()).toMatchObject({ restored: true, failures: [] });
+			expect(restored.getState().status).toBe('connected');
+		});
+
+		it('expires an idle sliding session after maxAge', async () => {
+			const sessionExpiry = { type: 'sliding', maxAge: HOUR } as const;
+			const persisted = await persistSession({ sessionExpiry });
+			persisted.manager.destroy();
+
+			const restored = restoreAt(start + 2 * HOUR, persisted, { sessionExpiry });
+
+			expect(await restored.autoConnect()).toMatchObject({ restored: false, reason: 'expired' });
+		});
+
+		it('never expires a session with the never policy', async () => {
+			const persisted = await persistSession();
+			persisted.manager.destroy();
+
+			const restored = restoreAt(start + 365 * 24 * HOUR, persisted, {
+				sessionExpiry: { type: 'never' }
+			});
+
+			expect(await restored.autoConnect()).toMatchObject({ restored: true });
+		});
+
+		it('reports why each session could not be restored', async () => {
+			const storage = createMemoryStorageAdapter();
+			const providers = {
+				ok: new MockProvider({ chainId: 1 }),
+				revoked: new MockProvider({ chainId: 1 }),
+				removed: new MockProvider({ chainId: 1 }),
+				broken: new MockProvider({ chainId: 1 })
+			};
+			const connectors = Object.entries(providers).map(([id, provider]) =>
+				createConnector(id, provider)
+			);
+			const manager = createManager(connectors, { storage, multiSession: true });
+			for (const connector of connectors) {
+				await manager.connect(connector, 1);
+			}
+			manager.destroy();
+
+			const restored = createManager(
+				[
+					createConnector('ok', providers.ok),
+					createConnector('revoked', new MockProvider()),
+					createConnector('broken', providers.broken)
+				],
+				{ storage, multiSession: true }
+			);
+			providers.broken.rejectNext('eth_chainId');
+			const result = await restored.autoConnect();
+
+			expect(result.restored).toBe(true);
+			expect(result.sessions.map((session) => session.connector.id)).toEqual(['ok']);
+			expect(result.failures).toEqual([
+				{ connectorId: 'revoked', reason: 'not_authorized' },
+				{ connectorId: 'removed', reason: 'connector_not_found' },
+				{ connectorId: 'broken', reason: 'restore_failed', error: expect.any(Error) as Error }
+			]);
+		});
+
+		it('cancels the restore when a connection starts meanwhile', async () => {
+			const storage = createMemoryStorageAdapter();
+			const provider = new MockProvider({ chainId: 1, latency: 20 });
+			const manager = createManager([createConnector('first', provider)], { storage });
+			await manager.connect(manager.getConnectors()[0], 1);
+			manager.destroy();
+
+			const second = createConnector('second');
+			const restored = createManager([createConnector('first', provider), second], { storage });
+			const finished = vi.fn();
+			restored.on('autoConnectFinished', finished);
+
+			const pending = restored.autoConnect();
+			await vi.waitFor(() => expect(restored.getState().status).toBe('reconnecting'), {
+				interval: 1
+			});
+			await restored.connect(second, 1);
+
+			expect(await pending).toMatchObject({ restored: false, reason: 'cancelled' });
+			expect(finished).toHaveBeenCalledWith(expect.objectContaining({ reason: 'cancelled' }));
+			expect(restored.getSessions().map((session) => session.connector.id)).toEqual(['second']);
+		});
+	});
+
+	describe('EIP-6963 wallets announced after autoConnect', () => {
+		const info = { rdns: 'io.metamask', name: 'MetaMask' };
+
+		afterEach(() => {
+			vi.unstubAllGlobals();
+		});
+
+		/**
+		 * 通过 EIP-6963 连接器连接并保存，返回存储和钱包
+		 */
+		async function persistEIP6963Session() {
+			const storage = createMemoryStorageAdapter();
+			const provider = new MockProvider({ chainId: 1 });
+			const connector = new EIP6963Connector({
+				chains,
+				shimDisconnect: true,
+				providerDetail: createMockProviderDetail(provider, info)
+			});
+			const manager = new WalletConnectionManager([connector], chains, { storage });
+			await manager.connect(connector, 1);
+			manager.destroy();
+			return { storage, provider };
+		}
+
+		function announce(provider: MockProvider) {
+			window.dispatchEvent(
+				new CustomEvent('eip6963:announceProvider', {
+					detail: createMockProviderDetail(provider, info)
+				})
+			);
+		}
+
+		it('creates the connector when the wallet announces itself late', async () => {
+			const { storage, provider } = await persistEIP6963Session();
+			vi.stubGlobal('window', new EventTarget());
+			const manager = createManager([], { storage, eip6963Timeout: 1000 });
+
+			const pending = manager.autoConnect();
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			announce(provider);
+			const result = await pending;
+
+			expect(result.restored).toBe(true);
+			expect(manager.getConnectors().map((connector) => connector.id)).toEqual([
+				'eip6963:io.metamask'
+			]);
+			expect(manager.getState()).toMatchObject({
+				status: 'connected',
+				address: MOCK_ACCOUNTS[0],
+				connector: manager.getConnector('eip6963:io.metamask')
+			});
+		});
+
+		it('gives up when no wallet announces itself in time', async () => {
+			const { storage } = await persistEIP6963Session();
+			vi.stubGlobal('window', new EventTarget());
+			const manager = createManager([], { storage, eip6963Timeout: 20 });
+
+			const result = await manager.autoConnect();
+
+			expect(result).toMatchObject({
+				restored: false,
+				reason: 'connector_not_found',
+				failures: [{ connectorId: 'eip6963:io.metamask', reason: 'connector_not_found' }]
+			});
+			expect(manager.getConnectors()).toEqual([]);
+		});
+	});
+});
@@ -1,24 +1,85 @@
 import type { Address, Chain } from 'viem';
 import type {
+	AutoConnectFailure,
+	AutoConnectResult,
 	ConnectionManager,
+	ConnectionManagerEvents,
+	ConnectionSession,
 	ConnectionState,
 	Connector,
-	PersistedConnection
+	ConnectorOperationOptions,
+	PersistedConnection,
+	PersistedSessions,
+	SessionExpiryPolicy,
+	StateWatchOptions
 } from '../types/index.js';
-import { createStorage } from '../create-storage.js';
+import type { WalletConnectionManagerOptions } from '../types/manager.js';
+import { createStorage, type Storage } from '../create-storage.js';
+import { connectionSchema } from '../schemas.js';
+import { resolveSyncTransport } from '../cross-tab-sync.js';
+import { silentLogger, type Logger } from '../logger.js';
+import {
+	AbortedError,
+	DisconnectedError,
+	UnrecognizedChainError,
+	toConnectorError
+} from '../errors.js';
+import { throwIfAborted } from '../abort.js';
+import { ConnectionStateMachine } from '../connection-state-machine.js';
+import { EventEmitter } from '../event-emitter.js';
+import type { ConnectionInfo } from '../types/events.js';
 import { isExpired } from '../../utils/format.js';
+import { EIP6963Connector } from '../../adapters/eip6963/connector.js';
+import { watchEIP6963Wallets } from '../../adapters/eip6963/discovery.js';
+import type { EIP6963ProviderDetail } from '../../adapters/eip6963/types.js';
 
-const CONNECTION_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours
+const DEFAULT_SESSION_EXPIRY: SessionExpiryPolicy = {
+	type: 'sliding',
+	maxAge: 24 * 60 * 60 * 1000 // 24 hours
+};
+const DEFAULT_NAMESPACE = 'default';
+const DEFAULT_EIP6963_TIMEOUT = 1000;
+
+/**
+ * 获取命名空间的连接存储键名
+ *
+ * 默认命名空间使用原来的 'connection' 键，兼容已保存的连接
+ */
+export function getConnectionStorageKey(namespace = DEFAULT_NAMESPACE): string {
+	return namespace === DEFAULT_NAMESPACE ? 'connection' : `connection:${namespace}`;
+}
+
+/**
+ * 从状态中取出当前激活的连接
+ */
+function toActiveSession(state: ConnectionState): ConnectionSession | undefined {
+	const { connector, address, addresses, chainId, chains } = state;
+	if (!connector || !address || chainId === undefined) return undefined;
+	return {
+		connector,
+		address,
+		addresses: addresses ?? [address],
+		chainId,
+		chains: chains ?? [chainId]
+	};
+}
 
 /**
  * 连接管理器实现
  * 负责管理所有连接器，处理连接状态，以及持久化
  *
+ * 默认同一时间只保持一个连接；开启 multiSession 后可以同时连接多个钱包，
+ * address、chainId 等状态字段始终描述当前激活的连接
+ *
  * 完全框架无关，可以在任何环境中使用
  */
-export class WalletConnectionManager implements ConnectionManager {
+export class WalletConnectionManager
+	extends EventEmitter<ConnectionManagerEvents>
+	implements ConnectionManager
+{
 	private connectors: Map<string, Connector> = new Map();
 	private state: ConnectionState = {
+		status: 'disconnected',
 		isConnected: false,
 		isConnecting: false,
 		address: undefined,
@@ -26,14 +87,68 @@ export class WalletConnectionManager implements ConnectionManager {
 		chainId: undefined,
 		chains: undefined,
 		connector: undefined,
-		error: undefined
+		error: undefined,
+		sessions: []
 	};
+	private sessions = new Map<string, ConnectionSession>(); // 按连接器 ID 索引，保持连接顺序
+	private activeConnectorId: string | undefined;
+	private pendingConnector: Connector | undefined; // 正在连接的连接器
+	private pendingOperation: number | undefined; // 正在进行的连接的操作编号
+	private pendingController: AbortController | undefined; // 用于中止连接器中进行中的请求
+	private pendingInfo: ConnectionInfo | undefined; // 连接过程中连接器 connected 事件携带的信息
+	private cancelledConnections = new Map<Connector, number>(); // 已取消但还没有结束的连接（操作编号）
+	private chainSwitches = new Map<string, number>(); // 按连接器 ID 索引，每个连接最新的切换网络操作编号
+	private chainSwitchCount = 0;
+	private machine = new ConnectionStateMachine();
+	private multiSession: boolean;
 	private listeners = new Set<(state: ConnectionState) => void>();
-	private storage = createStorage<PersistedConnection>('connection', 'ConnectionStorage');
+	private storage: Storage<PersistedSessions>;
+	private unwatchStorage: () => void;
+	private logger: Logger;
+	private hasLogger: boolean; // 是否传入了 logger，决定监听器错误的输出位置
 	private chains: Chain[] = []; // dApp 支持的链列表
-
-	constructor(connectors: Connector[] = [], chains: Chain[] = []) {
+	private namespace: string;
+	private sessionExpiry: SessionExpiryPolicy;
+	private eip6963Timeout: number;
+	private createEIP6963Connector: (providerDetail: EIP6963ProviderDetail) => Connector;
+	private sessionTimestamps = new Map<string, { connectedAt: number; lastActiveAt: number }>(); // 按连接器 ID 索引
+
+	constructor(
+		connectors: Connector[] = [],
+		chains: Chain[] = [],
+		options: WalletConnectionManagerOptions = {}
+	) {
+		super();
 		this.chains = chains;
+		this.multiSession = options.multiSession ?? false;
+		this.namespace = options.namespace ?? DEFAULT_NAMESPACE;
+		this.sessionExpiry = options.sessionExpiry ?? DEFAULT_SESSION_EXPIRY;
+		this.eip6963Timeout = options.eip6963Timeout ?? DEFAULT_EIP6963_TIMEOUT;
+		this.createEIP6963Connector =
+			options.createEIP6963Connector ??
+			((providerDetail) =>
+				new EIP6963Connector({
+					chains: this.chains,
+					shimDisconnect: true,
+					logger: options.logger,
+					providerDetail
+				}));
+		this.logger = (options.logger ?? silentLogger).child('Manager');
+		this.hasLogger = !!options.logger;
+		const storageKey = options.connectionStorageKey ?? getConnectionStorageKey(this.namespace);
+		this.storage = createStorage<PersistedSessions>(storageKey, {
+			adapter: options.storage,
+			keyPrefix: options.storageKeyPrefix,
+			schema: connectionSchema,
+			sync: resolveSyncTransport(options.crossTabSync),
+			logName: 'ConnectionStorage',
+			logger: this.logger
+		});
+
+		// 跨标签页同步
+		this.unwatchStorage = this.storage.watch((persisted) => {
+			void this.handleRemoteSessions(persisted);
+		});
 
 		// 注册连接器
 		connectors.forEach((connector) => {
@@ -45,6 +160,7 @@ export class WalletConnectionManager implements ConnectionManager {
 	 * 注册连接器
 	 */
 	registerConnector(connector: Connector): void {
+		const previousConnectors = this.getConnectors();
 		this.connectors.set(connector.id, connector);
 
 		// 确保新注册的连接器使用当前的 chains
@@ -58,65 +174,68 @@ export class WalletConnectionManager implements ConnectionManager {
 		}
 
 		// 设置连接器事件监听
-		connector.on('connected', ({ address, addresses, chainId, chains }) => {
-			this.updateState({
-				isConnected: true,
-				isConnecting: false,
-				address,
-				addresses, // Already required in ConnectionInfo
-				chainId,
-				chains, // Already required in ConnectionInfo
-				connector,
-				error: undefined
-			});
-			this.persistConnection();
+		connector.on('connected', (info) => {
+			// 主动发起的连接以 connect() 的结果为准，这里只记录事件信息，避免两处同时更新状态
+			if (this.pendingConnector === connector) {
+				this.pendingInfo = info;
+				return;
+			}
+			// 已取消的连接稍后才完成，丢弃
+			if (this.cancelledConnections.has(connector)) {
+				this.logger.debug('Ignoring connected event from cancelled connection:', connector.id);
+				return;
+			}
+
+			// 钱包主动连接（如 WalletConnect 恢复会话）：多连接模式下只有第一个连接会成为激活连接
+			const { address, addresses, chainId, chains } = info;
+			const activate = !this.multiSession || !this.activeConnectorId;
+			this.touchSession(connector.id, !this.sessions.has(connector.id));
+			this.setSession({ connector, address, addresses, chainId, chains }, activate);
+			this.updateSessionsState({ error: undefined });
+			void this.persistSessions();
 		});
 
 		connector.on('disconnected', () => {
-			console.log('[Manager] Received disconnect event from connector:', connector.name);
-			if (this.state.connector === connector) {
-				console.log('[Manager] Clearing connection state due to disconnect event');
-				this.updateState({
-					isConnected: false,
-					isConnecting: false,
-					address: undefined,
-					addresses: undefined,
-					chainId: undefined,
-					chains: undefined,
-					connector: undefined,
-					error: undefined
-				});
-				this.storage.clear();
+			this.logger.debug('Received disconnect event from connector:', connector.name);
+			if (this.sessions.has(connector.id)) {
+				this.logger.debug('Clearing connection state due to disconnect event');
+				this.removeSession(connector.id);
+				this.updateSessionsState({ error: undefined });
+				void this.persistSessions();
 			}
 		});
 
 		connector.on('permissionChanged', ({ address, addresses, chainId, chains }) => {
-			console.log('[Manager] Received permissionChanged event:', { address, chainId, chains });
-			if (this.state.connector === connector) {
-				console.log('[Manager] Updating state with new permission info');
+			this.logger.debug('Received permissionChanged event:', { address, chainId, chains });
+			const session = this.sessions.get(connector.id);
+			if (session) {
+				this.logger.debug('Updating state with new permission info');
 				// Update all connection info
-				this.updateState({
-					...this.state,
+				this.sessions.set(connector.id, {
+					...session,
 					address,
 					addresses, // Already required in ConnectionInfo
 					chainId,
 					chains // Already required in ConnectionInfo
 				});
-				this.persistConnection();
+				this.touchSession(connector.id);
+				this.updateSessionsState();
+				void this.persistSessions();
 			}
 		});
 
 		connector.on('error', (error) => {
-			console.log('[Manager] Connector error:', error);
+			this.logger.debug('Connector error:', error);
+			// 取消的操作不是错误，由发起操作的方法处理
+			if (error instanceof AbortedError) return;
 			// Only update error state, don't disconnect or clear connection info
-			if (this.state.connector === connector || this.state.isConnecting) {
-				this.updateState({
-					...this.state,
-					error,
-					isConnecting: false
-				});
+			// 状态由发起操作的方法（connect、switchChain）在失败时更新
+			if (this.state.connector === connector || this.pendingConnector === connector) {
+				this.updateSessionsState({ error: toConnectorError(error, connector.id) });
 			}
 		});
+
+		this.emit('connectorsChanged', this.getConnectors(), previousConnectors);
 	}
 
 	/**
@@ -135,261 +254,746 @@ export class WalletConnectionManager implements ConnectionManager {
 
 	/**
 	 * 连接钱包
+	 *
+	 * 单连接模式下会先断开已有连接；多连接模式下保留已有连接，新连接成为激活连接。
+	 * 连接过程中 signal 被取消、调用 cancelConnect() 或再次调用 connect() 时，
+	 * 连接器中进行中的请求被中止，本次连接的结果会被丢弃
+	 *
+	 * @throws AbortedError 连接被取消或被新的连接取代时抛出
+	 * @throws InvalidStateTransitionError 正在切换网络或断开连接时抛出
 	 */
-	async connect(connector: Connector, chainId: number): Promise<void> {
+	async connect(
+		connector: Connector,
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<void> {
+		const { signal } = options;
+		throwIfAborted(signal, connector.id);
+
 		// 如果已有连接，先断开
-		if (this.state.connector && this.state.connector !== connector) {
-			await this.state.connector.disconnect();
+		const previous = this.state.connector;
+		if (!this.multiSession && previous && previous !== connector) {
+			await this.disconnectSession(previous.id);
 		}
 
-		this.updateState({
-			...this.state,
-			isConnecting: true,
-			error: undefined
-		});
+		const operation = this.machine.begin('connecting');
+		this.abandonPendingConnection(connector);
+		const controller = new AbortController();
+		this.pendingConnector = connector;
+		this.pendingOperation = operation;
+		this.pendingController = controller;
+		this.updateSessionsState({ error: undefined });
+
+		// 外部 signal 取消时与 cancelConnect() 相同
+		const onAbort = () => {
+			if (this.pendingOperation === operation) {
+				this.cancelConnect();
+			}
+		};
+		signal?.addEventListener('abort', onAbort, { once: true });
 
 		try {
-			const result = await connector.connect(chainId);
-
-			// 连接成功，状态会通过事件更新
-			this.updateState({
-				isConnected: true,
-				isConnecting: false,
-				address: result.address,
-				addresses: result.addresses || [result.address],
-				chainId: result.chainId,
-				connector,
-				error: undefined
-			});
+			const result = await connector.connect(chainId, { signal: controller.signal });
 
-			this.persistConnection();
+			if (!this.machine.isCurrent(operation)) {
+				this.logger.debug('Dropping stale connect result:', connector.id);
+				throw new AbortedError('Connection was cancelled', { connectorId: connector.id });
+			}
+
+			// 连接成功（connected 事件中的授权链列表优先）
+			this.touchSession(connector.id, true);
+			this.setSession(
+				{
+					connector,
+					address: result.address,
+					addresses: result.addresses || [result.address],
+					chainId: result.chainId,
+					chains:
+						this.pendingInfo?.chains ??
+						this.sessions.get(connector.id)?.chains ??
+						this.getConnectorChains(connector)
+				},
+				true
+			);
+			this.machine.transition('connected');
+			this.updateSessionsState({ error: undefined });
+
+			void this.persistSessions();
 		} catch (error) {
-			this.updateState({
-				...this.state,
-				isConnecting: false,
-				error: error as Error
+			const err = toConnectorError(error, connector.id);
+			if (this.machine.isCurrent(operation)) {
+				this.machine.transition(this.activeConnectorId ? 'connected' : 'error');
+				this.updateSessionsState({ error: err });
+			}
+			throw err;
+		} finally {
+			signal?.removeEventListener('abort', onAbort);
+			if (this.cancelledConnections.get(connector) === operation) {
+				this.cancelledConnections.delete(connector);
+			}
+			if (this.pendingOperation === operation) {
+				this.clearPendingConnection();
+			}
+		}
+	}
+
+	/**
+	 * 放弃正在进行的连接（被取消或被新的连接取代）
+	 *
+	 * 中止连接器中进行中的请求，之后返回的结果和 connected 事件都会被丢弃，并尝试断开该连接器
+	 *
+	 * @param next 取代它的连接器，与正在连接的连接器相同时不断开
+	 */
+	private abandonPendingConnection(next?: Connector): void {
+		const connector = this.pendingConnector;
+		const operation = this.pendingOperation;
+		const controller = this.pendingController;
+		this.clearPendingConnection();
+		if (!connector || operation === undefined) return;
+
+		this.cancelledConnections.set(connector, operation);
+		controller?.abort();
+		if (connector !== next && !this.sessions.has(connector.id)) {
+			// 异步断开，但不等待结果
+			void connector.disconnect().catch((error) => {
+				this.logger.warn('Error disconnecting abandoned connection:', error);
 			});
-			throw error;
 		}
 	}
 
 	/**
-	 * 断开连接
+	 * 清除正在进行的连接的信息
+	 */
+	private clearPendingConnection(): void {
+		this.pendingConnector = undefined;
+		this.pendingOperation = undefined;
+		this.pendingController = undefined;
+		this.pendingInfo = undefined;
+	}
+
+	/**
+	 * 断开当前激活的连接
+	 *
+	 * 多连接模式下，其余连接中最早建立的一个会成为新的激活连接
 	 */
 	async disconnect(): Promise<void> {
-		if (this.state.connector) {
-			// 立即清除持久化信息
-			this.storage.clear();
-			await this.state.connector.disconnect();
-			// 状态会通过事件更新
+		if (this.activeConnectorId) {
+			await this.disconnectSession(this.activeConnectorId);
+		}
+	}
+
+	/**
+	 * 断开指定连接器的连接
+	 *
+	 * @param connectorId 连接器 ID
+	 */
+	async disconnectSession(connectorId: string): Promise<void> {
+		const session = this.sessions.get(connectorId);
+		if (!session) {
+			this.logger.debug('No session to disconnect for connector:', connectorId);
+			return;
+		}
+
+		// 断开激活的连接时进入 disconnecting 状态（其他操作进行中时不改变状态）
+		const operation =
+			connectorId === this.activeConnectorId && this.machine.status === 'connected'
+				? this.machine.begin('disconnecting')
+				: undefined;
+
+		// 立即清除会话和持久化信息
+		this.removeSession(connectorId);
+		this.updateSessionsState({ error: undefined });
+		await this.persistSessions();
+
+		try {
+			await session.connector.disconnect();
+		} finally {
+			if (operation !== undefined && this.machine.isCurrent(operation)) {
+				this.machine.transition(this.activeConnectorId ? 'connected' : 'disconnected');
+				this.updateSessionsState();
+			}
+		}
+	}
+
+	/**
+	 * 断开所有连接
+	 */
+	async disconnectAll(): Promise<void> {
+		await Promise.all(
+			Array.from(this.sessions.keys()).map((connectorId) => this.disconnectSession(connectorId))
+		);
+	}
+
+	/**
+	 * 获取所有连接
+	 */
+	getSessions(): ConnectionSession[] {
+		return Array.from(this.sessions.values()).map((session) => ({ ...session }));
+	}
+
+	/**
+	 * 获取当前激活的连接
+	 */
+	getActiveSession(): ConnectionSession | undefined {
+		const session = this.activeConnectorId ? this.sessions.get(this.activeConnectorId) : undefined;
+		return session ? { ...session } : undefined;
+	}
+
+	/**
+	 * 切换当前激活的连接
+	 *
+	 * @param connectorId 已连接的连接器 ID
+	 */
+	setActiveSession(connectorId: string): void {
+		if (!this.sessions.has(connectorId)) {
+			throw new DisconnectedError(`Connector [${connectorId}] is not connected`, { connectorId });
 		}
+
+		if (this.activeConnectorId === connectorId) {
+			return;
+		}
+
+		this.logger.debug('Activating session:', connectorId);
+		this.activeConnectorId = connectorId;
+		this.updateSessionsState({ error: undefined });
+		void this.persistSessions();
 	}
 
 	/**
 	 * 取消正在进行的连接
 	 *
-	 * 用于取消连接过程中的操作（如关闭 WalletConnect QR 码弹窗）
-	 * 将状态重置为未连接状态
+	 * 用于取消连接过程中的操作（如关闭 WalletConnect QR 码弹窗），
+	 * 连接器会中止进行中的请求（如 WalletConnect 配对），已建立的连接不受影响
 	 */
 	cancelConnect(): void {
-		if (!this.state.isConnecting) {
-			console.log('[Manager] No connection in progress to cancel');
+		if (this.machine.status !== 'connecting') {
+			this.logger.debug('No connection in progress to cancel');
 			return;
 		}
 
-		console.log('[Manager] Cancelling connection attempt');
+		this.logger.debug('Cancelling connection attempt');
 
-		// 如果有正在连接的连接器，尝试断开
-		if (this.state.connector) {
-			// 异步断开，但不等待结果
-			void this.state.connector.disconnect().catch((error) => {
-				console.warn('[Manager] Error disconnecting during cancel:', error);
+		this.abandonPendingConnection();
+		this.machine.invalidate();
+		this.machine.transition(this.activeConnectorId ? 'connected' : 'disconnected');
+		this.updateSessionsState({ error: undefined });
+
+		this.logger.debug('Connection cancelled');
+	}
+
+	/**
+	 * 自动连接（从本地存储恢复）
+	 *
+	 * 单连接模式只恢复上次激活的连接，多连接模式恢复所有连接。
+	 * 按 sessionExpiry 策略丢弃过期的连接，恢复成功视为一次活动（sliding 策略下重新计时）
+	 *
+	 * @returns 恢复结果，restored 为 false 时 reason 说明原因
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await manager.autoConnect();
+	 * if (!result.restored && result.reason === 'not_authorized') {
+	 *   showToast('Please reconnect your wallet');
+	 * }
+	 * ```
+	 */
+	async autoConnect(): Promise<AutoConnectResult> {
+		const persisted = await this.storage.load();
+		this.logger.debug('autoConnect - persisted sessions:', persisted);
+
+		if (!persisted || persisted.sessions.length === 0) {
+			this.logger.debug('No persisted connection found');
+			return this.finishAutoConnect({
+				restored: false,
+				reason: 'no_persisted_session',
+				sessions: [],
+				failures: []
 			});
 		}
 
-		// 重置为初始状态
-		this.updateState({
-			isConnected: false,
-			isConnecting: false,
-			address: undefined,
-			addresses: undefined,
-			chainId: undefined,
-			chains: undefined,
-			connector: undefined,
-			error: undefined
+		const activePersisted =
+			persisted.sessions.find((item) => item.connectorId === persisted.activeConnectorId) ??
+			persisted.sessions[0];
+		const candidates = this.multiSession ? persisted.sessions : [activePersisted];
+		const failures: AutoConnectFailure[] = [];
+		const restored: { session: ConnectionSession; connectedAt: number }[] = [];
+
+		const operation = this.machine.begin('reconnecting');
+		this.updateSessionsState();
+
+		for (const item of candidates) {
+			const result = await this.restorePersistedConnection(item);
+			if (!this.machine.isCurrent(operation)) {
+				// 恢复过程中调用了 connect()，以新的连接为准
+				this.logger.debug('autoConnect superseded, dropping restored sessions');
+				return this.finishAutoConnect({
+					restored: false,
+					reason: 'cancelled',
+					sessions: [],
+					failures
+				});
+			}
+			if ('reason' in result) {
+				failures.push(result);
+			} else {
+				restored.push({ session: result, connectedAt: item.connectedAt });
+			}
+		}
+
+		restored.forEach(({ session, connectedAt }) => {
+			this.sessionTimestamps.set(session.connector.id, {
+				connectedAt,
+				lastActiveAt: Date.now()
+			});
+			this.setSession(session, false);
 		});
 
-		console.log('[Manager] Connection cancelled');
+		if (this.sessions.size === 0) {
+			this.machine.transition('disconnected');
+			this.updateSessionsState();
+			await this.storage.clear();
+			const failure =
+				failures.find((item) => item.connectorId === activePersisted.connectorId) ?? failures[0];
+			this.logger.debug('No connection restored:', failure?.reason);
+			return this.finishAutoConnect({
+				restored: false,
+				reason: failure?.reason,
+				sessions: [],
+				failures
+			});
+		}
+
+		if (this.sessions.has(activePersisted.connectorId)) {
+			this.activeConnectorId = activePersisted.connectorId;
+		}
+		this.ensureActiveSession();
+		this.machine.transition('connected');
+		this.updateSessionsState({ error: undefined });
+
+		// 更新持久化信息（最后活动时间，以及去掉恢复失败的连接）
+		await this.persistSessions();
+
+		this.logger.debug('Connection state restored successfully');
+		return this.finishAutoConnect({ restored: true, sessions: this.getSessions(), failures });
 	}
 
 	/**
-	 * 自动连接（从本地存储恢复）
+	 * 结束 autoConnect，触发 autoConnectFinished 事件
 	 */
-	async autoConnect(): Promise<boolean> {
-		const persisted = this.storage.load();
-		console.log('[Manager] autoConnect - persisted connection:', persisted);
+	private finishAutoConnect(result: AutoConnectResult): AutoConnectResult {
+		this.emit('autoConnectFinished', result);
+		return result;
+	}
 
-		if (!persisted) {
-			console.log('[Manager] No persisted connection found');
-			return false;
+	/**
+	 * 记录连接的活动（如用户操作），sliding 策略下重新计算过期时间
+	 *
+	 * 连接、切换账户或网络、权限变化时会自动记录
+	 *
+	 * @param connectorId 连接器 ID，默认为当前激活的连接
+	 */
+	refreshSession(connectorId = this.activeConnectorId): void {
+		if (!connectorId || !this.sessions.has(connectorId)) {
+			this.logger.debug('No session to refresh:', connectorId);
+			return;
+		}
+
+		this.touchSession(connectorId);
+		void this.persistSessions();
+	}
+
+	/**
+	 * 检查持久化的连接是否已按过期策略过期
+	 */
+	private isSessionExpired(persisted: PersistedConnection): boolean {
+		switch (this.sessionExpiry.type) {
+			case 'fixed':
+				return isExpired(persisted.connectedAt, this.sessionExpiry.maxAge);
+			case 'sliding':
+				return isExpired(persisted.timestamp, this.sessionExpiry.maxAge);
+			case 'never':
+				return false;
 		}
+	}
+
+	/**
+	 * 更新连接的活动时间
+	 *
+	 * @param reset 是否为新建立的连接（同时重置建立时间）
+	 */
+	private touchSession(connectorId: string, reset = false): void {
+		const now = Date.now();
+		const existing = this.sessionTimestamps.get(connectorId);
+		this.sessionTimestamps.set(connectorId, {
+			connectedAt: reset || !existing ? now : existing.connectedAt,
+			lastActiveAt: now
+		});
+	}
+
+	/**
+	 * 检查并恢复单个持久化的连接
+	 *
+	 * @returns 恢复的连接，无法恢复时返回失败原因
+	 */
+	private async restorePersistedConnection(
+		persisted: PersistedConnection
+	): Promise<ConnectionSession | AutoConnectFailure> {
+		const { connectorId } = persisted;
 
 		// 检查连接是否过期
-		if (isExpired(persisted.timestamp, CONNECTION_TIMEOUT)) {
-			console.log('[Manager] Connection expired, clearing');
-			this.storage.clear();
-			return false;
+		if (this.isSessionExpired(persisted)) {
+			this.logger.debug('Connection expired:', connectorId);
+			return { connectorId, reason: 'expired' };
 		}
 
-		// 查找对应的连接器
-		const connector = this.connectors.get(persisted.connectorId);
-		console.log('[Manager] Looking for connector:', persisted.connectorId, 'Found:', !!connector);
+		// 查找对应的连接器（EIP-6963 钱包可能还没有宣告，等待后创建）
+		const connector =
+			this.connectors.get(connectorId) ??
+			(persisted.eip6963Info
+				? await this.waitForEIP6963Connector(persisted.eip6963Info.rdns)
+				: undefined);
+		this.logger.debug('Looking for connector:', connectorId, 'Found:', !!connector);
 
 		if (!connector) {
-			console.log('[Manager] Connector not found, clearing persisted connection');
-			this.storage.clear();
-			return false;
+			this.logger.debug('Connector not found, dropping persisted connection');
+			return { connectorId, reason: 'connector_not_found' };
 		}
 
-		// 检查连接器是否已授权
-		const isAuthorized = await connector.isAuthorized();
-		console.log('[Manager] Connector authorized:', isAuthorized);
+		try {
+			// 检查连接器是否已授权
+			const isAuthorized = await connector.isAuthorized();
+			this.logger.debug('Connector authorized:', isAuthorized);
 
-		if (!isAuthorized) {
-			console.log('[Manager] Connector not authorized, clearing persisted connection');
-			this.storage.clear();
-			return false;
+			if (!isAuthorized) {
+				this.logger.debug('Connector not authorized, dropping persisted connection');
+				return { connectorId, reason: 'not_authorized' };
+			}
+
+			return await this.restoreConnection(persisted, connector);
+		} catch (error) {
+			this.logger.debug('Failed to restore connection state:', error);
+			return { connectorId, reason: 'restore_failed', error };
+		}
+	}
+
+	/**
+	 * 等待 rdns 匹配的 EIP-6963 钱包宣告，创建并注册连接器
+	 *
+	 * 等待期间应用自己注册了该钱包的连接器时直接使用它
+	 *
+	 * @returns 超时或非浏览器环境时返回 undefined
+	 */
+	private waitForEIP6963Connector(rdns: string): Promise<Connector | undefined> {
+		const connectorId = `eip6963:${rdns}`;
+		if (this.eip6963Timeout <= 0) {
+			return Promise.resolve(undefined);
 		}
 
-		try {
-			// 恢复连接状态（不重新连接，只获取当前状态）
-			console.log('[Manager] Restoring connection state...');
-
-			// 获取当前状态
-			const [address, addresses, chainId] = await Promise.all([
-				connector.getAccount(),
-				connector.getAccounts(),
-				connector.getChainId()
-			]);
-
-			// 获取支持的链列表（转换为 chainId 数组）
-			const supportedChains = connector.getSupportedChains();
-			const chains = supportedChains || this.chains.map((chain) => chain.id);
-
-			// 更新状态
-			// 如果持久化的地址仍在可用地址列表中，使用它；否则使用连接器返回的默认地址
-			const restoredAddress = addresses.includes(persisted.address) ? persisted.address : address;
-
-			this.updateState({
-				isConnected: true,
-				isConnecting: false,
-				address: restoredAddress,
-				addresses,
-				chainId,
-				chains,
-				connector,
-				error: undefined
+		this.logger.debug('Waiting for EIP-6963 announcement:', rdns);
+		return new Promise((resolve) => {
+			let done = false;
+			let unwatch = () => {};
+
+			const finish = (connector: Connector | undefined) => {
+				if (done) return;
+				done = true;
+				clearTimeout(timer);
+				unwatch();
+				resolve(connector);
+			};
+
+			const timer = setTimeout(() => {
+				this.logger.debug('EIP-6963 announcement timed out:', rdns);
+				finish(this.connectors.get(connectorId));
+			}, this.eip6963Timeout);
+
+			unwatch = watchEIP6963Wallets((wallets) => {
+				const providerDetail = wallets.find((wallet) => wallet.info.rdns === rdns);
+				if (!providerDetail || done) return;
+
+				let connector = this.connectors.get(connectorId);
+				if (!connector) {
+					connector = this.createEIP6963Connector(providerDetail);
+					this.registerConnector(connector);
+					this.logger.debug('Registered EIP-6963 connector for:', providerDetail.info.name);
+				}
+				finish(connector);
 			});
 
-			console.log('[Manager] Connection state restored successfully');
-			return true;
-		} catch (error) {
-			console.log('[Manager] Failed to restore connection state:', error);
-			this.storage.clear();
-			return false;
+			// 钱包可能在 watchEIP6963Wallets 返回前同步宣告
+			if (done) unwatch();
+		});
+	}
+
+	/**
+	 * 恢复连接状态（不重新连接，只获取当前状态）
+	 */
+	private async restoreConnection(
+		persisted: PersistedConnection,
+		connector: Connector
+	): Promise<ConnectionSession> {
+		this.logger.debug('Restoring connection state...');
+
+		// 获取当前状态
+		const [address, addresses, chainId] = await Promise.all([
+			connector.getAccount(),
+			connector.getAccounts(),
+			connector.getChainId()
+		]);
+
+		// 如果持久化的地址仍在可用地址列表中，使用它；否则使用连接器返回的默认地址
+		const restoredAddress = addresses.includes(persisted.address) ? persisted.address : address;
+
+		return {
+			connector,
+			address: restoredAddress,
+			addresses,
+			chainId,
+			chains: this.getConnectorChains(connector)
+		};
+	}
+
+	/**
+	 * 处理其他标签页的连接变化
+	 *
+	 * 只更新本标签页的状态，不会再次持久化，避免标签页之间来回同步。
+	 * 先异步读取钱包状态，再统一修改 sessions；期间本标签页开始了新的操作时放弃这次同步
+	 */
+	private async handleRemoteSessions(persisted: PersistedSessions | null): Promise<void> {
+		// 进行中的操作结束后会以本标签页的结果为准
+		if (this.machine.isBusy) {
+			return;
+		}
+
+		const operation = this.machine.currentOperation;
+		const remote = persisted?.sessions ?? [];
+		const updates = new Map<string, { session: ConnectionSession; item: PersistedConnection }>();
+
+		for (const item of remote) {
+			const connector = this.connectors.get(item.connectorId);
+			if (!connector) continue;
+
+			const session = this.sessions.get(item.connectorId);
+
+			// 同一个连接器：同步账户和网络
+			if (session) {
+				if (session.address === item.address && session.chainId === item.chainId) continue;
+
+				this.logger.debug('Account or chain changed in another tab:', item);
+				const addresses = session.addresses.includes(item.address)
+					? session.addresses
+					: await connector.getAccounts().catch(() => session.addresses);
+				updates.set(item.connectorId, {
+					item,
+					session: {
+						...session,
+						address: addresses.includes(item.address) ? item.address : session.address,
+						addresses,
+						chainId: item.chainId
+					}
+				});
+				continue;
+			}
+
+			// 其他标签页连接了钱包
+			this.logger.debug('Connected in another tab:', item.connectorId);
+			try {
+				if (!(await connector.isAuthorized())) {
+					this.logger.debug('Connector not authorized in this tab, ignoring');
+					continue;
+				}
+				updates.set(item.connectorId, {
+					item,
+					session: await this.restoreConnection(item, connector)
+				});
+			} catch (error) {
+				this.logger.debug('Failed to restore connection from another tab:', error);
+			}
+		}
+
+		// 等待钱包期间本标签页开始了新的操作，以本标签页的结果为准
+		if (this.machine.isBusy || !this.machine.isCurrent(operation)) {
+			this.logger.debug('Local operation started, ignoring changes from another tab');
+			return;
+		}
+
+		let changed = updates.size > 0;
+
+		// 其他标签页断开的连接
+		Array.from(this.sessions.keys()).forEach((connectorId) => {
+			if (!remote.some((item) => item.connectorId === connectorId)) {
+				this.logger.debug('Disconnected in another tab:', connectorId);
+				this.sessions.delete(connectorId);
+				this.sessionTimestamps.delete(connectorId);
+				changed = true;
+			}
+		});
+
+		updates.forEach(({ session, item }, connectorId) => {
+			this.sessions.set(connectorId, session);
+			this.sessionTimestamps.set(connectorId, {
+				connectedAt: item.connectedAt,
+				lastActiveAt: item.timestamp
+			});
+		});
+
+		const activeConnectorId = persisted?.activeConnectorId;
+		if (
+			activeConnectorId &&
+			activeConnectorId !== this.activeConnectorId &&
+			this.sessions.has(activeConnectorId)
+		) {
+			this.activeConnectorId = activeConnectorId;
+			changed = true;
+		}
+
+		if (changed) {
+			this.ensureActiveSession();
+			this.updateSessionsState();
 		}
 	}
 
 	/**
-	 * 切换账户
+	 * 销毁管理器
+	 *
+	 * 停止跨标签页同步，不会断开钱包连接
+	 */
+	destroy(): void {
+		this.unwatchStorage();
+		this.listeners.clear();
+		this.removeAllListeners();
+	}
+
+	/**
+	 * 切换账户（当前激活的连接）
 	 */
 	async switchAccount(address: Address): Promise<void> {
-		if (!this.state.connector) {
-			throw new Error('No connector connected');
+		const session = this.getActiveSession();
+		if (!session) {
+			throw new DisconnectedError('No connector connected');
 		}
 
 		// 所有连接器都实现了 switchAccount，但可能不支持（会抛出错误）
-		await this.state.connector.switchAccount(address);
+		await session.connector.switchAccount(address);
 
 		// Update state
-		this.updateState({
-			...this.state,
-			address
-		});
+		this.sessions.set(session.connector.id, { ...session, address });
+		this.touchSession(session.connector.id);
+		this.updateSessionsState();
 
-		this.persistConnection();
+		void this.persistSessions();
 	}
 
 	/**
-	 * 切换网络
+	 * 切换网络（当前激活的连接）
+	 *
+	 * 多连接模式下，其他钱包正在连接时也可以切换已连接钱包的网络：
+	 * 此时 status 保持 connecting，切换只影响这个连接
+	 *
+	 * @param options 可以传入 signal 取消切换，取消后保持原来的网络
+	 * @throws AbortedError signal 被取消时抛出
+	 * @throws InvalidStateTransitionError 正在恢复或断开连接时抛出
 	 */
-	async switchChain(chainId: number): Promise<void> {
-		console.log('[Manager] switchChain called with chainId:', chainId);
+	async switchChain(chainId: number, options: ConnectorOperationOptions = {}): Promise<void> {
+		this.logger.debug('switchChain called with chainId:', chainId);
 
-		if (!this.state.connector) {
-			console.error('[Manager] No connector in state');
-			throw new Error('No connector connected');
+		const session = this.getActiveSession();
+		if (!session) {
+			this.logger.error('No connector in state');
+			throw new DisconnectedError('No connector connected');
 		}
 
 		// 检查连接器是否支持目标链
 		const isSupported = this.isChainSupportedByCurrentConnector(chainId);
 		if (!isSupported) {
-			const connectorName = this.state.connector.name;
+			const connectorName = session.connector.name;
 			const supportedChains = this.getCurrentConnectorSupportedChains();
 			if (supportedChains) {
-				console.log(
-					`[Manager] Connector ${connectorName} does not support chain ${chainId}. Supported chains:`,
+				this.logger.debug(
+					`Connector ${connectorName} does not support chain ${chainId}. Supported chains:`,
 					supportedChains
 				);
 			}
-			throw new Error(`当前连接器（${connectorName}）不支持该网络`);
+			throw new UnrecognizedChainError(
+				chainId,
+				`Chain [${chainId}] is not supported by connector [${connectorName}]`,
+				{ connectorId: session.connector.id }
+			);
 		}
 
+		const connectorId = session.connector.id;
+		const operation = this.isConnectingAnotherWallet(session.connector)
+			? undefined
+			: this.machine.begin('switchingChain');
+		const chainSwitch = ++this.chainSwitchCount;
+		this.chainSwitches.set(connectorId, chainSwitch);
+		// 同一个连接又发起了新的切换时，以新的切换为准
+		const isCurrent = () =>
+			this.chainSwitches.get(connectorId) === chainSwitch &&
+			(operation === undefined || this.machine.isCurrent(operation));
+		this.updateSessionsState();
+
 		try {
-			console.log('[Manager] Attempting to switch chain via connector...');
-			await this.state.connector.switchChain(chainId);
-			console.log('[Manager] Chain switch successful to chainId:', chainId);
+			this.logger.debug('Attempting to switch chain via connector...');
+			await session.connector.switchChain(chainId, options);
+			this.logger.debug('Chain switch successful to chainId:', chainId);
+
+			if (!isCurrent()) {
+				this.logger.debug('Dropping stale switchChain result:', chainId);
+				return;
+			}
 
 			// Update state with new chainId
-			this.updateState({
-				...this.state,
-				chainId
-			});
+			const current = this.sessions.get(connectorId);
+			if (current) {
+				this.sessions.set(connectorId, { ...current, chainId });
+				this.touchSession(connectorId);
+			}
+			if (operation !== undefined) {
+				this.machine.transition(this.activeConnectorId ? 'connected' : 'disconnected');
+			}
+			this.updateSessionsState();
 
 			// Persist the new chain
-			this.persistConnection();
+			void this.persistSessions();
 		} catch (error: unknown) {
-			console.log('[Manager] Chain switch failed with error:', error);
+			this.logger.debug('Chain switch failed with error:', error);
 
 			// CRITICAL: Preserve connection state when network switch fails
-			const currentState = this.getState();
-			if (currentState.isConnected && currentState.address) {
-				console.log(
-					'[Manager] Forcing state persistence with current chain:',
-					currentState.chainId
-				);
-				this.updateState(currentState);
-				this.persistConnection();
+			if (isCurrent()) {
+				if (operation !== undefined) {
+					this.machine.transition(this.activeConnectorId ? 'connected' : 'disconnected');
+				}
+				this.updateSessionsState();
+				if (this.state.isConnected && this.state.address) {
+					this.logger.debug('Forcing state persistence with current chain:', this.state.chainId);
+					void this.persistSessions();
+				}
 			}
 
-			// Check if it's a chain not added error
-			const err = error as { code?: number; message?: string };
-
-			// Format user-friendly error messages
-			if (err.message?.includes('No wallet accounts')) {
-				throw new Error(`该网络上没有可用的钱包账户`);
-			} else if (err.code === 4902 || err.message?.includes('Unrecognized chain')) {
-				console.log('[Manager] Chain not found in wallet');
-				throw new Error(`钱包不支持该网络`);
-			} else if (err.code === 4001 || err.message?.includes('User rejected')) {
-				throw new Error('已取消切换');
-			} else {
-				console.error('[Manager] Chain switch failed:', error);
-				throw new Error('网络切换失败');
+			// 保留原始错误码，由 UI 根据错误类型自行展示提示
+			throw toConnectorError(error, connectorId);
+		} finally {
+			if (this.chainSwitches.get(connectorId) === chainSwitch) {
+				this.chainSwitches.delete(connectorId);
 			}
 		}
 	}
 
+	/**
+	 * 多连接模式下是否正在连接另一个钱包
+	 *
+	 * 此时已连接的钱包仍然可以切换网络，不需要等待连接完成
+	 */
+	private isConnectingAnotherWallet(connector: Connector): boolean {
+		return (
+			this.multiSession &&
+			this.machine.status === 'connecting' &&
+			this.pendingConnector !== undefined &&
+			this.pendingConnector !== connector
+		);
+	}
+
 	/**
 	 * 获取当前状态
 	 */
@@ -404,7 +1008,7 @@ export class WalletConnectionManager implements ConnectionManager {
 		this.listeners.add(listener);
 
 		// 立即调用一次，传递当前状态
-		listener(this.getState());
+		this.callStateListener(listener, this.getState());
 
 		// 返回取消订阅函数
 		return () => {
@@ -412,36 +1016,247 @@ export class WalletConnectionManager implements ConnectionManager {
 		};
 	}
 
+	/**
+	 * 订阅状态的一部分，只在选中的值变化时调用
+	 *
+	 * @example
+	 * ```typescript
+	 * const unwatch = manager.watch(
+	 *   (state) => state.address,
+	 *   (address, previous) => console.log('Account:', previous, '->', address)
+	 * );
+	 * ```
+	 *
+	 * @returns 取消订阅函数
+	 */
+	watch<T>(
+		selector: (state: ConnectionState) => T,
+		listener: (value: T, previous: T) => void,
+		options: StateWatchOptions<T> = {}
+	): () => void {
+		const { equals = Object.is, immediate = false } = options;
+		let current = selector(this.getState());
+
+		const watcher = (state: ConnectionState) => {
+			const next = selector(state);
+			if (equals(next, current)) return;
+			const previous = current;
+			current = next;
+			listener(next, previous);
+		};
+		this.listeners.add(watcher);
+
+		if (immediate) {
+			try {
+				listener(current, current);
+			} catch (error) {
+				this.reportListenerError('State watcher', error);
+			}
+		}
+
+		return () => {
+			this.listeners.delete(watcher);
+		};
+	}
+
 	/**
 	 * 更新状态并通知监听器
 	 */
 	private updateState(newState: ConnectionState): void {
+		const previous = this.state;
 		this.state = newState;
 
-		// 通知所有监听器
-		this.listeners.forEach((listener) => {
-			listener(this.getState());
+		// 通知所有监听器，一个监听器（或 watch 的选择器）出错不影响其他监听器和事件
+		this.listeners.forEach((listener) => this.callStateListener(listener, this.getState()));
+
+		this.emitStateEvents(newState, previous);
+	}
+
+	/**
+	 * 调用状态监听器，错误写入 logger 而不是抛给触发状态变化的操作
+	 */
+	private callStateListener(
+		listener: (state: ConnectionState) => void,
+		state: ConnectionState
+	): void {
+		try {
+			listener(state);
+		} catch (error) {
+			this.reportListenerError('State listener', error);
+		}
+	}
+
+	/**
+	 * 比较前后状态，触发对应的事件
+	 *
+	 * connect / disconnect 按连接的增减触发，激活连接的切换触发 activeSessionChanged
+	 */
+	private emitStateEvents(state: ConnectionState, previous: ConnectionState): void {
+		for (const item of previous.sessions) {
+			if (!state.sessions.some((next) => next.connector === item.connector)) {
+				this.emit('disconnect', item);
+			}
+		}
+		for (const item of state.sessions) {
+			if (!previous.sessions.some((prev) => prev.connector === item.connector)) {
+				this.emit('connect', item);
+			}
+		}
+
+		const session = toActiveSession(state);
+		const previousSession = toActiveSession(previous);
+
+		if (session?.connector !== previousSession?.connector) {
+			this.emit('activeSessionChanged', session, previousSession);
+		} else if (session && previousSession) {
+			if (session.address !== previousSession.address) {
+				this.emit('accountChanged', session.address, previousSession.address);
+			}
+			if (session.chainId !== previousSession.chainId) {
+				this.emit('chainChanged', session.chainId, previousSession.chainId);
+			}
+		}
+
+		if (state.error && state.error !== previous.error) {
+			this.emit('error', state.error, previous.error);
+		}
+	}
+
+	/**
+	 * 监听器抛出的错误交给 reportListenerError
+	 */
+	protected onListenerError(error: unknown, event: keyof ConnectionManagerEvents): void {
+		this.reportListenerError(`Listener for "${String(event)}"`, error);
+	}
+
+	/**
+	 * 记录事件或状态监听器抛出的错误
+	 *
+	 * 没有传入 logger 时输出到 console（与 EventEmitter 的默认处理相同），避免错误被静默丢弃
+	 */
+	private reportListenerError(source: string, error: unknown): void {
+		if (this.hasLogger) {
+			this.logger.error(`${source} threw:`, error);
+		} else {
+			console.error(`${source} threw:`, error);
+		}
+	}
+
+	/**
+	 * 根据连接列表和激活连接更新状态
+	 *
+	 * 没有进行中的操作时，按是否有激活连接更新 status（connected / disconnected）；
+	 * 进行中的操作（connect、switchChain 等）结束时自己更新 status
+	 */
+	private updateSessionsState(overrides: Partial<Pick<ConnectionState, 'error'>> = {}): void {
+		const active = this.activeConnectorId ? this.sessions.get(this.activeConnectorId) : undefined;
+
+		if (!this.machine.isBusy) {
+			if (active) {
+				this.machine.transition('connected');
+			} else if (this.machine.status === 'connected') {
+				this.machine.transition('disconnected');
+			}
+		}
+
+		const status = this.machine.status;
+		this.updateState({
+			status,
+			isConnected: !!active,
+			isConnecting: status === 'connecting' || status === 'reconnecting',
+			address: active?.address,
+			addresses: active?.addresses,
+			chainId: active?.chainId,
+			chains: active?.chains,
+			connector: active?.connector,
+			error: 'error' in overrides ? overrides.error : this.state.error,
+			sessions: this.getSessions()
 		});
 	}
 
+	/**
+	 * 添加或更新连接
+	 *
+	 * 单连接模式下只保留这一个连接
+	 */
+	private setSession(session: ConnectionSession, activate: boolean): void {
+		if (!this.multiSession) {
+			Array.from(this.sessions.keys())
+				.filter((connectorId) => connectorId !== session.connector.id)
+				.forEach((connectorId) => {
+					this.sessions.delete(connectorId);
+					this.sessionTimestamps.delete(connectorId);
+				});
+		}
+
+		this.sessions.set(session.connector.id, session);
+		if (activate) {
+			this.activeConnectorId = session.connector.id;
+		}
+		this.ensureActiveSession();
+	}
+
+	/**
+	 * 移除连接
+	 */
+	private removeSession(connectorId: string): void {
+		this.sessions.delete(connectorId);
+		this.sessionTimestamps.delete(connectorId);
+		this.ensureActiveSession();
+	}
+
+	/**
+	 * 确保激活的连接存在，否则使用最早建立的连接
+	 */
+	private ensureActiveSession(): void {
+		if (!this.activeConnectorId || !this.sessions.has(this.activeConnectorId)) {
+			this.activeConnectorId = this.sessions.keys().next().value;
+		}
+	}
+
+	/**
+	 * 获取连接器支持的链列表（转换为 chainId 数组）
+	 */
+	private getConnectorChains(connector: Connector): number[] {
+		return connector.getSupportedChains() || this.chains.map((chain) => chain.id);
+	}
+
 	/**
 	 * 持久化连接信息
+	 *
+	 * 没有任何连接时清除持久化信息
 	 */
-	private persistConnection(): void {
-		if (!this.state.isConnected || !this.state.connector || !this.state.address) {
-			return;
+	private persistSessions(): Promise<void> {
+		if (this.sessions.size === 0) {
+			return this.storage.clear();
 		}
 
+		return this.storage.save({
+			activeConnectorId: this.activeConnectorId,
+			sessions: Array.from(this.sessions.values()).map((session) =>
+				this.toPersistedConnection(session)
+			)
+		});
+	}
+
+	/**
+	 * 转换为持久化的连接信息
+	 */
+	private toPersistedConnection(session: ConnectionSession): PersistedConnection {
+		const { connector } = session;
+		const now = Date.now();
+		const timestamps = this.sessionTimestamps.get(connector.id);
 		const data: PersistedConnection = {
-			connectorId: this.state.connector.id,
-			address: this.state.address,
-			chainId: this.state.chainId || 1,
-			timestamp: Date.now()
+			connectorId: connector.id,
+			address: session.address,
+			chainId: session.chainId || 1,
+			timestamp: timestamps?.lastActiveAt ?? now,
+			connectedAt: timestamps?.connectedAt ?? now
 		};
 
 		// 如果是 EIP6963 连接器，保存额外信息
-		if (this.state.connector.id.startsWith('eip6963:')) {
-			const metadata = this.state.connector.getMetadata();
+		if (connector.id.startsWith('eip6963:')) {
+			const metadata = connector.getMetadata();
 			interface EIP6963Metadata {
 				rdns?: string;
 			}
@@ -449,13 +1264,20 @@ export class WalletConnectionManager implements ConnectionManager {
 			if (eipMetadata.rdns) {
 				data.eip6963Info = {
 					rdns: eipMetadata.rdns,
-					name: this.state.connector.name,
-					icon: this.state.connector.icon || ''
+					name: connector.name,
+					icon: connector.icon || ''
 				};
 			}
 		}
 
-		this.storage.save(data);
+		return data;
+	}
+
+	/**
+	 * 获取连接持久化的命名空间
+	 */
+	getNamespace(): string {
+		return this.namespace;
 	}
 
 	/**
@@ -0,0 +1,139 @@
+/**
+ * 持久化数据的版本与迁移
+ *
+ * createStorage 写入的数据都带有 schema 版本号：`{ version, data }`。
+ * 加载时按版本号依次执行迁移，把旧结构升级为当前结构；
+ * 无法解析、迁移失败或校验不通过的数据会被丢弃，而不是让应用在启动时崩溃。
+ *
+ * 早期版本直接写入原始 JSON（没有版本号），视为版本 0。
+ * 版本号高于当前版本的数据来自更新的应用版本（如回滚部署或多个版本共存），会被忽略但保留在存储中。
+ *
+ * @example
+ * ```typescript
+ * const schema: StorageSchema<Settings> = {
+ *   version: 2,
+ *   migrations: {
+ *     // v0/v1 => v2：新增 theme 字段
+ *     2: (data) => ({ theme: 'light', ...(data as object) })
+ *   },
+ *   validate: (data): data is Settings => isRecord(data) && typeof data.theme === 'string'
+ * };
+ *
+ * const storage = createStorage<Settings>('settings', { schema });
+ * ```
+ */
+
+/**
+ * 单步迁移：把上一个版本的数据转换为当前版本
+ */
+export type Migration = (data: unknown) => unknown;
+
+/**
+ * 迁移注册表
+ *
+ * 键为迁移后的目标版本号，如 `{ 2: v1ToV2 }`；
+ * 某个版本没有注册迁移时表示数据结构未变化，原样进入下一个版本
+ */
+export type MigrationRegistry = Record<number, Migration>;
+
+/**
+ * 数据结构定义
+ */
+export interface StorageSchema<T> {
+	/** 当前版本号 */
+	version: number;
+	/** 迁移注册表 */
+	migrations?: MigrationRegistry;
+	/** 校验迁移后的数据，不通过时丢弃 */
+	validate?: (data: unknown) => data is T;
+}
+
+/**
+ * 带版本号的持久化数据
+ */
+export interface VersionedPayload<T> {
+	version: number;
+	data: T;
+}
+
+/**
+ * 数据的 schema 版本高于当前版本
+ *
+ * 数据本身可能完好，只是当前版本的代码无法读取，调用方不应将其清除
+ */
+export class UnsupportedSchemaVersionError extends Error {
+	/** 数据的版本号 */
+	readonly version: number;
+	/** 当前支持的最高版本号 */
+	readonly targetVersion: number;
+
+	constructor(version: number, targetVersion: number) {
+		super(`Unsupported schema version ${version}, expected <= ${targetVersion}`);
+		this.name = 'UnsupportedSchemaVersionError';
+		this.version = version;
+		this.targetVersion = targetVersion;
+	}
+}
+
+/**
+ * 检查是否为普通对象
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 检查是否为带版本号的数据
+ */
+function isVersionedPayload(value: unknown): value is VersionedPayload<unknown> {
+	return (
+		isRecord(value) &&
+		Object.keys(value).length === 2 &&
+		typeof value.version === 'number' &&
+		'data' in value
+	);
+}
+
+/**
+ * 包装为带版本号的数据
+ */
+export function toVersionedPayload<T>(data: T, schema: StorageSchema<T>): VersionedPayload<T> {
+	return { version: schema.version, data };
+}
+
+/**
+ * 把持久化数据升级到当前版本
+ *
+ * @param payload 存储中解析出的原始 JSON
+ * @param schema 数据结构定义
+ * @returns 当前版本的数据
+ * @throws UnsupportedSchemaVersionError 版本号高于当前版本时抛出
+ * @throws 版本号无效、迁移失败或校验不通过时抛出错误
+ */
+export function migratePayload<T>(payload: unknown, schema: StorageSchema<T>): T {
+	const { version: targetVersion, migrations = {}, validate } = schema;
+	let { version, data } = isVersionedPayload(payload)
+		? payload
+		: { version: 0, data: payload as unknown };
+
+	if (!Number.isInteger(version) || version < 0) {
+		throw new Error(`Invalid schema version ${version}`);
+	}
+	if (version > targetVersion) {
+		throw new UnsupportedSchemaVersionError(version, targetVersion);
+	}
+
+	while (version < targetVersion) {
+		version += 1;
+		const migration = migrations[version];
+		if (migration) {
+			data = migration(data);
+		}
+	}
+
+	if (validate && !validate(data)) {
+		throw new Error(`Invalid data for schema version ${targetVersion}`);
+	}
+
+	return data as T;
+}
@@ -0,0 +1,382 @@
+import type {
+	NamespaceConfig,
+	NetworkConfig,
+	RpcEndpoint,
+	StoredNetworkConfig
+} from './types/network.js';
+import { isRecord, migratePayload } from './migrations.js';
+import { networkConfigSchema } from './schemas.js';
+import { validateNetworkConfig, type NetworkValidationIssue } from './network-validation.js';
+
+/**
+ * 网络配置导出 / 导入
+ *
+ * 导出文件带有格式标识和 schema 版本号，导入时按 networkConfigSchema 升级旧版本，
+ * 与本地配置合并时记录所有冲突，便于向用户展示
+ *
+ * @example
+ * ```typescript
+ * // 技术支持导出一套整理好的网络
+ * const json = JSON.stringify(networkManager.exportConfig({ namespaces: ['default'] }));
+ *
+ * // 用户导入，本地已修改过的网络保持不变
+ * const result = networkManager.importConfig(json, { strategy: 'merge-prefer-local' });
+ * result.conflicts.forEach((conflict) => console.log(conflict));
+ * ```
+ */
+
+/**
+ * 导出文件的格式标识
+ */
+export const NETWORK_CONFIG_EXPORT_FORMAT = 'ethereum-connectors/network-config';
+
+/**
+ * 导出的网络配置
+ */
+export interface NetworkConfigExport {
+	/** 格式标识 */
+	format: typeof NETWORK_CONFIG_EXPORT_FORMAT;
+	/** 配置的 schema 版本 */
+	version: number;
+	/** 导出时间 */
+	exportedAt: string;
+	/** 网络配置 */
+	data: StoredNetworkConfig;
+}
+
+/**
+ * 导出选项
+ */
+export interface ExportConfigOptions {
+	/**
+	 * 只导出指定的命名空间，以及它们启用的网络
+	 *
+	 * 不设置时导出所有命名空间和所有网络
+	 */
+	namespaces?: string[];
+
+	/**
+	 * 是否导出内置网络
+	 * @default true
+	 */
+	includeBuiltIn?: boolean;
+}
+
+/**
+ * 导入时的合并策略
+ *
+ * - replace：用导入的配置替换本地配置（指定 namespaces 时只替换这些命名空间）；
+ *   内置网络不会被删除，导入文件中没有的内置网络保留本地配置
+ * - merge-prefer-local：合并，冲突时保留本地配置
+ * - merge-prefer-incoming：合并，冲突时使用导入的配置
+ */
+export type ConfigMergeStrategy = 'replace' | 'merge-prefer-local' | 'merge-prefer-incoming';
+
+/**
+ * 导入选项
+ */
+export interface ImportConfigOptions {
+	/**
+	 * 合并策略
+	 * @default 'merge-prefer-local'
+	 */
+	strategy?: ConfigMergeStrategy;
+
+	/**
+	 * 只导入指定的命名空间，以及它们启用的网络
+	 *
+	 * 不设置时导入所有命名空间和所有网络
+	 */
+	namespaces?: string[];
+}
+
+/**
+ * 导入冲突：同一个网络或命名空间在本地和导入的配置中不同
+ */
+export interface ConfigImportConflict {
+	type: 'network' | 'namespace';
+	/** 冲突的网络（type 为 network 时） */
+	chainId?: number;
+	/** 冲突的命名空间（type 为 namespace 时） */
+	namespace?: string;
+	/** 不同的字段 */
+	fields: string[];
+	/** 处理结果 */
+	resolution: 'kept-local' | 'used-incoming' | 'merged';
+}
+
+/**
+ * 导入结果
+ */
+export interface ConfigImportResult {
+	/** 新增的网络 */
+	added: number[];
+	/** 被导入配置覆盖的网络 */
+	updated: number[];
+	/** 被删除的自定义网络（只有 replace 且未指定 namespaces 时） */
+	removed: number[];
+	/** 校验不通过、没有导入的网络 */
+	rejected: { chainId: number; issues: NetworkValidationIssue[] }[];
+	/** 导入的命名空间 */
+	namespaces: string[];
+	/** 所有冲突 */
+	conflicts: ConfigImportConflict[];
+}
+
+/**
+ * 比较网络时忽略的字段（时间戳、来源标记由本地决定）
+ */
+const IGNORED_NETWORK_FIELDS = new Set(['createdAt', 'updatedAt', 'isCustom', 'isBuiltIn']);
+
+/**
+ * 去掉 RPC 健康检查结果（运行时状态，不导出也不导入）
+ */
+function withoutRpcHealth(endpoints: RpcEndpoint[]): RpcEndpoint[] {
+	return endpoints.map(({ url, isPrimary }) => ({ url, isPrimary }));
+}
+
+/**
+ * 找出两个网络配置中不同的字段
+ */
+function diffNetworks(local: NetworkConfig, incoming: NetworkConfig): string[] {
+	const keys = new Set([...Object.keys(local), ...Object.keys(incoming)]);
+	return [...keys].filter((key) => {
+		if (IGNORED_NETWORK_FIELDS.has(key)) return false;
+
+		const localValue = local[key as keyof NetworkConfig];
+		const incomingValue = incoming[key as keyof NetworkConfig];
+		if (key === 'rpcEndpoints') {
+			return (
+				JSON.stringify(withoutRpcHealth(localValue as RpcEndpoint[])) !==
+				JSON.stringify(withoutRpcHealth(incomingValue as RpcEndpoint[]))
+			);
+		}
+		return JSON.stringify(localValue) !== JSON.stringify(incomingValue);
+	});
+}
+
+/**
+ * 找出两个命名空间配置中不同的字段
+ */
+function diffNamespaces(local: NamespaceConfig, incoming: NamespaceConfig): string[] {
+	const fields: string[] = [];
+	if (JSON.stringify(local.enabledChainIds) !== JSON.stringify(incoming.enabledChainIds)) {
+		fields.push('enabledChainIds');
+	}
+	if (local.currentChainId !== incoming.currentChainId) {
+		fields.push('currentChainId');
+	}
+	return fields;
+}
+
+/**
+ * 复制本地的内置网络
+ */
+function pickBuiltInNetworks(config: StoredNetworkConfig): Record<number, NetworkConfig> {
+	const networks: Record<number, NetworkConfig> = {};
+	Object.values(config.networks).forEach((network) => {
+		if (network.isBuiltIn) {
+			networks[network.chainId] = structuredClone(network);
+		}
+	});
+	return networks;
+}
+
+/**
+ * 选出要处理的命名空间和网络
+ */
+function selectConfig(
+	config: StoredNetworkConfig,
+	namespaces: string[] | undefined
+): { namespaces: Record<string, NamespaceConfig>; chainIds: number[] } {
+	if (!namespaces) {
+		return {
+			namespaces: config.namespaces,
+			chainIds: Object.values(config.networks).map((network) => network.chainId)
+		};
+	}
+
+	const selected: Record<string, NamespaceConfig> = {};
+	namespaces.forEach((name) => {
+		if (config.namespaces[name]) {
+			selected[name] = config.namespaces[name];
+		}
+	});
+	const chainIds = [
+		...new Set(Object.values(selected).flatMap((namespace) => namespace.enabledChainIds))
+	].filter((chainId) => config.networks[chainId]);
+
+	return { namespaces: selected, chainIds };
+}
+
+/**
+ * 创建导出数据
+ *
+ * @param config 本地配置（应已去掉 RPC 健康状态）
+ */
+export function createConfigExport(
+	config: StoredNetworkConfig,
+	options: ExportConfigOptions = {}
+): NetworkConfigExport {
+	const { includeBuiltIn = true } = options;
+	const selected = selectConfig(config, options.namespaces);
+
+	const networks: Record<number, NetworkConfig> = {};
+	selected.chainIds.forEach((chainId) => {
+		const network = config.networks[chainId];
+		if (!includeBuiltIn && !network.isCustom) return;
+		networks[chainId] = { ...network, rpcEndpoints: withoutRpcHealth(network.rpcEndpoints) };
+	});
+
+	return {
+		format: NETWORK_CONFIG_EXPORT_FORMAT,
+		version: networkConfigSchema.version,
+		exportedAt: new Date().toISOString(),
+		data: { networks, namespaces: structuredClone(selected.namespaces) }
+	};
+}
+
+/**
+ * 解析导出数据，并升级到当前 schema 版本
+ *
+ * @param input 导出数据或它的 JSON 字符串
+ * @throws 格式不正确、版本高于当前版本或数据校验不通过时抛出错误
+ */
+export function parseConfigExport(input: NetworkConfigExport | string): StoredNetworkConfig {
+	const parsed: unknown = typeof input === 'string' ? JSON.parse(input) : input;
+	if (!isRecord(parsed) || parsed.format !== NETWORK_CONFIG_EXPORT_FORMAT) {
+		throw new Error('Unrecognized network config export');
+	}
+
+	return migratePayload({ version: parsed.version, data: parsed.data }, networkConfigSchema);
+}
+
+/**
+ * 把导入的配置合并到本地配置
+ *
+ * 不会修改传入的对象，返回合并后的新配置和导入结果
+ */
+export function mergeNetworkConfig(
+	local: StoredNetworkConfig,
+	incoming: StoredNetworkConfig,
+	options: ImportConfigOptions = {}
+): { config: StoredNetworkConfig; result: ConfigImportResult } {
+	const { strategy = 'merge-prefer-local' } = options;
+	const replaceAll = strategy === 'replace' && !options.namespaces;
+	const preferIncoming = strategy !== 'merge-prefer-local';
+	const now = new Date().toISOString();
+
+	// replace 时从空配置开始，但保留内置网络（与 removeCustomNetwork 一致，内置网络不能删除）
+	const config: StoredNetworkConfig = replaceAll
+		? { networks: pickBuiltInNetworks(local), namespaces: {} }
+		: structuredClone(local);
+	const result: ConfigImportResult = {
+		added: [],
+		updated: [],
+		removed: [],
+		rejected: [],
+		namespaces: [],
+		conflicts: []
+	};
+	const selected = selectConfig(incoming, options.namespaces);
+
+	// 网络
+	selected.chainIds.forEach((chainId) => {
+		const network = incoming.networks[chainId];
+		const issues = validateNetworkConfig(network);
+		if (issues.length > 0) {
+			result.rejected.push({ chainId, issues });
+			return;
+		}
+
+		// 来源标记以本地为准：本地没有的网络一律作为自定义网络导入
+		const original = local.networks[chainId];
+		const imported: NetworkConfig = {
+			...network,
+			rpcEndpoints: withoutRpcHealth(network.rpcEndpoints),
+			isCustom: original ? original.isCustom : true,
+			isBuiltIn: original ? original.isBuiltIn : false,
+			createdAt: original?.createdAt ?? network.createdAt ?? now,
+			updatedAt: now
+		};
+
+		if (!original) {
+			config.networks[chainId] = imported;
+			result.added.push(chainId);
+			return;
+		}
+
+		const fields = diffNetworks(original, network);
+		if (fields.length === 0) {
+			// 内容相同：保留本地网络（replace 时自定义网络需要放回去）
+			if (replaceAll) {
+				config.networks[chainId] = structuredClone(original);
+			}
+			return;
+		}
+
+		result.conflicts.push({
+			type: 'network',
+			chainId,
+			fields,
+			resolution: preferIncoming ? 'used-incoming' : 'kept-local'
+		});
+		if (preferIncoming) {
+			config.networks[chainId] = imported;
+			result.updated.push(chainId);
+		}
+	});
+
+	if (replaceAll) {
+		result.removed = Object.values(local.networks)
+			.map((network) => network.chainId)
+			.filter((chainId) => !config.networks[chainId]);
+	}
+
+	// 命名空间：只保留存在的网络
+	Object.entries(selected.namespaces).forEach(([name, namespace]) => {
+		const exists = (chainId: number) => !!config.networks[chainId];
+		const original = local.namespaces[name];
+		let merged: NamespaceConfig;
+
+		if (strategy === 'replace' || !original) {
+			merged = {
+				enabledChainIds: namespace.enabledChainIds.filter(exists),
+				currentChainId: namespace.currentChainId
+			};
+		} else {
+			const [preferred, other] = preferIncoming ? [namespace, original] : [original, namespace];
+			merged = {
+				enabledChainIds: [
+					...new Set([...preferred.enabledChainIds, ...other.enabledChainIds])
+				].filter(exists),
+				currentChainId: preferred.currentChainId ?? other.currentChainId
+			};
+		}
+
+		if (
+			merged.currentChainId === undefined ||
+			!merged.enabledChainIds.includes(merged.currentChainId)
+		) {
+			merged.currentChainId = merged.enabledChainIds[0];
+		}
+		if (merged.enabledChainIds.length === 0 && !original) return;
+
+		if (original) {
+			const fields = diffNamespaces(original, namespace);
+			if (fields.length > 0) {
+				result.conflicts.push({
+					type: 'namespace',
+					namespace: name,
+					fields,
+					resolution: strategy === 'replace' ? 'used-incoming' : 'merged'
+				});
+			}
+		}
+
+		config.namespaces[name] = merged;
+		result.namespaces.push(name);
+	});
+
+	return { config, result };
+}
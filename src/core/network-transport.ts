@@ -0,0 +1,105 @@
+import { fallback, http, type FallbackTransport, type HttpTransport } from 'viem';
+import type { NetworkConfig, RpcEndpoint } from './types/network.js';
+
+/**
+ * 网络 Transport 选项
+ */
+export interface NetworkTransportOptions {
+	/**
+	 * 所有端点都失败后整体重试的次数
+	 * @default 2
+	 */
+	retryCount?: number;
+
+	/**
+	 * 重试的基础间隔（毫秒），按指数退避递增
+	 * @default 150
+	 */
+	retryDelay?: number;
+
+	/**
+	 * 单个请求的超时时间（毫秒）
+	 * @default 10000
+	 */
+	timeout?: number;
+
+	/**
+	 * 是否启用 viem 自带的定时测速排序（可选）
+	 *
+	 * 默认只使用 NetworkManager 健康检查的结果排序，不额外发起请求
+	 * @default false
+	 */
+	rank?: boolean;
+
+	/**
+	 * 自定义 fetch（可选），测试时可以传入模拟的 JSON-RPC 实现
+	 */
+	fetch?: typeof fetch;
+}
+
+/**
+ * 可用状态的排序权重：可用 < 未检查 < 不可用
+ */
+function availabilityRank(endpoint: RpcEndpoint): number {
+	if (endpoint.isAvailable === true) return 0;
+	if (endpoint.isAvailable === undefined) return 1;
+	return 2;
+}
+
+/**
+ * 按健康状态和延迟对 RPC 端点排序
+ *
+ * 1. 可用的端点优先，其次是未检查的，不可用的排在最后（仍然保留，作为最后的尝试）
+ * 2. 同为可用时延迟低的优先
+ * 3. 其余情况主端点优先，最后保持原有顺序
+ */
+export function rankRpcEndpoints(endpoints: RpcEndpoint[]): RpcEndpoint[] {
+	return endpoints
+		.map((endpoint, index) => ({ endpoint, index }))
+		.sort((a, b) => {
+			const availability = availabilityRank(a.endpoint) - availabilityRank(b.endpoint);
+			if (availability !== 0) return availability;
+
+			const latency =
+				(a.endpoint.latency ?? Number.POSITIVE_INFINITY) -
+				(b.endpoint.latency ?? Number.POSITIVE_INFINITY);
+			if (latency !== 0 && !Number.isNaN(latency)) return latency;
+
+			if (a.endpoint.isPrimary !== b.endpoint.isPrimary) return a.endpoint.isPrimary ? -1 : 1;
+			return a.index - b.index;
+		})
+		.map(({ endpoint }) => endpoint);
+}
+
+/**
+ * 根据网络配置创建 viem fallback Transport
+ *
+ * 端点按 rankRpcEndpoints 排序，当前端点失败时自动切换到下一个，
+ * 所有端点都失败后按 retryCount 整体重试
+ *
+ * @throws 网络没有配置任何 RPC 端点时抛出错误
+ *
+ * @example
+ * ```typescript
+ * const client = createPublicClient({
+ *   chain: networkConfigToChain(network),
+ *   transport: createNetworkTransport(network)
+ * });
+ * ```
+ */
+export function createNetworkTransport(
+	network: NetworkConfig,
+	options: NetworkTransportOptions = {}
+): FallbackTransport<HttpTransport[]> {
+	const { retryCount = 2, retryDelay = 150, timeout, rank = false, fetch: fetchFn } = options;
+	const endpoints = rankRpcEndpoints(network.rpcEndpoints);
+
+	if (endpoints.length === 0) {
+		throw new Error(`No RPC endpoints configured for chain ${network.chainId}`);
+	}
+
+	return fallback(
+		endpoints.map((endpoint) => http(endpoint.url, { timeout, fetchFn })),
+		{ rank, retryCount, retryDelay }
+	);
+}
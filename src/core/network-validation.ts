@@ -0,0 +1,281 @@
+import type { NetworkConfig } from './types/network.js';
+import { checkRpcEndpoint, type RpcHealthCheckOptions } from './rpc-health.js';
+import { getNativeCurrency } from '../utils/chains.js';
+
+/**
+ * 校验问题类型
+ */
+export type NetworkValidationIssueCode =
+	| 'invalid_chain_id'
+	| 'missing_name'
+	| 'invalid_native_currency'
+	| 'no_rpc'
+	| 'invalid_rpc_url'
+	| 'duplicate_rpc'
+	| 'no_primary_rpc'
+	| 'multiple_primary_rpc'
+	| 'invalid_explorer_url'
+	| 'rpc_chain_id_mismatch'
+	| 'rpc_unreachable';
+
+/**
+ * 校验问题
+ */
+export interface NetworkValidationIssue {
+	/** 问题类型 */
+	code: NetworkValidationIssueCode;
+	/** 出问题的字段，如 'rpcEndpoints[1].url' */
+	field: string;
+	/** 问题描述 */
+	message: string;
+	/**
+	 * 严重程度
+	 *
+	 * - error：网络不能保存
+	 * - warning：可以保存，但建议提示用户（如 RPC 暂时无法访问）
+	 */
+	severity: 'error' | 'warning';
+}
+
+/**
+ * 校验结果
+ */
+export interface NetworkValidationResult {
+	/** 没有 error 级别的问题 */
+	valid: boolean;
+	issues: NetworkValidationIssue[];
+}
+
+/**
+ * validateNetwork 选项
+ */
+export interface NetworkValidationOptions {
+	/**
+	 * 是否请求每个 RPC 的 eth_chainId，确认它属于声明的链（可选，默认关闭）
+	 *
+	 * 返回其他链 ID 的 RPC 视为伪造，无法访问的 RPC 只产生警告。
+	 * 传入对象时作为请求选项（timeout、fetch）
+	 */
+	verifyRpc?: boolean | Omit<RpcHealthCheckOptions, 'interval'>;
+}
+
+/**
+ * 网络配置校验失败
+ */
+export class NetworkValidationError extends Error {
+	/** 所有问题（包括 warning） */
+	readonly issues: NetworkValidationIssue[];
+
+	constructor(issues: NetworkValidationIssue[], chainId?: number) {
+		const errors = issues.filter((issue) => issue.severity === 'error');
+		super(
+			`Invalid network${chainId !== undefined ? ` ${chainId}` : ''}: ${errors
+				.map((issue) => issue.message)
+				.join('; ')}`
+		);
+		this.name = 'NetworkValidationError';
+		this.issues = issues;
+	}
+}
+
+/**
+ * 是否为合法的 HTTP(S) URL
+ */
+function isHttpUrl(value: unknown): boolean {
+	if (typeof value !== 'string') return false;
+	try {
+		const { protocol } = new URL(value);
+		return protocol === 'http:' || protocol === 'https:';
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * 用于判断重复 RPC 的 URL（忽略大小写、首尾空格和末尾的斜杠）
+ */
+function normalizeUrl(url: string): string {
+	return url.trim().toLowerCase().replace(/\/+$/, '');
+}
+
+/**
+ * 创建 error 级别的问题
+ */
+function errorIssue(
+	code: NetworkValidationIssueCode,
+	field: string,
+	message: string
+): NetworkValidationIssue {
+	return { code, field, message, severity: 'error' };
+}
+
+/**
+ * 同步校验网络配置的结构
+ *
+ * 检查链 ID、名称、原生代币、RPC 端点（URL 格式、重复、主端点数量）和区块浏览器 URL
+ *
+ * @example
+ * ```typescript
+ * const issues = validateNetworkConfig(network);
+ * issues.forEach((issue) => console.log(issue.field, issue.message));
+ * ```
+ */
+export function validateNetworkConfig(
+	network: Omit<NetworkConfig, 'isCustom' | 'isBuiltIn'>
+): NetworkValidationIssue[] {
+	const issues: NetworkValidationIssue[] = [];
+
+	if (!Number.isSafeInteger(network.chainId) || network.chainId <= 0) {
+		issues.push(
+			errorIssue('invalid_chain_id', 'chainId', `Invalid chain ID: ${String(network.chainId)}`)
+		);
+	}
+
+	if (typeof network.name !== 'string' || !network.name.trim()) {
+		issues.push(errorIssue('missing_name', 'name', 'Network name is required'));
+	}
+
+	const currency = getNativeCurrency(network as NetworkConfig);
+	if (typeof currency?.symbol !== 'string' || !currency.symbol.trim()) {
+		issues.push(
+			errorIssue('invalid_native_currency', 'nativeCurrency.symbol', 'Currency symbol is required')
+		);
+	}
+	if (!Number.isInteger(currency?.decimals) || currency.decimals < 0 || currency.decimals > 255) {
+		issues.push(
+			errorIssue(
+				'invalid_native_currency',
+				'nativeCurrency.decimals',
+				`Invalid currency decimals: ${String(currency?.decimals)}`
+			)
+		);
+	}
+
+	const rpcEndpoints = Array.isArray(network.rpcEndpoints) ? network.rpcEndpoints : [];
+	if (rpcEndpoints.length === 0) {
+		issues.push(errorIssue('no_rpc', 'rpcEndpoints', 'At least one RPC endpoint is required'));
+	}
+
+	const seen = new Set<string>();
+	rpcEndpoints.forEach((endpoint, index) => {
+		const field = `rpcEndpoints[${index}].url`;
+		if (!isHttpUrl(endpoint?.url)) {
+			issues.push(
+				errorIssue('invalid_rpc_url', field, `Invalid RPC URL: ${String(endpoint?.url)}`)
+			);
+			return;
+		}
+
+		const normalized = normalizeUrl(endpoint.url);
+		if (seen.has(normalized)) {
+			issues.push(errorIssue('duplicate_rpc', field, `Duplicate RPC URL: ${endpoint.url}`));
+		}
+		seen.add(normalized);
+	});
+
+	const primaryCount = rpcEndpoints.filter((endpoint) => endpoint?.isPrimary).length;
+	if (rpcEndpoints.length > 0 && primaryCount === 0) {
+		issues.push(errorIssue('no_primary_rpc', 'rpcEndpoints', 'One RPC endpoint must be primary'));
+	} else if (primaryCount > 1) {
+		issues.push(
+			errorIssue(
+				'multiple_primary_rpc',
+				'rpcEndpoints',
+				`Only one RPC endpoint can be primary, found ${primaryCount}`
+			)
+		);
+	}
+
+	if (network.blockExplorer && !isHttpUrl(network.blockExplorer)) {
+		issues.push(
+			errorIssue(
+				'invalid_explorer_url',
+				'blockExplorer',
+				`Invalid block explorer URL: ${network.blockExplorer}`
+			)
+		);
+	}
+	Object.entries(network.blockExplorers ?? {}).forEach(([key, explorer]) => {
+		if (!isHttpUrl(explorer?.url)) {
+			issues.push(
+				errorIssue(
+					'invalid_explorer_url',
+					`blockExplorers.${key}.url`,
+					`Invalid block explorer URL: ${String(explorer?.url)}`
+				)
+			);
+		}
+	});
+
+	return issues;
+}
+
+/**
+ * 请求每个 RPC 的 eth_chainId，确认它们属于声明的链
+ *
+ * - 返回其他链 ID：error（rpc_chain_id_mismatch），防止伪造的 RPC 被保存
+ * - 无法访问：warning（rpc_unreachable），RPC 可能只是暂时不可用
+ */
+export async function verifyNetworkRpc(
+	network: Pick<NetworkConfig, 'chainId' | 'rpcEndpoints'>,
+	options: Omit<RpcHealthCheckOptions, 'interval'> = {}
+): Promise<NetworkValidationIssue[]> {
+	const results = await Promise.all(
+		network.rpcEndpoints.map((endpoint) => checkRpcEndpoint(endpoint.url, network.chainId, options))
+	);
+
+	return results.flatMap((result, index): NetworkValidationIssue[] => {
+		const field = `rpcEndpoints[${index}].url`;
+		if (result.chainId !== undefined && result.chainId !== network.chainId) {
+			return [
+				errorIssue(
+					'rpc_chain_id_mismatch',
+					field,
+					`RPC ${result.url} reports chain ID ${result.chainId}, expected ${network.chainId}`
+				)
+			];
+		}
+		if (!result.isAvailable) {
+			return [
+				{
+					code: 'rpc_unreachable',
+					field,
+					message: `RPC ${result.url} is unreachable: ${result.error}`,
+					severity: 'warning'
+				}
+			];
+		}
+		return [];
+	});
+}
+
+/**
+ * 校验网络配置
+ *
+ * 先做同步的结构校验；结构正确且开启了 verifyRpc 时，再请求 RPC 确认链 ID
+ */
+export async function validateNetwork(
+	network: Omit<NetworkConfig, 'isCustom' | 'isBuiltIn'>,
+	options: NetworkValidationOptions = {}
+): Promise<NetworkValidationResult> {
+	const issues = validateNetworkConfig(network);
+
+	if (options.verifyRpc && issues.length === 0) {
+		const rpcOptions = options.verifyRpc === true ? {} : options.verifyRpc;
+		issues.push(...(await verifyNetworkRpc(network, rpcOptions)));
+	}
+
+	return {
+		valid: !issues.some((issue) => issue.severity === 'error'),
+		issues
+	};
+}
+
+/**
+ * 有 error 级别的问题时抛出 NetworkValidationError
+ */
+export function assertValidNetwork(issues: NetworkValidationIssue[], chainId?: number): void {
+	if (issues.some((issue) => issue.severity === 'error')) {
+		throw new NetworkValidationError(issues, chainId);
+	}
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { checkRpcEndpoint } from './rpc-health.js';
+import { createMockRpcFetch } from '../testing/mock-rpc.js';
+
+const fetch = createMockRpcFetch({
+	'https://fast.test': { chainId: 1, blockNumber: 100n },
+	'https://slow.test': { chainId: 1, latency: 30 },
+	'https://goerli.test': { chainId: 5 },
+	'https://down.test': { status: 503 }
+});
+
+describe('checkRpcEndpoint', () => {
+	it('reports an available endpoint', async () => {
+		const result = await checkRpcEndpoint('https://fast.test', 1, { fetch });
+
+		expect(result).toMatchObject({
+			url: 'https://fast.test',
+			isAvailable: true,
+			chainId: 1,
+			blockNumber: 100n
+		});
+		expect(result.latency).toBeGreaterThanOrEqual(0);
+		expect(result.error).toBeUndefined();
+	});
+
+	it('records the latency of the block number request', async () => {
+		const result = await checkRpcEndpoint('https://slow.test', 1, { fetch });
+
+		expect(result.isAvailable).toBe(true);
+		expect(result.latency).toBeGreaterThanOrEqual(25);
+	});
+
+	it('rejects an endpoint that serves another chain', async () => {
+		const result = await checkRpcEndpoint('https://goerli.test', 1, { fetch });
+
+		expect(result).toMatchObject({
+			isAvailable: false,
+			chainId: 5,
+			error: 'Chain ID mismatch: expected 1, got 5'
+		});
+		expect(result.latency).toBeUndefined();
+	});
+
+	it('gives up after the timeout', async () => {
+		const result = await checkRpcEndpoint('https://slow.test', 1, { fetch, timeout: 10 });
+
+		expect(result).toMatchObject({ isAvailable: false, error: 'Timed out after 10ms' });
+	});
+
+	it('reports HTTP and network errors', async () => {
+		expect(await checkRpcEndpoint('https://down.test', 1, { fetch })).toMatchObject({
+			isAvailable: false,
+			error: 'HTTP 503'
+		});
+		expect(await checkRpcEndpoint('https://unknown.test', 1, { fetch })).toMatchObject({
+			isAvailable: false,
+			error: 'fetch failed: https://unknown.test'
+		});
+	});
+});
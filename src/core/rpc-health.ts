@@ -0,0 +1,142 @@
+import { normalizeChainId } from '../utils/chains.js';
+
+/**
+ * RPC 健康检查选项
+ */
+export interface RpcHealthCheckOptions {
+	/**
+	 * 定时检查的间隔（毫秒）
+	 * @default 60000
+	 */
+	interval?: number;
+
+	/**
+	 * 单个端点的超时时间（毫秒），超时视为不可用
+	 * @default 5000
+	 */
+	timeout?: number;
+
+	/**
+	 * 自定义 fetch（可选）
+	 *
+	 * 默认使用全局 fetch，测试时可以传入指向本地 JSON-RPC 桩的实现
+	 */
+	fetch?: typeof fetch;
+}
+
+/**
+ * 单个 RPC 端点的检查结果
+ */
+export interface RpcHealthResult {
+	/** RPC URL */
+	url: string;
+	/** 是否可用（请求成功且 chainId 匹配） */
+	isAvailable: boolean;
+	/** 延迟（毫秒），不可用时为 undefined */
+	latency?: number;
+	/** 端点返回的链 ID */
+	chainId?: number;
+	/** 端点返回的最新区块号 */
+	blockNumber?: bigint;
+	/** 不可用的原因 */
+	error?: string;
+	/** 检查时间 */
+	lastChecked: Date;
+}
+
+export const DEFAULT_HEALTH_CHECK_INTERVAL = 60_000;
+export const DEFAULT_HEALTH_CHECK_TIMEOUT = 5_000;
+
+/**
+ * 发送单个 JSON-RPC 请求
+ */
+async function rpcCall(
+	fetchFn: typeof fetch,
+	url: string,
+	method: string,
+	signal: AbortSignal
+): Promise<unknown> {
+	const response = await fetchFn(url, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params: [] }),
+		signal
+	});
+
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+
+	const body = (await response.json()) as { result?: unknown; error?: { message?: string } };
+	if (body.error) {
+		throw new Error(body.error.message || 'RPC error');
+	}
+	return body.result;
+}
+
+/**
+ * 检查单个 RPC 端点
+ *
+ * 依次请求 eth_chainId 和 eth_blockNumber：
+ * - 返回的链 ID 与预期不一致时视为不可用（配置了其他链的 RPC）
+ * - 延迟取 eth_blockNumber 的耗时（eth_chainId 通常被节点缓存，不能反映真实延迟）
+ *
+ * 不会抛出错误，失败原因记录在 error 中
+ *
+ * @example
+ * ```typescript
+ * const result = await checkRpcEndpoint('https://eth.llamarpc.com', 1);
+ * if (result.isAvailable) console.log(`${result.latency}ms`);
+ * ```
+ */
+export async function checkRpcEndpoint(
+	url: string,
+	expectedChainId: number,
+	options: Omit<RpcHealthCheckOptions, 'interval'> = {}
+): Promise<RpcHealthResult> {
+	const { timeout = DEFAULT_HEALTH_CHECK_TIMEOUT, fetch: fetchFn = globalThis.fetch } = options;
+	const controller = new AbortController();
+	const timer = setTimeout(() => controller.abort(), timeout);
+
+	try {
+		const chainId = normalizeChainId(
+			(await rpcCall(fetchFn, url, 'eth_chainId', controller.signal)) as string
+		);
+		if (chainId !== expectedChainId) {
+			return {
+				url,
+				isAvailable: false,
+				chainId,
+				error: `Chain ID mismatch: expected ${expectedChainId}, got ${chainId}`,
+				lastChecked: new Date()
+			};
+		}
+
+		const startedAt = Date.now();
+		const blockNumber = BigInt(
+			(await rpcCall(fetchFn, url, 'eth_blockNumber', controller.signal)) as string
+		);
+
+		return {
+			url,
+			isAvailable: true,
+			latency: Date.now() - startedAt,
+			chainId,
+			blockNumber,
+			lastChecked: new Date()
+		};
+	} catch (error) {
+		return {
+			url,
+			isAvailable: false,
+			error: controller.signal.aborted
+				? `Timed out after ${timeout}ms`
+				: error instanceof Error
+					? error.message
+					: String(error),
+			lastChecked: new Date()
+		};
+	} finally {
+		clearTimeout(timer);
+	}
+}
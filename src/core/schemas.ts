@@ -0,0 +1,133 @@
+import type { PersistedConnection, PersistedSessions } from './types/connection.js';
+import type { NamespaceConfig, NetworkConfig, StoredNetworkConfig } from './types/network.js';
+import { isRecord, type StorageSchema } from './migrations.js';
+
+/**
+ * 管理器持久化数据的结构定义
+ *
+ * 修改 PersistedSessions（PersistedConnection）或 StoredNetworkConfig 的结构时：
+ * 1. 将对应的 version 加 1
+ * 2. 在 migrations 中注册从上一个版本升级的迁移函数
+ * 3. 同步更新 validate
+ */
+
+/**
+ * 检查是否为 PersistedConnection
+ */
+function isPersistedConnection(data: unknown): data is PersistedConnection {
+	return (
+		isRecord(data) &&
+		typeof data.connectorId === 'string' &&
+		typeof data.address === 'string' &&
+		typeof data.chainId === 'number' &&
+		typeof data.timestamp === 'number' &&
+		typeof data.connectedAt === 'number'
+	);
+}
+
+/**
+ * 检查是否为 PersistedSessions
+ */
+function isPersistedSessions(data: unknown): data is PersistedSessions {
+	return (
+		isRecord(data) &&
+		(data.activeConnectorId === undefined || typeof data.activeConnectorId === 'string') &&
+		Array.isArray(data.sessions) &&
+		data.sessions.every(isPersistedConnection)
+	);
+}
+
+/**
+ * 检查是否为 StoredNetworkConfig
+ */
+function isStoredNetworkConfig(data: unknown): data is StoredNetworkConfig {
+	if (!isRecord(data) || !isRecord(data.networks) || !isRecord(data.namespaces)) {
+		return false;
+	}
+
+	const networksValid = Object.values(data.networks).every(
+		(network) =>
+			isRecord(network) &&
+			typeof network.chainId === 'number' &&
+			typeof network.name === 'string' &&
+			Array.isArray(network.rpcEndpoints)
+	);
+	const namespacesValid = Object.values(data.namespaces).every(
+		(namespace) => isRecord(namespace) && Array.isArray(namespace.enabledChainIds)
+	);
+
+	return networksValid && namespacesValid;
+}
+
+/**
+ * 连接信息（WalletConnectionManager）
+ *
+ * - v1：加入版本号，结构与无版本号的旧数据相同（单个 PersistedConnection）
+ * - v2：支持多连接，改为 PersistedSessions
+ * - v3：加入 connectedAt（旧数据使用 timestamp）
+ */
+export const connectionSchema: StorageSchema<PersistedSessions> = {
+	version: 3,
+	migrations: {
+		2: (data) => {
+			if (!isRecord(data) || typeof data.connectorId !== 'string') return data;
+			return { activeConnectorId: data.connectorId, sessions: [data] };
+		},
+		3: (data) => {
+			if (!isRecord(data) || !Array.isArray(data.sessions)) return data;
+			return {
+				...data,
+				sessions: data.sessions.map((session: unknown) =>
+					isRecord(session) && session.connectedAt === undefined
+						? { ...session, connectedAt: session.timestamp }
+						: session
+				)
+			};
+		}
+	},
+	validate: isPersistedSessions
+};
+
+/**
+ * 网络配置（NetworkManager）
+ *
+ * - v1：加入版本号；补全旧数据中缺失的字段，chainId 统一为数字
+ */
+export const networkConfigSchema: StorageSchema<StoredNetworkConfig> = {
+	version: 1,
+	migrations: {
+		1: (data) => {
+			if (!isRecord(data)) return data;
+
+			const networks: Record<number, NetworkConfig> = {};
+			Object.values(isRecord(data.networks) ? data.networks : {}).forEach((value) => {
+				if (!isRecord(value)) return;
+				const network = value as unknown as NetworkConfig;
+				const chainId = Number(network.chainId);
+				networks[chainId] = {
+					...network,
+					chainId,
+					rpcEndpoints: Array.isArray(network.rpcEndpoints) ? network.rpcEndpoints : [],
+					isCustom: network.isCustom === true,
+					isBuiltIn: network.isBuiltIn === true
+				};
+			});
+
+			const namespaces: Record<string, NamespaceConfig> = {};
+			Object.entries(isRecord(data.namespaces) ? data.namespaces : {}).forEach(([name, value]) => {
+				if (!isRecord(value)) return;
+				const namespace = value as unknown as NamespaceConfig;
+				namespaces[name] = {
+					enabledChainIds: Array.isArray(namespace.enabledChainIds)
+						? namespace.enabledChainIds.map(Number)
+						: [],
+					currentChainId:
+						namespace.currentChainId !== undefined ? Number(namespace.currentChainId) : undefined
+				};
+			});
+
+			return { networks, namespaces };
+		}
+	},
+	validate: isStoredNetworkConfig
+};
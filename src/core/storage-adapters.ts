@@ -0,0 +1,262 @@
+/**
+ * 存储适配器
+ *
+ * createStorage 不直接依赖 localStorage，而是通过 StorageAdapter 读写字符串：
+ * - 内置 localStorage、sessionStorage、IndexedDB、内存、Cookie 适配器
+ * - 任何实现了 getItem / setItem / removeItem 的对象都可以作为适配器，
+ *   同步或异步均可（如 React Native 的 AsyncStorage 可以直接传入）
+ *
+ * @example
+ * ```typescript
+ * // 同一域名下的多个应用使用不同的键前缀
+ * const manager = new WalletConnectionManager(connectors, chains, {
+ *   storage: createLocalStorageAdapter(),
+ *   storageKeyPrefix: 'my-app:'
+ * });
+ *
+ * // React Native
+ * import AsyncStorage from '@react-native-async-storage/async-storage';
+ * const manager = new WalletConnectionManager(connectors, chains, { storage: AsyncStorage });
+ *
+ * // SSR / Node.js
+ * const manager = new WalletConnectionManager(connectors, chains, {
+ *   storage: createMemoryStorageAdapter()
+ * });
+ * ```
+ */
+
+/**
+ * 同步值或 Promise
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * 存储适配器接口
+ *
+ * 方法签名与 Web Storage 和 AsyncStorage 保持一致
+ */
+export interface StorageAdapter {
+	/** 读取数据，不存在时返回 null */
+	getItem(key: string): MaybePromise<string | null>;
+	/** 写入数据 */
+	setItem(key: string, value: string): MaybePromise<void>;
+	/** 删除数据 */
+	removeItem(key: string): MaybePromise<void>;
+}
+
+/**
+ * 检查值是否为 Promise（或 thenable）
+ */
+export function isPromiseLike<T>(value: MaybePromise<T>): value is Promise<T> {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as { then?: unknown }).then === 'function'
+	);
+}
+
+/**
+ * 基于 Web Storage 创建适配器
+ *
+ * 每次读写时再获取 Storage 对象，非浏览器环境或访问被禁止（如隐私模式）时静默忽略
+ */
+function createWebStorageAdapter(getStorage: () => Storage | undefined): StorageAdapter {
+	const resolve = (): Storage | undefined => {
+		try {
+			return getStorage();
+		} catch {
+			return undefined;
+		}
+	};
+
+	return {
+		getItem: (key) => resolve()?.getItem(key) ?? null,
+		setItem: (key, value) => resolve()?.setItem(key, value),
+		removeItem: (key) => resolve()?.removeItem(key)
+	};
+}
+
+/**
+ * localStorage 适配器（默认）
+ */
+export function createLocalStorageAdapter(): StorageAdapter {
+	return createWebStorageAdapter(() =>
+		typeof localStorage === 'undefined' ? undefined : localStorage
+	);
+}
+
+/**
+ * sessionStorage 适配器
+ *
+ * 数据只在当前标签页内有效，关闭标签页后清除
+ */
+export function createSessionStorageAdapter(): StorageAdapter {
+	return createWebStorageAdapter(() =>
+		typeof sessionStorage === 'undefined' ? undefined : sessionStorage
+	);
+}
+
+/**
+ * 内存适配器
+ *
+ * 适用于 SSR、Node.js 或不需要持久化的场景，页面刷新后数据丢失
+ *
+ * @param initial 初始数据
+ */
+export function createMemoryStorageAdapter(initial: Record<string, string> = {}): StorageAdapter {
+	const store = new Map(Object.entries(initial));
+
+	return {
+		getItem: (key) => store.get(key) ?? null,
+		setItem: (key, value) => {
+			store.set(key, value);
+		},
+		removeItem: (key) => {
+			store.delete(key);
+		}
+	};
+}
+
+/**
+ * IndexedDB 适配器选项
+ */
+export interface IndexedDBStorageAdapterOptions {
+	/**
+	 * 数据库名称
+	 * @default 'ethereum-connectors'
+	 */
+	dbName?: string;
+
+	/**
+	 * 对象仓库名称
+	 * @default 'keyval'
+	 */
+	storeName?: string;
+}
+
+/**
+ * IndexedDB 适配器
+ *
+ * 数据库在第一次读写时打开，非浏览器环境中读取返回 null、写入静默忽略
+ */
+export function createIndexedDBStorageAdapter(
+	options: IndexedDBStorageAdapterOptions = {}
+): StorageAdapter {
+	const { dbName = 'ethereum-connectors', storeName = 'keyval' } = options;
+	let dbPromise: Promise<IDBDatabase> | undefined;
+
+	const openDB = (): Promise<IDBDatabase> => {
+		dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(dbName, 1);
+			request.onupgradeneeded = () => {
+				request.result.createObjectStore(storeName);
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
+		});
+		return dbPromise;
+	};
+
+	const run = async <T>(
+		mode: IDBTransactionMode,
+		operation: (store: IDBObjectStore) => IDBRequest
+	): Promise<T> => {
+		const db = await openDB();
+		return new Promise<T>((resolve, reject) => {
+			const transaction = db.transaction(storeName, mode);
+			const request = operation(transaction.objectStore(storeName));
+			transaction.oncomplete = () => resolve(request.result as T);
+			transaction.onerror = () =>
+				reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+			transaction.onabort = () =>
+				reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+		});
+	};
+
+	const available = (): boolean => typeof indexedDB !== 'undefined';
+
+	return {
+		getItem: async (key) => {
+			if (!available()) return null;
+			const value = await run<unknown>('readonly', (store) => store.get(key));
+			return typeof value === 'string' ? value : null;
+		},
+		setItem: async (key, value) => {
+			if (!available()) return;
+			await run('readwrite', (store) => store.put(value, key));
+		},
+		removeItem: async (key) => {
+			if (!available()) return;
+			await run('readwrite', (store) => store.delete(key));
+		}
+	};
+}
+
+/**
+ * Cookie 适配器选项
+ */
+export interface CookieStorageAdapterOptions {
+	/**
+	 * Cookie 路径
+	 * @default '/'
+	 */
+	path?: string;
+
+	/**
+	 * Cookie 域名
+	 */
+	domain?: string;
+
+	/**
+	 * 有效期（秒）
+	 * @default 31536000（一年）
+	 */
+	maxAge?: number;
+
+	/**
+	 * SameSite 策略
+	 * @default 'Lax'
+	 */
+	sameSite?: 'Strict' | 'Lax' | 'None';
+
+	/**
+	 * 是否只在 HTTPS 下发送
+	 * @default sameSite 为 'None' 时为 true
+	 */
+	secure?: boolean;
+}
+
+/**
+ * Cookie 适配器
+ *
+ * 适用于需要在服务端读取连接状态的场景（如 SSR 首屏渲染）
+ * 注意：单个 Cookie 通常限制在 4KB 以内，不适合保存大量网络配置
+ */
+export function createCookieStorageAdapter(
+	options: CookieStorageAdapterOptions = {}
+): StorageAdapter {
+	const { path = '/', domain, maxAge = 365 * 24 * 60 * 60, sameSite = 'Lax' } = options;
+	const secure = options.secure ?? sameSite === 'None';
+
+	const write = (key: string, value: string, age: number): void => {
+		if (typeof document === 'undefined') return;
+
+		const attributes = [`path=${path}`, `max-age=${age}`, `samesite=${sameSite}`];
+		if (domain) attributes.push(`domain=${domain}`);
+		if (secure) attributes.push('secure');
+
+		document.cookie = `${encodeURIComponent(key)}=${encodeURIComponent(value)}; ${attributes.join('; ')}`;
+	};
+
+	return {
+		getItem: (key) => {
+			if (typeof document === 'undefined') return null;
+
+			const name = `${encodeURIComponent(key)}=`;
+			const cookie = document.cookie.split('; ').find((item) => item.startsWith(name));
+			return cookie ? decodeURIComponent(cookie.slice(name.length)) : null;
+		},
+		setItem: (key, value) => write(key, value, maxAge),
+		removeItem: (key) => write(key, '', 0)
+	};
+}
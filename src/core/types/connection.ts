@@ -1,18 +1,39 @@
 import type { Address } from 'viem';
-import type { Connector } from './connector.js';
+import type { Connector, ConnectorOperationOptions } from './connector.js';
+import type { ConnectorError } from '../errors.js';
+import type { ConnectionStatus } from '../connection-state-machine.js';
+
+/**
+ * 单个钱包连接（会话）
+ */
+export interface ConnectionSession {
+	connector: Connector;
+	address: Address;
+	addresses: Address[];
+	chainId: number;
+	chains: number[];
+}
 
 /**
  * 连接状态
+ *
+ * address、chainId、connector 等字段描述当前激活的连接；
+ * 多连接模式下，sessions 包含所有同时保持的连接
  */
 export interface ConnectionState {
+	/** 连接状态，由 ConnectionStateMachine 管理 */
+	status: ConnectionStatus;
+	/** 是否有激活的连接（切换网络、断开过程中仍为 true） */
 	isConnected: boolean;
+	/** status 为 connecting 或 reconnecting */
 	isConnecting: boolean;
 	address?: Address;
 	addresses?: Address[]; // All authorized addresses (always array when connected)
 	chainId?: number;
 	chains?: number[]; // All authorized chains (always array when connected)
 	connector?: Connector;
-	error?: Error;
+	error?: ConnectorError;
+	sessions: ConnectionSession[]; // All connected sessions, in connection order
 }
 
 /**
@@ -39,11 +60,19 @@ export interface PersistedConnection {
 	chainId: number;
 
 	/**
-	 * 保存时间戳
-	 * 用于判断连接是否过期
+	 * 最后活动时间戳
+	 *
+	 * 连接、账户或网络切换、权限变化、恢复连接时更新，
+	 * sliding 过期策略以它为准
 	 */
 	timestamp: number;
 
+	/**
+	 * 建立连接的时间戳
+	 * fixed 过期策略以它为准
+	 */
+	connectedAt: number;
+
 	/**
 	 * EIP6963 钱包的额外信息 (可选)
 	 * 用于 EIP6963 类型的钱包，保存钱包的详细信息
@@ -61,6 +90,122 @@ export interface PersistedConnection {
 	[key: string]: unknown;
 }
 
+/**
+ * 持久化的所有连接
+ *
+ * 单连接模式下 sessions 最多只有一个
+ */
+export interface PersistedSessions {
+	/** 当前激活的连接器 ID */
+	activeConnectorId?: string;
+	/** 所有连接 */
+	sessions: PersistedConnection[];
+}
+
+/**
+ * 连接过期策略
+ *
+ * - fixed：建立连接 maxAge 毫秒后过期，活动不会延长
+ * - sliding：最后一次活动 maxAge 毫秒后过期
+ * - never：只要钱包仍然授权就恢复连接
+ */
+export type SessionExpiryPolicy =
+	| { type: 'fixed'; maxAge: number }
+	| { type: 'sliding'; maxAge: number }
+	| { type: 'never' };
+
+/**
+ * 连接无法恢复的原因
+ *
+ * - no_persisted_session：没有保存的连接
+ * - expired：连接已按过期策略过期
+ * - connector_not_found：没有注册对应的连接器
+ * - not_authorized：钱包不再授权当前网站
+ * - restore_failed：读取账户或网络时出错
+ * - cancelled：恢复过程中调用了 connect()，恢复结果被丢弃
+ */
+export type AutoConnectFailureReason =
+	| 'no_persisted_session'
+	| 'expired'
+	| 'connector_not_found'
+	| 'not_authorized'
+	| 'restore_failed'
+	| 'cancelled';
+
+/**
+ * 单个连接恢复失败的信息
+ */
+export interface AutoConnectFailure {
+	connectorId: string;
+	reason: AutoConnectFailureReason;
+	/** reason 为 restore_failed 时的原始错误 */
+	error?: unknown;
+}
+
+/**
+ * 自动连接结果
+ */
+export interface AutoConnectResult {
+	/** 是否恢复了至少一个连接 */
+	restored: boolean;
+	/**
+	 * 没有恢复任何连接的原因
+	 *
+	 * 没有保存的连接时为 no_persisted_session，否则为上次激活的连接恢复失败的原因
+	 */
+	reason?: AutoConnectFailureReason;
+	/** 恢复的连接 */
+	sessions: ConnectionSession[];
+	/** 恢复失败的连接 */
+	failures: AutoConnectFailure[];
+}
+
+/**
+ * 连接管理器事件
+ *
+ * 由状态变化触发，描述当前激活的连接；参数依次为变化后和变化前的值
+ */
+export interface ConnectionManagerEvents {
+	/** 新增了一个连接（多连接模式下每连接一个钱包触发一次） */
+	connect: (session: ConnectionSession) => void;
+	/** 断开了一个连接，无论是否为激活连接 */
+	disconnect: (session: ConnectionSession) => void;
+	/** 激活连接切换（连接、断开或 setActiveSession），没有激活连接时为 undefined */
+	activeSessionChanged: (
+		session: ConnectionSession | undefined,
+		previous: ConnectionSession | undefined
+	) => void;
+	/** 激活连接的账户变化 */
+	accountChanged: (address: Address, previous: Address) => void;
+	/** 激活连接的网络变化 */
+	chainChanged: (chainId: number, previous: number) => void;
+	/** 注册了连接器 */
+	connectorsChanged: (connectors: Connector[], previous: Connector[]) => void;
+	/** 出现新的错误 */
+	error: (error: ConnectorError, previous: ConnectorError | undefined) => void;
+	/** autoConnect 结束 */
+	autoConnectFinished: (result: AutoConnectResult) => void;
+}
+
+/**
+ * watch 选项
+ */
+export interface StateWatchOptions<T> {
+	/**
+	 * 判断选中的值是否变化
+	 *
+	 * 选择器每次返回新的数组或对象时（如 state.sessions.map(...)），需要传入自定义比较
+	 * @default Object.is
+	 */
+	equals?: (a: T, b: T) => boolean;
+
+	/**
+	 * 是否立即以当前值调用一次（previous 与当前值相同）
+	 * @default false
+	 */
+	immediate?: boolean;
+}
+
 /**
  * 连接管理器接口
  */
@@ -77,8 +222,14 @@ export interface ConnectionManager {
 
 	/**
 	 * 连接钱包
+	 *
+	 * @param options 可以传入 signal 取消连接，效果与 cancelConnect() 相同
 	 */
-	connect(connector: Connector, chainId: number): Promise<void>;
+	connect(
+		connector: Connector,
+		chainId: number,
+		options?: ConnectorOperationOptions
+	): Promise<void>;
 
 	/**
 	 * 断开连接
@@ -88,14 +239,15 @@ export interface ConnectionManager {
 	/**
 	 * 取消正在进行的连接
 	 *
-	 * 用于取消连接过程中的操作（如关闭 WalletConnect QR 码弹窗）
+	 * 用于取消连接过程中的操作（如关闭 WalletConnect QR 码弹窗），
+	 * 连接器会中止进行中的请求，connect() 以 AbortedError 拒绝
 	 */
 	cancelConnect(): void;
 
 	/**
 	 * 自动连接（从本地存储恢复）
 	 */
-	autoConnect(): Promise<boolean>;
+	autoConnect(): Promise<AutoConnectResult>;
 
 	/**
 	 * 获取当前连接状态
@@ -106,4 +258,28 @@ export interface ConnectionManager {
 	 * 订阅状态变化
 	 */
 	subscribe(listener: (state: ConnectionState) => void): () => void;
+
+	/**
+	 * 订阅状态的一部分，只在选中的值变化时调用
+	 *
+	 * @returns 取消订阅函数
+	 */
+	watch<T>(
+		selector: (state: ConnectionState) => T,
+		listener: (value: T, previous: T) => void,
+		options?: StateWatchOptions<T>
+	): () => void;
+
+	/**
+	 * 监听事件
+	 */
+	on<K extends keyof ConnectionManagerEvents>(event: K, listener: ConnectionManagerEvents[K]): void;
+
+	/**
+	 * 取消监听
+	 */
+	off<K extends keyof ConnectionManagerEvents>(
+		event: K,
+		listener: ConnectionManagerEvents[K]
+	): void;
 }
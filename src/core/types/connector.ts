@@ -1,6 +1,43 @@
-import type { Address } from 'viem';
+import type {
+	Address,
+	Capabilities,
+	ChainIdToCapabilities,
+	Hash,
+	Hex,
+	SignableMessage,
+	TransactionRequest,
+	TypedData,
+	TypedDataDefinition
+} from 'viem';
 import type { ConnectorEvents } from './events.js';
 
+/**
+ * 交易请求
+ *
+ * from 默认为当前账户；指定 chainId 时会校验钱包当前所在的链
+ */
+export type ConnectorTransactionRequest = TransactionRequest & {
+	chainId?: number;
+};
+
+/**
+ * 钱包能力（EIP-5792），按链 ID 分组
+ */
+export type ConnectorCapabilities = ChainIdToCapabilities<Capabilities, number>;
+
+/**
+ * connect / switchChain 选项
+ */
+export interface ConnectorOperationOptions {
+	/**
+	 * 取消操作
+	 *
+	 * 取消后连接器清理进行中的请求（如 WalletConnect 配对、二维码扫描），
+	 * 并以 AbortedError 拒绝
+	 */
+	signal?: AbortSignal;
+}
+
 /**
  * 连接器元数据
  *
@@ -88,9 +125,14 @@ export interface Connector {
 	/**
 	 * 连接钱包
 	 * @param chainId 链 ID
+	 * @param options 可以传入 signal 取消连接
 	 * @returns 连接的地址、所有账户地址和链 ID
+	 * @throws AbortedError signal 被取消时抛出
 	 */
-	connect(chainId: number): Promise<{
+	connect(
+		chainId: number,
+		options?: ConnectorOperationOptions
+	): Promise<{
 		address: Address;
 		addresses: Address[]; // 所有可用地址（至少包含当前地址）
 		chainId: number;
@@ -145,8 +187,60 @@ export interface Connector {
 	 * 切换链
 	 *
 	 * 如果钱包不支持链切换，应该抛出错误
+	 *
+	 * @param options 可以传入 signal 取消切换
+	 * @throws AbortedError signal 被取消时抛出
+	 */
+	switchChain(chainId: number, options?: ConnectorOperationOptions): Promise<void>;
+
+	/**
+	 * 签名消息（personal_sign）
+	 *
+	 * @param message 字符串按 UTF-8 签名；{ raw } 按原始字节签名
+	 * @param address 签名账户，默认为当前账户
+	 * @returns 签名
+	 */
+	signMessage(message: SignableMessage, address?: Address): Promise<Hex>;
+
+	/**
+	 * 签名 EIP-712 类型化数据（eth_signTypedData_v4）
+	 *
+	 * @param typedData 类型化数据（domain、types、primaryType、message）
+	 * @param address 签名账户，默认为当前账户
+	 * @returns 签名
+	 */
+	signTypedData<
+		const typedData extends TypedData | Record<string, unknown>,
+		primaryType extends keyof typedData | 'EIP712Domain'
+	>(
+		typedData: TypedDataDefinition<typedData, primaryType>,
+		address?: Address
+	): Promise<Hex>;
+
+	/**
+	 * 发送交易（eth_sendTransaction）
+	 *
+	 * @returns 交易哈希
+	 *
+	 * @example
+	 * ```typescript
+	 * const hash = await connector.sendTransaction({
+	 *   to: '0x...',
+	 *   value: parseEther('0.01')
+	 * });
+	 * ```
+	 */
+	sendTransaction(transaction: ConnectorTransactionRequest): Promise<Hash>;
+
+	/**
+	 * 获取钱包能力（EIP-5792 wallet_getCapabilities）
+	 *
+	 * 钱包不支持该方法时返回空对象
+	 *
+	 * @param address 账户，默认为当前账户
+	 * @returns 按链 ID 分组的能力
 	 */
-	switchChain(chainId: number): Promise<void>;
+	getCapabilities(address?: Address): Promise<ConnectorCapabilities>;
 
 	/**
 	 * 监听事件
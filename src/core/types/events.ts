@@ -164,19 +164,10 @@ export interface CoreConnectorEvents {
 	 * 发生错误事件 - 必需
 	 *
 	 * 当连接器发生错误时触发。
-	 * 应该在任何异常情况下触发此事件，以便上层处理。
+	 * BaseConnector 在 connect、switchChain 失败以及任何操作超时时触发一次，
+	 * 子类的 doConnect、doSwitchChain 只需抛出错误，不要再自行触发。
 	 *
-	 * @param error - 错误对象，包含错误信息
-	 *
-	 * @example
-	 * ```typescript
-	 * try {
-	 *   await this.provider.request({ method: 'eth_accounts' });
-	 * } catch (error) {
-	 *   this.emit('error', error as Error);
-	 *   throw error;
-	 * }
-	 * ```
+	 * @param error - 错误对象，内置连接器统一使用 ConnectorError
 	 */
 	error: (error: Error) => void;
 }
@@ -6,16 +6,35 @@
  */
 
 // Connector types
-export type { Connector, ConnectorMetadata, EIP1193Provider } from './connector.js';
+export type {
+	Connector,
+	ConnectorMetadata,
+	ConnectorTransactionRequest,
+	ConnectorOperationOptions,
+	ConnectorCapabilities,
+	EIP1193Provider
+} from './connector.js';
 
 // Connection types
-export type { ConnectionState, PersistedConnection, ConnectionManager } from './connection.js';
+export type {
+	ConnectionState,
+	ConnectionSession,
+	PersistedConnection,
+	PersistedSessions,
+	SessionExpiryPolicy,
+	AutoConnectFailureReason,
+	AutoConnectFailure,
+	AutoConnectResult,
+	ConnectionManager,
+	ConnectionManagerEvents,
+	StateWatchOptions
+} from './connection.js';
 
 // Event types
 export type { ConnectorEvents, ConnectionInfo } from './events.js';
 
 // Options types (通用选项)
-export type { ConnectorOptions } from './options.js';
+export type { ConnectorOptions, ConnectorOperation, ConnectorTimeouts } from './options.js';
 
 // Network types
 export type {
@@ -25,3 +44,11 @@ export type {
 	StoredNetworkConfig,
 	NetworkManagerEvents
 } from './network.js';
+
+// Manager options
+export type {
+	ManagerOptions,
+	WalletConnectionManagerOptions,
+	NetworkManagerOptions,
+	IntegratedManagerOptions
+} from './manager.js';
@@ -0,0 +1,117 @@
+import type { Logger } from '../logger.js';
+import type { StorageAdapter } from '../storage-adapters.js';
+import type { SyncTransport } from '../cross-tab-sync.js';
+import type { RpcHealthCheckOptions } from '../rpc-health.js';
+import type { SessionExpiryPolicy } from './connection.js';
+import type { Connector } from './connector.js';
+import type { EIP6963ProviderDetail } from '../../adapters/eip6963/types.js';
+
+/**
+ * 管理器通用选项
+ */
+export interface ManagerOptions {
+	/**
+	 * 日志（可选）
+	 *
+	 * 默认不输出任何日志，开发时可以传入 createLogger({ level: 'debug' })
+	 */
+	logger?: Logger;
+
+	/**
+	 * 存储适配器（可选）
+	 *
+	 * 默认使用 localStorage，非浏览器环境可以传入 createMemoryStorageAdapter()
+	 * 或 React Native 的 AsyncStorage 等自定义适配器
+	 */
+	storage?: StorageAdapter;
+
+	/**
+	 * 存储键名前缀（可选）
+	 *
+	 * 同一域名下部署多个应用时用于隔离数据，如 'my-app:'
+	 */
+	storageKeyPrefix?: string;
+
+	/**
+	 * 跨标签页同步（可选，默认关闭）
+	 *
+	 * 开启后，一个标签页中的连接、断开、账户和网络切换以及网络配置修改会同步到同一域名下的其他标签页。
+	 * 传入 true 时优先使用 BroadcastChannel，也可以传入自定义的 SyncTransport
+	 */
+	crossTabSync?: boolean | SyncTransport;
+}
+
+/**
+ * WalletConnectionManager 选项
+ */
+export interface WalletConnectionManagerOptions extends ManagerOptions {
+	/**
+	 * 多连接模式（可选，默认关闭）
+	 *
+	 * 开启后连接新钱包不会断开已有连接，每个连接保留自己的账户和网络，
+	 * 通过 setActiveSession() 切换当前激活的连接
+	 */
+	multiSession?: boolean;
+
+	/**
+	 * 连接持久化的命名空间（可选）
+	 *
+	 * 同一域名下的多个管理器使用不同的命名空间，各自保存自己的连接，互不覆盖。
+	 * 不设置或为 'default' 时使用原来的 'connection' 键，已保存的连接不受影响
+	 * @default 'default'
+	 */
+	namespace?: string;
+
+	/**
+	 * 连接持久化的存储键名（可选，会加上 storageKeyPrefix）
+	 *
+	 * 设置后优先于 namespace 生成的键名
+	 */
+	connectionStorageKey?: string;
+
+	/**
+	 * 连接过期策略（可选）
+	 *
+	 * autoConnect 恢复连接时，按此策略丢弃过期的连接
+	 * @default { type: 'sliding', maxAge: 24 * 60 * 60 * 1000 }
+	 */
+	sessionExpiry?: SessionExpiryPolicy;
+
+	/**
+	 * autoConnect 等待 EIP-6963 钱包宣告的最长时间（毫秒，可选）
+	 *
+	 * 恢复 EIP-6963 连接时，如果对应的连接器还没有注册，会等待 rdns 匹配的钱包宣告后
+	 * 自动创建并注册连接器；设为 0 时不等待
+	 * @default 1000
+	 */
+	eip6963Timeout?: number;
+
+	/**
+	 * autoConnect 为 EIP-6963 钱包创建连接器的函数（可选）
+	 *
+	 * 默认创建 EIP6963Connector（使用管理器的链列表，shimDisconnect 为 true）
+	 */
+	createEIP6963Connector?: (providerDetail: EIP6963ProviderDetail) => Connector;
+}
+
+/**
+ * NetworkManager 选项
+ */
+export interface NetworkManagerOptions extends ManagerOptions {
+	/**
+	 * RPC 健康检查（可选，默认关闭）
+	 *
+	 * 开启后配置加载完成时自动开始定时检查所有网络的 RPC 端点，
+	 * 等同于调用 startHealthChecks()
+	 */
+	healthCheck?: boolean | RpcHealthCheckOptions;
+}
+
+/**
+ * IntegratedManager 选项
+ *
+ * 会同时传递给内部的 NetworkManager 和 WalletConnectionManager，
+ * 连接持久化的命名空间使用 IntegratedManager 的命名空间
+ */
+export type IntegratedManagerOptions = Omit<WalletConnectionManagerOptions, 'namespace'> &
+	NetworkManagerOptions;
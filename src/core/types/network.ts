@@ -1,3 +1,6 @@
+import type { Chain } from 'viem';
+import type { ConfigImportResult } from '../network-config-transfer.js';
+
 /**
  * RPC 端点配置
  */
@@ -26,10 +29,26 @@ export interface NetworkConfig {
 	name: string;
 	/** 原生代币符号 */
 	symbol: string;
+	/**
+	 * 原生代币信息
+	 *
+	 * 不设置时使用 symbol 作为名称和符号，精度为 18
+	 */
+	nativeCurrency?: Chain['nativeCurrency'];
 	/** RPC 端点列表 */
 	rpcEndpoints: RpcEndpoint[];
-	/** 区块浏览器 URL */
+	/** 区块浏览器 URL（默认浏览器） */
 	blockExplorer?: string;
+	/**
+	 * 所有区块浏览器（与 viem Chain 的 blockExplorers 结构相同）
+	 *
+	 * 设置后优先于 blockExplorer
+	 */
+	blockExplorers?: Chain['blockExplorers'];
+	/** 常用合约地址（multicall3、ENS 注册表等，与 viem Chain 的 contracts 结构相同） */
+	contracts?: Chain['contracts'];
+	/** 是否为测试网 */
+	testnet?: boolean;
 	/** 网络图标 URL */
 	iconUrl?: string;
 	/** 是否为用户自定义网络 */
@@ -78,4 +97,22 @@ export interface NetworkManagerEvents {
 	networkToggled: (namespace: string, chainId: number, enabled: boolean) => void;
 	/** 当前网络被切换 */
 	currentNetworkChanged: (namespace: string, chainId: number) => void;
+	/** 启用网络的顺序被调整 */
+	networksReordered: (namespace: string, enabledChainIds: number[]) => void;
+	/** 命名空间被创建（包括 toggleNetwork 等方法隐式创建） */
+	namespaceCreated: (namespace: string, config: NamespaceConfig) => void;
+	/** 命名空间被重命名 */
+	namespaceRenamed: (from: string, to: string) => void;
+	/** 命名空间被重置为默认网络 */
+	namespaceReset: (namespace: string, config: NamespaceConfig) => void;
+	/** 命名空间被删除 */
+	namespaceDeleted: (namespace: string) => void;
+	/** 异步存储中的配置加载完成 */
+	configLoaded: (config: StoredNetworkConfig) => void;
+	/** 其他标签页修改了配置 */
+	configSynced: (config: StoredNetworkConfig) => void;
+	/** 导入了网络配置 */
+	configImported: (config: StoredNetworkConfig, result: ConfigImportResult) => void;
+	/** RPC 端点健康检查完成（isAvailable、latency、lastChecked 已更新） */
+	rpcHealthChanged: (chainId: number, rpcEndpoints: RpcEndpoint[]) => void;
 }
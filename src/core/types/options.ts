@@ -1,4 +1,26 @@
 import type { Chain } from 'viem';
+import type { Logger } from '../logger.js';
+
+/**
+ * 有超时限制的连接器操作
+ *
+ * - connect：连接（包括等待用户授权、扫码）
+ * - switchChain：切换网络
+ * - sign：signMessage 和 signTypedData
+ * - sendTransaction：发送交易
+ * - isAuthorized：检查授权（autoConnect 恢复连接时调用）
+ */
+export type ConnectorOperation =
+	| 'connect'
+	| 'switchChain'
+	| 'sign'
+	| 'sendTransaction'
+	| 'isAuthorized';
+
+/**
+ * 各操作的超时时间（毫秒），0 表示不限制
+ */
+export type ConnectorTimeouts = Partial<Record<ConnectorOperation, number>>;
 
 /**
  * 连接器通用配置选项
@@ -34,4 +56,21 @@ export interface ConnectorOptions {
 	 * 启用此选项后，连接器会尝试调用钱包的权限撤销 API。
 	 */
 	shimDisconnect: boolean;
+
+	/**
+	 * 日志（可选）
+	 *
+	 * 默认不输出任何日志，开发时可以传入 createLogger({ level: 'debug' })
+	 */
+	logger?: Logger;
+
+	/**
+	 * 各操作的超时时间（毫秒，可选），0 表示不限制
+	 *
+	 * 钱包没有响应时以 TimeoutError 拒绝并触发 error 事件，
+	 * connect 和 switchChain 会同时中止连接器中进行中的请求
+	 *
+	 * @default { connect: 300000, switchChain: 60000, sign: 300000, sendTransaction: 300000, isAuthorized: 10000 }
+	 */
+	timeouts?: ConnectorTimeouts;
 }
@@ -1,5 +1,6 @@
 import { mainnet, polygon, base, bsc } from 'viem/chains';
 import { WalletConnectionManager } from '../core/manager/wallet-connection-manager';
+import { createLogger } from '../core/logger';
 import { InjectedConnector } from '../adapters/injected/connector';
 import { CoinbaseSmartWalletConnector } from '../adapters/base-account/connector';
 import { WalletConnectConnector } from '../adapters/wallet-connect/connector';
@@ -22,15 +23,20 @@ import QRCodeStyling from 'qr-code-styling';
 // 支持的链列表
 const supportedChains = [mainnet, polygon, base, bsc];
 
+// 开发环境输出调试日志
+const logger = createLogger({ level: 'debug' });
+
 // 创建连接器
 const injectedConnector = new InjectedConnector({
 	chains: supportedChains,
-	shimDisconnect: true
+	shimDisconnect: true,
+	logger
 });
 
 const coinbaseConnector = new CoinbaseSmartWalletConnector({
 	chains: supportedChains,
 	shimDisconnect: true,
+	logger,
 	appName: 'Ethereum Connectors Demo',
 	appLogoUrl: 'https://example.com/logo.png'
 });
@@ -38,6 +44,7 @@ const coinbaseConnector = new CoinbaseSmartWalletConnector({
 const walletConnectConnector = new WalletConnectConnector({
 	chains: supportedChains,
 	shimDisconnect: true,
+	logger,
 	projectId: 'e68249e217c8793807b7bb961a2f4297',
 	metadata: {
 		name: 'Ethereum Connectors Demo',
@@ -50,7 +57,8 @@ const walletConnectConnector = new WalletConnectConnector({
 // 创建连接管理器
 export const connectionManager = new WalletConnectionManager(
 	[injectedConnector, coinbaseConnector, walletConnectConnector],
-	supportedChains
+	supportedChains,
+	{ logger }
 );
 
 // QR Code 实例
@@ -286,6 +294,7 @@ export function initManagerExample() {
 			const connector = new EIP6963Connector({
 				chains: supportedChains,
 				shimDisconnect: true,
+				logger,
 				providerDetail: wallet
 			});
 
@@ -307,8 +316,8 @@ export function initManagerExample() {
 		autoConnectAttempted = true;
 		void (async () => {
 			console.log('[ManagerExample] Attempting auto-connect...');
-			const success = await connectionManager.autoConnect();
-			console.log('[ManagerExample] Auto-connect result:', success);
+			const result = await connectionManager.autoConnect();
+			console.log('[ManagerExample] Auto-connect result:', result.restored, result.reason);
 		})();
 	};
 
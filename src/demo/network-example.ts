@@ -1,11 +1,13 @@
 import { mainnet, polygon, base, bsc, arbitrum, optimism } from 'viem/chains';
 import { IntegratedManager } from '../core/manager/integrated-manager';
+import { createLogger } from '../core/logger';
 import { InjectedConnector } from '../adapters/injected/connector';
 import { WalletConnectConnector } from '../adapters/wallet-connect/connector';
 import { CoinbaseSmartWalletConnector } from '../adapters/base-account/connector';
 import { EIP6963Connector } from '../adapters/eip6963/connector';
 import { watchEIP6963Wallets } from '../adapters/eip6963/discovery';
 import type { NetworkConfig, RpcEndpoint } from '../core/types/network';
+import { chainToNetworkConfig, networkConfigToChain } from '../utils/chains';
 import type { EIP6963ProviderDetail } from '../adapters/eip6963/types';
 import QRCodeStyling from 'qr-code-styling';
 
@@ -18,27 +20,15 @@ import QRCodeStyling from 'qr-code-styling';
 // 默认支持的链列表（仅在 localStorage 为空时使用）
 const defaultChains = [mainnet, polygon, base, bsc, arbitrum, optimism];
 
-// 转换为 NetworkConfig
-const builtInNetworks: NetworkConfig[] = defaultChains.map((chain) => ({
-	chainId: chain.id,
-	name: chain.name,
-	symbol: chain.nativeCurrency.symbol,
-	rpcEndpoints: [
-		{
-			url: chain.rpcUrls.default.http[0],
-			isPrimary: true,
-			isAvailable: true
-		}
-	],
-	blockExplorer: chain.blockExplorers?.default.url,
-	isCustom: false,
-	isBuiltIn: true,
-	createdAt: new Date().toISOString()
-}));
+// 转换为 NetworkConfig（保留原生代币、区块浏览器、合约等信息）
+const builtInNetworks: NetworkConfig[] = defaultChains.map((chain) => chainToNetworkConfig(chain));
+
+// 开发环境输出调试日志
+const logger = createLogger({ level: 'debug' });
 
 // 先创建一个临时的 NetworkManager 来检查 localStorage
 import { NetworkManager } from '../core/manager/network-manager';
-const tempNetworkManager = new NetworkManager(builtInNetworks);
+const tempNetworkManager = new NetworkManager(builtInNetworks, { logger });
 
 // 获取 localStorage 中保存的启用网络列表
 const enabledNetworks = tempNetworkManager.getEnabledNetworks('demo-app');
@@ -56,33 +46,7 @@ if (enabledNetworks.length === 0) {
 const finalEnabledNetworks = tempNetworkManager.getEnabledNetworks('demo-app');
 
 // 将 NetworkConfig 转换为 viem Chain
-const initialChains = finalEnabledNetworks.map((network) => ({
-	id: network.chainId,
-	name: network.name,
-	nativeCurrency: {
-		name: network.symbol,
-		symbol: network.symbol,
-		decimals: 18
-	},
-	rpcUrls: {
-		default: {
-			http: network.rpcEndpoints
-				.filter((rpc) => rpc.isPrimary || rpc.isAvailable !== false)
-				.map((rpc) => rpc.url)
-		},
-		public: {
-			http: network.rpcEndpoints.map((rpc) => rpc.url)
-		}
-	},
-	blockExplorers: network.blockExplorer
-		? {
-				default: {
-					name: 'Explorer',
-					url: network.blockExplorer
-				}
-			}
-		: undefined
-}));
+const initialChains = finalEnabledNetworks.map(networkConfigToChain);
 
 console.log(
 	'[NetworkExample] Initializing connectors with chains:',
@@ -92,12 +56,14 @@ console.log(
 // 创建连接器（使用从 localStorage 加载的链列表）
 const injectedConnector = new InjectedConnector({
 	chains: initialChains,
-	shimDisconnect: true
+	shimDisconnect: true,
+	logger
 });
 
 const coinbaseConnector = new CoinbaseSmartWalletConnector({
 	chains: initialChains,
 	shimDisconnect: true,
+	logger,
 	appName: 'Network Manager Demo',
 	appLogoUrl: 'https://example.com/logo.png'
 });
@@ -105,6 +71,7 @@ const coinbaseConnector = new CoinbaseSmartWalletConnector({
 const walletConnectConnector = new WalletConnectConnector({
 	chains: initialChains,
 	shimDisconnect: true,
+	logger,
 	projectId: 'e68249e217c8793807b7bb961a2f4297',
 	metadata: {
 		name: 'Network Manager Demo',
@@ -118,7 +85,8 @@ const walletConnectConnector = new WalletConnectConnector({
 export const integratedManager = new IntegratedManager(
 	[injectedConnector, coinbaseConnector, walletConnectConnector],
 	builtInNetworks,
-	'demo-app'
+	'demo-app',
+	{ logger }
 );
 
 // 获取 NetworkManager 和 WalletManager
@@ -653,14 +621,25 @@ export function saveNetwork(): void {
 	const existing = networkManager.getNetwork(chainId);
 	const isEdit = !!existing;
 
-	// 添加或更新网络
-	networkManager.addOrUpdateCustomNetwork({
-		chainId,
-		name,
-		symbol,
-		rpcEndpoints: validRpcs,
-		blockExplorer: explorer || undefined
-	});
+	// 添加或更新网络（配置不合法时不会保存）
+	try {
+		networkManager.addOrUpdateCustomNetwork({
+			chainId,
+			name,
+			symbol,
+			// 表单只能修改符号，保留已有的代币名称和精度
+			nativeCurrency: {
+				name: existing?.nativeCurrency?.name ?? symbol,
+				symbol,
+				decimals: existing?.nativeCurrency?.decimals ?? 18
+			},
+			rpcEndpoints: validRpcs,
+			blockExplorer: explorer || undefined
+		});
+	} catch (error) {
+		alert(error instanceof Error ? error.message : String(error));
+		return;
+	}
 
 	// 更新 UI
 	updateAllNetworksList();
@@ -783,37 +762,12 @@ export function initNetworkExample(): void {
 
 			// 使用当前启用的网络列表来创建 EIP-6963 连接器
 			const enabledNetworks = networkManager.getEnabledNetworks('demo-app');
-			const chains = enabledNetworks.map((network) => ({
-				id: network.chainId,
-				name: network.name,
-				nativeCurrency: {
-					name: network.symbol,
-					symbol: network.symbol,
-					decimals: 18
-				},
-				rpcUrls: {
-					default: {
-						http: network.rpcEndpoints
-							.filter((rpc) => rpc.isPrimary || rpc.isAvailable !== false)
-							.map((rpc) => rpc.url)
-					},
-					public: {
-						http: network.rpcEndpoints.map((rpc) => rpc.url)
-					}
-				},
-				blockExplorers: network.blockExplorer
-					? {
-							default: {
-								name: 'Explorer',
-								url: network.blockExplorer
-							}
-						}
-					: undefined
-			}));
+			const chains = enabledNetworks.map(networkConfigToChain);
 
 			const connector = new EIP6963Connector({
 				chains,
 				shimDisconnect: true,
+				logger,
 				providerDetail: wallet
 			});
 
@@ -834,8 +788,8 @@ export function initNetworkExample(): void {
 		autoConnectAttempted = true;
 		void (async () => {
 			console.log('[NetworkExample] Attempting auto-connect...');
-			const success = await walletManager.autoConnect();
-			console.log('[NetworkExample] Auto-connect result:', success);
+			const result = await walletManager.autoConnect();
+			console.log('[NetworkExample] Auto-connect result:', result.restored, result.reason);
 		})();
 	};
 
@@ -1,12 +1,31 @@
 // Core types
-export type { Connector, ConnectorMetadata, EIP1193Provider } from './core/types/connector.js';
+export type {
+	Connector,
+	ConnectorMetadata,
+	ConnectorTransactionRequest,
+	ConnectorOperationOptions,
+	ConnectorCapabilities,
+	EIP1193Provider
+} from './core/types/connector.js';
 export type {
 	ConnectionState,
+	ConnectionSession,
 	PersistedConnection,
-	ConnectionManager
+	PersistedSessions,
+	SessionExpiryPolicy,
+	AutoConnectFailureReason,
+	AutoConnectFailure,
+	AutoConnectResult,
+	ConnectionManager,
+	ConnectionManagerEvents,
+	StateWatchOptions
 } from './core/types/connection.js';
 export type { ConnectorEvents, ConnectionInfo } from './core/types/events.js';
-export type { ConnectorOptions } from './core/types/options.js';
+export type {
+	ConnectorOptions,
+	ConnectorOperation,
+	ConnectorTimeouts
+} from './core/types/options.js';
 export type {
 	NetworkConfig,
 	RpcEndpoint,
@@ -14,13 +33,156 @@ export type {
 	StoredNetworkConfig,
 	NetworkManagerEvents
 } from './core/types/network.js';
+export type {
+	ManagerOptions,
+	WalletConnectionManagerOptions,
+	NetworkManagerOptions,
+	IntegratedManagerOptions
+} from './core/types/manager.js';
 
 // Base connector
 export { BaseConnector } from './core/BaseConnector.js';
 
+// Errors
+export {
+	ConnectorError,
+	ConnectorErrorCode,
+	UserRejectedError,
+	UnauthorizedError,
+	UnsupportedMethodError,
+	DisconnectedError,
+	ChainDisconnectedError,
+	UnrecognizedChainError,
+	ChainNotConfiguredError,
+	ProviderNotFoundError,
+	NoAccountsError,
+	InvalidStateTransitionError,
+	AbortedError,
+	TimeoutError,
+	toConnectorError,
+	type ConnectorErrorCodeValue,
+	type ConnectorErrorOptions
+} from './core/errors.js';
+
+// Event emitter
+export {
+	EventEmitter,
+	type EventHandler,
+	type EventArgs,
+	type WaitForOptions,
+	type EventIteratorOptions
+} from './core/event-emitter.js';
+
+// Abort helpers
+export {
+	abortable,
+	throwIfAborted,
+	createAbortedError,
+	type AbortableOptions
+} from './core/abort.js';
+
+// Connection state machine
+export {
+	ConnectionStateMachine,
+	CONNECTION_TRANSITIONS,
+	canTransition,
+	type ConnectionStatus
+} from './core/connection-state-machine.js';
+
+// Logger
+export {
+	createLogger,
+	silentLogger,
+	consoleSink,
+	type Logger,
+	type LogLevel,
+	type LogEntry,
+	type LogSink,
+	type LoggerOptions
+} from './core/logger.js';
+
+// Storage
+export { createStorage, type Storage, type CreateStorageOptions } from './core/create-storage.js';
+export {
+	createLocalStorageAdapter,
+	createSessionStorageAdapter,
+	createMemoryStorageAdapter,
+	createIndexedDBStorageAdapter,
+	createCookieStorageAdapter,
+	type StorageAdapter,
+	type MaybePromise,
+	type IndexedDBStorageAdapterOptions,
+	type CookieStorageAdapterOptions
+} from './core/storage-adapters.js';
+export {
+	migratePayload,
+	UnsupportedSchemaVersionError,
+	type Migration,
+	type MigrationRegistry,
+	type StorageSchema,
+	type VersionedPayload
+} from './core/migrations.js';
+export {
+	createBroadcastChannelTransport,
+	createStorageEventTransport,
+	type SyncTransport,
+	type SyncListener
+} from './core/cross-tab-sync.js';
+
+// RPC
+export {
+	checkRpcEndpoint,
+	type RpcHealthCheckOptions,
+	type RpcHealthResult
+} from './core/rpc-health.js';
+export {
+	createNetworkTransport,
+	rankRpcEndpoints,
+	type NetworkTransportOptions
+} from './core/network-transport.js';
+export {
+	validateNetwork,
+	validateNetworkConfig,
+	verifyNetworkRpc,
+	NetworkValidationError,
+	type NetworkValidationIssue,
+	type NetworkValidationIssueCode,
+	type NetworkValidationResult,
+	type NetworkValidationOptions
+} from './core/network-validation.js';
+export {
+	NETWORK_CONFIG_EXPORT_FORMAT,
+	type NetworkConfigExport,
+	type ExportConfigOptions,
+	type ImportConfigOptions,
+	type ConfigMergeStrategy,
+	type ConfigImportConflict,
+	type ConfigImportResult
+} from './core/network-config-transfer.js';
+
+// Chain utilities
+export {
+	networkConfigToChain,
+	chainToNetworkConfig,
+	getNativeCurrency,
+	normalizeChainId
+} from './utils/chains.js';
+export {
+	chainlistToNetworkConfig,
+	networkConfigToChainlist,
+	viemChainToNetworkConfig,
+	findViemChain,
+	importViemChainById,
+	type ChainlistEntry,
+	type NetworkImportOptions
+} from './utils/chainlist.js';
+
 // Managers
 export { NetworkManager } from './core/manager/network-manager.js';
-export { WalletConnectionManager } from './core/manager/wallet-connection-manager.js';
+export {
+	WalletConnectionManager,
+	getConnectionStorageKey
+} from './core/manager/wallet-connection-manager.js';
 export { IntegratedManager } from './core/manager/integrated-manager.js';
 
 // Connectors
@@ -28,7 +190,29 @@ export { InjectedConnector } from './adapters/injected/connector.js';
 export { WalletConnectConnector } from './adapters/wallet-connect/connector.js';
 export { CoinbaseSmartWalletConnector } from './adapters/base-account/connector.js';
 export { EIP6963Connector } from './adapters/eip6963/connector.js';
+export { QRHardwareConnector } from './adapters/qr-hardware-metamask/connector.js';
 
 // EIP-6963 utilities
 export type { EIP6963ProviderDetail } from './adapters/eip6963/types.js';
 export { watchEIP6963Wallets } from './adapters/eip6963/discovery.js';
+
+// QR hardware wallet utilities
+export {
+	URQREncoder,
+	createAnimatedQR,
+	type URQREncoderOptions,
+	type AnimatedQROptions
+} from './adapters/qr-hardware-metamask/encoder.js';
+export { UR, UREncoder, URDecoder } from './adapters/qr-hardware-metamask/ur/index.js';
+
+// QR hardware wallet types
+export type {
+	QRHardwareConnectorOptions,
+	QRHardwareConnectorEvents,
+	QRScanData,
+	QRSignRequest,
+	QRSignDataType,
+	QREncoder,
+	HardwareAccount,
+	ExtendedPublicKey
+} from './adapters/qr-hardware-metamask/types.js';
@@ -0,0 +1,13 @@
+// 测试工具：在 Node / vitest 中模拟钱包
+export {
+	MockProvider,
+	MOCK_ACCOUNTS,
+	createProviderError,
+	createMockProviderDetail,
+	type MockProviderOptions,
+	type MockRequest,
+	type MockRequestHandler,
+	type ProviderRpcError
+} from './mock-provider.js';
+export { MockConnector, type MockConnectorOptions } from './mock-connector.js';
+export { createMockRpcFetch, type MockRpcOptions } from './mock-rpc.js';
@@ -0,0 +1,333 @@
+import type { Address } from 'viem';
+import { BaseConnector } from '../core/BaseConnector.js';
+import { ChainNotConfiguredError, NoAccountsError, UnauthorizedError } from '../core/errors.js';
+import { abortable, throwIfAborted } from '../core/abort.js';
+import type { ConnectorOperationOptions } from '../core/types/connector.js';
+import type { ConnectorOptions } from '../core/types/options.js';
+import { normalizeChainId } from '../utils/chains.js';
+import { MockProvider, type MockProviderOptions } from './mock-provider.js';
+
+/**
+ * MockConnector 选项
+ */
+export interface MockConnectorOptions extends Omit<ConnectorOptions, 'shimDisconnect'> {
+	/**
+	 * 连接器的唯一标识符
+	 * @default 'mock'
+	 */
+	id?: string;
+
+	/**
+	 * 连接器的显示名称
+	 * @default 'Mock Wallet'
+	 */
+	name?: string;
+
+	/**
+	 * 连接器图标
+	 */
+	icon?: string;
+
+	/**
+	 * 是否在断开连接时撤销钱包授权
+	 * @default true
+	 */
+	shimDisconnect?: boolean;
+
+	/**
+	 * 使用的 MockProvider，不设置时根据 providerOptions 创建
+	 */
+	provider?: MockProvider;
+
+	/**
+	 * 创建 MockProvider 的选项
+	 */
+	providerOptions?: MockProviderOptions;
+}
+
+/**
+ * 模拟连接器
+ *
+ * 行为与 InjectedConnector 一致，但直接使用 MockProvider，不依赖 window，
+ * 可以在 Node / vitest 中测试 WalletConnectionManager、IntegratedManager 等上层逻辑
+ *
+ * @example
+ * ```typescript
+ * const connector = new MockConnector({ chains: [mainnet, polygon] });
+ * const manager = new WalletConnectionManager([connector], [mainnet, polygon], {
+ *   storage: createMemoryStorageAdapter()
+ * });
+ *
+ * await manager.connect(connector, 1);
+ *
+ * // 用户在钱包中切换账户
+ * connector.provider.setAccounts(['0x70997970C51812dc3A010C7d01b50e0d17dc79C8']);
+ * ```
+ */
+export class MockConnector extends BaseConnector {
+	readonly id: string;
+	readonly name: string;
+	readonly icon: string | undefined;
+	readonly needsReinitOnChainsChange = false;
+
+	/** 底层的 MockProvider，用于在测试中模拟钱包行为 */
+	readonly provider: MockProvider;
+
+	constructor(options: MockConnectorOptions) {
+		super({ ...options, shimDisconnect: options.shimDisconnect ?? true });
+		this.logger = this.logger.child('Mock');
+
+		this.id = options.id || 'mock';
+		this.name = options.name || 'Mock Wallet';
+		this.icon = options.icon;
+		this.provider = options.provider ?? new MockProvider(options.providerOptions);
+
+		this.setupEventListeners();
+	}
+
+	/**
+	 * 检查连接器是否准备就绪
+	 */
+	get ready(): boolean {
+		return true;
+	}
+
+	/**
+	 * 连接钱包
+	 */
+	protected async doConnect(
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<{
+		address: Address;
+		addresses: Address[];
+		chainId: number;
+	}> {
+		this.logger.debug('Connecting to chain:', chainId);
+		const { signal } = options;
+		throwIfAborted(signal, this.id);
+		if (!this.getChain(chainId)) {
+			throw new ChainNotConfiguredError(chainId, { connectorId: this.id });
+		}
+
+		const accounts = (await abortable(
+			this.provider.request({ method: 'eth_requestAccounts' }),
+			signal,
+			{ connectorId: this.id }
+		)) as Address[];
+
+		if (!accounts || accounts.length === 0) {
+			throw new NoAccountsError(undefined, { connectorId: this.id });
+		}
+
+		let currentChainId = await this.getChainId();
+
+		if (chainId && chainId !== currentChainId) {
+			try {
+				await this.doSwitchChain(chainId, options);
+				currentChainId = chainId;
+			} catch (error) {
+				throwIfAborted(signal, this.id);
+				this.logger.warn('Failed to switch to requested chain:', error);
+			}
+		}
+
+		throwIfAborted(signal, this.id);
+		const address = accounts[0];
+
+		this.emit('connected', {
+			address,
+			addresses: accounts,
+			chainId: currentChainId,
+			chains: [currentChainId]
+		});
+
+		return {
+			address,
+			addresses: accounts,
+			chainId: currentChainId
+		};
+	}
+
+	/**
+	 * 断开连接
+	 */
+	async disconnect(): Promise<void> {
+		if (this.options.shimDisconnect) {
+			try {
+				await this.provider.request({
+					method: 'wallet_revokePermissions',
+					params: [{ eth_accounts: {} }]
+				});
+			} catch (error) {
+				this.logger.debug('wallet_revokePermissions failed:', error);
+			}
+		}
+
+		this.emit('disconnected');
+	}
+
+	/**
+	 * 获取当前账户
+	 */
+	async getAccount(): Promise<Address> {
+		const accounts = await this.getAccounts();
+
+		if (accounts.length === 0) {
+			throw new NoAccountsError(undefined, { connectorId: this.id });
+		}
+
+		return accounts[0];
+	}
+
+	/**
+	 * 获取所有账户
+	 */
+	async getAccounts(): Promise<Address[]> {
+		const accounts = (await this.provider.request({
+			method: 'eth_accounts'
+		})) as Address[];
+
+		return accounts || [];
+	}
+
+	/**
+	 * 获取当前链 ID
+	 */
+	async getChainId(): Promise<number> {
+		const chainId = await this.provider.request({
+			method: 'eth_chainId'
+		});
+
+		return normalizeChainId(chainId as string | number | bigint);
+	}
+
+	/**
+	 * 切换账户（只更新本地状态）
+	 */
+	async switchAccount(address: Address): Promise<void> {
+		const accounts = await this.getAccounts();
+
+		if (!accounts.includes(address)) {
+			throw new UnauthorizedError(undefined, { connectorId: this.id });
+		}
+
+		const chainId = await this.getChainId();
+		this.emit('permissionChanged', {
+			address,
+			addresses: accounts,
+			chainId,
+			chains: [chainId]
+		});
+	}
+
+	/**
+	 * 切换链，钱包中没有该链时先添加
+	 */
+	protected async doSwitchChain(
+		chainId: number,
+		options: ConnectorOperationOptions = {}
+	): Promise<void> {
+		const { signal } = options;
+		const chain = this.getChain(chainId);
+		if (!chain) {
+			throw new ChainNotConfiguredError(chainId, { connectorId: this.id });
+		}
+
+		const hexChainId = `0x${chainId.toString(16)}`;
+
+		throwIfAborted(signal, this.id);
+		try {
+			await abortable(
+				this.provider.request({
+					method: 'wallet_switchEthereumChain',
+					params: [{ chainId: hexChainId }]
+				}),
+				signal,
+				{ connectorId: this.id }
+			);
+		} catch (error) {
+			if ((error as { code?: number }).code !== 4902) throw error;
+
+			await abortable(
+				this.provider.request({
+					method: 'wallet_addEthereumChain',
+					params: [
+						{
+							chainId: hexChainId,
+							chainName: chain.name,
+							nativeCurrency: chain.nativeCurrency,
+							rpcUrls: chain.rpcUrls?.default?.http || []
+						}
+					]
+				}),
+				signal,
+				{ connectorId: this.id }
+			);
+		}
+	}
+
+	/**
+	 * 检查是否已授权
+	 */
+	protected async doIsAuthorized(): Promise<boolean> {
+		try {
+			const accounts = await this.getAccounts();
+			return accounts.length > 0;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * 获取 Provider 实例
+	 */
+	getProvider(): MockProvider {
+		return this.provider;
+	}
+
+	/**
+	 * 设置事件监听
+	 */
+	private setupEventListeners(): void {
+		// 账户变更
+		this.provider.on('accountsChanged', (accounts: unknown) => {
+			void (async () => {
+				const addresses = accounts as Address[];
+				if (addresses.length === 0) {
+					this.emit('disconnected');
+				} else {
+					const chainId = await this.getChainId();
+					this.emit('permissionChanged', {
+						address: addresses[0],
+						addresses,
+						chainId,
+						chains: [chainId]
+					});
+				}
+			})();
+		});
+
+		// 链变更
+		this.provider.on('chainChanged', (chainId: unknown) => {
+			void (async () => {
+				const id = normalizeChainId(chainId as string | number | bigint);
+				const accounts = await this.getAccounts();
+
+				if (accounts.length > 0) {
+					this.emit('permissionChanged', {
+						address: accounts[0],
+						addresses: accounts,
+						chainId: id,
+						chains: [id]
+					});
+				}
+			})();
+		});
+
+		// 断开连接
+		this.provider.on('disconnect', () => {
+			this.emit('disconnected');
+		});
+	}
+}
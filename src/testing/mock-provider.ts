@@ -0,0 +1,442 @@
+import { keccak256, numberToHex, stringToHex, type Address, type Hex } from 'viem';
+import type { EIP1193Provider } from '../core/types/connector.js';
+import type { EIP6963ProviderDetail } from '../adapters/eip6963/types.js';
+import { normalizeChainId } from '../utils/chains.js';
+
+/**
+ * 默认测试账户（Hardhat / Anvil 的前两个账户）
+ */
+export const MOCK_ACCOUNTS: readonly Address[] = [
+	'0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+	'0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+];
+
+/**
+ * 自定义请求处理函数
+ */
+export type MockRequestHandler = (params: unknown[] | undefined, provider: MockProvider) => unknown;
+
+/**
+ * 请求记录
+ */
+export interface MockRequest {
+	method: string;
+	params?: unknown[];
+}
+
+/**
+ * MockProvider 选项
+ */
+export interface MockProviderOptions {
+	/**
+	 * 钱包中的账户
+	 * @default MOCK_ACCOUNTS
+	 */
+	accounts?: Address[];
+
+	/**
+	 * 当前链 ID
+	 * @default 1
+	 */
+	chainId?: number;
+
+	/**
+	 * 钱包中已添加的链，切换到其他链会返回 4902 错误
+	 *
+	 * 不设置时钱包支持所有链
+	 */
+	chains?: number[];
+
+	/**
+	 * 是否已授权（模拟用户之前已经连接过）
+	 * @default false
+	 */
+	authorized?: boolean;
+
+	/**
+	 * 每个请求的延迟（毫秒）
+	 * @default 0
+	 */
+	latency?: number;
+
+	/**
+	 * 自定义请求处理函数，优先于内置实现
+	 */
+	handlers?: Record<string, MockRequestHandler>;
+
+	/**
+	 * 钱包标识（如 { isMetaMask: true }），用于测试钱包检测逻辑
+	 */
+	flags?: Record<string, unknown>;
+}
+
+/**
+ * 钱包返回的 RPC 错误
+ */
+export interface ProviderRpcError extends Error {
+	code: number;
+	data?: unknown;
+}
+
+/**
+ * 创建钱包 RPC 错误
+ *
+ * @example
+ * ```typescript
+ * provider.rejectNext('eth_requestAccounts', createProviderError(4001, 'User rejected the request.'));
+ * ```
+ */
+export function createProviderError(
+	code: number,
+	message: string,
+	data?: unknown
+): ProviderRpcError {
+	return Object.assign(new Error(message), { code, data });
+}
+
+const PERMISSIONS = [{ parentCapability: 'eth_accounts' }];
+
+/**
+ * 模拟的 EIP-1193 Provider
+ *
+ * 在 Node / vitest 中模拟浏览器钱包，无需真实钱包即可测试连接、切换网络、签名等流程：
+ * - 内置 eth_requestAccounts、eth_accounts、eth_chainId、wallet_switchEthereumChain、
+ *   wallet_addEthereumChain、wallet_*Permissions、personal_sign、eth_signTypedData_v4、
+ *   eth_sendTransaction 的实现（签名和交易哈希是确定性的假数据）
+ * - 可以脚本化账户、网络、拒绝、延迟，并主动触发 accountsChanged / chainChanged / disconnect 事件
+ * - 记录所有请求，便于断言
+ *
+ * @example
+ * ```typescript
+ * const provider = new MockProvider({ chainId: 1 });
+ *
+ * // 用户拒绝下一次连接
+ * provider.rejectNext('eth_requestAccounts');
+ * await expect(connector.connect(1)).rejects.toBeInstanceOf(UserRejectedError);
+ *
+ * // 用户在钱包中切换网络
+ * provider.setChainId(137);
+ *
+ * expect(provider.getRequests('wallet_switchEthereumChain')).toHaveLength(1);
+ * ```
+ */
+export class MockProvider implements EIP1193Provider {
+	private accounts: Address[];
+	private chainId: number;
+	private chains: Set<number> | null;
+	private authorized: boolean;
+	private latency: number;
+	private nonce = 0;
+	private handlers = new Map<string, MockRequestHandler>();
+	private rejections = new Map<string, { error: unknown; once: boolean }>();
+	private listeners = new Map<string, Set<(...args: unknown[]) => void>>();
+	private requests: MockRequest[] = [];
+
+	constructor(options: MockProviderOptions = {}) {
+		this.accounts = [...(options.accounts ?? MOCK_ACCOUNTS)];
+		this.chainId = options.chainId ?? 1;
+		this.chains = options.chains ? new Set([...options.chains, this.chainId]) : null;
+		this.authorized = options.authorized ?? false;
+		this.latency = options.latency ?? 0;
+
+		Object.entries(options.handlers ?? {}).forEach(([method, handler]) => {
+			this.handlers.set(method, handler);
+		});
+		Object.assign(this, options.flags);
+	}
+
+	/**
+	 * 发送请求
+	 */
+	async request({ method, params }: { method: string; params?: unknown[] }): Promise<unknown> {
+		this.requests.push({ method, params });
+
+		if (this.latency > 0) {
+			await new Promise((resolve) => setTimeout(resolve, this.latency));
+		}
+
+		const rejection = this.rejections.get(method);
+		if (rejection) {
+			if (rejection.once) {
+				this.rejections.delete(method);
+			}
+			throw rejection.error;
+		}
+
+		const handler = this.handlers.get(method);
+		if (handler) {
+			return handler(params, this);
+		}
+
+		return this.handleRequest(method, params);
+	}
+
+	/**
+	 * 内置的请求实现
+	 */
+	private handleRequest(method: string, params: unknown[] | undefined): unknown {
+		switch (method) {
+			case 'eth_requestAccounts':
+			case 'wallet_requestPermissions':
+				this.authorized = true;
+				return method === 'eth_requestAccounts' ? [...this.accounts] : PERMISSIONS;
+
+			case 'eth_accounts':
+				return this.authorized ? [...this.accounts] : [];
+
+			case 'wallet_getPermissions':
+				return this.authorized ? PERMISSIONS : [];
+
+			case 'wallet_revokePermissions':
+				this.revoke();
+				return null;
+
+			case 'eth_chainId':
+				return numberToHex(this.chainId);
+
+			case 'net_version':
+				return String(this.chainId);
+
+			case 'wallet_switchEthereumChain': {
+				const chainId = this.parseChainIdParam(params);
+				if (this.chains && !this.chains.has(chainId)) {
+					throw createProviderError(4902, `Unrecognized chain ID "${numberToHex(chainId)}".`);
+				}
+				this.setChainId(chainId);
+				return null;
+			}
+
+			case 'wallet_addEthereumChain': {
+				// 与 MetaMask 一致：添加后直接切换到该链
+				const chainId = this.parseChainIdParam(params);
+				this.chains?.add(chainId);
+				this.setChainId(chainId);
+				return null;
+			}
+
+			case 'personal_sign':
+			case 'eth_signTypedData_v4': {
+				this.assertAuthorized();
+				const digest = keccak256(stringToHex(`${method}:${JSON.stringify(params)}`));
+				return `${digest}${keccak256(digest).slice(2)}1b` as Hex;
+			}
+
+			case 'eth_sendTransaction':
+				this.assertAuthorized();
+				this.nonce += 1;
+				return keccak256(stringToHex(`${this.nonce}:${JSON.stringify(params)}`));
+
+			default:
+				throw createProviderError(
+					4200,
+					`The Provider does not support the requested method: ${method}`
+				);
+		}
+	}
+
+	/**
+	 * 监听事件
+	 */
+	on(event: string, listener: (...args: unknown[]) => void): void {
+		if (!this.listeners.has(event)) {
+			this.listeners.set(event, new Set());
+		}
+		this.listeners.get(event)!.add(listener);
+	}
+
+	/**
+	 * 取消监听
+	 */
+	off(event: string, listener: (...args: unknown[]) => void): void {
+		this.listeners.get(event)?.delete(listener);
+	}
+
+	/**
+	 * 取消监听（Node EventEmitter 风格）
+	 */
+	removeListener(event: string, listener: (...args: unknown[]) => void): void {
+		this.off(event, listener);
+	}
+
+	/**
+	 * 触发事件
+	 */
+	emit(event: string, ...args: unknown[]): void {
+		this.listeners.get(event)?.forEach((listener) => listener(...args));
+	}
+
+	/**
+	 * 修改账户，已授权时触发 accountsChanged
+	 */
+	setAccounts(accounts: Address[]): void {
+		this.accounts = [...accounts];
+		if (this.authorized) {
+			this.emit('accountsChanged', [...this.accounts]);
+		}
+	}
+
+	/**
+	 * 修改当前链，链变化时触发 chainChanged
+	 */
+	setChainId(chainId: number): void {
+		this.chains?.add(chainId);
+		if (chainId === this.chainId) return;
+
+		this.chainId = chainId;
+		this.emit('chainChanged', numberToHex(chainId));
+	}
+
+	/**
+	 * 模拟用户已授权（不触发事件）
+	 */
+	authorize(): void {
+		this.authorized = true;
+	}
+
+	/**
+	 * 模拟用户在钱包中撤销授权或锁定钱包，触发 accountsChanged([])
+	 */
+	revoke(): void {
+		if (!this.authorized) return;
+
+		this.authorized = false;
+		this.emit('accountsChanged', []);
+	}
+
+	/**
+	 * 模拟钱包与所有链断开，触发 disconnect
+	 */
+	simulateDisconnect(error: ProviderRpcError = createProviderError(4900, 'Disconnected')): void {
+		this.authorized = false;
+		this.emit('disconnect', error);
+	}
+
+	/**
+	 * 让下一次指定方法的请求失败
+	 *
+	 * @param method RPC 方法
+	 * @param error 错误，默认为用户拒绝（4001）
+	 */
+	rejectNext(
+		method: string,
+		error: unknown = createProviderError(4001, 'User rejected the request.')
+	): void {
+		this.rejections.set(method, { error, once: true });
+	}
+
+	/**
+	 * 让指定方法的请求一直失败，传入 undefined 取消
+	 */
+	setRejection(method: string, error: unknown): void {
+		if (error === undefined) {
+			this.rejections.delete(method);
+		} else {
+			this.rejections.set(method, { error, once: false });
+		}
+	}
+
+	/**
+	 * 设置自定义请求处理函数，传入 undefined 恢复内置实现
+	 */
+	setHandler(method: string, handler: MockRequestHandler | undefined): void {
+		if (handler) {
+			this.handlers.set(method, handler);
+		} else {
+			this.handlers.delete(method);
+		}
+	}
+
+	/**
+	 * 设置请求延迟（毫秒）
+	 */
+	setLatency(latency: number): void {
+		this.latency = latency;
+	}
+
+	/**
+	 * 获取请求记录
+	 *
+	 * @param method 只返回指定方法的请求
+	 */
+	getRequests(method?: string): MockRequest[] {
+		return method
+			? this.requests.filter((request) => request.method === method)
+			: [...this.requests];
+	}
+
+	/**
+	 * 清空请求记录
+	 */
+	clearRequests(): void {
+		this.requests = [];
+	}
+
+	/**
+	 * 是否已授权
+	 */
+	isAuthorized(): boolean {
+		return this.authorized;
+	}
+
+	/**
+	 * 当前链 ID
+	 */
+	getChainId(): number {
+		return this.chainId;
+	}
+
+	/**
+	 * 当前账户
+	 */
+	getAccounts(): Address[] {
+		return [...this.accounts];
+	}
+
+	/**
+	 * 解析 wallet_switchEthereumChain / wallet_addEthereumChain 的 chainId 参数
+	 */
+	private parseChainIdParam(params: unknown[] | undefined): number {
+		const [param] = params ?? [];
+		const { chainId } = (param ?? {}) as { chainId?: string | number };
+		if (chainId === undefined) {
+			throw createProviderError(-32602, 'Missing chainId');
+		}
+		return normalizeChainId(chainId);
+	}
+
+	/**
+	 * 签名和发送交易前检查授权
+	 */
+	private assertAuthorized(): void {
+		if (!this.authorized) {
+			throw createProviderError(4100, 'The requested account has not been authorized by the user.');
+		}
+	}
+}
+
+/**
+ * 创建 EIP-6963 Provider 详情，用于测试 EIP6963Connector
+ *
+ * @example
+ * ```typescript
+ * const connector = new EIP6963Connector({
+ *   chains,
+ *   shimDisconnect: true,
+ *   providerDetail: createMockProviderDetail(new MockProvider(), { rdns: 'io.metamask' })
+ * });
+ * ```
+ */
+export function createMockProviderDetail(
+	provider: MockProvider = new MockProvider(),
+	info: Partial<EIP6963ProviderDetail['info']> = {}
+): EIP6963ProviderDetail {
+	return {
+		info: {
+			uuid: info.uuid ?? crypto.randomUUID(),
+			name: info.name ?? 'Mock Wallet',
+			icon: info.icon ?? 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"/>',
+			rdns: info.rdns ?? 'io.mock.wallet'
+		},
+		provider
+	};
+}
@@ -0,0 +1,96 @@
+import { numberToHex } from 'viem';
+
+/**
+ * 模拟 RPC 节点选项
+ */
+export interface MockRpcOptions {
+	/**
+	 * 节点返回的链 ID
+	 * @default 1
+	 */
+	chainId?: number;
+
+	/**
+	 * 节点返回的最新区块号
+	 * @default 1n
+	 */
+	blockNumber?: bigint;
+
+	/**
+	 * 响应延迟（毫秒）
+	 * @default 0
+	 */
+	latency?: number;
+
+	/**
+	 * 返回的 HTTP 状态码，非 2xx 时模拟节点故障
+	 * @default 200
+	 */
+	status?: number;
+
+	/**
+	 * 自定义方法实现，优先于内置的 eth_chainId / eth_blockNumber
+	 */
+	handlers?: Record<string, (params: unknown[]) => unknown>;
+}
+
+/**
+ * 创建模拟的 JSON-RPC fetch
+ *
+ * 按 URL 返回不同节点的响应，未配置的 URL 视为网络错误，
+ * 用于测试 RPC 健康检查等需要访问 RPC 节点的逻辑
+ *
+ * @example
+ * ```typescript
+ * const fetch = createMockRpcFetch({
+ *   'https://rpc-a.test': { chainId: 1, latency: 20 },
+ *   'https://rpc-b.test': { chainId: 5 }, // 链 ID 不匹配
+ *   'https://rpc-c.test': { status: 503 }
+ * });
+ * manager.startHealthChecks({ fetch });
+ * ```
+ */
+export function createMockRpcFetch(nodes: Record<string, MockRpcOptions>): typeof fetch {
+	return async (input, init) => {
+		const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+		const node = nodes[url];
+		if (!node) {
+			throw new TypeError(`fetch failed: ${url}`);
+		}
+
+		const { chainId = 1, blockNumber = 1n, latency = 0, status = 200, handlers = {} } = node;
+		if (latency > 0) {
+			await new Promise<void>((resolve, reject) => {
+				const timer = setTimeout(resolve, latency);
+				init?.signal?.addEventListener('abort', () => {
+					clearTimeout(timer);
+					reject(new DOMException('The operation was aborted.', 'AbortError'));
+				});
+			});
+		}
+
+		const { id, method, params } = JSON.parse(init?.body as string) as {
+			id: number;
+			method: string;
+			params?: unknown[];
+		};
+
+		const respond = (body: unknown) =>
+			new Response(JSON.stringify({ jsonrpc: '2.0', id, ...(body as object) }), {
+				status,
+				headers: { 'Content-Type': 'application/json' }
+			});
+
+		if (handlers[method]) {
+			return respond({ result: handlers[method](params ?? []) });
+		}
+		switch (method) {
+			case 'eth_chainId':
+				return respond({ result: numberToHex(chainId) });
+			case 'eth_blockNumber':
+				return respond({ result: numberToHex(blockNumber) });
+			default:
+				return respond({ error: { code: -32601, message: `Method not found: ${method}` } });
+		}
+	};
+}
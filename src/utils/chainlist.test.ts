@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { base } from 'viem/chains';
+import type { Chain } from 'viem';
+import {
+	chainlistToNetworkConfig,
+	importViemChainById,
+	networkConfigToChainlist,
+	viemChainToNetworkConfig
+} from './chainlist.js';
+import { NetworkValidationError } from '../core/network-validation.js';
+
+const ENS_REGISTRY = '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e';
+
+const entry = {
+	name: 'Example Chain',
+	chain: 'EXC',
+	chainId: 31337,
+	shortName: 'exc',
+	rpc: [
+		'https://rpc-a.test',
+		'wss://rpc-a.test/ws',
+		'https://rpc.test/${INFURA_API_KEY}',
+		{ url: 'https://rpc-b.test', tracking: 'none' },
+		'https://rpc-a.test'
+	],
+	nativeCurrency: { name: 'Example', symbol: 'EXC', decimals: 18 },
+	explorers: [
+		{ name: 'Examplescan', url: 'https://scan.test', standard: 'EIP3091' },
+		{ name: 'Blockscout', url: 'https://blockscout.test', standard: 'EIP3091' }
+	],
+	ens: { registry: ENS_REGISTRY },
+	isTestnet: true
+};
+
+describe('chainlistToNetworkConfig', () => {
+	it('keeps usable HTTP RPCs, explorers and the ENS registry', () => {
+		const config = chainlistToNetworkConfig(entry);
+
+		expect(config).toMatchObject({
+			chainId: 31337,
+			name: 'Example Chain',
+			symbol: 'EXC',
+			nativeCurrency: { name: 'Example', symbol: 'EXC', decimals: 18 },
+			rpcEndpoints: [
+				{ url: 'https://rpc-a.test', isPrimary: true },
+				{ url: 'https://rpc-b.test', isPrimary: false }
+			],
+			blockExplorer: 'https://scan.test',
+			blockExplorers: {
+				default: { name: 'Examplescan', url: 'https://scan.test' },
+				explorer1: { name: 'Blockscout', url: 'https://blockscout.test' }
+			},
+			contracts: { ensRegistry: { address: ENS_REGISTRY } },
+			testnet: true,
+			isCustom: true,
+			isBuiltIn: false
+		});
+	});
+
+	it('imports as a built-in network when isCustom is false', () => {
+		expect(chainlistToNetworkConfig(entry, { isCustom: false })).toMatchObject({
+			isCustom: false,
+			isBuiltIn: true
+		});
+	});
+
+	it('rejects entries that are not chainlist networks', () => {
+		expect(() => chainlistToNetworkConfig(null)).toThrow('Invalid chainlist network');
+		expect(() => chainlistToNetworkConfig({ ...entry, rpc: 'https://rpc-a.test' })).toThrow(
+			'Invalid chainlist network'
+		);
+		expect(() => chainlistToNetworkConfig({ ...entry, nativeCurrency: undefined })).toThrow(
+			'Invalid chainlist network'
+		);
+	});
+
+	it('rejects entries without a usable RPC or with invalid fields', () => {
+		expect(() => chainlistToNetworkConfig({ ...entry, rpc: ['wss://rpc-a.test/ws'] })).toThrow(
+			NetworkValidationError
+		);
+		expect(() => chainlistToNetworkConfig({ ...entry, chainId: -1 })).toThrow(
+			NetworkValidationError
+		);
+		expect(() => chainlistToNetworkConfig({ ...entry, name: '' })).toThrow(NetworkValidationError);
+	});
+});
+
+describe('networkConfigToChainlist', () => {
+	it('exports a chainlist entry that imports back to the same network', () => {
+		const config = chainlistToNetworkConfig(entry);
+
+		const exported = networkConfigToChainlist(config);
+
+		expect(exported).toMatchObject({
+			name: 'Example Chain',
+			chainId: 31337,
+			rpc: ['https://rpc-a.test', 'https://rpc-b.test'],
+			nativeCurrency: { name: 'Example', symbol: 'EXC', decimals: 18 },
+			explorers: [
+				{ name: 'Examplescan', url: 'https://scan.test', standard: 'EIP3091' },
+				{ name: 'Blockscout', url: 'https://blockscout.test', standard: 'EIP3091' }
+			],
+			ens: { registry: ENS_REGISTRY },
+			isTestnet: true
+		});
+		expect({ ...chainlistToNetworkConfig(exported), createdAt: '', updatedAt: '' }).toEqual({
+			...config,
+			createdAt: '',
+			updatedAt: ''
+		});
+	});
+});
+
+describe('viemChainToNetworkConfig', () => {
+	it('converts a viem chain into a custom network', () => {
+		expect(viemChainToNetworkConfig(base)).toMatchObject({
+			chainId: 8453,
+			name: 'Base',
+			rpcEndpoints: [{ url: base.rpcUrls.default.http[0], isPrimary: true }],
+			isCustom: true,
+			isBuiltIn: false
+		});
+	});
+
+	it('drops RPCs that need an API key and rejects chains left without one', () => {
+		const chain: Chain = {
+			...base,
+			rpcUrls: { default: { http: ['https://rpc.test/${API_KEY}', 'https://rpc-b.test'] } }
+		};
+
+		expect(viemChainToNetworkConfig(chain).rpcEndpoints).toEqual([
+			{ url: 'https://rpc-b.test', isPrimary: true }
+		]);
+		expect(() =>
+			viemChainToNetworkConfig({
+				...base,
+				rpcUrls: { default: { http: ['https://rpc.test/${API_KEY}'] } }
+			})
+		).toThrow(NetworkValidationError);
+	});
+});
+
+describe('importViemChainById', () => {
+	it('imports a chain from viem/chains', async () => {
+		await expect(importViemChainById(8453, { isCustom: false })).resolves.toMatchObject({
+			chainId: 8453,
+			name: 'Base',
+			isBuiltIn: true
+		});
+	});
+
+	it('rejects an unknown chain id', async () => {
+		await expect(importViemChainById(123_456_789)).rejects.toThrow(
+			'Chain 123456789 not found in viem/chains'
+		);
+	});
+});
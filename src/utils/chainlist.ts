@@ -0,0 +1,230 @@
+import type { Address, Chain } from 'viem';
+import type { NetworkConfig, RpcEndpoint } from '../core/types/network.js';
+import { isRecord } from '../core/migrations.js';
+import { assertValidNetwork, validateNetworkConfig } from '../core/network-validation.js';
+import { chainToNetworkConfig, networkConfigToChain } from './chains.js';
+
+/**
+ * chainlist 格式的网络信息
+ *
+ * 即 ethereum-lists/chains 仓库中 `_data/chains/eip155-*.json` 的结构，
+ * chainlist.org 的 rpcs.json 中 rpc 为 `{ url, tracking }` 对象，同样支持
+ *
+ * @see https://github.com/ethereum-lists/chains
+ */
+export interface ChainlistEntry {
+	name: string;
+	chain: string;
+	chainId: number;
+	networkId?: number;
+	shortName?: string;
+	rpc: (string | { url: string })[];
+	faucets?: string[];
+	nativeCurrency: {
+		name: string;
+		symbol: string;
+		decimals: number;
+	};
+	infoURL?: string;
+	icon?: string;
+	explorers?: {
+		name: string;
+		url: string;
+		standard?: string;
+	}[];
+	ens?: {
+		registry: string;
+	};
+	/** chainlist.org 扩展字段 */
+	isTestnet?: boolean;
+}
+
+/**
+ * 导入选项
+ */
+export interface NetworkImportOptions {
+	/**
+	 * 是否作为用户自定义网络导入
+	 * @default true
+	 */
+	isCustom?: boolean;
+}
+
+/**
+ * 是否为可以直接使用的 HTTP RPC
+ *
+ * chainlist 中的 websocket 地址和带 `${API_KEY}` 占位符的地址无法直接使用
+ */
+function isUsableRpcUrl(url: string): boolean {
+	return /^https?:\/\//.test(url) && !url.includes('${');
+}
+
+/**
+ * 检查导入的网络是否可用
+ *
+ * @throws NetworkValidationError 网络信息不完整或没有可用的 RPC 时抛出
+ */
+function assertImportable(config: NetworkConfig): NetworkConfig {
+	assertValidNetwork(validateNetworkConfig(config), config.chainId);
+	return config;
+}
+
+/**
+ * 将 chainlist 格式的网络转换为 NetworkConfig
+ *
+ * 只保留可以直接使用的 HTTP RPC（去掉 websocket 和需要 API Key 的地址），第一个作为主端点
+ *
+ * @param entry chainlist JSON（未经校验的数据）
+ * @throws NetworkValidationError 数据格式错误或没有可用的 RPC 时抛出
+ *
+ * @example
+ * ```typescript
+ * const entry = await fetch('https://chainid.network/chains.json')
+ *   .then((res) => res.json())
+ *   .then((chains) => chains.find((chain) => chain.chainId === 8453));
+ *
+ * networkManager.addOrUpdateCustomNetwork(chainlistToNetworkConfig(entry));
+ * ```
+ */
+export function chainlistToNetworkConfig(
+	entry: unknown,
+	options: NetworkImportOptions = {}
+): NetworkConfig {
+	const { isCustom = true } = options;
+
+	if (!isRecord(entry) || !isRecord(entry.nativeCurrency) || !Array.isArray(entry.rpc)) {
+		throw new Error('Invalid chainlist network: expected name, chainId, nativeCurrency and rpc');
+	}
+
+	const chainlist = entry as unknown as ChainlistEntry;
+	const urls = chainlist.rpc
+		.map((rpc) => (typeof rpc === 'string' ? rpc : rpc?.url))
+		.filter((url): url is string => typeof url === 'string' && isUsableRpcUrl(url));
+	const rpcEndpoints: RpcEndpoint[] = [...new Set(urls)].map((url, index) => ({
+		url,
+		isPrimary: index === 0
+	}));
+
+	const explorers = (chainlist.explorers ?? []).filter(
+		(explorer) => isRecord(explorer) && typeof explorer.url === 'string'
+	);
+	const [defaultExplorer, ...otherExplorers] = explorers;
+	const blockExplorers: Chain['blockExplorers'] = defaultExplorer
+		? {
+				default: { name: defaultExplorer.name, url: defaultExplorer.url },
+				...Object.fromEntries(
+					otherExplorers.map((explorer, index) => [
+						`explorer${index + 1}`,
+						{ name: explorer.name, url: explorer.url }
+					])
+				)
+			}
+		: undefined;
+
+	const { name, symbol, decimals } = chainlist.nativeCurrency;
+	const now = new Date().toISOString();
+
+	return assertImportable({
+		chainId: chainlist.chainId,
+		name: chainlist.name,
+		symbol,
+		nativeCurrency: { name, symbol, decimals },
+		rpcEndpoints,
+		blockExplorer: defaultExplorer?.url,
+		blockExplorers,
+		contracts:
+			typeof chainlist.ens?.registry === 'string'
+				? { ensRegistry: { address: chainlist.ens.registry as Address } }
+				: undefined,
+		testnet: chainlist.isTestnet,
+		isCustom,
+		isBuiltIn: !isCustom,
+		createdAt: now,
+		updatedAt: now
+	});
+}
+
+/**
+ * 将 NetworkConfig 导出为 chainlist 格式
+ *
+ * chainlist 必填但 NetworkConfig 中没有的字段（chain、shortName）使用原生代币符号代替
+ */
+export function networkConfigToChainlist(config: NetworkConfig): ChainlistEntry {
+	const chain = networkConfigToChain(config);
+	const { default: defaultExplorer, ...otherExplorers } = chain.blockExplorers ?? {};
+	const explorers = [defaultExplorer, ...Object.values(otherExplorers)]
+		.filter((explorer) => explorer !== undefined)
+		.map((explorer) => ({ name: explorer.name, url: explorer.url, standard: 'EIP3091' }));
+
+	return {
+		name: config.name,
+		chain: chain.nativeCurrency.symbol,
+		chainId: config.chainId,
+		networkId: config.chainId,
+		shortName: chain.nativeCurrency.symbol.toLowerCase(),
+		rpc: chain.rpcUrls.default.http.slice(),
+		faucets: [],
+		nativeCurrency: { ...chain.nativeCurrency },
+		icon: config.iconUrl,
+		explorers: explorers.length > 0 ? explorers : undefined,
+		ens: chain.contracts?.ensRegistry
+			? { registry: chain.contracts.ensRegistry.address }
+			: undefined,
+		isTestnet: config.testnet
+	};
+}
+
+/**
+ * 将 viem Chain 转换为 NetworkConfig（带校验）
+ *
+ * 与 chainToNetworkConfig 相同，但默认作为自定义网络导入，并检查数据是否完整
+ *
+ * @throws NetworkValidationError 链信息不完整或没有可用的 RPC 时抛出
+ */
+export function viemChainToNetworkConfig(
+	chain: Chain,
+	options: NetworkImportOptions = {}
+): NetworkConfig {
+	const { isCustom = true } = options;
+	const config = chainToNetworkConfig(chain, isCustom);
+	config.rpcEndpoints = config.rpcEndpoints.filter((endpoint) => isUsableRpcUrl(endpoint.url));
+	if (config.rpcEndpoints.length > 0 && !config.rpcEndpoints.some((rpc) => rpc.isPrimary)) {
+		config.rpcEndpoints[0].isPrimary = true;
+	}
+	return assertImportable(config);
+}
+
+/**
+ * 从 viem/chains 中查找链
+ *
+ * viem/chains 按需动态加载，不使用时不会增加打包体积
+ *
+ * @returns 找不到时返回 undefined
+ */
+export async function findViemChain(chainId: number): Promise<Chain | undefined> {
+	const chains = (await import('viem/chains')) as unknown as Record<string, unknown>;
+	return Object.values(chains).find(
+		(chain): chain is Chain => isRecord(chain) && chain.id === chainId && 'rpcUrls' in chain
+	);
+}
+
+/**
+ * 根据链 ID 从 viem/chains 导入网络
+ *
+ * @throws viem/chains 中没有该链时抛出错误
+ *
+ * @example
+ * ```typescript
+ * networkManager.addOrUpdateCustomNetwork(await importViemChainById(8453));
+ * ```
+ */
+export async function importViemChainById(
+	chainId: number,
+	options: NetworkImportOptions = {}
+): Promise<NetworkConfig> {
+	const chain = await findViemChain(chainId);
+	if (!chain) {
+		throw new Error(`Chain ${chainId} not found in viem/chains`);
+	}
+	return viemChainToNetworkConfig(chain, options);
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { Chain } from 'viem';
+import { chainToNetworkConfig, networkConfigToChain } from './chains.js';
+import type { NetworkConfig } from '../core/types/network.js';
+
+const base: NetworkConfig = {
+	chainId: 8453,
+	name: 'Base',
+	symbol: 'ETH',
+	nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+	rpcEndpoints: [
+		{ url: 'https://rpc-a.test', isPrimary: true },
+		{ url: 'https://rpc-b.test', isPrimary: false },
+		{ url: 'https://rpc-c.test', isPrimary: false }
+	],
+	blockExplorer: 'https://basescan.org',
+	blockExplorers: { default: { name: 'Basescan', url: 'https://basescan.org' } },
+	contracts: { multicall3: { address: '0xca11bde05977b3631167028862be2a173976ca11' } },
+	testnet: false,
+	isCustom: false,
+	isBuiltIn: true,
+	createdAt: '2024-01-01T00:00:00.000Z',
+	updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('networkConfigToChain', () => {
+	it('puts the primary RPC first and keeps the config order', () => {
+		const chain = networkConfigToChain({
+			...base,
+			rpcEndpoints: [
+				{ url: 'https://rpc-b.test', isPrimary: false, isAvailable: true, latency: 10 },
+				{ url: 'https://rpc-a.test', isPrimary: true, isAvailable: false },
+				{ url: 'https://rpc-c.test', isPrimary: false, isAvailable: true, latency: 5 }
+			]
+		});
+
+		expect(chain.rpcUrls.default.http).toEqual([
+			'https://rpc-a.test',
+			'https://rpc-b.test',
+			'https://rpc-c.test'
+		]);
+	});
+
+	it('round-trips through chainToNetworkConfig', () => {
+		const config = chainToNetworkConfig(networkConfigToChain(base));
+
+		expect({ ...config, createdAt: base.createdAt, updatedAt: base.updatedAt }).toEqual(base);
+	});
+});
+
+describe('chainToNetworkConfig', () => {
+	const chain: Chain = {
+		id: 8453,
+		name: 'Base',
+		nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+		rpcUrls: {
+			default: {
+				http: ['https://rpc-a.test', 'https://rpc-b.test'],
+				webSocket: ['wss://rpc-a.test']
+			}
+		},
+		blockExplorers: {
+			default: { name: 'Basescan', url: 'https://basescan.org' },
+			blockscout: { name: 'Blockscout', url: 'https://base.blockscout.com' }
+		},
+		contracts: {
+			multicall3: { address: '0xca11bde05977b3631167028862be2a173976ca11', blockCreated: 5022 }
+		},
+		testnet: false
+	};
+
+	it('keeps explorers and contracts through a round-trip', () => {
+		const roundTripped = networkConfigToChain(chainToNetworkConfig(chain));
+
+		expect(roundTripped.blockExplorers).toEqual(chain.blockExplorers);
+		expect(roundTripped.contracts).toEqual(chain.contracts);
+		expect(roundTripped.rpcUrls.default.http).toEqual(chain.rpcUrls.default.http);
+	});
+
+	it('does not share nested objects with the source chain', () => {
+		const config = chainToNetworkConfig(chain);
+		config.blockExplorers!.default.url = 'https://changed.test';
+		config.contracts!.multicall3!.address = '0x0000000000000000000000000000000000000000';
+
+		expect(chain.blockExplorers?.default.url).toBe('https://basescan.org');
+		expect(chain.contracts?.multicall3?.address).toBe('0xca11bde05977b3631167028862be2a173976ca11');
+	});
+
+	it('only keeps the default HTTP RPCs', () => {
+		expect(chainToNetworkConfig(chain).rpcEndpoints).toEqual([
+			{ url: 'https://rpc-a.test', isPrimary: true },
+			{ url: 'https://rpc-b.test', isPrimary: false }
+		]);
+	});
+});
@@ -36,41 +36,74 @@ export function normalizeChainId(chainId: string | number | bigint): number {
 	return chainId;
 }
 
+/**
+ * 获取网络的原生代币信息
+ *
+ * 旧配置只有 symbol，此时使用 symbol 作为名称，精度为 18
+ */
+export function getNativeCurrency(config: NetworkConfig): Chain['nativeCurrency'] {
+	return (
+		config.nativeCurrency ?? {
+			name: config.symbol,
+			symbol: config.symbol,
+			decimals: 18
+		}
+	);
+}
+
+/**
+ * 主端点在前，其余端点保持配置顺序
+ */
+function getRpcUrls(endpoints: RpcEndpoint[]): string[] {
+	return [
+		...endpoints.filter((endpoint) => endpoint.isPrimary),
+		...endpoints.filter((endpoint) => !endpoint.isPrimary)
+	].map((endpoint) => endpoint.url);
+}
+
 /**
  * 将 NetworkConfig 转换为 viem Chain
+ *
+ * 与 chainToNetworkConfig 互逆：原生代币、区块浏览器、合约地址和测试网标记都会原样保留，
+ * RPC 顺序是确定的，不受健康检查结果影响
  */
 export function networkConfigToChain(config: NetworkConfig): Chain {
+	const blockExplorers =
+		config.blockExplorers ??
+		(config.blockExplorer
+			? {
+					default: {
+						name: 'Explorer',
+						url: config.blockExplorer
+					}
+				}
+			: undefined);
+
 	return {
 		id: config.chainId,
 		name: config.name,
-		nativeCurrency: {
-			name: config.symbol,
-			symbol: config.symbol,
-			decimals: 18
-		},
+		nativeCurrency: getNativeCurrency(config),
 		rpcUrls: {
+			// 主端点在前，其余按配置顺序；按健康状态排序只在 createNetworkTransport 中进行
 			default: {
-				http: config.rpcEndpoints
-					.filter((endpoint) => endpoint.isPrimary)
-					.map((endpoint) => endpoint.url)
+				http: getRpcUrls(config.rpcEndpoints)
 			},
 			public: {
 				http: config.rpcEndpoints.map((endpoint) => endpoint.url)
 			}
 		},
-		blockExplorers: config.blockExplorer
-			? {
-					default: {
-						name: 'Explorer',
-						url: config.blockExplorer
-					}
-				}
-			: undefined
+		blockExplorers: blockExplorers && structuredClone(blockExplorers),
+		contracts: config.contracts && structuredClone(config.contracts),
+		testnet: config.testnet
 	};
 }
 
 /**
  * 将 viem Chain 转换为 NetworkConfig
+ *
+ * 区块浏览器和合约地址会深拷贝，修改结果不会影响传入的链。
+ * 只保留 `rpcUrls.default.http`，WebSocket 及其他 rpcUrls 条目不会写入配置，
+ * 因此转换并非无损；createdAt/updatedAt 取转换时的时间
  */
 export function chainToNetworkConfig(chain: Chain, isCustom = false): NetworkConfig {
 	const rpcUrls = chain.rpcUrls.default.http;
@@ -83,8 +116,12 @@ export function chainToNetworkConfig(chain: Chain, isCustom = false): NetworkCon
 		chainId: chain.id,
 		name: chain.name,
 		symbol: chain.nativeCurrency.symbol,
+		nativeCurrency: { ...chain.nativeCurrency },
 		rpcEndpoints,
 		blockExplorer: chain.blockExplorers?.default?.url,
+		blockExplorers: chain.blockExplorers && structuredClone(chain.blockExplorers),
+		contracts: chain.contracts && structuredClone(chain.contracts),
+		testnet: chain.testnet,
 		isCustom,
 		isBuiltIn: !isCustom,
 		createdAt: new Date().toISOString(),
@@ -9,6 +9,15 @@ export {
 	formatChainName,
 	normalizeChainId,
 	networkConfigToChain,
-	chainToNetworkConfig
+	chainToNetworkConfig,
+	getNativeCurrency
 } from './chains.js';
+export {
+	chainlistToNetworkConfig,
+	networkConfigToChainlist,
+	viemChainToNetworkConfig,
+	findViemChain,
+	importViemChainById
+} from './chainlist.js';
 export { formatAddress, isAddress } from './format.js';
+export { toMessageHex, toTypedDataJson } from './signing.js';
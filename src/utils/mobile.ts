@@ -1,3 +1,5 @@
+import { silentLogger, type Logger } from '../core/logger.js';
+
 /**
  * 移动设备检测工具
  */
@@ -318,9 +320,13 @@ export function generateDeepLink(uri: string, walletId?: string): string {
 /**
  * 打开钱包深度链接
  */
-export function openWalletDeepLink(uri: string, walletId?: string): void {
+export function openWalletDeepLink(
+	uri: string,
+	walletId?: string,
+	logger: Logger = silentLogger
+): void {
 	if (!isMobile()) {
-		console.warn('Deep links are only supported on mobile devices');
+		logger.warn('Deep links are only supported on mobile devices');
 		return;
 	}
 
@@ -333,7 +339,7 @@ export function openWalletDeepLink(uri: string, walletId?: string): void {
 	setTimeout(() => {
 		// 如果用户还在页面上，说明深度链接可能失败了
 		// 可以显示一个手动选择钱包的列表
-		console.log('Deep link might have failed, showing fallback options');
+		logger.debug('Deep link might have failed, showing fallback options');
 	}, 3000);
 }
 
@@ -0,0 +1,38 @@
+import {
+	getTypesForEIP712Domain,
+	serializeTypedData,
+	stringToHex,
+	toHex,
+	validateTypedData,
+	type Hex,
+	type SignableMessage,
+	type TypedDataDefinition
+} from 'viem';
+
+/**
+ * 将待签名消息转换为 personal_sign 需要的十六进制
+ *
+ * 字符串按 UTF-8 编码；{ raw } 按原始字节
+ */
+export function toMessageHex(message: SignableMessage): Hex {
+	if (typeof message === 'string') {
+		return stringToHex(message);
+	}
+	return typeof message.raw === 'string' ? message.raw : toHex(message.raw);
+}
+
+/**
+ * 将类型化数据序列化为 eth_signTypedData_v4 需要的 JSON
+ *
+ * 自动补全 EIP712Domain 类型，并在发送给钱包前校验数据
+ */
+export function toTypedDataJson(typedData: TypedDataDefinition): string {
+	const { domain, message, primaryType } = typedData;
+	const types = {
+		EIP712Domain: getTypesForEIP712Domain({ domain }),
+		...typedData.types
+	};
+
+	validateTypedData({ domain, message, primaryType, types });
+	return serializeTypedData({ domain, message, primaryType, types });
+}
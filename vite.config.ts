@@ -6,15 +6,20 @@ export default defineConfig({
 	plugins: [
 		dts({
 			include: ['src'],
+			exclude: ['src/**/*.test.ts'],
 			rollupTypes: true
 		})
 	],
 	build: {
 		lib: {
-			entry: resolve(__dirname, 'src/index.ts'),
+			entry: {
+				index: resolve(__dirname, 'src/index.ts'),
+				// 测试工具单独作为入口，避免进入主包
+				testing: resolve(__dirname, 'src/testing/index.ts')
+			},
 			name: 'EthereumConnectors',
 			formats: ['es', 'cjs'],
-			fileName: (format) => `index.${format === 'es' ? 'js' : 'cjs'}`
+			fileName: (format, entryName) => `${entryName}.${format === 'es' ? 'js' : 'cjs'}`
 		},
 		minify: false, // 禁用压缩，保持代码可读性
 		rollupOptions: {
@@ -26,7 +31,9 @@ export default defineConfig({
 				'@base-org/account',
 				/^@walletconnect\//,
 				/^@coinbase\//,
-				/^@metamask\//
+				/^@metamask\//,
+				/^@noble\//,
+				/^@scure\//
 			],
 			output: {
 				// 保留模块结构，每个源文件生成对应的输出文件